@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { DragEvent } from 'react';
 import { Provider } from 'react-redux';
 import { PersistGate } from 'redux-persist/integration/react';
@@ -7,6 +7,7 @@ import { useAppDispatch, useAppSelector } from './store/hooks';
 import {
   setConnectionState,
   setWorkers,
+  updateWorkerStatus,
   addWorker,
   setAgents,
   setTenants,
@@ -29,23 +30,44 @@ import {
   closeDialog,
   setShowChangePasswordModal,
   setShowSubscriptionModal,
+  setShowAccessTokensModal,
   toggleMobileSidebar,
+  setDetailWorker,
+  setPlayingRecording,
+  setSharingSession,
+  setDownloadingSession,
+  setEditingFile,
+  setSessionControl,
+  setWorkerMetrics,
+  pushWorkerMetrics,
 } from './store';
 import type { Worker } from './store/slices/workersSlice';
-import type { StoredSession, ServerSession } from './store/slices/sessionsSlice';
+import type { StoredSession, ServerSession, SessionViewer } from './store/slices/sessionsSlice';
+import type { SessionControl, WorkerMetrics } from './store/slices/connectionSlice';
 
 import { TopBar } from './components/Layout/TopBar';
 import { Sidebar } from './components/Layout/Sidebar/Sidebar';
 import { TerminalGrid } from './components/Terminal/TerminalGrid';
 import { MobileKeyBar } from './components/Terminal/MobileKeyBar';
+import { ControlBar } from './components/Terminal/ControlBar';
+import { FileTransfers } from './components/Terminal/FileTransfers';
+import { useFileTransfers, useIdlePresence } from './hooks';
 import { LoginPage } from './components/Auth/LoginPage';
 import { DialogModal } from './components/Dialogs/DialogModal';
 import { RenameSessionModal } from './components/RenameSessionModal';
+import { DownloadFileModal } from './components/DownloadFileModal';
+import { FileEditor } from './components/FileEditor';
 import { ShareModal } from './components/ShareModal';
+import { WorkerDetailModal } from './components/WorkerDetailModal';
+import { RecordingPlayer } from './components/RecordingPlayer';
+import { SessionShareModal } from './components/SessionShareModal';
 import { InstallWorkerModal } from './components/InstallWorkerModal';
 import { ChangePasswordModal } from './components/ChangePasswordModal';
 import { SubscriptionModal } from './components/SubscriptionModal';
+import { AccessTokensModal } from './components/AccessTokensModal';
 import { PaymentReturn } from './components/PaymentReturn';
+import { SpectatorView } from './components/SpectatorView';
+import { workerSupports } from './lib/workerCapabilities';
 import { Toast } from './components/Layout/Toast';
 import { JoinWorkerModal } from './components/JoinWorkerModal';
 
@@ -53,6 +75,11 @@ import { Terminal } from '@xterm/xterm';
 import { FitAddon } from '@xterm/addon-fit';
 import { ClipboardAddon } from '@xterm/addon-clipboard';
 import { io, Socket } from 'socket.io-client';
+import { shellQuote } from './lib/remoteFiles';
+import { findPathLinks } from './lib/terminalPaths';
+import { SESSION_SHARE_PARAM, SPECTATOR_PATH, type RedeemedSessionShare } from './lib/sessionShare';
+import { OUTPUT_ENCODING, SessionTextDecoders, concatBytes, toTerminalBytes } from './lib/terminalBytes';
+import { fanOutSyncInput, syncInputTargets, type SyncInputTarget } from './lib/syncInput';
 import '@xterm/xterm/css/xterm.css';
 import './App.css';
 
@@ -75,6 +102,13 @@ export interface TerminalInstance {
   resizeHandler: () => void;
 }
 
+/** `get-session-output` reply when called with `sinceSeq`. */
+interface SessionOutputSince {
+  data: string | Uint8Array | ArrayBuffer;
+  seq: number;
+  reset: boolean;
+}
+
 interface BeforeInstallPromptEvent extends Event {
   prompt: () => Promise<void>;
   userChoice: Promise<{ outcome: 'accepted' | 'dismissed'; platform: string }>;
@@ -86,15 +120,43 @@ function AppContent() {
   const sessions = useAppSelector((state) => state.sessions.sessions);
   const activeSessionId = useAppSelector((state) => state.sessions.activeSessionId);
   const sessionOutput = useAppSelector((state) => state.sessions.sessionOutput);
+  const syncInputSessionIds = useAppSelector((state) => state.sessions.syncInputSessionIds);
   const workers = useAppSelector((state) => state.workers.workers);
   const serverSessions = useAppSelector((state) => state.sessions.serverSessions);
   const connectionState = useAppSelector((state) => state.connection.connectionState);
+  const sessionControl = useAppSelector((state) => state.connection.sessionControl);
   const renamingSessionId = useAppSelector((state) => state.ui.renamingSessionId);
   const shareModalWorker = useAppSelector((state) => state.ui.shareModalWorker);
+  const detailWorker = useAppSelector((state) => state.ui.detailWorker);
+  const playingRecording = useAppSelector((state) => state.ui.playingRecording);
+  const sharingSession = useAppSelector((state) => state.ui.sharingSession);
+  const downloadingSession = useAppSelector((state) => state.ui.downloadingSession);
+  const editingFile = useAppSelector((state) => state.ui.editingFile);
+  const { download: downloadSessionFile } = useFileTransfers();
   const showWorkerModal = useAppSelector((state) => state.ui.showWorkerModal);
   const editingWorker = useAppSelector((state) => state.ui.editingWorker);
   const showChangePasswordModal = useAppSelector((state) => state.ui.showChangePasswordModal);
   const showSubscriptionModal = useAppSelector((state) => state.ui.showSubscriptionModal);
+  const showAccessTokensModal = useAppSelector((state) => state.ui.showAccessTokensModal);
+
+  // Workers alcanzables solo por un enlace de sesión no vienen en `workers`:
+  // se sintetizan desde el listado de sesiones para poder abrirlas.
+  const reachableWorkers = useMemo(() => {
+    const known = new Set(workers.map((worker) => worker.id));
+    const granted = new Map<string, Worker>();
+    serverSessions.forEach((session) => {
+      if (!session.grant || known.has(session.workerId)) return;
+      if (granted.get(session.workerId)?.permission === 'control') return;
+      granted.set(session.workerId, {
+        id: session.workerId,
+        socketId: '',
+        name: session.workerName,
+        status: 'online',
+        permission: session.grant,
+      });
+    });
+    return granted.size > 0 ? [...workers, ...granted.values()] : workers;
+  }, [workers, serverSessions]);
 
   const [notification, setNotification] = useState<{ title: string; message: string } | null>(null);
   const [showJoinModal, setShowJoinModal] = useState(false);
@@ -108,6 +170,7 @@ function AppContent() {
 
   const [installPrompt, setInstallPrompt] = useState<BeforeInstallPromptEvent | null>(null);
   const [instancesVersion, setInstancesVersion] = useState(0);
+  const [sessionResyncVersion, setSessionResyncVersion] = useState(0);
   const [isMobile, setIsMobile] = useState(() => window.innerWidth <= 1100);
 
   const terminalContainerRef = useRef<HTMLDivElement>(null);
@@ -121,10 +184,29 @@ function AppContent() {
   const outputBufferRef = useRef<Record<string, string>>({});
   const outputFlushTimerRef = useRef<number | null>(null);
   const outputPersistTimerRef = useRef<number | null>(null);
-  const terminalWriteBufferRef = useRef<Record<string, string>>({});
+  // xterm recibe los bytes tal cual; la caché de texto sale de un decoder por sesión.
+  const terminalWriteBufferRef = useRef<Record<string, Uint8Array[]>>({});
+  const textDecodersRef = useRef(new SessionTextDecoders());
+  // Bytes recibidos por sesión pendientes de confirmar a Nexus (flow control).
+  const outputAckRef = useRef<Record<string, { workerId: string; bytes: number }>>({});
   const terminalWriteTimerRef = useRef<number | null>(null);
   const inputBufferRef = useRef<Record<string, { workerId: string; data: string }>>({});
   const inputFlushTimerRef = useRef<number | null>(null);
+  // Last output seq written per session, and live chunks held back while a
+  // `get-session-output` resync for that session is in flight.
+  const sessionSeqRef = useRef<Record<string, number>>({});
+  const resyncingSessionIdsRef = useRef<Set<string>>(new Set());
+  const heldOutputRef = useRef<Record<string, Array<{ seq: number; data: Uint8Array }>>>({});
+  // Workers compartidos en modo 'view': sus terminales solo observan.
+  const readOnlyWorkerIdsRef = useRef<Set<string>>(new Set());
+  // Workers cuyos archivos puede abrir este usuario (control + capability 'files').
+  const fileWorkerIdsRef = useRef<Set<string>>(new Set());
+  // Sesiones en las que otro socket tiene el asiento de control.
+  const lockedSessionIdsRef = useRef<Set<string>>(new Set());
+  // Paneles con entrada sincronizada en los que se puede escribir (ver TerminalGrid).
+  const syncInputTargetsRef = useRef<SyncInputTarget[]>([]);
+  // Sesiones canjeadas por enlace que aún no aparecen en el listado del server.
+  const redeemedSessionKeysRef = useRef<Set<string>>(new Set());
 
   const normalizeWorkerKey = useCallback((name: string) => name.trim().toLowerCase(), []);
   const getAdaptiveFontSize = useCallback(() => (window.innerWidth <= 960 ? 13 : 14), []);
@@ -143,7 +225,7 @@ function AppContent() {
   const handleMobileKey = useCallback((data: string) => {
     if (!activeSessionId || !socketRef.current) return;
     const session = sessions.find((s) => s.id === activeSessionId);
-    if (!session) return;
+    if (!session || readOnlyWorkerIdsRef.current.has(session.workerId) || lockedSessionIdsRef.current.has(session.id)) return;
     socketRef.current.emit('execute', {
       workerId: session.workerId,
       sessionId: session.id,
@@ -151,6 +233,24 @@ function AppContent() {
     });
   }, [activeSessionId, sessions]);
 
+  // File browser: `cd` into a folder in the active session, as if typed.
+  const handleOpenInTerminal = useCallback((path: string) => {
+    const session = sessions.find((s) => s.id === activeSessionId);
+    if (!session || !socketRef.current) return;
+    if (readOnlyWorkerIdsRef.current.has(session.workerId) || lockedSessionIdsRef.current.has(session.id)) return;
+    socketRef.current.emit('execute', {
+      workerId: session.workerId,
+      sessionId: session.id,
+      command: `cd -- ${shellQuote(path)}\r`,
+    });
+    terminalInstancesRef.current.get(session.id)?.terminal.focus();
+  }, [activeSessionId, sessions]);
+
+  const reportIdle = useCallback((idle: boolean) => {
+    socketRef.current?.emit('presence-idle', { idle });
+  }, []);
+  useIdlePresence(connectionState === 'connected', reportIdle);
+
   useEffect(() => {
     sessionOutputRef.current = sessionOutput;
   }, [sessionOutput]);
@@ -159,6 +259,35 @@ function AppContent() {
     sessionsRef.current = sessions;
   }, [sessions]);
 
+  useEffect(() => {
+    readOnlyWorkerIdsRef.current = new Set(
+      reachableWorkers.filter((worker) => worker.permission === 'view').map((worker) => worker.id)
+    );
+    fileWorkerIdsRef.current = new Set(
+      reachableWorkers
+        .filter((worker) => worker.permission !== 'view' && workerSupports(worker, 'files'))
+        .map((worker) => worker.id)
+    );
+    lockedSessionIdsRef.current = new Set(
+      Object.values(sessionControl).filter((control) => control.driver && !control.isDriver).map((control) => control.sessionId)
+    );
+    // El permiso y el asiento pueden cambiar con la terminal abierta.
+    terminalInstancesRef.current.forEach((instance, sessionId) => {
+      instance.terminal.options.disableStdin = readOnlyWorkerIdsRef.current.has(instance.workerId)
+        || lockedSessionIdsRef.current.has(sessionId);
+    });
+  }, [reachableWorkers, sessionControl]);
+
+  // Después del efecto anterior: usa los permisos y asientos ya actualizados.
+  useEffect(() => {
+    syncInputTargetsRef.current = syncInputTargets(
+      syncInputSessionIds,
+      sessions,
+      readOnlyWorkerIdsRef.current,
+      lockedSessionIdsRef.current
+    );
+  }, [syncInputSessionIds, sessions, reachableWorkers, sessionControl]);
+
   useEffect(() => {
     if (outputPersistTimerRef.current) {
       window.clearTimeout(outputPersistTimerRef.current);
@@ -192,16 +321,35 @@ function AppContent() {
   const flushTerminalWriteBuffer = useCallback(() => {
     const pending = terminalWriteBufferRef.current;
     terminalWriteBufferRef.current = {};
-    const entries = Object.entries(pending);
-    if (entries.length === 0) return;
-    entries.forEach(([sessionId, chunk]) => {
+    const acks = outputAckRef.current;
+    outputAckRef.current = {};
+    const ack = (sessionId: string) => {
+      const entry = acks[sessionId];
+      if (entry) socketRef.current?.emit('output-ack', { workerId: entry.workerId, sessionId, bytes: entry.bytes });
+    };
+    const written = new Set<string>();
+    Object.entries(pending).forEach(([sessionId, chunks]) => {
       const instance = terminalInstancesRef.current.get(sessionId);
       if (instance) {
-        instance.terminal.write(chunk);
+        // Se confirma cuando xterm termina de procesarlo, no al recibirlo.
+        instance.terminal.write(concatBytes(chunks), () => ack(sessionId));
+        written.add(sessionId);
       }
     });
+    // Lo que no pasó por xterm (sin terminal abierta, duplicado) se confirma ya.
+    Object.keys(acks).forEach((sessionId) => {
+      if (!written.has(sessionId)) ack(sessionId);
+    });
   }, []);
 
+  const scheduleTerminalFlush = useCallback(() => {
+    if (terminalWriteTimerRef.current !== null) return;
+    terminalWriteTimerRef.current = window.setTimeout(() => {
+      terminalWriteTimerRef.current = null;
+      flushTerminalWriteBuffer();
+    }, TERMINAL_WRITE_FLUSH_MS);
+  }, [flushTerminalWriteBuffer]);
+
   const queueOutput = useCallback((sessionId: string, chunk: string) => {
     if (!chunk) return;
     outputBufferRef.current[sessionId] = (outputBufferRef.current[sessionId] || '') + chunk;
@@ -212,15 +360,34 @@ function AppContent() {
     }, OUTPUT_FLUSH_MS);
   }, [flushOutputBuffer]);
 
-  const queueTerminalWrite = useCallback((sessionId: string, chunk: string) => {
-    if (!chunk) return;
-    terminalWriteBufferRef.current[sessionId] = (terminalWriteBufferRef.current[sessionId] || '') + chunk;
-    if (terminalWriteTimerRef.current !== null) return;
-    terminalWriteTimerRef.current = window.setTimeout(() => {
-      terminalWriteTimerRef.current = null;
-      flushTerminalWriteBuffer();
-    }, TERMINAL_WRITE_FLUSH_MS);
-  }, [flushTerminalWriteBuffer]);
+  const queueTerminalWrite = useCallback((sessionId: string, chunk: Uint8Array) => {
+    if (chunk.length === 0) return;
+    (terminalWriteBufferRef.current[sessionId] ||= []).push(chunk);
+    scheduleTerminalFlush();
+  }, [scheduleTerminalFlush]);
+
+  const noteOutputAck = useCallback((sessionId: string, workerId: string, bytes: number) => {
+    const entry = (outputAckRef.current[sessionId] ||= { workerId, bytes: 0 });
+    entry.bytes += bytes;
+    scheduleTerminalFlush();
+  }, [scheduleTerminalFlush]);
+
+  const applySessionOutput = useCallback((sessionId: string, workerId: string, chunk: Uint8Array) => {
+    const instance = terminalInstancesRef.current.get(sessionId);
+    if (instance?.workerId === workerId) {
+      queueTerminalWrite(sessionId, chunk);
+    }
+    if (sessionsRef.current.some((s) => s.id === sessionId && s.workerId === workerId)) {
+      queueOutput(sessionId, textDecodersRef.current.decode(sessionId, chunk));
+    }
+  }, [queueOutput, queueTerminalWrite]);
+
+  const forgetSessionSeq = useCallback((sessionId: string) => {
+    delete sessionSeqRef.current[sessionId];
+    delete heldOutputRef.current[sessionId];
+    resyncingSessionIdsRef.current.delete(sessionId);
+    textDecodersRef.current.reset(sessionId);
+  }, []);
 
   const flushInputBuffer = useCallback(() => {
     const pending = inputBufferRef.current;
@@ -260,7 +427,12 @@ function AppContent() {
     closedSessionIdsRef.current.clear();
     outputBufferRef.current = {};
     terminalWriteBufferRef.current = {};
+    outputAckRef.current = {};
     inputBufferRef.current = {};
+    sessionSeqRef.current = {};
+    heldOutputRef.current = {};
+    resyncingSessionIdsRef.current.clear();
+    textDecodersRef.current.clear();
     if (outputFlushTimerRef.current !== null) {
       window.clearTimeout(outputFlushTimerRef.current);
       outputFlushTimerRef.current = null;
@@ -327,6 +499,7 @@ function AppContent() {
       allowTransparency: true,
       scrollback: 5000,
       theme: { background: '#0d0d0d', foreground: '#e7e7e7' },
+      disableStdin: readOnlyWorkerIdsRef.current.has(worker.id) || lockedSessionIdsRef.current.has(sessionId),
     });
 
     const fitAddon = new FitAddon();
@@ -336,6 +509,25 @@ function AppContent() {
     term.open(container);
     fitAddon.fit();
 
+    // Rutas en el output: clic para abrirlas en el editor. Las columnas salen
+    // del texto de la línea, así que con caracteres anchos pueden desplazarse.
+    term.registerLinkProvider({
+      provideLinks: (y, callback) => {
+        if (!fileWorkerIdsRef.current.has(worker.id)) {
+          callback(undefined);
+          return;
+        }
+        const line = term.buffer.active.getLine(y - 1)?.translateToString(true) ?? '';
+        const links = findPathLinks(line).map((match) => ({
+          range: { start: { x: match.start + 1, y }, end: { x: match.start + match.text.length, y } },
+          text: match.text,
+          decorations: { underline: true, pointerCursor: true },
+          activate: () => dispatch(setEditingFile({ workerId: worker.id, sessionId, path: match.path })),
+        }));
+        callback(links.length > 0 ? links : undefined);
+      },
+    });
+
     container.addEventListener('mousedown', () => {
       dispatch(setActiveSession(sessionId));
       setTimeout(() => term.focus(), 0);
@@ -386,7 +578,10 @@ function AppContent() {
     container.addEventListener('touchcancel', onTouchEnd, { passive: true });
 
     term.onData((data) => {
+      if (readOnlyWorkerIdsRef.current.has(worker.id) || lockedSessionIdsRef.current.has(sessionId)) return;
       queueInput(sessionId, worker.id, data);
+      // Entrada sincronizada: se replica por el mismo `execute`, así Nexus revisa el acceso a cada worker.
+      fanOutSyncInput(sessionId, data, syncInputTargetsRef.current, queueInput);
     });
 
     const handleResize = () => {
@@ -394,6 +589,8 @@ function AppContent() {
       if (!isVisible) return;
       term.options.fontSize = getAdaptiveFontSize();
       fitAddon.fit();
+      // Un observador no redimensiona el PTY del resto.
+      if (readOnlyWorkerIdsRef.current.has(worker.id)) return;
       if (socketRef.current && term.cols > 0 && term.rows > 0) {
         socketRef.current.emit('resize', { workerId: worker.id, sessionId, cols: term.cols, rows: term.rows });
       }
@@ -466,12 +663,38 @@ function AppContent() {
     }
     pendingSessionIdsRef.current.delete(sessionId);
     joinedSessionIdsRef.current.delete(sessionId);
+    forgetSessionSeq(sessionId);
     delete outputBufferRef.current[sessionId];
     delete terminalWriteBufferRef.current[sessionId];
     delete inputBufferRef.current[sessionId];
     if (workerId) socketRef.current?.emit('close-session', { workerId, sessionId });
     dispatch(removeSession(sessionId));
-  }, [dispatch, bumpInstancesVersion, sessions]);
+  }, [dispatch, bumpInstancesVersion, forgetSessionSeq, sessions]);
+
+  const handleToggleRecording = useCallback((sessionId: string) => {
+    const session = sessions.find((s) => s.id === sessionId);
+    if (!session) return;
+    const recording = serverSessions.some((s) => s.id === sessionId && s.workerId === session.workerId && s.recording);
+    socketRef.current?.emit(
+      recording ? 'stop-recording' : 'start-recording',
+      { workerId: session.workerId, sessionId },
+      (result: { recordingId?: string; error?: string }) => {
+        if (result?.error) {
+          setNotification({ title: 'Grabación', message: result.error });
+        }
+      }
+    );
+  }, [sessions, serverSessions]);
+
+  const handleAddRecordingMarker = useCallback((sessionId: string) => {
+    const session = sessions.find((s) => s.id === sessionId);
+    if (!session) return;
+    socketRef.current?.emit('add-recording-marker', {
+      workerId: session.workerId,
+      sessionId,
+      label: `Marcador ${new Date().toLocaleTimeString()}`,
+    });
+  }, [sessions]);
 
   // Select worker and create/focus session
   const handleSelectWorker = useCallback((workerId: string) => {
@@ -501,13 +724,15 @@ function AppContent() {
       return;
     }
 
+    // Un observador solo puede unirse a sesiones existentes.
+    if (worker.permission === 'view') return;
     createNewSession(worker);
   }, [workers, sessions, serverSessions, dispatch, normalizeWorkerKey, createNewSession]);
 
   // Create new session on worker
   const handleNewSession = useCallback((workerId: string) => {
     const worker = workers.find((w) => w.id === workerId);
-    if (worker) {
+    if (worker && worker.permission !== 'view' && workerSupports(worker, 'shell')) {
       createNewSession(worker);
     }
   }, [workers, createNewSession]);
@@ -590,7 +815,8 @@ function AppContent() {
   // Resume session
   const handleResume = useCallback(() => {
     const session = sessions.find((s) => s.id === activeSessionId);
-    if (!session || !socketRef.current) return;
+    if (!session || !socketRef.current || readOnlyWorkerIdsRef.current.has(session.workerId)) return;
+    if (lockedSessionIdsRef.current.has(session.id)) return;
 
     const instance = terminalInstancesRef.current.get(session.id);
     if (instance) {
@@ -605,6 +831,18 @@ function AppContent() {
     socketRef.current.emit('execute', { workerId: session.workerId, sessionId: session.id, command: '\n' });
   }, [sessions, activeSessionId]);
 
+  const activeControl = activeSessionId ? sessionControl[activeSessionId] : undefined;
+
+  // Asiento de control: request / grant / deny / release sobre la sesión activa.
+  const emitControl = useCallback((event: string, socketId?: string) => {
+    if (!activeControl) return;
+    socketRef.current?.emit(event, {
+      workerId: activeControl.workerId,
+      sessionId: activeControl.sessionId,
+      ...(socketId ? { socketId } : {}),
+    });
+  }, [activeControl]);
+
   // Fullscreen
   const handleFullscreen = useCallback(async () => {
     const target = terminalContainerRef.current || document.documentElement;
@@ -677,7 +915,7 @@ function AppContent() {
         refreshTenants();
 
         const socket = io(NEXUS_URL, {
-          auth: { token, type: 'client' },
+          auth: { token, type: 'client', encoding: OUTPUT_ENCODING, flowControl: true },
           reconnection: true,
           reconnectionAttempts: Infinity,
           reconnectionDelay: 1000,
@@ -689,22 +927,38 @@ function AppContent() {
 
         socket.on('connect', () => dispatch(setConnectionState('connected')));
         socket.on('reconnect', () => dispatch(setConnectionState('connected')));
-        socket.on('disconnect', () => dispatch(setConnectionState('disconnected')));
+        socket.on('disconnect', () => {
+          // Unanswered resyncs are retried on rejoin; drop what they held back.
+          resyncingSessionIdsRef.current.clear();
+          heldOutputRef.current = {};
+          dispatch(setConnectionState('disconnected'));
+        });
         socket.on('workers', (list: Worker[]) => dispatch(setWorkers(list)));
+        socket.on('worker-metrics-history', (history: Record<string, WorkerMetrics[]>) => {
+          dispatch(setWorkerMetrics(history || {}));
+        });
+        socket.on('worker-metrics', (data: { workerId: string; metrics: WorkerMetrics }) => {
+          dispatch(pushWorkerMetrics(data));
+        });
 
         socket.on('session-list', (serverSessions: ServerSession[]) => {
           dispatch(setServerSessions(serverSessions || []));
         });
 
-        socket.on('output', (data: { workerId: string; sessionId?: string; data: string }) => {
+        socket.on('output', (data: { workerId: string; sessionId?: string; data: Uint8Array | ArrayBuffer | string; seq?: number }) => {
+          const bytes = toTerminalBytes(data.data);
           if (data.sessionId) {
-            const instance = terminalInstancesRef.current.get(data.sessionId);
-            if (instance?.workerId === data.workerId) {
-              queueTerminalWrite(data.sessionId, data.data);
-            }
-            if (sessionsRef.current.some((s) => s.id === data.sessionId && s.workerId === data.workerId)) {
-              queueOutput(data.sessionId, data.data);
+            noteOutputAck(data.sessionId, data.workerId, bytes.length);
+            if (typeof data.seq === 'number') {
+              if (resyncingSessionIdsRef.current.has(data.sessionId)) {
+                (heldOutputRef.current[data.sessionId] ||= []).push({ seq: data.seq, data: bytes });
+                return;
+              }
+              const lastSeq = sessionSeqRef.current[data.sessionId];
+              if (lastSeq !== undefined && data.seq <= lastSeq) return;
+              sessionSeqRef.current[data.sessionId] = data.seq;
             }
+            applySessionOutput(data.sessionId, data.workerId, bytes);
             return;
           }
 
@@ -712,9 +966,9 @@ function AppContent() {
           targetSessions.forEach((session) => {
             const instance = terminalInstancesRef.current.get(session.id);
             if (instance) {
-              queueTerminalWrite(session.id, data.data);
+              queueTerminalWrite(session.id, bytes);
             }
-            queueOutput(session.id, data.data);
+            queueOutput(session.id, textDecodersRef.current.decode(session.id, bytes));
           });
         });
 
@@ -745,6 +999,26 @@ function AppContent() {
           });
         });
 
+        socket.on('control-state', (control: SessionControl) => dispatch(setSessionControl(control)));
+
+        socket.on('session-presence', (data: { sessionId: string; workerId: string; event: 'join' | 'leave'; viewer: SessionViewer }) => {
+          const session = sessionsRef.current.find((s) => s.id === data.sessionId && s.workerId === data.workerId);
+          if (!session) return;
+          setNotification({
+            title: data.event === 'join' ? 'Alguien se unió' : 'Alguien salió',
+            message: data.event === 'join'
+              ? `${data.viewer.username} está mirando "${session.displayName}"${data.viewer.permission === 'view' ? ' (solo ver)' : ''}.`
+              : `${data.viewer.username} dejó "${session.displayName}".`,
+          });
+        });
+
+        socket.on('control-denied', () => {
+          setNotification({
+            title: 'Control de sesión',
+            message: 'Quien conduce la sesión rechazó tu solicitud de control.',
+          });
+        });
+
         socket.on('plan-limit', (data: { code: string; message: string; current: number; max: number }) => {
           setNotification({
             title: 'Límite de plan',
@@ -752,6 +1026,25 @@ function AppContent() {
           });
         });
 
+        socket.on('session-restored', (data: { sessionId: string; workerId: string }) => {
+          // The worker re-announced a live PTY: mark it online and replay the
+          // output missed while Nexus or the worker were unreachable.
+          const currentSession = sessionsRef.current.find((session) => session.id === data.sessionId);
+          if (!currentSession || currentSession.workerId !== data.workerId) return;
+          dispatch(updateWorkerStatus({ id: data.workerId, status: 'online' }));
+          joinedSessionIdsRef.current.delete(data.sessionId);
+          setSessionResyncVersion((value) => value + 1);
+        });
+
+        // Nexus dropped output queued for this tab because it fell too far
+        // behind: fetch what was missed (or redraw) like after a restore.
+        socket.on('output-resync', (data: { sessionId: string; workerId: string; disconnect?: boolean }) => {
+          if (data.disconnect) socket.once('disconnect', () => socket.connect());
+          if (!sessionsRef.current.some((session) => session.id === data.sessionId && session.workerId === data.workerId)) return;
+          joinedSessionIdsRef.current.delete(data.sessionId);
+          setSessionResyncVersion((value) => value + 1);
+        });
+
         socket.on('session-closed', (data: { sessionId: string; workerId: string }) => {
           // A session was closed (possibly from another device)
           const currentSession = sessionsRef.current.find((session) => session.id === data.sessionId);
@@ -769,6 +1062,7 @@ function AppContent() {
           }
           pendingSessionIdsRef.current.delete(data.sessionId);
           joinedSessionIdsRef.current.delete(data.sessionId);
+          forgetSessionSeq(data.sessionId);
           delete outputBufferRef.current[data.sessionId];
           delete terminalWriteBufferRef.current[data.sessionId];
           delete inputBufferRef.current[data.sessionId];
@@ -781,7 +1075,7 @@ function AppContent() {
       });
 
     return () => { socketRef.current?.disconnect(); };
-  }, [token, dispatch, queueOutput, queueTerminalWrite, refreshAgents, refreshTenants, bumpInstancesVersion]);
+  }, [token, dispatch, queueOutput, queueTerminalWrite, applySessionOutput, noteOutputAck, forgetSessionSeq, refreshAgents, refreshTenants, bumpInstancesVersion]);
 
   useEffect(() => {
     if (!token) {
@@ -804,7 +1098,7 @@ function AppContent() {
     if (!socket) return;
 
     sessions.forEach((session) => {
-      const worker = workers.find((w) =>
+      const worker = reachableWorkers.find((w) =>
         w.id === session.workerId || normalizeWorkerKey(w.name) === session.workerKey
       );
       if (!worker) return;
@@ -833,17 +1127,88 @@ function AppContent() {
       joinedSessionIdsRef.current.add(session.id);
 
       const cachedOutput = sessionOutputRef.current[session.id] || '';
-      socket.emit('get-session-output', { workerId: session.workerId, sessionId: session.id }, (output: string) => {
-        if (!output) return;
-        if (output === cachedOutput) return;
+      const knownSeq = sessionSeqRef.current[session.id];
+      resyncingSessionIdsRef.current.add(session.id);
+      socket.emit('get-session-output', {
+        workerId: session.workerId,
+        sessionId: session.id,
+        sinceSeq: knownSeq ?? 0,
+      }, (response: SessionOutputSince | string) => {
+        resyncingSessionIdsRef.current.delete(session.id);
+        const held = heldOutputRef.current[session.id] || [];
+        delete heldOutputRef.current[session.id];
         const instance = terminalInstancesRef.current.get(session.id);
-        if (!instance) return;
-        instance.terminal.reset();
-        instance.terminal.write(output);
-        dispatch(setSessionOutput({ sessionId: session.id, output }));
+
+        // Nexus without seq support answers with the whole buffer.
+        const reply: SessionOutputSince = typeof response === 'string'
+          ? { data: response, seq: 0, reset: true }
+          : response;
+        const replyBytes = toTerminalBytes(reply.data);
+        if (knownSeq === undefined || reply.reset) {
+          // Nothing to resume from: redraw the whole buffer unless the cached
+          // output already matches it. The text cache restarts with it.
+          textDecodersRef.current.reset(session.id);
+          const replyText = textDecodersRef.current.decode(session.id, replyBytes);
+          if (replyBytes.length > 0 && replyText !== cachedOutput && instance) {
+            delete terminalWriteBufferRef.current[session.id];
+            instance.terminal.reset();
+            instance.terminal.write(replyBytes);
+            dispatch(setSessionOutput({ sessionId: session.id, output: replyText }));
+          }
+        } else if (replyBytes.length > 0) {
+          applySessionOutput(session.id, session.workerId, replyBytes);
+        }
+
+        let lastSeq = reply.seq;
+        held.forEach((chunk) => {
+          if (typeof response !== 'string' && chunk.seq <= lastSeq) return;
+          applySessionOutput(session.id, session.workerId, chunk.data);
+          lastSeq = Math.max(lastSeq, chunk.seq);
+        });
+        if (typeof response !== 'string') {
+          sessionSeqRef.current[session.id] = lastSeq;
+        }
       });
     });
-  }, [token, connectionState, sessions, workers, createNewSession, dispatch, normalizeWorkerKey]);
+  }, [token, connectionState, sessions, reachableWorkers, sessionResyncVersion, createNewSession, applySessionOutput, dispatch, normalizeWorkerKey]);
+
+  // Enlace de sesión compartida (?share=<token>): se canjea tras iniciar sesión.
+  useEffect(() => {
+    if (!token) return;
+    const params = new URLSearchParams(window.location.search);
+    const shareToken = params.get(SESSION_SHARE_PARAM);
+    if (!shareToken) return;
+    params.delete(SESSION_SHARE_PARAM);
+    const query = params.toString();
+    window.history.replaceState({}, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+
+    fetch(`${NEXUS_URL}/api/session-shares/redeem`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ token: shareToken }),
+    })
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || 'No se pudo abrir el enlace');
+        return data as RedeemedSessionShare;
+      })
+      .then((share) => {
+        redeemedSessionKeysRef.current.add(`${share.workerId}:${share.sessionId}`);
+        // Unirse fuerza un nuevo listado de sesiones que ya incluye el enlace.
+        socketRef.current?.emit('join-session', { workerId: share.workerId, sessionId: share.sessionId });
+        setNotification({
+          title: 'Sesión compartida',
+          message: `Te uniste a "${share.displayName}" en ${share.workerName}${share.permission === 'view' ? ' (solo lectura)' : ''}.`,
+        });
+      })
+      .catch((err: unknown) => {
+        dispatch(openDialog({
+          title: 'Enlace de sesión',
+          message: err instanceof Error ? err.message : 'No se pudo abrir el enlace',
+          tone: 'danger',
+        }));
+      });
+  }, [token, dispatch]);
 
   // PWA install prompt
   useEffect(() => {
@@ -875,13 +1240,13 @@ function AppContent() {
   useEffect(() => {
     const offlineIds: string[] = [];
     sessions.forEach((session) => {
-      const worker = workers.find(w => w.id === session.workerId || normalizeWorkerKey(w.name) === session.workerKey);
+      const worker = reachableWorkers.find(w => w.id === session.workerId || normalizeWorkerKey(w.name) === session.workerKey);
       if (!worker || worker.status === 'offline') {
         offlineIds.push(session.id);
       }
     });
     dispatch(setOfflineSessionIds(offlineIds));
-  }, [sessions, workers, dispatch, normalizeWorkerKey]);
+  }, [sessions, reachableWorkers, dispatch, normalizeWorkerKey]);
 
   // Cross-device session sync: auto-adopt server sessions belonging to current user
   useEffect(() => {
@@ -895,22 +1260,29 @@ function AppContent() {
     const localIds = new Set(sessions.map(s => s.id));
     const serverIds = new Set(serverSessions.map(s => s.id));
 
-    // Auto-join: server sessions created by current user that aren't local yet
+    // Auto-join: server sessions created by current user (or just redeemed
+    // through a share link) that aren't local yet
     serverSessions.forEach((serverSession) => {
-      if (serverSession.creatorUserId !== currentUser.userId) return;
-      if (localIds.has(serverSession.id)) return;
+      const redeemedKey = `${serverSession.workerId}:${serverSession.id}`;
+      const redeemed = redeemedSessionKeysRef.current.has(redeemedKey);
+      if (serverSession.creatorUserId !== currentUser.userId && !redeemed) return;
+      if (localIds.has(serverSession.id)) {
+        redeemedSessionKeysRef.current.delete(redeemedKey);
+        return;
+      }
       if (pendingSessionIdsRef.current.has(serverSession.id)) return;
       if (closedSessionIdsRef.current.has(serverSession.id)) return;
 
-      const worker = workers.find(w => w.id === serverSession.workerId);
+      const worker = reachableWorkers.find(w => w.id === serverSession.workerId);
       if (!worker || worker.status === 'offline') return;
 
+      redeemedSessionKeysRef.current.delete(redeemedKey);
       createNewSession(worker, {
         sessionId: serverSession.id,
         displayName: serverSession.displayName,
         createdAt: serverSession.createdAt,
         lastActiveAt: serverSession.lastActiveAt,
-        focus: false,
+        focus: redeemed,
       });
     });
 
@@ -918,7 +1290,7 @@ function AppContent() {
     sessions.forEach((session) => {
       if (serverIds.has(session.id)) return;
       // Only trust server list for online workers
-      const worker = workers.find(w => w.id === session.workerId || normalizeWorkerKey(w.name) === session.workerKey);
+      const worker = reachableWorkers.find(w => w.id === session.workerId || normalizeWorkerKey(w.name) === session.workerKey);
       if (!worker || worker.status === 'offline') return;
 
       // Clean up locally without emitting close-session to server
@@ -932,9 +1304,10 @@ function AppContent() {
       }
       pendingSessionIdsRef.current.delete(session.id);
       joinedSessionIdsRef.current.delete(session.id);
+      forgetSessionSeq(session.id);
       dispatch(removeSession(session.id));
     });
-  }, [serverSessions, sessions, workers, connectionState, createNewSession, dispatch, normalizeWorkerKey, bumpInstancesVersion]);
+  }, [serverSessions, sessions, reachableWorkers, connectionState, createNewSession, dispatch, normalizeWorkerKey, bumpInstancesVersion, forgetSessionSeq]);
 
   // Terminal visibility is now handled by TerminalGrid's reparenting logic
   useEffect(() => {
@@ -953,6 +1326,8 @@ function AppContent() {
         onInstallPWA={handleInstallPWA}
         installPromptAvailable={!!installPrompt}
         onCloseSession={handleCloseSession}
+        onToggleRecording={handleToggleRecording}
+        onAddRecordingMarker={handleAddRecordingMarker}
         onDragStart={handleDragStart}
         onDragEnd={handleDragEnd}
       />
@@ -974,11 +1349,41 @@ function AppContent() {
         />
       )}
 
+      {detailWorker && (
+        <WorkerDetailModal
+          worker={detailWorker}
+          onClose={() => dispatch(setDetailWorker(null))}
+          nexusUrl={NEXUS_URL}
+          token={token}
+        />
+      )}
+
+      {sharingSession && (
+        <SessionShareModal
+          key={`${sharingSession.workerId}:${sharingSession.sessionId}`}
+          session={sharingSession}
+          onClose={() => dispatch(setSharingSession(null))}
+          nexusUrl={NEXUS_URL}
+          token={token}
+        />
+      )}
+
+      {playingRecording && (
+        <RecordingPlayer
+          key={playingRecording.recordingId}
+          recording={playingRecording}
+          onClose={() => dispatch(setPlayingRecording(null))}
+          nexusUrl={NEXUS_URL}
+          token={token}
+        />
+      )}
+
       <div className="content">
         <Sidebar
           onSelectWorker={handleSelectWorker}
           onNewSession={handleNewSession}
           onJoinWorker={() => setShowJoinModal(true)}
+          onOpenInTerminal={handleOpenInTerminal}
         />
         <TerminalGrid
           instancesRef={terminalInstancesRef}
@@ -986,6 +1391,19 @@ function AppContent() {
           instancesVersion={instancesVersion}
         />
 
+        <FileTransfers />
+
+        {activeControl && (
+          <ControlBar
+            control={activeControl}
+            readOnly={reachableWorkers.some((worker) => worker.id === activeControl.workerId && worker.permission === 'view')}
+            onRequest={() => emitControl('request-control')}
+            onGrant={(socketId) => emitControl('grant-control', socketId)}
+            onDeny={(socketId) => emitControl('deny-control', socketId)}
+            onRelease={() => emitControl('release-control')}
+          />
+        )}
+
         {/* Mobile FAB to open workers drawer */}
         <button
           className="mobile-sidebar-fab"
@@ -1009,6 +1427,24 @@ function AppContent() {
         />
       )}
 
+      {editingFile && (
+        <FileEditor
+          key={`${editingFile.workerId}:${editingFile.path}`}
+          file={editingFile}
+          onClose={() => dispatch(setEditingFile(null))}
+          nexusUrl={NEXUS_URL}
+          token={token}
+        />
+      )}
+
+      {downloadingSession && (
+        <DownloadFileModal
+          sessionName={downloadingSession.title}
+          onClose={() => dispatch(setDownloadingSession(null))}
+          onDownload={(path) => downloadSessionFile(downloadingSession.workerId, downloadingSession.sessionId, path)}
+        />
+      )}
+
       {showWorkerModal && (
         <InstallWorkerModal
           initialWorker={editingWorker}
@@ -1047,6 +1483,14 @@ function AppContent() {
         />
       )}
 
+      {showAccessTokensModal && token && (
+        <AccessTokensModal
+          onClose={() => dispatch(setShowAccessTokensModal(false))}
+          nexusUrl={NEXUS_URL}
+          token={token}
+        />
+      )}
+
       {paymentReturnStatus && (
         <PaymentReturn
           status={paymentReturnStatus}
@@ -1073,6 +1517,10 @@ function AppContent() {
 }
 
 function App() {
+  // Los espectadores no tienen cuenta: el visor público no monta el store.
+  if (window.location.pathname === SPECTATOR_PATH) {
+    return <SpectatorView nexusUrl={NEXUS_URL} token={new URLSearchParams(window.location.search).get('token')} />;
+  }
   return (
     <Provider store={store}>
       <PersistGate loading={null} persistor={persistor}>
@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import { Check, Copy, Trash2 } from 'lucide-react';
+import {
+  SCOPE_LABELS,
+  createAccessToken,
+  listAccessTokens,
+  revokeAccessToken,
+  type AccessToken,
+  type TokenScope,
+} from '../lib/accessTokens';
+import './AccessTokensModal.css';
+
+interface AccessTokensModalProps {
+  onClose: () => void;
+  nexusUrl: string;
+  token: string;
+}
+
+const EXPIRY_OPTIONS: Array<{ label: string; days: number | null }> = [
+  { label: '30 días', days: 30 },
+  { label: '90 días', days: 90 },
+  { label: '1 año', days: 365 },
+  { label: 'Sin caducidad', days: null },
+];
+
+function describeToken(entry: AccessToken): string {
+  const used = entry.last_used_at ? `usado ${new Date(entry.last_used_at).toLocaleString()}` : 'nunca usado';
+  if (entry.expires_at === null) return `${used} · sin caducidad`;
+  const expired = entry.expires_at <= Date.now();
+  return `${used} · ${expired ? 'caducó' : 'caduca'} ${new Date(entry.expires_at).toLocaleDateString()}`;
+}
+
+export function AccessTokensModal({ onClose, nexusUrl, token }: AccessTokensModalProps) {
+  const [tokens, setTokens] = useState<AccessToken[] | null>(null);
+  const [scopes, setScopes] = useState<TokenScope[]>([]);
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<TokenScope[]>(['workers:read']);
+  const [expiryIndex, setExpiryIndex] = useState(1);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await listAccessTokens(nexusUrl, token);
+      setScopes(data.scopes);
+      setTokens(data.tokens);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudieron cargar los tokens');
+    }
+  }, [nexusUrl, token]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const toggleScope = (scope: TokenScope) =>
+    setSelected((current) => (current.includes(scope) ? current.filter((item) => item !== scope) : [...current, scope]));
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const created = await createAccessToken(nexusUrl, token, {
+        name: name.trim(),
+        scopes: selected,
+        expiresInDays: EXPIRY_OPTIONS[expiryIndex].days,
+      });
+      setSecret(created.secret);
+      setCopied(false);
+      setName('');
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al crear el token');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (entry: AccessToken) => {
+    if (!window.confirm(`¿Revocar "${entry.name}"? Los scripts que lo usen dejarán de funcionar.`)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await revokeAccessToken(nexusUrl, token, entry.id);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al revocar el token');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = () => {
+    if (!secret) return;
+    navigator.clipboard.writeText(secret);
+    setCopied(true);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content access-tokens-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Tokens de acceso</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+        <div className="modal-body">
+          <div className="recording-item-meta">
+            Para scripts y CI: envíalos como <code>Authorization: Bearer utp_…</code>. Solo sirven para la API REST.
+          </div>
+
+          {secret && (
+            <div className="access-token-secret">
+              <div>Copia el token ahora: no se volverá a mostrar.</div>
+              <div className="access-token-secret-row">
+                <code>{secret}</code>
+                <button className="recording-control-btn" onClick={handleCopy} title="Copiar" type="button">
+                  {copied ? <Check size={14} /> : <Copy size={14} />}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {error && <div className="error-message">{error}</div>}
+
+          <div className="recording-list">
+            {!tokens ? (
+              <div className="empty-list">Cargando tokens...</div>
+            ) : tokens.length === 0 ? (
+              <div className="empty-list">Aún no tienes tokens.</div>
+            ) : (
+              tokens.map((entry) => (
+                <div key={entry.id} className="recording-item">
+                  <div className="recording-item-info">
+                    <div className="recording-item-title">
+                      {entry.name} <span className="access-token-hint">utp_…{entry.token_hint}</span>
+                    </div>
+                    <div className="recording-item-meta">{entry.scopes.join(', ')}</div>
+                    <div className="recording-item-meta">{describeToken(entry)}</div>
+                  </div>
+                  <button
+                    className="recording-control-btn danger"
+                    onClick={() => void handleRevoke(entry)}
+                    disabled={busy}
+                    title="Revocar token"
+                    type="button"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+
+          <form className="access-token-form" onSubmit={handleCreate}>
+            <div className="form-group">
+              <label>Nombre</label>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="ci-deploy"
+                maxLength={64}
+                required
+                disabled={busy}
+              />
+            </div>
+            <div className="access-token-scopes">
+              {scopes.map((scope) => (
+                <label key={scope} className="access-token-scope">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    disabled={busy}
+                  />
+                  <code>{scope}</code>
+                  <span>{SCOPE_LABELS[scope] ?? ''}</span>
+                </label>
+              ))}
+            </div>
+            <div className="modal-footer">
+              <select
+                className="access-token-expiry"
+                value={expiryIndex}
+                onChange={(e) => setExpiryIndex(Number(e.target.value))}
+                disabled={busy}
+              >
+                {EXPIRY_OPTIONS.map((option, index) => (
+                  <option key={option.label} value={index}>{option.label}</option>
+                ))}
+              </select>
+              <button type="submit" className="btn-primary" disabled={busy || !name.trim() || selected.length === 0}>
+                Crear token
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
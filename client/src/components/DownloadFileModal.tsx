@@ -0,0 +1,69 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+
+interface DownloadFileModalProps {
+  sessionName: string;
+  onClose: () => void;
+  onDownload: (path: string) => void;
+}
+
+export const DownloadFileModal: React.FC<DownloadFileModalProps> = ({
+  sessionName,
+  onClose,
+  onDownload,
+}) => {
+  const [path, setPath] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => inputRef.current?.focus(), 50);
+    return () => clearTimeout(timeoutId);
+  }, []);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (path.trim()) {
+      onDownload(path.trim());
+      onClose();
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal tag-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>Descargar archivo</h3>
+          <button className="close-btn" onClick={onClose} aria-label="Cerrar">
+            <X />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="modal-body">
+          <div className="form-label">
+            <label htmlFor="download-path">Ruta en {sessionName}:</label>
+            <input
+              id="download-path"
+              ref={inputRef}
+              type="text"
+              className="form-input"
+              value={path}
+              onChange={(e) => setPath(e.target.value)}
+              placeholder="archivo.log o /ruta/absoluta"
+              autoComplete="off"
+            />
+          </div>
+          <p className="muted">Las rutas relativas parten del directorio actual de la sesión.</p>
+
+          <div className="modal-actions">
+            <button type="button" className="dialog-btn ghost" onClick={onClose}>
+              Cancelar
+            </button>
+            <button type="submit" className="dialog-btn" disabled={!path.trim()}>
+              Descargar
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
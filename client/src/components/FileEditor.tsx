@@ -0,0 +1,213 @@
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import type { KeyboardEvent, UIEvent } from 'react';
+import { AlertTriangle, FileCode, Lock, Save, X } from 'lucide-react';
+import type { EditingFile } from '../store';
+import { highlight, languageFor } from '../lib/highlight';
+import { diffLines } from '../lib/lineDiff';
+import { readRemoteFile, writeRemoteFile, type RemoteFile } from '../lib/remoteFiles';
+import './FileEditor.css';
+
+interface FileEditorProps {
+  file: EditingFile;
+  onClose: () => void;
+  nexusUrl: string;
+  token: string;
+}
+
+// edit: escribiendo; review: diff antes de guardar; conflict: el worker tiene otra versión.
+type EditorMode = 'edit' | 'review' | 'conflict';
+
+export function FileEditor({ file, onClose, nexusUrl, token }: FileEditorProps) {
+  const [base, setBase] = useState<RemoteFile | null>(null);
+  const [content, setContent] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<EditorMode>('edit');
+  const [remote, setRemote] = useState<RemoteFile | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    readRemoteFile(nexusUrl, token, file.workerId, file.sessionId, file.path)
+      .then((loaded) => {
+        if (cancelled) return;
+        setBase(loaded);
+        setContent(loaded.content);
+      })
+      .catch((err: Error) => { if (!cancelled) setError(err.message); });
+    return () => { cancelled = true; };
+  }, [nexusUrl, token, file.workerId, file.sessionId, file.path]);
+
+  const language = useMemo(() => languageFor(base?.path ?? file.path), [base?.path, file.path]);
+  const deferredContent = useDeferredValue(content);
+  const tokens = useMemo(() => highlight(deferredContent, language), [deferredContent, language]);
+  const dirty = base !== null && content !== base.content;
+  const diff = useMemo(() => {
+    if (mode === 'review' && base) return diffLines(base.content, content);
+    if (mode === 'conflict' && remote) return diffLines(remote.content, content);
+    return [];
+  }, [mode, base, remote, content]);
+
+  const save = async (expectedHash: string) => {
+    if (!base) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await writeRemoteFile(nexusUrl, token, file.workerId, base.path, content, expectedHash);
+      if (result.conflict) {
+        setRemote(await readRemoteFile(nexusUrl, token, file.workerId, file.sessionId, base.path));
+        setMode('conflict');
+        return;
+      }
+      setBase({ ...base, content, hash: result.hash, mtime: result.mtime });
+      setRemote(null);
+      setMode('edit');
+      setSavedAt(Date.now());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo guardar');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const discardForRemote = () => {
+    if (!remote) return;
+    setBase(remote);
+    setContent(remote.content);
+    setRemote(null);
+    setMode('edit');
+  };
+
+  const handleClose = () => {
+    if (dirty && !window.confirm('Hay cambios sin guardar. ¿Cerrar el editor igualmente?')) return;
+    onClose();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 's') {
+      event.preventDefault();
+      if (dirty && base?.writable) setMode('review');
+    }
+  };
+
+  // El <pre> resaltado va detrás del textarea y tiene que seguir su scroll.
+  const syncScroll = (event: UIEvent<HTMLTextAreaElement>) => {
+    if (!highlightRef.current) return;
+    highlightRef.current.scrollTop = event.currentTarget.scrollTop;
+    highlightRef.current.scrollLeft = event.currentTarget.scrollLeft;
+  };
+
+  return (
+    <div className="recording-modal-overlay" onClick={handleClose}>
+      <div className="file-editor" onClick={(event) => event.stopPropagation()}>
+        <div className="recording-header">
+          <h3>
+            <FileCode size={18} />
+            <span className="recording-title" title={base?.path ?? file.path}>{base?.path ?? file.path}</span>
+            {dirty && <span className="file-editor-dirty" title="Cambios sin guardar">●</span>}
+            {base && !base.writable && (
+              <span className="file-editor-badge">
+                <Lock size={12} />
+                Solo lectura
+              </span>
+            )}
+          </h3>
+          <div className="file-editor-actions">
+            {savedAt && !dirty && mode === 'edit' && <span className="file-editor-saved">Guardado</span>}
+            {mode === 'edit' && (
+              <button
+                className="dialog-btn"
+                onClick={() => setMode('review')}
+                disabled={!dirty || !base?.writable}
+                title="Revisar cambios y guardar (Ctrl+S)"
+                type="button"
+              >
+                <Save size={14} />
+                Guardar
+              </button>
+            )}
+            <button className="close-btn" onClick={handleClose} aria-label="Cerrar" type="button">
+              <X />
+            </button>
+          </div>
+        </div>
+
+        {error && <div className="file-editor-error">{error}</div>}
+
+        {mode === 'conflict' && (
+          <div className="file-editor-conflict">
+            <AlertTriangle size={16} />
+            <span>
+              El archivo cambió en el worker desde que lo abriste. Abajo, lo que cambiaría tu versión sobre la actual.
+            </span>
+          </div>
+        )}
+
+        {!base && !error && <div className="file-editor-loading">Cargando…</div>}
+
+        {base && mode === 'edit' && (
+          <div className="file-editor-body">
+            <pre ref={highlightRef} className="file-editor-highlight" aria-hidden="true">
+              {tokens.map((token, index) => (
+                token.kind === 'plain'
+                  ? token.text
+                  : <span key={index} className={`tok-${token.kind}`}>{token.text}</span>
+              ))}
+              {'\n'}
+            </pre>
+            <textarea
+              className="file-editor-input"
+              value={content}
+              onChange={(event) => setContent(event.target.value)}
+              onKeyDown={handleKeyDown}
+              onScroll={syncScroll}
+              readOnly={!base.writable}
+              spellCheck={false}
+              autoCapitalize="off"
+              autoComplete="off"
+              autoCorrect="off"
+              wrap="off"
+            />
+          </div>
+        )}
+
+        {base && mode !== 'edit' && (
+          <>
+            <div className="file-editor-diff">
+              {diff.length === 0 && <div className="file-editor-loading">Sin diferencias</div>}
+              {diff.map((line, index) => (
+                line.kind === 'skip'
+                  ? <div key={index} className="diff-line skip">… {line.count} líneas sin cambios</div>
+                  : (
+                    <div key={index} className={`diff-line ${line.kind}`}>
+                      <span className="diff-sign">{line.kind === 'add' ? '+' : line.kind === 'del' ? '-' : ' '}</span>
+                      {line.text || ' '}
+                    </div>
+                  )
+              ))}
+            </div>
+            <div className="modal-actions file-editor-footer">
+              <button className="dialog-btn ghost" onClick={() => setMode('edit')} disabled={saving} type="button">
+                Seguir editando
+              </button>
+              {mode === 'conflict' && (
+                <button className="dialog-btn ghost" onClick={discardForRemote} disabled={saving} type="button">
+                  Descartar mis cambios
+                </button>
+              )}
+              <button
+                className={`dialog-btn ${mode === 'conflict' ? 'danger' : ''}`}
+                onClick={() => void save(mode === 'conflict' && remote ? remote.hash : base.hash)}
+                disabled={saving || diff.length === 0}
+                type="button"
+              >
+                {saving ? 'Guardando…' : mode === 'conflict' ? 'Sobrescribir' : 'Guardar'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import type { SessionViewer } from '../../store/slices/sessionsSlice';
+import './PresenceAvatars.css';
+
+interface PresenceAvatarsProps {
+  viewers: SessionViewer[];
+  max?: number;
+}
+
+const COLORS = ['#89b4fa', '#a6e3a1', '#f9e2af', '#f5c2e7', '#94e2d5', '#fab387', '#cba6f7'];
+
+const colorFor = (userId: number) => COLORS[Math.abs(userId) % COLORS.length];
+
+const describeViewer = (viewer: SessionViewer) => [
+  viewer.username,
+  viewer.device === 'mobile' ? 'móvil' : 'escritorio',
+  viewer.permission === 'control' ? 'control' : 'solo ver',
+  `desde ${new Date(viewer.joinedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+  ...(viewer.idle ? ['inactivo'] : []),
+].join(' · ');
+
+export function PresenceAvatars({ viewers, max = 3 }: PresenceAvatarsProps) {
+  if (viewers.length === 0) return null;
+  const shown = viewers.slice(0, max);
+  const hidden = viewers.slice(max);
+
+  return (
+    <span className="presence-avatars">
+      {shown.map((viewer) => (
+        <span
+          key={viewer.socketId}
+          className={`presence-avatar ${viewer.idle ? 'idle' : ''}`}
+          style={{ background: colorFor(viewer.userId) }}
+          title={describeViewer(viewer)}
+        >
+          {viewer.username.charAt(0).toUpperCase()}
+        </span>
+      ))}
+      {hidden.length > 0 && (
+        <span className="presence-avatar more" title={hidden.map(describeViewer).join('\n')}>
+          +{hidden.length}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -2,6 +2,7 @@ import { useMemo } from 'react';
 import { useAppSelector } from '../../../store/hooks';
 import { selectAgents, selectTenants } from '../../../store';
 import { buildFleet, agentMatches, HARNESS_LABEL, type ResolvedAgent } from '../../../lib/agents';
+import { workerSupports } from '../../../lib/workerCapabilities';
 import { Bot, SquareTerminal, Users, Globe, Lock, Cpu, CircleSlash } from 'lucide-react';
 import './AgentList.css';
 
@@ -67,6 +68,8 @@ function AgentRow({
   onOpenShell: (workerId: string) => void;
 }) {
   const tuiOnline = !!agent.tui && agent.tui.status !== 'offline';
+  const tuiSupported = !agent.tui || workerSupports(agent.tui, 'tui');
+  const tuiReady = tuiOnline && tuiSupported;
   const shellOnline = !!agent.shell && agent.shell.status !== 'offline';
   const isBot = agent.harness === 'bot';
   const harnessLabel = HARNESS_LABEL[agent.harness] ?? agent.harness;
@@ -82,8 +85,8 @@ function AgentRow({
     <div className={`agent-item ${agent.online ? '' : 'offline'} ${paused ? 'paused' : ''}`}>
       <div
         className="agent-main"
-        onClick={() => tuiOnline && agent.tui && onOpenTui(agent.tui.id)}
-        title={agent.note || (tuiOnline ? 'Abrir la TUI viva del agente' : presenceLabel)}
+        onClick={() => tuiReady && agent.tui && onOpenTui(agent.tui.id)}
+        title={agent.note || (tuiReady ? 'Abrir la TUI viva del agente' : presenceLabel)}
       >
         <Bot className="agent-icon" />
         <div className="agent-text">
@@ -112,9 +115,13 @@ function AgentRow({
           {agent.tuiWorker && (
             <button
               className="agent-btn tui"
-              disabled={!tuiOnline}
+              disabled={!tuiReady}
               onClick={() => agent.tui && onOpenTui(agent.tui.id)}
-              title={tuiOnline ? 'Abrir la TUI viva del agente' : 'TUI no disponible (worker offline)'}
+              title={
+                !tuiSupported
+                  ? 'El worker no tiene una TUI configurada'
+                  : tuiOnline ? 'Abrir la TUI viva del agente' : 'TUI no disponible (worker offline)'
+              }
               type="button"
             >
               <Bot /> TUI
@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import { ArrowUp, Download, File, FileSymlink, Folder, FolderPlus, Pencil, RefreshCw, SquareTerminal, Trash2 } from 'lucide-react';
+import { useAppDispatch, useAppSelector } from '../../../store/hooks';
+import { setEditingFile } from '../../../store';
+import { NEXUS_URL, useFileTransfers } from '../../../hooks';
+import { workerSupports } from '../../../lib/workerCapabilities';
+import { formatBytes } from '../../../lib/fileTransfer';
+import {
+  deleteRemotePath,
+  formatMode,
+  listRemoteDir,
+  makeRemoteDir,
+  renameRemotePath,
+  type RemoteEntry,
+  type RemoteListing,
+} from '../../../lib/remoteFiles';
+import './FileBrowser.css';
+
+interface FileBrowserProps {
+  onOpenInTerminal: (path: string) => void;
+}
+
+const joinPath = (dir: string, name: string) => `${dir === '/' ? '' : dir}/${name}`;
+const formatMtime = (mtime: number) => new Date(mtime).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+
+export function FileBrowser({ onOpenInTerminal }: FileBrowserProps) {
+  const dispatch = useAppDispatch();
+  const token = useAppSelector((state) => state.auth.token);
+  const workers = useAppSelector((state) => state.workers.workers);
+  const activeSession = useAppSelector((state) =>
+    state.sessions.sessions.find((s) => s.id === state.sessions.activeSessionId)
+  );
+  const { download } = useFileTransfers();
+  // Ruta elegida por worker; sin entrada se parte del cwd de la sesión.
+  const [paths, setPaths] = useState<Record<string, string>>({});
+  const [version, setVersion] = useState(0);
+  const [result, setResult] = useState<{ key: string; listing?: RemoteListing; error?: string } | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const worker = activeSession ? workers.find((w) => w.id === activeSession.workerId) : undefined;
+  const available = Boolean(
+    worker && worker.status === 'online' && worker.permission !== 'view' && workerSupports(worker, 'files')
+  );
+  const workerId = activeSession?.workerId ?? '';
+  const sessionId = activeSession?.id ?? '';
+  const path = paths[workerId] ?? null;
+  const requestKey = `${workerId}:${sessionId}:${path ?? ''}:${version}`;
+
+  useEffect(() => {
+    if (!available || !token) return;
+    let cancelled = false;
+    listRemoteDir(NEXUS_URL, token, workerId, sessionId, path)
+      .then((listing) => { if (!cancelled) setResult({ key: requestKey, listing }); })
+      .catch((err: Error) => { if (!cancelled) setResult({ key: requestKey, error: err.message }); });
+    return () => { cancelled = true; };
+  }, [available, path, requestKey, sessionId, token, workerId]);
+
+  const current = result?.key === requestKey ? result : null;
+  const listing = current?.listing;
+  const loading = available && !current;
+  const entries = listing?.entries ?? [];
+  // Si la ruta dejó de existir todavía se puede subir de nivel.
+  const parentPath = listing ? listing.parent : path && path !== '/' ? path.replace(/\/[^/]*$/, '') || '/' : null;
+
+  const navigate = (next: string) => {
+    setActionError(null);
+    setPaths((prev) => ({ ...prev, [workerId]: next }));
+  };
+  const refresh = () => {
+    setActionError(null);
+    setVersion((value) => value + 1);
+  };
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setActionError(null);
+    try {
+      await action();
+      refresh();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Error');
+    }
+  };
+
+  const handleRename = (entry: RemoteEntry) => {
+    if (!listing || !token) return;
+    const name = window.prompt('Nuevo nombre', entry.name);
+    if (!name || name.trim() === entry.name) return;
+    void runAction(() => renameRemotePath(NEXUS_URL, token, workerId, joinPath(listing.path, entry.name), name.trim()));
+  };
+
+  const handleDelete = (entry: RemoteEntry) => {
+    if (!listing || !token) return;
+    const what = entry.type === 'dir' ? `la carpeta "${entry.name}" y todo su contenido` : `"${entry.name}"`;
+    if (!window.confirm(`¿Eliminar ${what}?`)) return;
+    void runAction(() => deleteRemotePath(NEXUS_URL, token, workerId, joinPath(listing.path, entry.name)));
+  };
+
+  const handleMkdir = () => {
+    if (!listing || !token) return;
+    const name = window.prompt('Nombre de la carpeta');
+    if (!name?.trim()) return;
+    void runAction(() => makeRemoteDir(NEXUS_URL, token, workerId, listing.path, name.trim()));
+  };
+
+  const handleOpen = (entry: RemoteEntry) => {
+    if (!listing) return;
+    const full = joinPath(listing.path, entry.name);
+    if (entry.type === 'dir') navigate(full);
+    else if (entry.type === 'file') dispatch(setEditingFile({ workerId, sessionId, path: full }));
+  };
+
+  return (
+    <div className="sidebar-section file-browser">
+      <div className="section-title">Archivos</div>
+
+      {!activeSession && <div className="empty-sessions">Selecciona una sesión para ver sus archivos</div>}
+      {activeSession && !available && (
+        <div className="empty-sessions">
+          {worker?.permission === 'view'
+            ? 'Necesitas permiso de control para ver los archivos'
+            : worker?.status !== 'online'
+              ? 'El worker no está conectado'
+              : 'Este worker no admite el explorador de archivos. Actualízalo.'}
+        </div>
+      )}
+
+      {available && (
+        <>
+          <div className="file-browser-toolbar">
+            <button
+              className="file-browser-btn"
+              onClick={() => parentPath && navigate(parentPath)}
+              disabled={!parentPath}
+              title="Subir un nivel"
+              type="button"
+            >
+              <ArrowUp />
+            </button>
+            <span className="file-browser-path" title={listing?.path}>{listing?.path ?? '…'}</span>
+            <button className="file-browser-btn" onClick={refresh} title="Recargar" type="button">
+              <RefreshCw className={loading ? 'spinning' : ''} />
+            </button>
+            <button className="file-browser-btn" onClick={handleMkdir} disabled={!listing} title="Nueva carpeta" type="button">
+              <FolderPlus />
+            </button>
+            <button
+              className="file-browser-btn"
+              onClick={() => listing && onOpenInTerminal(listing.path)}
+              disabled={!listing}
+              title="Abrir en la terminal"
+              type="button"
+            >
+              <SquareTerminal />
+            </button>
+          </div>
+
+          {(current?.error || actionError) && (
+            <div className="file-browser-error">{actionError || current?.error}</div>
+          )}
+
+          <div className="file-browser-list">
+            {listing && entries.length === 0 && <div className="empty-sessions">Carpeta vacía</div>}
+            {entries.map((entry) => (
+              <div key={entry.name} className={`file-browser-entry ${entry.type}`}>
+                <button
+                  className="file-browser-name"
+                  onClick={() => handleOpen(entry)}
+                  title={entry.type === 'dir' ? 'Abrir carpeta' : entry.type === 'file' ? 'Abrir en el editor' : entry.name}
+                  type="button"
+                >
+                  {entry.type === 'dir' ? <Folder /> : entry.link ? <FileSymlink /> : <File />}
+                  <span className="file-browser-label">
+                    <span className="file-browser-filename">{entry.name}</span>
+                    <span className="file-browser-meta">
+                      {entry.type === 'file' && `${formatBytes(entry.size)} · `}
+                      <code>{formatMode(entry.mode)}</code>
+                      {` · ${formatMtime(entry.mtime)}`}
+                    </span>
+                  </span>
+                </button>
+                <div className="file-browser-actions">
+                  {entry.type === 'dir' && (
+                    <button
+                      onClick={() => onOpenInTerminal(joinPath(listing!.path, entry.name))}
+                      title="Abrir en la terminal"
+                      type="button"
+                    >
+                      <SquareTerminal />
+                    </button>
+                  )}
+                  {entry.type === 'file' && (
+                    <button
+                      onClick={() => download(workerId, sessionId, joinPath(listing!.path, entry.name))}
+                      title="Descargar"
+                      type="button"
+                    >
+                      <Download />
+                    </button>
+                  )}
+                  <button onClick={() => handleRename(entry)} title="Renombrar" type="button">
+                    <Pencil />
+                  </button>
+                  <button className="danger" onClick={() => handleDelete(entry)} title="Eliminar" type="button">
+                    <Trash2 />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
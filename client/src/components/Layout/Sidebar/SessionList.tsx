@@ -3,9 +3,14 @@ import {
   setActiveSession,
   setRenamingSessionId,
   assignGridSlot,
+  setPlayingRecording,
+  setSharingSession,
 } from '../../../store';
-import type { DragEvent } from 'react';
-import { Grid2x2, Pencil, X } from 'lucide-react';
+import { useEffect, useMemo, useState, type DragEvent } from 'react';
+import { Film, Grid2x2, Link2, Pencil, X } from 'lucide-react';
+import { NEXUS_URL } from '../../../hooks';
+import { formatPlaybackTime, type RecordingSummary } from '../../../lib/asciicast';
+import { PresenceAvatars } from '../PresenceAvatars';
 import './SessionList.css';
 
 interface SessionListProps {
@@ -20,6 +25,35 @@ export function SessionList({ onCloseSession, onDragStart, onDragEnd }: SessionL
   const activeSessionId = useAppSelector((state) => state.sessions.activeSessionId);
   const offlineSessionIds = useAppSelector((state) => state.sessions.offlineSessionIds);
   const gridSessionIds = useAppSelector((state) => state.sessions.gridSessionIds);
+  const token = useAppSelector((state) => state.auth.token);
+  const workers = useAppSelector((state) => state.workers.workers);
+  const serverSessions = useAppSelector((state) => state.sessions.serverSessions);
+  const [recordings, setRecordings] = useState<RecordingSummary[]>([]);
+
+  // Grabaciones de sesiones ya cerradas (las abiertas se ven en vivo).
+  const closedRecordings = useMemo(() => {
+    const openKeys = new Set(sessions.map((session) => `${session.workerId}:${session.id}`));
+    return recordings.filter((recording) => (
+      recording.ended_at !== null && !openKeys.has(`${recording.worker_id}:${recording.session_id}`)
+    ));
+  }, [recordings, sessions]);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    fetch(`${NEXUS_URL}/api/workers/recordings`, {
+      headers: { Authorization: `Bearer ${token}` },
+      cache: 'no-store',
+    })
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data: RecordingSummary[]) => {
+        if (!cancelled) setRecordings(Array.isArray(data) ? data : []);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [token, sessions.length]);
 
   const handleSwitchSession = (sessionId: string) => {
     dispatch(setActiveSession(sessionId));
@@ -31,6 +65,16 @@ export function SessionList({ onCloseSession, onDragStart, onDragEnd }: SessionL
     dispatch(assignGridSlot({ slotIndex, sessionId }));
   };
 
+  const canShare = (workerId: string) => {
+    const worker = workers.find((w) => w.id === workerId);
+    return Boolean(worker && worker.permission !== 'view');
+  };
+
+  const viewersBySession = useMemo(
+    () => new Map(serverSessions.map((session) => [`${session.workerId}:${session.id}`, session.viewers ?? []])),
+    [serverSessions]
+  );
+
   const handleRename = (sessionId: string) => {
     dispatch(setRenamingSessionId(sessionId));
   };
@@ -55,7 +99,10 @@ export function SessionList({ onCloseSession, onDragStart, onDragEnd }: SessionL
           onDragEnd={onDragEnd}
         >
           <div className="session-info">
-            <div className="session-name">{session.displayName}</div>
+            <div className="session-name">
+              {session.displayName}
+              <PresenceAvatars viewers={viewersBySession.get(`${session.workerId}:${session.id}`) ?? []} />
+            </div>
             {offlineSessionIds.includes(session.id) && (
               <span className="badge-offline">Offline</span>
             )}
@@ -81,6 +128,22 @@ export function SessionList({ onCloseSession, onDragStart, onDragEnd }: SessionL
           >
             <Pencil />
           </button>
+          {canShare(session.workerId) && (
+            <button
+              className="rename-session-btn"
+              onClick={(e) => {
+                e.stopPropagation();
+                dispatch(setSharingSession({
+                  workerId: session.workerId,
+                  sessionId: session.id,
+                  title: session.displayName,
+                }));
+              }}
+              title="Compartir sesión"
+            >
+              <Link2 />
+            </button>
+          )}
           <button
             className="close-session-btn"
             onClick={(e) => {
@@ -96,6 +159,31 @@ export function SessionList({ onCloseSession, onDragStart, onDragEnd }: SessionL
       {sessions.length === 0 && (
         <div className="empty-sessions">No hay sesiones activas</div>
       )}
+      {closedRecordings.length > 0 && (
+        <>
+          <div className="section-title">Grabaciones</div>
+          {closedRecordings.map((recording) => (
+            <div
+              key={recording.id}
+              className="session-item"
+              onClick={() => dispatch(setPlayingRecording({
+                workerId: recording.worker_id,
+                recordingId: recording.id,
+                title: recording.title,
+              }))}
+              title="Reproducir grabación"
+            >
+              <div className="session-info">
+                <div className="session-name">{recording.title}</div>
+                <div className="session-id">
+                  {new Date(recording.started_at).toLocaleString()} · {formatPlaybackTime(recording.duration_ms / 1000)}
+                </div>
+              </div>
+              <Film className="session-recording-icon" />
+            </div>
+          ))}
+        </>
+      )}
     </div>
   );
 }
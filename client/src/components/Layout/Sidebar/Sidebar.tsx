@@ -3,6 +3,7 @@ import { toggleSidebar, setEditingWorker, setShowWorkerModal, setShowMobileSideb
 import { useResizableSidebar } from '../../../hooks';
 import { WorkerList } from './WorkerList';
 import { AgentList } from './AgentList';
+import { FileBrowser } from './FileBrowser';
 import { ChevronLeft, ChevronRight, Link2, Plus, X } from 'lucide-react';
 import './Sidebar.css';
 
@@ -10,12 +11,14 @@ interface SidebarProps {
   onSelectWorker: (workerId: string) => void;
   onNewSession: (workerId: string) => void;
   onJoinWorker: () => void;
+  onOpenInTerminal: (path: string) => void;
 }
 
 export function Sidebar({
   onSelectWorker,
   onNewSession,
   onJoinWorker,
+  onOpenInTerminal,
 }: SidebarProps) {
   const dispatch = useAppDispatch();
   const sidebarCollapsed = useAppSelector((state) => state.ui.sidebarCollapsed);
@@ -91,6 +94,7 @@ export function Sidebar({
               onSelectWorker={onSelectWorker}
               onNewSession={onNewSession}
             />
+            <FileBrowser onOpenInTerminal={onOpenInTerminal} />
           </div>
         )}
 
@@ -151,6 +155,12 @@ export function Sidebar({
             onSelectWorker={handleSelectWorkerMobile}
             onNewSession={handleNewSessionMobile}
           />
+          <FileBrowser
+            onOpenInTerminal={(path) => {
+              onOpenInTerminal(path);
+              handleCloseMobile();
+            }}
+          />
         </div>
       </div>
     </>
@@ -4,6 +4,7 @@ import {
   setWorkerQuery,
   selectFilteredWorkers,
   setShareModalWorker,
+  setDetailWorker,
   setEditingWorker,
   setShowWorkerModal,
   openDialog,
@@ -11,7 +12,9 @@ import {
 } from '../../../store';
 import type { Worker } from '../../../store/slices/workersSlice';
 import { plainWorkersOf } from '../../../lib/agents';
-import { Download, Link, Plus, Trash2 } from 'lucide-react';
+import { WorkerHealthSummary } from '../WorkerHealth';
+import { workerIsOutdated, workerSupports } from '../../../lib/workerCapabilities';
+import { Download, Info, Link, Plus, Trash2 } from 'lucide-react';
 import './WorkerList.css';
 
 interface WorkerListProps {
@@ -25,6 +28,7 @@ export function WorkerList({ onSelectWorker, onNewSession }: WorkerListProps) {
   const workerTags = useAppSelector((state) => state.workers.workerTags);
   const filteredWorkers = useAppSelector(selectFilteredWorkers);
   const agents = useAppSelector(selectAgents);
+  const workerMetrics = useAppSelector((state) => state.connection.workerMetrics);
   // Los workers que pertenecen a un agente (base + su -tui) se muestran en la
   // sección "Agentes"; aquí quedan solo los hosts/PCs.
   const plainWorkers = useMemo(() => plainWorkersOf(filteredWorkers, agents), [filteredWorkers, agents]);
@@ -73,6 +77,8 @@ export function WorkerList({ onSelectWorker, onNewSession }: WorkerListProps) {
         const tags = workerTags[workerKey] || [];
         const permission = worker.permission || 'admin';
         const canManage = permission === 'admin';
+        const canControl = permission !== 'view';
+        const canOpenShell = canControl && workerSupports(worker, 'shell');
         const showInstall = canManage && worker.api_key && worker.status !== 'online';
         return (
           <div
@@ -86,8 +92,19 @@ export function WorkerList({ onSelectWorker, onNewSession }: WorkerListProps) {
                 <span className={`worker-status ${worker.status}`}>
                   {worker.status === 'offline' ? 'Offline' : 'Online'}
                 </span>
+                {workerIsOutdated(worker) && (
+                  <span
+                    className="worker-outdated"
+                    title={`Protocolo ${worker.protocol_version}${worker.worker_version ? ` (v${worker.worker_version})` : ''}: algunas funciones no están disponibles`}
+                  >
+                    Actualizar
+                  </span>
+                )}
               </div>
             </div>
+            {worker.status === 'online' && workerMetrics[worker.id] && (
+              <WorkerHealthSummary history={workerMetrics[worker.id]} />
+            )}
             <div className="worker-tags">
               {tags.length > 0
                 ? tags.map((tag) => (
@@ -110,15 +127,27 @@ export function WorkerList({ onSelectWorker, onNewSession }: WorkerListProps) {
                   <Trash2 />
                 </button>
               )}
+              {canOpenShell && (
+                <button
+                  className="add-session-btn"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onNewSession(worker.id);
+                  }}
+                  title="Nueva sesión en este worker"
+                >
+                  <Plus />
+                </button>
+              )}
               <button
-                className="add-session-btn"
+                className="share-worker-btn"
                 onClick={(e) => {
                   e.stopPropagation();
-                  onNewSession(worker.id);
+                  dispatch(setDetailWorker(worker));
                 }}
-                title="Nueva sesión en este worker"
+                title="Detalle y grabaciones"
               >
-                <Plus />
+                <Info />
               </button>
               {canManage && (
                 <button
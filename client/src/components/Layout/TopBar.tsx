@@ -7,11 +7,14 @@ import {
   moveSession,
   setShowChangePasswordModal,
   setShowSubscriptionModal,
+  setShowAccessTokensModal,
   setShowSettings,
   setShowUserMenu,
   setShowMobileSidebar,
   setActiveSession,
   setRenamingSessionId,
+  setSharingSession,
+  setDownloadingSession,
   setShowWorkerModal,
   setEditingWorker,
 } from '../../store';
@@ -20,6 +23,7 @@ import {
   ChevronRight,
   Download,
   CreditCard,
+  Eye,
   KeyRound,
   LogOut,
   Maximize2,
@@ -31,7 +35,10 @@ import {
   Smartphone,
   User,
   Hexagon,
+  KeySquare,
 } from 'lucide-react';
+import { PresenceAvatars } from './PresenceAvatars';
+import { workerSupports } from '../../lib/workerCapabilities';
 import './TopBar.css';
 
 interface TopBarProps {
@@ -40,6 +47,8 @@ interface TopBarProps {
   onInstallPWA: () => void;
   installPromptAvailable: boolean;
   onCloseSession: (sessionId: string) => void;
+  onToggleRecording: (sessionId: string) => void;
+  onAddRecordingMarker: (sessionId: string) => void;
   onDragStart: (sessionId: string, displayName: string, event: React.DragEvent<HTMLDivElement>) => void;
   onDragEnd: () => void;
 }
@@ -50,12 +59,15 @@ export function TopBar({
   onInstallPWA,
   installPromptAvailable,
   onCloseSession,
+  onToggleRecording,
+  onAddRecordingMarker,
   onDragStart,
   onDragEnd,
 }: TopBarProps) {
   const dispatch = useAppDispatch();
   const workers = useAppSelector((state) => state.workers.workers);
   const sessions = useAppSelector((state) => state.sessions.sessions);
+  const serverSessions = useAppSelector((state) => state.sessions.serverSessions);
   const activeSessionId = useAppSelector((state) => state.sessions.activeSessionId);
   const draggingSessionId = useAppSelector((state) => state.sessions.draggingSessionId);
   const gridSessionIds = useAppSelector((state) => state.sessions.gridSessionIds);
@@ -164,11 +176,37 @@ export function TopBar({
     });
   };
 
+  const recordingSessionIds = useMemo(
+    () => new Set(serverSessions.filter((session) => session.recording).map((session) => session.id)),
+    [serverSessions]
+  );
+
+  const spectatorCounts = useMemo(
+    () => new Map(serverSessions.filter((session) => session.spectators).map((session) => [session.id, session.spectators ?? 0])),
+    [serverSessions]
+  );
+
+  const viewersBySession = useMemo(
+    () => new Map(serverSessions.map((session) => [session.id, session.viewers ?? []])),
+    [serverSessions]
+  );
+
   const activeSessionMenu = useMemo(
     () => sessions.find((session) => session.id === sessionMenuId) || null,
     [sessions, sessionMenuId]
   );
 
+  // Repartir enlaces exige control del worker, no solo de la sesión.
+  const canShareSessionMenu = useMemo(() => {
+    const worker = activeSessionMenu && workers.find((w) => w.id === activeSessionMenu.workerId);
+    return Boolean(worker && worker.permission !== 'view');
+  }, [activeSessionMenu, workers]);
+
+  const canDownloadSessionMenu = useMemo(() => {
+    const worker = activeSessionMenu ? workers.find((w) => w.id === activeSessionMenu.workerId) : undefined;
+    return canShareSessionMenu && worker?.status === 'online' && workerSupports(worker, 'files');
+  }, [activeSessionMenu, canShareSessionMenu, workers]);
+
   const updateSessionMenuPosition = useCallback(() => {
     const anchor = sessionMenuAnchorRef.current;
     if (!anchor) return;
@@ -332,7 +370,17 @@ export function TopBar({
               type="button"
               title={session.displayName}
             >
+              {recordingSessionIds.has(session.id) && (
+                <span className="session-chip-recording" title="Grabando" />
+              )}
               <span className="session-chip-name">{session.displayName}</span>
+              <PresenceAvatars viewers={viewersBySession.get(session.id) ?? []} />
+              {spectatorCounts.has(session.id) && (
+                <span className="session-chip-viewers" title="Espectadores por enlace público">
+                  <Eye size={11} />
+                  {spectatorCounts.get(session.id)}
+                </span>
+              )}
             </button>
             <button
               className="session-chip-menu-btn"
@@ -386,6 +434,60 @@ export function TopBar({
             >
               Enviar al grid
             </button>
+            {canShareSessionMenu && (
+              <button
+                className="session-chip-menu-item"
+                onClick={() => {
+                  dispatch(setSharingSession({
+                    workerId: activeSessionMenu.workerId,
+                    sessionId: activeSessionMenu.id,
+                    title: activeSessionMenu.displayName,
+                  }));
+                  setSessionMenuId(null);
+                }}
+                type="button"
+              >
+                Compartir sesión
+              </button>
+            )}
+            {canDownloadSessionMenu && (
+              <button
+                className="session-chip-menu-item"
+                onClick={() => {
+                  dispatch(setDownloadingSession({
+                    workerId: activeSessionMenu.workerId,
+                    sessionId: activeSessionMenu.id,
+                    title: activeSessionMenu.displayName,
+                  }));
+                  setSessionMenuId(null);
+                }}
+                type="button"
+              >
+                Descargar archivo
+              </button>
+            )}
+            <button
+              className="session-chip-menu-item"
+              onClick={() => {
+                onToggleRecording(activeSessionMenu.id);
+                setSessionMenuId(null);
+              }}
+              type="button"
+            >
+              {recordingSessionIds.has(activeSessionMenu.id) ? 'Detener grabación' : 'Grabar sesión'}
+            </button>
+            {recordingSessionIds.has(activeSessionMenu.id) && (
+              <button
+                className="session-chip-menu-item"
+                onClick={() => {
+                  onAddRecordingMarker(activeSessionMenu.id);
+                  setSessionMenuId(null);
+                }}
+                type="button"
+              >
+                Añadir marcador
+              </button>
+            )}
             <button
               className="session-chip-menu-item danger"
               onClick={() => {
@@ -532,6 +634,13 @@ export function TopBar({
                       <CreditCard className="menu-icon" />
                       <span>Suscripción</span>
                     </button>
+                    <button
+                      className="user-menu-item"
+                      onClick={() => { dispatch(setShowAccessTokensModal(true)); dispatch(setShowUserMenu(false)); }}
+                    >
+                      <KeySquare className="menu-icon" />
+                      <span>Tokens de acceso</span>
+                    </button>
                     <button className="user-menu-item logout" onClick={handleLogout}>
                       <LogOut className="menu-icon" />
                       <span>Cerrar Sesión</span>
@@ -0,0 +1,115 @@
+import type { WorkerMetrics } from '../../store/slices/connectionSlice';
+import './WorkerHealth.css';
+
+const WARN_PERCENT = 70;
+const HOT_PERCENT = 90;
+
+const percent = (used: number, total: number) => (total > 0 ? (used / total) * 100 : 0);
+
+const levelOf = (value: number) => (value >= HOT_PERCENT ? 'hot' : value >= WARN_PERCENT ? 'warn' : 'ok');
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 ** 4) return `${(bytes / 1024 ** 4).toFixed(1)} TB`;
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  return `${Math.round(bytes / 1024 ** 2)} MB`;
+};
+
+const formatUptime = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  if (days > 0) return `${days}d ${hours}h`;
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${hours}h ${minutes}m`;
+};
+
+interface SparklineProps {
+  /** Valores en porcentaje (0-100). */
+  values: number[];
+  width?: number;
+  height?: number;
+}
+
+export function Sparkline({ values, width = 64, height = 16 }: SparklineProps) {
+  if (values.length < 2) return <svg className="sparkline" width={width} height={height} />;
+  const step = width / (values.length - 1);
+  const points = values
+    .map((value, index) => `${(index * step).toFixed(1)},${(height - (Math.min(100, value) / 100) * (height - 2) - 1).toFixed(1)}`)
+    .join(' ');
+  const level = levelOf(values[values.length - 1]);
+  return (
+    <svg className={`sparkline ${level}`} width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+      <polyline points={points} fill="none" strokeWidth="1.5" strokeLinejoin="round" />
+    </svg>
+  );
+}
+
+/** Resumen de una línea para el listado de workers. */
+export function WorkerHealthSummary({ history }: { history: WorkerMetrics[] }) {
+  const latest = history[history.length - 1];
+  if (!latest) return null;
+  const mem = percent(latest.memUsed, latest.memTotal);
+  const disk = percent(latest.diskUsed, latest.diskTotal);
+  const worst = Math.max(latest.cpu, mem, disk);
+  return (
+    <div
+      className={`worker-health-summary ${levelOf(worst)}`}
+      title={`CPU ${Math.round(latest.cpu)}% · RAM ${Math.round(mem)}% · Disco ${Math.round(disk)}% · ${latest.ptys} PTY`}
+    >
+      <Sparkline values={history.map((sample) => sample.cpu)} />
+      <span>CPU {Math.round(latest.cpu)}%</span>
+      <span>RAM {Math.round(mem)}%</span>
+    </div>
+  );
+}
+
+function Gauge({ label, value, detail }: { label: string; value: number; detail: string }) {
+  return (
+    <div className={`worker-gauge ${levelOf(value)}`}>
+      <div className="worker-gauge-head">
+        <span>{label}</span>
+        <strong>{Math.round(value)}%</strong>
+      </div>
+      <div className="worker-gauge-track">
+        <div className="worker-gauge-fill" style={{ width: `${Math.min(100, value)}%` }} />
+      </div>
+      <div className="worker-gauge-detail">{detail}</div>
+    </div>
+  );
+}
+
+/** Panel de salud del detalle del worker: medidores, tendencias y datos del host. */
+export function WorkerHealthPanel({ history }: { history: WorkerMetrics[] }) {
+  const latest = history[history.length - 1];
+  if (!latest) {
+    return <div className="worker-health-empty">Sin métricas. El worker debe estar en línea y actualizado.</div>;
+  }
+  const mem = percent(latest.memUsed, latest.memTotal);
+  const disk = percent(latest.diskUsed, latest.diskTotal);
+  return (
+    <div className="worker-health-panel">
+      <div className="worker-gauges">
+        <Gauge label="CPU" value={latest.cpu} detail={`${latest.cores} núcleos`} />
+        <Gauge label="Memoria" value={mem} detail={`${formatBytes(latest.memUsed)} / ${formatBytes(latest.memTotal)}`} />
+        {latest.diskTotal > 0 && (
+          <Gauge label="Disco" value={disk} detail={`${formatBytes(latest.diskUsed)} / ${formatBytes(latest.diskTotal)}`} />
+        )}
+      </div>
+      <div className="worker-health-trends">
+        <div>
+          <span>CPU</span>
+          <Sparkline values={history.map((sample) => sample.cpu)} width={200} height={32} />
+        </div>
+        <div>
+          <span>Memoria</span>
+          <Sparkline values={history.map((sample) => percent(sample.memUsed, sample.memTotal))} width={200} height={32} />
+        </div>
+      </div>
+      <div className="worker-health-facts">
+        <span>Carga: {latest.load.map((value) => value.toFixed(2)).join(' / ')}</span>
+        <span>Uptime: {formatUptime(latest.uptime)}</span>
+        <span>PTYs: {latest.ptys}</span>
+        <span>Versión: {latest.version}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Terminal } from '@xterm/xterm';
+import { Pause, Play, RotateCcw, X, Film } from 'lucide-react';
+import { TERMINAL_OPTIONS } from '../hooks';
+import {
+  parseAsciicast,
+  parseResize,
+  formatPlaybackTime,
+  type Asciicast,
+} from '../lib/asciicast';
+import type { PlayingRecording } from '../store';
+import './RecordingPlayer.css';
+
+interface RecordingPlayerProps {
+  recording: PlayingRecording;
+  nexusUrl: string;
+  token: string | null;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+export function RecordingPlayer({ recording, nexusUrl, token, onClose }: RecordingPlayerProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const terminalRef = useRef<Terminal | null>(null);
+  const [cast, setCast] = useState<Asciicast | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [position, setPosition] = useState(0);
+  // Playback head in seconds and index of the next event to apply.
+  const positionRef = useRef(0);
+  const cursorRef = useRef(0);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    fetch(`${nexusUrl}/api/workers/${recording.workerId}/recordings/${recording.recordingId}/download`, {
+      headers: { Authorization: `Bearer ${token}` },
+      cache: 'no-store',
+    })
+      .then(async (res) => {
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          throw new Error(data.error || 'No se pudo cargar la grabación');
+        }
+        return res.text();
+      })
+      .then((text) => {
+        if (cancelled) return;
+        positionRef.current = 0;
+        cursorRef.current = 0;
+        setCast(parseAsciicast(text));
+        setPosition(0);
+        setPlaying(true);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'No se pudo cargar la grabación');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [nexusUrl, token, recording.workerId, recording.recordingId]);
+
+  useEffect(() => {
+    if (!cast || !containerRef.current) return;
+    const term = new Terminal({
+      ...TERMINAL_OPTIONS,
+      fontSize: 13,
+      cols: cast.header.width,
+      rows: cast.header.height,
+      cursorBlink: false,
+      disableStdin: true,
+    });
+    term.open(containerRef.current);
+    terminalRef.current = term;
+    return () => {
+      term.dispose();
+      terminalRef.current = null;
+    };
+  }, [cast]);
+
+  const applyUntil = useCallback((target: number) => {
+    const term = terminalRef.current;
+    if (!term || !cast) return;
+    let pending = '';
+    while (cursorRef.current < cast.events.length && cast.events[cursorRef.current].time <= target) {
+      const event = cast.events[cursorRef.current++];
+      if (event.code === 'o') {
+        pending += event.data;
+      } else if (event.code === 'r') {
+        const size = parseResize(event.data);
+        if (!size) continue;
+        if (pending) term.write(pending);
+        pending = '';
+        term.resize(size.cols, size.rows);
+      }
+    }
+    if (pending) term.write(pending);
+  }, [cast]);
+
+  const seek = useCallback((target: number) => {
+    const term = terminalRef.current;
+    if (!term || !cast) return;
+    const clamped = Math.min(Math.max(0, target), cast.duration);
+    if (clamped < positionRef.current) {
+      // xterm can't rewind: redraw from the start up to the new head.
+      term.reset();
+      term.resize(cast.header.width, cast.header.height);
+      cursorRef.current = 0;
+    }
+    positionRef.current = clamped;
+    applyUntil(clamped);
+    setPosition(clamped);
+  }, [cast, applyUntil]);
+
+  useEffect(() => {
+    if (!playing || !cast) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = Math.min(cast.duration, positionRef.current + ((now - last) / 1000) * speed);
+      last = now;
+      positionRef.current = next;
+      applyUntil(next);
+      setPosition(next);
+      if (next >= cast.duration) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, cast, applyUntil]);
+
+  const handleTogglePlay = () => {
+    if (!cast) return;
+    if (!playing && positionRef.current >= cast.duration) seek(0);
+    setPlaying((current) => !current);
+  };
+
+  const duration = cast?.duration ?? 0;
+
+  return (
+    <div className="recording-modal-overlay" onClick={onClose}>
+      <div className="recording-player" onClick={(e) => e.stopPropagation()}>
+        <div className="recording-header">
+          <h3>
+            <Film size={18} />
+            <span className="recording-title">{cast?.header.title || recording.title}</span>
+          </h3>
+          <button className="close-btn" onClick={onClose} aria-label="Cerrar" type="button">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="recording-screen">
+          {error && <div className="error-text">{error}</div>}
+          {!error && !cast && <div className="empty-list">Cargando grabación...</div>}
+          <div className="recording-terminal" ref={containerRef} />
+        </div>
+
+        <div className="recording-controls">
+          <button
+            className="recording-control-btn"
+            onClick={handleTogglePlay}
+            disabled={!cast}
+            title={playing ? 'Pausar' : 'Reproducir'}
+            type="button"
+          >
+            {playing ? <Pause size={16} /> : <Play size={16} />}
+          </button>
+          <button
+            className="recording-control-btn"
+            onClick={() => seek(0)}
+            disabled={!cast}
+            title="Reiniciar"
+            type="button"
+          >
+            <RotateCcw size={16} />
+          </button>
+          <span className="recording-time">
+            {formatPlaybackTime(position)} / {formatPlaybackTime(duration)}
+          </span>
+          <div className="recording-timeline">
+            <input
+              type="range"
+              min={0}
+              max={duration || 0}
+              step={0.01}
+              value={position}
+              disabled={!cast}
+              onChange={(e) => seek(Number(e.target.value))}
+            />
+            {cast?.markers.map((marker, index) => (
+              <span
+                key={`${marker.time}-${index}`}
+                className="recording-marker-tick"
+                style={{ left: `${duration > 0 ? (marker.time / duration) * 100 : 0}%` }}
+                title={marker.label}
+              />
+            ))}
+          </div>
+          <div className="recording-speeds">
+            {SPEEDS.map((value) => (
+              <button
+                key={value}
+                className={`recording-speed-btn ${speed === value ? 'active' : ''}`}
+                onClick={() => setSpeed(value)}
+                type="button"
+              >
+                {value}x
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {cast && cast.markers.length > 0 && (
+          <div className="recording-markers">
+            {cast.markers.map((marker, index) => (
+              <button
+                key={`${marker.time}-${index}`}
+                className="recording-marker-btn"
+                onClick={() => seek(marker.time)}
+                type="button"
+              >
+                <span className="recording-marker-time">{formatPlaybackTime(marker.time)}</span>
+                {marker.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Eye, Link2, Trash2, X } from 'lucide-react';
+import type { SharingSession } from '../store/slices/uiSlice';
+import { sessionShareUrl, spectatorUrl } from '../lib/sessionShare';
+import './ShareModal.css';
+
+interface SessionShareModalProps {
+  session: SharingSession;
+  nexusUrl: string;
+  token: string | null;
+  onClose: () => void;
+}
+
+interface SessionShareLink {
+  id: string;
+  token: string;
+  permission: 'view' | 'control';
+  createdAt: number;
+  expiresAt: number | null;
+  maxUses: number | null;
+  uses: number;
+  redeemedBy: number;
+  revoked: boolean;
+}
+
+interface SpectatorLink {
+  id: string;
+  token: string | null;
+  createdAt: number;
+  expiresAt: number;
+  viewers: number;
+  revoked: boolean;
+}
+
+const EXPIRY_OPTIONS = [
+  { minutes: 15, label: '15 minutos' },
+  { minutes: 60, label: '1 hora' },
+  { minutes: 24 * 60, label: '1 día' },
+  { minutes: 7 * 24 * 60, label: '7 días' },
+];
+
+const MAX_USES_OPTIONS: Array<{ value: number | null; label: string }> = [
+  { value: 1, label: '1 uso' },
+  { value: 5, label: '5 usos' },
+  { value: null, label: 'Sin límite' },
+];
+
+const describeLink = (link: SessionShareLink) => {
+  if (link.revoked) return 'Revocado';
+  if (link.expiresAt !== null && link.expiresAt <= Date.now()) return 'Expirado';
+  const uses = link.maxUses === null ? `${link.uses} usos` : `${link.uses}/${link.maxUses} usos`;
+  const expires = link.expiresAt === null ? 'sin expiración' : `expira ${new Date(link.expiresAt).toLocaleString()}`;
+  return `${uses} · ${expires}`;
+};
+
+const describeSpectatorLink = (link: SpectatorLink) => {
+  if (link.revoked) return 'Revocado';
+  if (link.expiresAt <= Date.now()) return 'Expirado';
+  return `${link.viewers} espectador${link.viewers !== 1 ? 'es' : ''} · expira ${new Date(link.expiresAt).toLocaleString()}`;
+};
+
+export function SessionShareModal({ session, nexusUrl, token, onClose }: SessionShareModalProps) {
+  const [links, setLinks] = useState<SessionShareLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [permission, setPermission] = useState<'view' | 'control'>('view');
+  const [expiresInMinutes, setExpiresInMinutes] = useState(60);
+  const [maxUses, setMaxUses] = useState<number | null>(1);
+  const [creating, setCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [spectatorLinks, setSpectatorLinks] = useState<SpectatorLink[]>([]);
+  const [spectatorExpiresInMinutes, setSpectatorExpiresInMinutes] = useState(60);
+
+  const sessionUrl = `${nexusUrl}/api/workers/${session.workerId}/sessions/${encodeURIComponent(session.sessionId)}`;
+  const baseUrl = `${sessionUrl}/shares`;
+  const spectatorsUrl = `${sessionUrl}/spectators`;
+
+  const fetchLinks = useCallback(async () => {
+    if (!token) return;
+    try {
+      setError(null);
+      const headers = { Authorization: `Bearer ${token}` };
+      const [sharesRes, spectatorsRes] = await Promise.all([
+        fetch(baseUrl, { headers, cache: 'no-store' }),
+        fetch(spectatorsUrl, { headers, cache: 'no-store' }),
+      ]);
+      if (!sharesRes.ok || !spectatorsRes.ok) throw new Error('No se pudieron cargar los enlaces');
+      setLinks(await sharesRes.json());
+      setSpectatorLinks(await spectatorsRes.json());
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'No se pudieron cargar los enlaces');
+    } finally {
+      setLoading(false);
+    }
+  }, [baseUrl, spectatorsUrl, token]);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  const copyUrl = (id: string, url: string) => {
+    navigator.clipboard.writeText(url);
+    setCopiedId(id);
+    setTimeout(() => setCopiedId(null), 1500);
+  };
+
+  const handleCopy = (link: SessionShareLink) => copyUrl(link.id, sessionShareUrl(link.token));
+
+  const handleCreate = async () => {
+    if (!token) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const res = await fetch(baseUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ permission, expiresInMinutes, maxUses }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'No se pudo crear el enlace');
+      setLinks((current) => [{ ...data, redeemedBy: 0 }, ...current]);
+      handleCopy(data);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'No se pudo crear el enlace');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: SessionShareLink) => {
+    if (!token) return;
+    setBusyId(link.id);
+    setError(null);
+    try {
+      const res = await fetch(`${baseUrl}/${link.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'No se pudo revocar el enlace');
+      setLinks((current) => current.map((item) => (item.id === link.id ? { ...item, revoked: true } : item)));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'No se pudo revocar el enlace');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCreateSpectator = async () => {
+    if (!token) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const res = await fetch(spectatorsUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ expiresInMinutes: spectatorExpiresInMinutes }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'No se pudo crear el enlace público');
+      setSpectatorLinks((current) => [data, ...current]);
+      copyUrl(data.id, spectatorUrl(data.token));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'No se pudo crear el enlace público');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevokeSpectator = async (link: SpectatorLink) => {
+    if (!token) return;
+    setBusyId(link.id);
+    setError(null);
+    try {
+      const res = await fetch(`${spectatorsUrl}/${link.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'No se pudo revocar el enlace');
+      setSpectatorLinks((current) => current.map((item) => (
+        item.id === link.id ? { ...item, revoked: true, viewers: 0, token: null } : item
+      )));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'No se pudo revocar el enlace');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="share-modal-overlay" onClick={onClose}>
+      <div className="share-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="share-header">
+          <h3>
+            <Link2 size={20} className="text-blue-400" />
+            Compartir sesión: <span className="text-blue-200">{session.title}</span>
+          </h3>
+          <button className="close-btn" onClick={onClose} aria-label="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="share-body">
+          <div className="add-user-section">
+            <div className="section-label">Nuevo enlace</div>
+            <div className="add-input-group">
+              <select
+                className="share-permission-select"
+                value={permission}
+                onChange={(e) => setPermission(e.target.value as 'view' | 'control')}
+                title="Permiso"
+              >
+                <option value="view">Solo ver</option>
+                <option value="control">Control</option>
+              </select>
+              <select
+                className="share-permission-select"
+                value={expiresInMinutes}
+                onChange={(e) => setExpiresInMinutes(Number(e.target.value))}
+                title="Expira en"
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                ))}
+              </select>
+              <select
+                className="share-permission-select"
+                value={maxUses ?? ''}
+                onChange={(e) => setMaxUses(e.target.value ? Number(e.target.value) : null)}
+                title="Usos"
+              >
+                {MAX_USES_OPTIONS.map((option) => (
+                  <option key={option.label} value={option.value ?? ''}>{option.label}</option>
+                ))}
+              </select>
+              <button className="add-btn" onClick={handleCreate} disabled={creating}>
+                {creating ? '...' : 'Crear'}
+              </button>
+            </div>
+            {error && <div className="error-text">{error}</div>}
+            <div className="share-code-hint">
+              Solo da acceso a esta sesión, no al worker. Quien lo abra debe iniciar sesión en tu mismo tenant.
+            </div>
+          </div>
+
+          <div className="shared-list-section">
+            <div className="section-label">Enlaces ({links.length})</div>
+            <div className="shared-list">
+              {loading ? (
+                <div className="empty-list">Cargando enlaces...</div>
+              ) : links.length === 0 ? (
+                <div className="empty-list">Aún no hay enlaces para esta sesión.</div>
+              ) : (
+                links.map((link) => {
+                  const inactive = link.revoked || (link.expiresAt !== null && link.expiresAt <= Date.now());
+                  return (
+                    <div key={link.id} className="share-item">
+                      <div className="user-info">
+                        <div className="user-details">
+                          <span className="username">
+                            {link.permission === 'control' ? 'Control' : 'Solo ver'}
+                            {link.redeemedBy > 0 && ` · ${link.redeemedBy} usuario${link.redeemedBy !== 1 ? 's' : ''}`}
+                          </span>
+                          <span className="share-code-hint">{describeLink(link)}</span>
+                        </div>
+                      </div>
+                      {!inactive && (
+                        <>
+                          <button className="copy-code-btn" onClick={() => handleCopy(link)}>
+                            {copiedId === link.id ? 'Copiado' : 'Copiar'}
+                          </button>
+                          <button
+                            className="remove-btn"
+                            onClick={() => handleRevoke(link)}
+                            disabled={busyId === link.id}
+                            title="Revocar enlace"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+
+          <div className="add-user-section">
+            <div className="section-label">Vista pública</div>
+            <div className="add-input-group">
+              <select
+                className="share-permission-select"
+                value={spectatorExpiresInMinutes}
+                onChange={(e) => setSpectatorExpiresInMinutes(Number(e.target.value))}
+                title="Expira en"
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                ))}
+              </select>
+              <button className="add-btn" onClick={handleCreateSpectator} disabled={creating}>
+                {creating ? '...' : 'Crear'}
+              </button>
+            </div>
+            <div className="share-code-hint">
+              Cualquiera con el enlace ve la salida en vivo sin iniciar sesión. No puede escribir ni ver otras sesiones.
+            </div>
+          </div>
+
+          {spectatorLinks.length > 0 && (
+            <div className="shared-list-section">
+              <div className="section-label">Enlaces públicos ({spectatorLinks.length})</div>
+              <div className="shared-list">
+                {spectatorLinks.map((link) => (
+                  <div key={link.id} className="share-item">
+                    <div className="user-info">
+                      <div className="user-details">
+                        <span className="username">
+                          <Eye size={12} /> Solo lectura
+                        </span>
+                        <span className="share-code-hint">{describeSpectatorLink(link)}</span>
+                      </div>
+                    </div>
+                    {link.token && !link.revoked && link.expiresAt > Date.now() && (
+                      <>
+                        <button className="copy-code-btn" onClick={() => copyUrl(link.id, spectatorUrl(link.token!))}>
+                          {copiedId === link.id ? 'Copiado' : 'Copiar'}
+                        </button>
+                        <button
+                          className="remove-btn"
+                          onClick={() => handleRevokeSpectator(link)}
+                          disabled={busyId === link.id}
+                          title="Revocar y desconectar espectadores"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="share-footer">
+          <button className="close-modal-btn" onClick={onClose}>Listo</button>
+        </div>
+      </div>
+    </div>
+  );
+}
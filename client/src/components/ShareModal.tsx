@@ -15,6 +15,13 @@ interface Share {
   permission: string;
 }
 
+type SharePermission = 'view' | 'control';
+
+const PERMISSION_OPTIONS: Array<{ value: SharePermission; label: string }> = [
+  { value: 'control', label: 'Control' },
+  { value: 'view', label: 'Solo ver' },
+];
+
 const normalizeShares = (data: Array<Partial<Share> & Record<string, unknown>>): Share[] => {
   return data
     .map((item) => {
@@ -34,6 +41,8 @@ export function ShareModal({ worker, onClose, nexusUrl, token }: ShareModalProps
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [newUsername, setNewUsername] = useState('');
+  const [newPermission, setNewPermission] = useState<SharePermission>('control');
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
   const [adding, setAdding] = useState(false);
   const [unsharingId, setUnsharingId] = useState<number | null>(null);
   const [copiedCode, setCopiedCode] = useState(false);
@@ -62,33 +71,38 @@ export function ShareModal({ worker, onClose, nexusUrl, token }: ShareModalProps
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [worker.id]);
 
+  // El backend hace upsert: volver a compartir con un usuario cambia su permiso.
+  const postShare = async (targetUsername: string, permission: SharePermission) => {
+    const res = await fetch(`${nexusUrl}/api/workers/share`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`
+      },
+      body: JSON.stringify({
+        workerId: worker.id,
+        targetUsername,
+        permission
+      })
+    });
+
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'No se pudo compartir');
+
+    if (Array.isArray(data.shares)) {
+      setShares(normalizeShares(data.shares));
+    } else {
+      fetchShares();
+    }
+  };
+
   const handleShare = async () => {
     if (!newUsername || !token) return;
     setAdding(true);
     setError(null);
     try {
-      const res = await fetch(`${nexusUrl}/api/workers/share`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          workerId: worker.id,
-          targetUsername: newUsername,
-          permission: 'control'
-        })
-      });
-
-      const data = await res.json();
-      if (!res.ok) throw new Error(data.error || 'No se pudo compartir');
-
+      await postShare(newUsername, newPermission);
       setNewUsername('');
-      if (Array.isArray(data.shares)) {
-        setShares(normalizeShares(data.shares));
-      } else {
-        fetchShares();
-      }
     } catch (err: unknown) {
       setError(err instanceof Error ? err.message : 'No se pudo compartir');
     } finally {
@@ -96,6 +110,19 @@ export function ShareModal({ worker, onClose, nexusUrl, token }: ShareModalProps
     }
   };
 
+  const handleChangePermission = async (share: Share, permission: SharePermission) => {
+    if (!token || share.permission === permission) return;
+    setUpdatingId(share.userId);
+    setError(null);
+    try {
+      await postShare(share.username, permission);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'No se pudo cambiar el permiso');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
   const handleCopyCode = () => {
     if (!worker.id) return;
     navigator.clipboard.writeText(worker.id);
@@ -161,6 +188,16 @@ export function ShareModal({ worker, onClose, nexusUrl, token }: ShareModalProps
                 placeholder="Usuario"
                 onKeyDown={(e) => e.key === 'Enter' && handleShare()}
               />
+              <select
+                className="share-permission-select"
+                value={newPermission}
+                onChange={e => setNewPermission(e.target.value as SharePermission)}
+                title="Permiso"
+              >
+                {PERMISSION_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
               <button
                 onClick={handleShare}
                 disabled={adding || !newUsername}
@@ -206,6 +243,17 @@ export function ShareModal({ worker, onClose, nexusUrl, token }: ShareModalProps
                         <span className="username">{share.username}</span>
                       </div>
                     </div>
+                    <select
+                      className="share-permission-select"
+                      value={share.permission}
+                      onChange={e => handleChangePermission(share, e.target.value as SharePermission)}
+                      disabled={updatingId === share.userId}
+                      title="Cambiar permiso"
+                    >
+                      {PERMISSION_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
                     <button
                       className="remove-btn"
                       onClick={() => handleUnshare(share.userId)}
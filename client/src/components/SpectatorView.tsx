@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from 'react';
+import { io } from 'socket.io-client';
+import { Terminal } from '@xterm/xterm';
+import { Eye } from 'lucide-react';
+import { TERMINAL_OPTIONS } from '../hooks';
+import { OUTPUT_ENCODING, toTerminalBytes } from '../lib/terminalBytes';
+import './SpectatorView.css';
+
+interface SpectatorViewProps {
+  nexusUrl: string;
+  token: string | null;
+}
+
+interface SpectatorSnapshot {
+  title: string;
+  cols: number;
+  rows: number;
+  data: Uint8Array | ArrayBuffer | string;
+}
+
+type SpectatorStatus = 'connecting' | 'live' | 'reconnecting' | 'ended';
+
+export function SpectatorView({ nexusUrl, token }: SpectatorViewProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [title, setTitle] = useState('Sesión en vivo');
+  const [status, setStatus] = useState<SpectatorStatus>(token ? 'connecting' : 'ended');
+  const [message, setMessage] = useState<string | null>(token ? null : 'Falta el token del enlace.');
+
+  useEffect(() => {
+    if (!token || !containerRef.current) return;
+    const term = new Terminal({
+      ...TERMINAL_OPTIONS,
+      cursorBlink: false,
+      disableStdin: true,
+    });
+    term.open(containerRef.current);
+
+    // Solo output: el namespace de espectadores no acepta ningún evento de entrada.
+    const socket = io(`${nexusUrl}/spectate`, {
+      auth: { token, encoding: OUTPUT_ENCODING },
+      reconnectionAttempts: 5,
+    });
+    const end = (text: string) => {
+      setStatus('ended');
+      setMessage(text);
+      socket.disconnect();
+    };
+
+    socket.on('snapshot', (snapshot: SpectatorSnapshot) => {
+      // Tras una reconexión el snapshot reemplaza lo que ya se había pintado.
+      term.reset();
+      term.resize(snapshot.cols, snapshot.rows);
+      term.write(toTerminalBytes(snapshot.data));
+      setTitle(snapshot.title);
+      setStatus('live');
+      setMessage(null);
+    });
+    socket.on('output', ({ data }: { data: Uint8Array | ArrayBuffer | string }) => term.write(toTerminalBytes(data)));
+    socket.on('resize', ({ cols, rows }: { cols: number; rows: number }) => term.resize(cols, rows));
+    socket.on('session-ended', () => end('La sesión terminó.'));
+    socket.on('link-revoked', () => end('El dueño revocó este enlace.'));
+    socket.on('connect_error', (err) => end(err.message || 'No se pudo abrir el enlace.'));
+    socket.on('disconnect', (reason) => {
+      if (reason === 'io server disconnect') {
+        setStatus('ended');
+        setMessage((current) => current ?? 'El enlace expiró.');
+      } else if (reason !== 'io client disconnect') {
+        setStatus('reconnecting');
+      }
+    });
+
+    return () => {
+      socket.disconnect();
+      term.dispose();
+    };
+  }, [nexusUrl, token]);
+
+  return (
+    <div className="spectator-view">
+      <div className="spectator-header">
+        <Eye size={18} className="text-blue-400" />
+        <span className="spectator-title">{title}</span>
+        <span className={`spectator-status ${status}`}>
+          {status === 'live' ? 'En vivo' : status === 'ended' ? 'Finalizado' : 'Conectando...'}
+        </span>
+      </div>
+      {message && <div className="spectator-message">{message}</div>}
+      <div className="spectator-terminal" ref={containerRef} />
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { CreditCard, Check, Loader2, X, Crown, Zap, Gift, Sparkles, AlertTriangle, Clock } from 'lucide-react';
+import { CreditCard, Check, Loader2, X, Crown, Zap, Gift, Sparkles, AlertTriangle, Clock, TerminalSquare } from 'lucide-react';
 
 interface Plan {
   id: string;
@@ -21,6 +21,13 @@ interface PaymentHistory {
   createdAt: string;
 }
 
+interface SessionUsage {
+  current: number;
+  /** -1 = sin límite. */
+  max: number;
+  sessions: Array<{ workerId: string; workerName: string; sessionId: string; displayName?: string }>;
+}
+
 interface SubscriptionModalProps {
   onClose: () => void;
   nexusUrl: string;
@@ -70,6 +77,7 @@ export function SubscriptionModal({ onClose, nexusUrl, token }: SubscriptionModa
   const [activePlan, setActivePlan] = useState<string | null>(null);
   const [subscriptionEnd, setSubscriptionEnd] = useState<string | null>(null);
   const [payments, setPayments] = useState<PaymentHistory[]>([]);
+  const [sessionUsage, setSessionUsage] = useState<SessionUsage | null>(null);
   const [loading, setLoading] = useState(true);
   const [purchasing, setPurchasing] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -82,11 +90,14 @@ export function SubscriptionModal({ onClose, nexusUrl, token }: SubscriptionModa
   const loadData = async () => {
     try {
       setLoading(true);
-      const [plansRes, statusRes] = await Promise.all([
+      const [plansRes, statusRes, usageRes] = await Promise.all([
         fetch(`${nexusUrl}/api/payments/plans`),
         fetch(`${nexusUrl}/api/payments/status`, {
           headers: { Authorization: `Bearer ${token}` },
         }),
+        fetch(`${nexusUrl}/api/sessions/usage`, {
+          headers: { Authorization: `Bearer ${token}` },
+        }),
       ]);
 
       if (plansRes.ok) {
@@ -100,6 +111,10 @@ export function SubscriptionModal({ onClose, nexusUrl, token }: SubscriptionModa
         setSubscriptionEnd(statusData.subscriptionEnd || null);
         setPayments(statusData.payments || []);
       }
+
+      if (usageRes.ok) {
+        setSessionUsage(await usageRes.json());
+      }
     } catch (err) {
       console.error('Error loading subscription data:', err);
     } finally {
@@ -248,6 +263,30 @@ export function SubscriptionModal({ onClose, nexusUrl, token }: SubscriptionModa
                     })()}
                   </div>
                 )}
+                {sessionUsage && (
+                  <div style={{ display: 'flex', alignItems: 'flex-start', gap: 8, marginLeft: 26 }}>
+                    <TerminalSquare size={14} color="#6c7086" style={{ marginTop: 2 }} />
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                      <span
+                        style={{
+                          color: sessionUsage.max >= 0 && sessionUsage.current >= sessionUsage.max ? '#fcd34d' : '#a6adc8',
+                          fontSize: 13,
+                        }}
+                      >
+                        Sesiones simultáneas: {sessionUsage.current}
+                        {sessionUsage.max >= 0 ? ` de ${sessionUsage.max}` : ' (sin límite)'}
+                        {sessionUsage.current > 0 ? ' en todos tus dispositivos' : ''}
+                      </span>
+                      {sessionUsage.sessions.length > 0 && (
+                        <span style={{ color: '#6c7086', fontSize: 12 }}>
+                          {sessionUsage.sessions
+                            .map((s) => `${s.displayName || s.sessionId.slice(0, 8)} · ${s.workerName}`)
+                            .join(', ')}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
 
@@ -0,0 +1,69 @@
+import { Check, Hand, Keyboard, X } from 'lucide-react';
+import type { SessionControl } from '../../store';
+import './ControlBar.css';
+
+interface ControlBarProps {
+  control: SessionControl;
+  readOnly: boolean;
+  onRequest: () => void;
+  onGrant: (socketId: string) => void;
+  onDeny: (socketId: string) => void;
+  onRelease: () => void;
+}
+
+export function ControlBar({ control, readOnly, onRequest, onGrant, onDeny, onRelease }: ControlBarProps) {
+  const { driver, isDriver, requested, requests, watchers } = control;
+  // Solo, sin nadie mirando, no hay nada que coordinar.
+  if (!driver || (isDriver && watchers.length === 0)) return null;
+
+  return (
+    <div className="control-bar">
+      <div className="control-bar-row">
+        <Keyboard size={14} />
+        <span className="control-bar-driver">
+          {isDriver ? 'Tienes el control' : `${driver.username} tiene el control`}
+        </span>
+        {watchers.length > 0 && (
+          <span className="control-bar-watchers" title={watchers.map((w) => w.username).join(', ')}>
+            · {watchers.length} observando
+          </span>
+        )}
+        {isDriver ? (
+          <button className="control-bar-btn" onClick={onRelease} type="button">Soltar</button>
+        ) : !readOnly && (
+          <button className="control-bar-btn primary" onClick={onRequest} disabled={requested} type="button">
+            <Hand size={12} />
+            {requested ? 'Solicitado' : 'Solicitar control'}
+          </button>
+        )}
+      </div>
+      {isDriver && requests.map((request) => (
+        <div key={request.socketId} className="control-bar-row request">
+          <span className="control-bar-driver">{request.username} pide el control</span>
+          <button className="control-bar-btn primary" onClick={() => onGrant(request.socketId)} type="button" title="Ceder">
+            <Check size={12} />
+            Ceder
+          </button>
+          <button className="control-bar-btn" onClick={() => onDeny(request.socketId)} type="button" title="Rechazar">
+            <X size={12} />
+          </button>
+        </div>
+      ))}
+      {isDriver && requests.length === 0 && watchers.length > 0 && (
+        <div className="control-bar-row handoff">
+          {watchers.map((watcher) => (
+            <button
+              key={watcher.socketId}
+              className="control-bar-btn"
+              onClick={() => onGrant(watcher.socketId)}
+              type="button"
+              title={`Pasar el control a ${watcher.username}`}
+            >
+              → {watcher.username}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
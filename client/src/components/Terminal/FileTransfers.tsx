@@ -0,0 +1,51 @@
+import { Check, Download, Upload, X } from 'lucide-react';
+import { useAppDispatch, useAppSelector } from '../../store/hooks';
+import { removeTransfer } from '../../store';
+import { formatBytes } from '../../lib/fileTransfer';
+import './FileTransfers.css';
+
+export function FileTransfers() {
+  const dispatch = useAppDispatch();
+  const transfers = useAppSelector((state) => state.ui.transfers);
+  if (transfers.length === 0) return null;
+
+  return (
+    <div className="file-transfers">
+      {transfers.map((transfer) => {
+        const percent = transfer.total > 0 ? Math.min(100, Math.round((transfer.loaded / transfer.total) * 100)) : 0;
+        return (
+          <div key={transfer.id} className={`file-transfer ${transfer.status}`}>
+            <div className="file-transfer-row">
+              {transfer.status === 'done'
+                ? <Check size={14} />
+                : transfer.direction === 'upload' ? <Upload size={14} /> : <Download size={14} />}
+              <span className="file-transfer-name" title={transfer.detail || transfer.name}>{transfer.name}</span>
+              <span className="file-transfer-size">
+                {transfer.status === 'active'
+                  ? `${formatBytes(transfer.loaded)} / ${formatBytes(transfer.total)}`
+                  : transfer.status === 'done' ? (transfer.direction === 'upload' ? 'Subido' : 'Descargado') : 'Error'}
+              </span>
+              {transfer.status !== 'active' && (
+                <button
+                  className="file-transfer-close"
+                  onClick={() => dispatch(removeTransfer(transfer.id))}
+                  title="Cerrar"
+                  type="button"
+                >
+                  <X size={12} />
+                </button>
+              )}
+            </div>
+            {transfer.status === 'error' ? (
+              <div className="file-transfer-error">{transfer.detail}</div>
+            ) : (
+              <div className="file-transfer-bar">
+                <div style={{ width: `${transfer.status === 'done' ? 100 : percent}%` }} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
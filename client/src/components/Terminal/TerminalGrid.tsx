@@ -1,7 +1,7 @@
 import { useRef, useEffect, useMemo, useState, useCallback } from 'react';
 import type { DragEvent, RefObject, TouchEvent as ReactTouchEvent } from 'react';
 import ReactGridLayout, { WidthProvider, type Layout } from 'react-grid-layout/legacy';
-import { ArrowDownToLine, GripHorizontal, Hexagon, Plus, X } from 'lucide-react';
+import { ArrowDownToLine, GripHorizontal, Hexagon, Plus, Radio, X } from 'lucide-react';
 import { useAppDispatch, useAppSelector } from '../../store/hooks';
 import {
   setActiveSession,
@@ -10,7 +10,11 @@ import {
   setShowDropOverlay,
   setDraggingSessionId,
   setGridSessionIds,
+  toggleSyncInput,
+  openDialog,
 } from '../../store';
+import { useFileTransfers } from '../../hooks';
+import { workerSupports } from '../../lib/workerCapabilities';
 import type { TerminalInstance } from '../../App';
 import 'react-grid-layout/css/styles.css';
 import 'react-resizable/css/styles.css';
@@ -89,7 +93,11 @@ function TerminalSlot({
       ref={wrapperRef}
       className={`terminal-slot-wrapper ${className || ''}`}
       onDrop={onDrop}
-      onDragOver={(e) => { e.preventDefault(); e.dataTransfer.dropEffect = 'move'; }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        // Archivos del escritorio se suben; sesiones arrastradas se mueven.
+        e.dataTransfer.dropEffect = e.dataTransfer.types.includes('Files') ? 'copy' : 'move';
+      }}
       style={{ width: '100%', height: '100%', overflow: 'hidden', flex: 1, minHeight: 0 }}
     />
   );
@@ -99,10 +107,13 @@ export function TerminalGrid({ instancesRef, containerRef, instancesVersion }: T
   const dispatch = useAppDispatch();
   const sessions = useAppSelector((state) => state.sessions.sessions);
   const gridSessionIds = useAppSelector((state) => state.sessions.gridSessionIds);
+  const syncInputSessionIds = useAppSelector((state) => state.sessions.syncInputSessionIds);
   const activeSessionId = useAppSelector((state) => state.sessions.activeSessionId);
   const draggingSessionId = useAppSelector((state) => state.sessions.draggingSessionId);
   const showDropOverlay = useAppSelector((state) => state.ui.showDropOverlay);
   const token = useAppSelector((state) => state.auth.token);
+  const workers = useAppSelector((state) => state.workers.workers);
+  const { upload } = useFileTransfers();
   const gridAreaRef = useRef<HTMLDivElement>(null);
   const [gridHeight, setGridHeight] = useState(0);
   const [instancesSnapshot, setInstancesSnapshot] = useState<Map<string, TerminalInstance>>(new Map());
@@ -147,8 +158,30 @@ export function TerminalGrid({ instancesRef, containerRef, instancesVersion }: T
     return nextSlots;
   }, [activeSessionId]);
 
+  // Files dropped on a terminal go to that session's current directory.
+  const uploadDroppedFiles = (sessionId: string | undefined, event: DragEvent<HTMLDivElement>) => {
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length === 0) return false;
+    event.preventDefault();
+    const session = sessionId ? sessions.find((s) => s.id === sessionId) : undefined;
+    const worker = session ? workers.find((w) => w.id === session.workerId) : undefined;
+    if (!session || !worker) return true;
+    if (worker.permission === 'view' || !workerSupports(worker, 'files')) {
+      dispatch(openDialog({
+        title: 'No se puede subir',
+        message: worker.permission === 'view'
+          ? 'Solo tienes acceso de lectura a este worker.'
+          : 'Este worker no admite transferencia de archivos. Actualízalo.',
+      }));
+      return true;
+    }
+    files.forEach((file) => upload(session.workerId, session.id, file));
+    return true;
+  };
+
   const handleDropOnSlot = (slotIndex: number) => (event: DragEvent<HTMLDivElement>) => {
     event.preventDefault();
+    if (uploadDroppedFiles(gridSessionIds[slotIndex], event)) return;
     event.dataTransfer.dropEffect = 'move';
     const sessionId = event.dataTransfer.getData('text/plain');
     if (sessionId) {
@@ -301,6 +334,7 @@ export function TerminalGrid({ instancesRef, containerRef, instancesVersion }: T
         <TerminalSlot
           instance={activeInstance}
           isActive
+          onDrop={(event) => { uploadDroppedFiles(activeSessionId ?? undefined, event); }}
           onRelease={handleSlotRelease}
         />
       ) : null;
@@ -328,12 +362,20 @@ export function TerminalGrid({ instancesRef, containerRef, instancesVersion }: T
             const instance = sessionId ? instancesSnapshot.get(sessionId) : undefined;
 
             if (instance) {
-              const sessionName = sessions.find(s => s.id === sessionId)?.displayName || '';
+              const session = sessions.find(s => s.id === sessionId);
+              const sessionName = session?.displayName || '';
+              const synced = syncInputSessionIds.includes(sessionId);
+              const viewOnly = workers.find((w) => w.id === session?.workerId)?.permission === 'view';
               return (
-                <div key={slotIndex.toString()} className="grid-cell">
+                <div key={slotIndex.toString()} className={`grid-cell ${synced ? 'sync-input' : ''}`}>
                   <div className="grid-drag-handle" title="Arrastrar para reordenar">
                     <GripHorizontal />
                     <span className="grid-drag-label">{sessionName}</span>
+                    {synced && (
+                      <span className="grid-sync-badge">
+                        <Radio /> Sincronizado{syncInputSessionIds.length > 1 ? ` · ${syncInputSessionIds.length}` : ''}
+                      </span>
+                    )}
                   </div>
                   <TerminalSlot
                     instance={instance}
@@ -341,6 +383,20 @@ export function TerminalGrid({ instancesRef, containerRef, instancesVersion }: T
                     onDrop={handleDropOnSlot(slotIndex)}
                     onRelease={handleSlotRelease}
                   />
+                  <button
+                    className={`grid-slot-sync ${synced ? 'active' : ''}`}
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      dispatch(toggleSyncInput(sessionId));
+                    }}
+                    disabled={viewOnly && !synced}
+                    title={synced
+                      ? 'Dejar de sincronizar la entrada de este panel'
+                      : 'Sincronizar entrada: lo que escribas en un panel marcado llega a todos los marcados'}
+                    type="button"
+                  >
+                    <Radio />
+                  </button>
                   <button
                     className="grid-slot-remove"
                     onClick={(event) => {
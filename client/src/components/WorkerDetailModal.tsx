@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Download, Play, Server, Trash2, X } from 'lucide-react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { setPlayingRecording } from '../store';
+import type { Worker } from '../store/slices/workersSlice';
+import { formatPlaybackTime, type RecordingSummary } from '../lib/asciicast';
+import { WorkerHealthPanel } from './Layout/WorkerHealth';
+import { WorkerTunnels } from './WorkerTunnels';
+import { workerIsOutdated, workerSupports } from '../lib/workerCapabilities';
+import './RecordingPlayer.css';
+
+interface WorkerDetailModalProps {
+  worker: Worker;
+  nexusUrl: string;
+  token: string | null;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export function WorkerDetailModal({ worker, nexusUrl, token, onClose }: WorkerDetailModalProps) {
+  const dispatch = useAppDispatch();
+  const [recordings, setRecordings] = useState<RecordingSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // detailWorker es una foto; estado y métricas vienen en vivo del store.
+  const liveWorker = useAppSelector((state) => state.workers.workers.find((item) => item.id === worker.id));
+  const metrics = useAppSelector((state) => state.connection.workerMetrics[worker.id]);
+  const status = liveWorker?.status ?? worker.status;
+  const current = liveWorker ?? worker;
+  const canDelete = (worker.permission || 'admin') !== 'view';
+
+  const fetchRecordings = useCallback(async () => {
+    if (!token) return;
+    try {
+      setError(null);
+      const res = await fetch(`${nexusUrl}/api/workers/${worker.id}/recordings`, {
+        headers: { Authorization: `Bearer ${token}` },
+        cache: 'no-store',
+      });
+      if (!res.ok) throw new Error('No se pudieron cargar las grabaciones');
+      setRecordings(await res.json());
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'No se pudieron cargar las grabaciones');
+    } finally {
+      setLoading(false);
+    }
+  }, [nexusUrl, token, worker.id]);
+
+  useEffect(() => {
+    fetchRecordings();
+  }, [fetchRecordings]);
+
+  const handleDownload = async (recording: RecordingSummary) => {
+    if (!token) return;
+    setBusyId(recording.id);
+    try {
+      const res = await fetch(`${nexusUrl}/api/workers/${worker.id}/recordings/${recording.id}/download`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) throw new Error('No se pudo descargar la grabación');
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${recording.id}.cast`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'No se pudo descargar la grabación');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (recording: RecordingSummary) => {
+    if (!token) return;
+    setBusyId(recording.id);
+    try {
+      const res = await fetch(`${nexusUrl}/api/workers/${worker.id}/recordings/${recording.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'No se pudo eliminar la grabación');
+      setRecordings((current) => current.filter((item) => item.id !== recording.id));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'No se pudo eliminar la grabación');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="recording-modal-overlay" onClick={onClose}>
+      <div className="worker-detail-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="recording-header">
+          <h3>
+            <Server size={18} />
+            <span className="recording-title">{worker.name}</span>
+          </h3>
+          <button className="close-btn" onClick={onClose} aria-label="Cerrar" type="button">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="worker-detail-body">
+          <div className="worker-detail-meta">
+            <span className={`worker-status ${status}`}>
+              {status === 'online' ? 'Online' : 'Offline'}
+            </span>
+            <span>Permiso: {worker.permission || 'admin'}</span>
+            {current.protocol_version !== undefined && (
+              <span className={workerIsOutdated(current) ? 'worker-outdated' : undefined}>
+                Protocolo {current.protocol_version}
+                {current.worker_version ? ` · v${current.worker_version}` : ''}
+              </span>
+            )}
+            <code>{worker.id}</code>
+          </div>
+          {current.capabilities && (
+            <div className="worker-detail-meta">
+              <span>Capacidades: {current.capabilities.features.join(', ') || 'ninguna'}</span>
+              {current.capabilities.shells.length > 0 && (
+                <span>Shells: {current.capabilities.shells.map((shell) => shell.split('/').pop()).join(', ')}</span>
+              )}
+            </div>
+          )}
+
+          <div className="section-label">Salud</div>
+          {workerSupports(current, 'metrics') ? (
+            <WorkerHealthPanel history={status === 'online' ? metrics || [] : []} />
+          ) : (
+            <div className="worker-health-empty">Este worker no reporta métricas. Actualízalo para ver su salud.</div>
+          )}
+
+          <div className="section-label">Túneles</div>
+          {token && <WorkerTunnels worker={current} nexusUrl={nexusUrl} token={token} />}
+
+          <div className="section-label">Grabaciones ({recordings.length})</div>
+          {error && <div className="error-text">{error}</div>}
+          <div className="recording-list">
+            {loading ? (
+              <div className="empty-list">Cargando grabaciones...</div>
+            ) : recordings.length === 0 ? (
+              <div className="empty-list">
+                No hay grabaciones.<br />
+                Inicia una desde el menú de la sesión.
+              </div>
+            ) : (
+              recordings.map((recording) => {
+                const inProgress = recording.ended_at === null;
+                return (
+                  <div key={recording.id} className="recording-item">
+                    <div className="recording-item-info">
+                      <div className="recording-item-title">{recording.title}</div>
+                      <div className="recording-item-meta">
+                        {new Date(recording.started_at).toLocaleString()}
+                        {' · '}
+                        {inProgress ? 'En curso' : formatPlaybackTime(recording.duration_ms / 1000)}
+                        {!inProgress && ` · ${formatBytes(recording.size_bytes)}`}
+                      </div>
+                    </div>
+                    <button
+                      className="recording-control-btn"
+                      onClick={() => dispatch(setPlayingRecording({
+                        workerId: worker.id,
+                        recordingId: recording.id,
+                        title: recording.title,
+                      }))}
+                      title="Reproducir"
+                      type="button"
+                    >
+                      <Play size={14} />
+                    </button>
+                    <button
+                      className="recording-control-btn"
+                      onClick={() => handleDownload(recording)}
+                      disabled={busyId === recording.id}
+                      title="Descargar .cast"
+                      type="button"
+                    >
+                      <Download size={14} />
+                    </button>
+                    {canDelete && (
+                      <button
+                        className="recording-control-btn danger"
+                        onClick={() => handleDelete(recording)}
+                        disabled={inProgress || busyId === recording.id}
+                        title="Eliminar grabación"
+                        type="button"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
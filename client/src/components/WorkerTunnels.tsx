@@ -0,0 +1,234 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import { ExternalLink, Lock, Plus, Radar, Trash2 } from 'lucide-react';
+import type { Worker } from '../store/slices/workersSlice';
+import { workerSupports } from '../lib/workerCapabilities';
+import {
+  allowTunnelPort,
+  detectTunnelPorts,
+  listTunnels,
+  openTunnelUrl,
+  removeTunnelPort,
+  type TunnelList,
+} from '../lib/tunnels';
+import './WorkerTunnels.css';
+
+interface WorkerTunnelsProps {
+  worker: Worker;
+  nexusUrl: string;
+  token: string;
+}
+
+// Las conexiones abiertas cambian solas; basta con refrescar mientras el modal está abierto.
+const REFRESH_MS = 5000;
+
+export function WorkerTunnels({ worker, nexusUrl, token }: WorkerTunnelsProps) {
+  const [list, setList] = useState<TunnelList | null>(null);
+  const [detected, setDetected] = useState<number[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [port, setPort] = useState('');
+  const [label, setLabel] = useState('');
+  const [tls, setTls] = useState(false);
+  const online = worker.status === 'online' && workerSupports(worker, 'tunnel');
+
+  const refresh = useCallback(async () => {
+    try {
+      setList(await listTunnels(nexusUrl, token, worker.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudieron cargar los túneles');
+    }
+  }, [nexusUrl, token, worker.id]);
+
+  const canControl = worker.permission !== 'view';
+
+  useEffect(() => {
+    if (!canControl) return;
+    void refresh();
+    const interval = setInterval(() => void refresh(), REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [canControl, refresh]);
+
+  const run = async (action: () => Promise<unknown>): Promise<boolean> => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await refresh();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const allow = (entry: { port: number; label: string; tls: boolean }) =>
+    run(async () => {
+      await allowTunnelPort(nexusUrl, token, worker.id, entry);
+      setDetected((current) => current?.filter((item) => item !== entry.port) ?? null);
+    });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const value = Number(port);
+    if (!Number.isInteger(value) || value < 1 || value > 65535) {
+      setError('Puerto inválido');
+      return;
+    }
+    void allow({ port: value, label: label.trim(), tls }).then((ok) => {
+      if (!ok) return;
+      setPort('');
+      setLabel('');
+      setTls(false);
+    });
+  };
+
+  // La pestaña se abre dentro del clic; si no, el navegador la bloquea como popup.
+  const handleOpen = (target: number) => {
+    const tab = window.open('about:blank', '_blank');
+    openTunnelUrl(nexusUrl, token, worker.id, target)
+      .then((url) => {
+        if (!tab) throw new Error('El navegador bloqueó la pestaña nueva');
+        tab.opener = null;
+        tab.location.href = url;
+      })
+      .catch((err: Error) => {
+        tab?.close();
+        setError(err.message);
+      });
+  };
+
+  const handleDetect = () =>
+    run(async () => {
+      const { ports } = await detectTunnelPorts(nexusUrl, token, worker.id);
+      setDetected(ports);
+    });
+
+  const allowed = new Set(list?.ports.map((entry) => entry.port));
+  const suggestions = (detected ?? []).filter((item) => !allowed.has(item));
+
+  if (!canControl) {
+    return <div className="worker-health-empty">Necesitas permiso de control para usar túneles.</div>;
+  }
+
+  return (
+    <div className="worker-tunnels">
+      {!workerSupports(worker, 'tunnel') && (
+        <div className="worker-health-empty">Este worker no admite túneles. Actualízalo.</div>
+      )}
+      {error && <div className="error-text">{error}</div>}
+
+      <div className="recording-list">
+        {!list ? (
+          <div className="empty-list">Cargando túneles...</div>
+        ) : list.ports.length === 0 ? (
+          <div className="empty-list">
+            No hay puertos permitidos.
+            {list.canManage && <><br />Añade uno o detecta los que escuchan en el worker.</>}
+          </div>
+        ) : (
+          list.ports.map((entry) => (
+            <div key={entry.port} className="recording-item">
+              <div className="recording-item-info">
+                <div className="recording-item-title">
+                  {entry.tls && <Lock size={12} />} localhost:{entry.port}
+                  {entry.label && <span className="worker-tunnel-label"> · {entry.label}</span>}
+                </div>
+                <div className="recording-item-meta">
+                  {entry.connections > 0
+                    ? `${entry.connections} conexión${entry.connections === 1 ? '' : 'es'} abierta${entry.connections === 1 ? '' : 's'}`
+                    : 'Sin conexiones'}
+                </div>
+              </div>
+              <button
+                className="recording-control-btn"
+                onClick={() => handleOpen(entry.port)}
+                disabled={!online}
+                title="Abrir en una pestaña nueva"
+                type="button"
+              >
+                <ExternalLink size={14} />
+              </button>
+              {list.canManage && (
+                <button
+                  className="recording-control-btn danger"
+                  onClick={() => {
+                    if (window.confirm(`¿Quitar el puerto ${entry.port}? Se cortan sus conexiones abiertas.`)) {
+                      void run(() => removeTunnelPort(nexusUrl, token, worker.id, entry.port));
+                    }
+                  }}
+                  disabled={busy}
+                  title="Quitar puerto"
+                  type="button"
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {list?.canManage && (
+        <>
+          <form className="worker-tunnel-form" onSubmit={handleSubmit}>
+            <input
+              className="share-input"
+              value={port}
+              onChange={(event) => setPort(event.target.value)}
+              placeholder="Puerto"
+              inputMode="numeric"
+            />
+            <input
+              className="share-input"
+              value={label}
+              onChange={(event) => setLabel(event.target.value)}
+              placeholder="Etiqueta (opcional)"
+              maxLength={64}
+            />
+            <label className="worker-tunnel-tls" title="El servidor local usa HTTPS">
+              <input type="checkbox" checked={tls} onChange={(event) => setTls(event.target.checked)} />
+              TLS
+            </label>
+            <button className="recording-control-btn" disabled={busy || !port} title="Permitir puerto" type="submit">
+              <Plus size={14} />
+            </button>
+            <button
+              className="recording-control-btn"
+              onClick={handleDetect}
+              disabled={busy || !online}
+              title="Detectar puertos escuchando en el worker"
+              type="button"
+            >
+              <Radar size={14} />
+            </button>
+          </form>
+          {detected && (
+            <div className="worker-tunnel-detected">
+              {suggestions.length === 0
+                ? 'No hay otros puertos escuchando en localhost.'
+                : suggestions.map((item) => (
+                  <button
+                    key={item}
+                    className="worker-tunnel-chip"
+                    onClick={() => void allow({ port: item, label: '', tls: false })}
+                    disabled={busy}
+                    title="Permitir este puerto"
+                    type="button"
+                  >
+                    + {item}
+                  </button>
+                ))}
+            </div>
+          )}
+        </>
+      )}
+      <div className="recording-item-meta">
+        Sin un dominio de túneles en Nexus (TUNNEL_BASE_URL), las apps se sirven aisladas bajo /tunnels/…:
+        las páginas y formularios funcionan, las que llaman a su propia API necesitan ese dominio.
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 export { useSocket, NEXUS_URL } from './useSocket';
 export { useAuth } from './useAuth';
-export { useTerminalSession } from './useTerminalSession';
+export { useTerminalSession, TERMINAL_OPTIONS } from './useTerminalSession';
 export { useResizableSidebar } from './useResizableSidebar';
+export { useIdlePresence } from './useIdlePresence';
+export { useFileTransfers } from './useFileTransfers';
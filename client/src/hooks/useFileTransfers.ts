@@ -0,0 +1,52 @@
+import { useCallback } from 'react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { removeTransfer, upsertTransfer, type FileTransfer } from '../store';
+import { downloadFile, uploadFile } from '../lib/fileTransfer';
+import { NEXUS_URL } from './useSocket';
+
+const DONE_VISIBLE_MS = 4000;
+
+/**
+ * Arranca subidas y descargas contra una sesión y refleja su progreso en
+ * `ui.transfers`, que pinta `FileTransfers`.
+ */
+export function useFileTransfers() {
+  const dispatch = useAppDispatch();
+  const token = useAppSelector((state) => state.auth.token);
+
+  const track = useCallback(async (
+    direction: FileTransfer['direction'],
+    name: string,
+    run: (onProgress: (loaded: number, total: number) => void) => Promise<string>
+  ) => {
+    const id = `${direction}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    let last: FileTransfer = { id, direction, name, loaded: 0, total: 0, status: 'active' };
+    const update = (patch: Partial<FileTransfer>) => {
+      last = { ...last, ...patch };
+      dispatch(upsertTransfer(last));
+    };
+    update({});
+    try {
+      const detail = await run((loaded, total) => update({ loaded, total }));
+      update({ status: 'done', loaded: last.total, detail });
+      setTimeout(() => dispatch(removeTransfer(id)), DONE_VISIBLE_MS);
+    } catch (err) {
+      // Los errores se quedan a la vista hasta que el usuario los cierra.
+      update({ status: 'error', detail: err instanceof Error ? err.message : 'Error en la transferencia' });
+    }
+  }, [dispatch]);
+
+  const upload = useCallback((workerId: string, sessionId: string, file: File) => {
+    if (!token) return;
+    void track('upload', file.name, (onProgress) =>
+      uploadFile(NEXUS_URL, token, { workerId, sessionId }, file, onProgress));
+  }, [token, track]);
+
+  const download = useCallback((workerId: string, sessionId: string, path: string) => {
+    if (!token) return;
+    void track('download', path.split('/').pop() || path, (onProgress) =>
+      downloadFile(NEXUS_URL, token, { workerId, sessionId }, path, onProgress));
+  }, [token, track]);
+
+  return { upload, download };
+}
@@ -0,0 +1,57 @@
+import { useEffect, useRef } from 'react';
+
+const IDLE_AFTER_MS = 2 * 60 * 1000;
+const ACTIVITY_EVENTS = ['keydown', 'pointerdown', 'pointermove', 'wheel'] as const;
+
+/**
+ * Reports whether this tab is idle: hidden, or without keyboard/pointer
+ * activity for a couple of minutes. `onChange` is called again whenever
+ * `enabled` turns on, so a fresh connection starts with the current value.
+ */
+export function useIdlePresence(enabled: boolean, onChange: (idle: boolean) => void) {
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let idle = document.hidden;
+    let timer: number | null = null;
+    let lastActivity = 0;
+
+    const report = (next: boolean) => {
+      if (next === idle) return;
+      idle = next;
+      onChangeRef.current(idle);
+    };
+    const arm = () => {
+      if (timer !== null) window.clearTimeout(timer);
+      timer = window.setTimeout(() => report(true), IDLE_AFTER_MS);
+    };
+    const handleActivity = () => {
+      if (document.hidden) return;
+      report(false);
+      // pointermove llega en ráfagas: basta con rearmar una vez por segundo.
+      const now = Date.now();
+      if (now - lastActivity < 1000) return;
+      lastActivity = now;
+      arm();
+    };
+    const handleVisibility = () => {
+      if (document.hidden) report(true);
+      else handleActivity();
+    };
+
+    onChangeRef.current(idle);
+    arm();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      if (timer !== null) window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [enabled]);
+}
@@ -53,6 +53,17 @@ interface UseTerminalSessionReturn {
 
 const MAX_OUTPUT_CHARS = 20000;
 
+/** xterm options shared by live sessions and the recording player. */
+export const TERMINAL_OPTIONS = {
+  fontFamily: '"MesloLGS NF", "Fira Code", "JetBrains Mono", "Roboto Mono", "Monaco", "Courier New", monospace',
+  allowTransparency: true,
+  scrollback: 5000,
+  theme: {
+    background: '#0d0d0d',
+    foreground: '#e7e7e7',
+  },
+} as const;
+
 export function useTerminalSession(): UseTerminalSessionReturn {
   const dispatch = useAppDispatch();
   const sessions = useAppSelector((state) => state.sessions.sessions);
@@ -152,17 +163,11 @@ export function useTerminalSession(): UseTerminalSessionReturn {
 
     // Create terminal
     const term = new Terminal({
+      ...TERMINAL_OPTIONS,
       cursorBlink: true,
-      fontFamily: '"MesloLGS NF", "Fira Code", "JetBrains Mono", "Roboto Mono", "Monaco", "Courier New", monospace',
       fontSize: getAdaptiveFontSize(),
       cols: 80,
       rows: 24,
-      allowTransparency: true,
-      scrollback: 5000,
-      theme: {
-        background: '#0d0d0d',
-        foreground: '#e7e7e7',
-      },
     });
 
     const fitAddon = new FitAddon();
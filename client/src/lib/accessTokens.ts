@@ -0,0 +1,62 @@
+/** Tokens personales (`utp_…`) para scripts y CI; Nexus solo guarda su hash. */
+
+export type TokenScope =
+  | 'workers:read'
+  | 'workers:write'
+  | 'sessions:read'
+  | 'sessions:write'
+  | 'files:read'
+  | 'files:write'
+  | 'tunnels'
+  | 'exec'
+  | 'agents:admin'
+  | 'audit:read';
+
+export interface AccessToken {
+  id: string;
+  name: string;
+  /** Últimos caracteres del secreto. */
+  token_hint: string;
+  scopes: TokenScope[];
+  created_at: number;
+  last_used_at: number | null;
+  expires_at: number | null;
+}
+
+export const SCOPE_LABELS: Record<TokenScope, string> = {
+  'workers:read': 'Ver workers',
+  'workers:write': 'Gestionar workers',
+  'sessions:read': 'Ver sesiones y grabaciones',
+  'sessions:write': 'Compartir sesiones y borrar grabaciones',
+  'files:read': 'Leer y descargar archivos del worker',
+  'files:write': 'Subir, editar y borrar archivos (equivale a ejecutar código)',
+  tunnels: 'Abrir y gestionar túneles',
+  exec: 'Ejecutar comandos (API exec)',
+  'agents:admin': 'Administrar agentes',
+  'audit:read': 'Leer auditoría',
+};
+
+async function call<T>(nexusUrl: string, token: string, path: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(`${nexusUrl}/api/auth/tokens${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+    },
+  });
+  const data = await res.json().catch(() => ({})) as T & { error?: string };
+  if (!res.ok) throw new Error(data.error || `Error ${res.status}`);
+  return data;
+}
+
+export const listAccessTokens = (nexusUrl: string, token: string) =>
+  call<{ scopes: TokenScope[]; tokens: AccessToken[] }>(nexusUrl, token, '');
+
+export const createAccessToken = (
+  nexusUrl: string,
+  token: string,
+  input: { name: string; scopes: TokenScope[]; expiresInDays: number | null }
+) => call<{ token: AccessToken; secret: string }>(nexusUrl, token, '', { method: 'POST', body: JSON.stringify(input) });
+
+export const revokeAccessToken = (nexusUrl: string, token: string, id: string) =>
+  call<{ success: boolean }>(nexusUrl, token, `/${encodeURIComponent(id)}`, { method: 'DELETE' });
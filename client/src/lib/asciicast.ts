@@ -0,0 +1,79 @@
+// Parser mínimo de asciicast v2 (formato de las grabaciones de Nexus).
+// https://docs.asciinema.org/manual/asciicast/v2/
+
+export interface AsciicastHeader {
+  version: number;
+  width: number;
+  height: number;
+  timestamp?: number;
+  title?: string;
+}
+
+export interface AsciicastEvent {
+  time: number;
+  code: string;
+  data: string;
+}
+
+export interface AsciicastMarker {
+  time: number;
+  label: string;
+}
+
+export interface Asciicast {
+  header: AsciicastHeader;
+  events: AsciicastEvent[];
+  markers: AsciicastMarker[];
+  duration: number;
+}
+
+export function parseAsciicast(text: string): Asciicast {
+  const lines = text.split('\n').filter((line) => line.trim().length > 0);
+  if (lines.length === 0) throw new Error('Grabación vacía');
+
+  const header = JSON.parse(lines[0]) as AsciicastHeader;
+  if (header.version !== 2) throw new Error(`Versión de asciicast no soportada: ${header.version}`);
+
+  const events: AsciicastEvent[] = [];
+  for (const line of lines.slice(1)) {
+    try {
+      const [time, code, data] = JSON.parse(line) as [number, string, string];
+      events.push({ time: Number(time) || 0, code, data: String(data ?? '') });
+    } catch {
+      // A crash mid-write can leave a truncated last line; skip it.
+    }
+  }
+
+  const markers = events
+    .filter((event) => event.code === 'm')
+    .map((event) => ({ time: event.time, label: event.data || `${event.time.toFixed(1)}s` }));
+  const duration = events.length > 0 ? events[events.length - 1].time : 0;
+  return { header, events, markers, duration };
+}
+
+/** Parses a "r" event payload ("COLSxROWS"). */
+export function parseResize(data: string): { cols: number; rows: number } | null {
+  const match = /^(\d+)x(\d+)$/.exec(data.trim());
+  if (!match) return null;
+  return { cols: Number(match[1]), rows: Number(match[2]) };
+}
+
+export function formatPlaybackTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const mins = Math.floor(total / 60);
+  const secs = total % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+/** Row returned by `GET /api/workers/:id/recordings`. */
+export interface RecordingSummary {
+  id: string;
+  worker_id: string;
+  session_id: string;
+  user_id: number | null;
+  title: string;
+  started_at: number;
+  ended_at: number | null;
+  duration_ms: number;
+  size_bytes: number;
+}
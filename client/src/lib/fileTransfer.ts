@@ -0,0 +1,168 @@
+/**
+ * Subida y descarga de archivos a través de Nexus. Las subidas van en trozos
+ * con offset explícito y las descargas con `Range`, así que un corte de red se
+ * reanuda donde quedó en vez de empezar de cero.
+ */
+
+const MAX_RETRIES = 5;
+
+export type TransferProgress = (loaded: number, total: number) => void;
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+// El status HTTP viaja en el error para distinguir lo que vale reintentar.
+const transferError = (message: string, status?: number) => Object.assign(new Error(message), { status });
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function errorFrom(res: Response): Promise<Error> {
+  const body = await res.json().catch(() => null) as { error?: string } | null;
+  return transferError(body?.error || `Error ${res.status}`, res.status);
+}
+
+// Errores del cliente (permisos, plan, nombre) no mejoran reintentando.
+const statusOf = (err: unknown) => (err as { status?: number }).status;
+const isFatal = (err: unknown) => {
+  const status = statusOf(err);
+  return status !== undefined && status < 500 && status !== 409;
+};
+
+/**
+ * Sube `file` al directorio actual de la sesión. Devuelve la ruta final en el
+ * worker (puede llevar sufijo si ya existía un archivo con ese nombre).
+ */
+export async function uploadFile(
+  nexusUrl: string,
+  token: string,
+  target: { workerId: string; sessionId: string },
+  file: File,
+  onProgress: TransferProgress
+): Promise<string> {
+  const base = `${nexusUrl}/api/workers/${encodeURIComponent(target.workerId)}/files/uploads`;
+  const headers = { Authorization: `Bearer ${token}` };
+  const startRes = await fetch(base, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: file.name, size: file.size, sessionId: target.sessionId }),
+  });
+  if (!startRes.ok) throw await errorFrom(startRes);
+  const { uploadId, chunkSize } = await startRes.json() as { uploadId: string; chunkSize: number };
+  const uploadUrl = `${base}/${encodeURIComponent(uploadId)}`;
+
+  let offset = 0;
+  let retries = 0;
+  onProgress(0, file.size);
+  for (;;) {
+    try {
+      const res = await fetch(`${uploadUrl}?offset=${offset}`, {
+        method: 'PUT',
+        headers: { ...headers, 'Content-Type': 'application/octet-stream' },
+        body: file.slice(offset, offset + chunkSize),
+      });
+      const body = await res.json().catch(() => null) as { offset?: number; done?: boolean; path?: string; error?: string } | null;
+      if (res.status === 409 && typeof body?.offset === 'number') {
+        // El worker ya tenía más (o menos) de lo que creíamos: seguimos desde ahí.
+        offset = body.offset;
+        continue;
+      }
+      if (!res.ok || !body) throw transferError(body?.error || `Error ${res.status}`, res.status);
+      offset = body.offset ?? offset;
+      retries = 0;
+      onProgress(offset, file.size);
+      if (body.done) return body.path || file.name;
+    } catch (err) {
+      if (isFatal(err) || retries >= MAX_RETRIES) {
+        await fetch(uploadUrl, { method: 'DELETE', headers }).catch(() => undefined);
+        throw statusOf(err) !== undefined ? err : transferError('Se perdió la conexión durante la subida');
+      }
+      retries += 1;
+      await delay(500 * 2 ** retries);
+      // La respuesta pudo perderse con el trozo ya escrito: preguntamos dónde va.
+      const status = await fetch(uploadUrl, { headers }).catch(() => null);
+      if (status?.ok) {
+        const { offset: current } = await status.json() as { offset: number };
+        offset = current;
+      }
+    }
+  }
+}
+
+const filenameFrom = (res: Response, fallback: string) => {
+  const disposition = res.headers.get('Content-Disposition') || '';
+  const encoded = /filename\*=UTF-8''([^;]+)/i.exec(disposition);
+  if (encoded) return decodeURIComponent(encoded[1]);
+  return /filename="([^"]+)"/i.exec(disposition)?.[1] || fallback.split('/').pop() || 'descarga';
+};
+
+/**
+ * Descarga `path` (relativa al directorio actual de la sesión) y la guarda con
+ * el nombre que da el worker. Devuelve ese nombre.
+ */
+export async function downloadFile(
+  nexusUrl: string,
+  token: string,
+  target: { workerId: string; sessionId: string },
+  path: string,
+  onProgress: TransferProgress
+): Promise<string> {
+  const params = new URLSearchParams({ path, sessionId: target.sessionId });
+  const url = `${nexusUrl}/api/workers/${encodeURIComponent(target.workerId)}/files/download?${params}`;
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let loaded = 0;
+  let total = -1;
+  let name = '';
+  let retries = 0;
+
+  for (;;) {
+    try {
+      const res = await fetch(url, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...(loaded > 0 ? { Range: `bytes=${loaded}-` } : {}),
+        },
+      });
+      if (!res.ok) throw await errorFrom(res);
+      if (loaded > 0 && res.status !== 206) {
+        // El servidor ignoró el Range: empezamos otra vez.
+        chunks.length = 0;
+        loaded = 0;
+      }
+      if (total < 0) {
+        total = Number(res.headers.get('Content-Length') || 0);
+        name = filenameFrom(res, path);
+      }
+      onProgress(loaded, total);
+      const reader = res.body!.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        loaded += value.length;
+        onProgress(loaded, total);
+      }
+      if (loaded < total) throw new Error('La descarga se cortó');
+      break;
+    } catch (err) {
+      if (isFatal(err) || retries >= MAX_RETRIES) {
+        throw statusOf(err) !== undefined ? err : transferError('Se perdió la conexión durante la descarga');
+      }
+      retries += 1;
+      await delay(500 * 2 ** retries);
+    }
+  }
+
+  const href = URL.createObjectURL(new Blob(chunks));
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(href), 1000);
+  return name;
+}
@@ -0,0 +1,111 @@
+/**
+ * Resaltado mínimo para el editor: comentarios, cadenas, números, palabras
+ * clave y claves de configuración. No es un parser; basta para leer un
+ * `.conf` o un script desde el móvil.
+ */
+
+export type TokenKind = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'key';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+export type Language = 'js' | 'python' | 'shell' | 'json' | 'yaml' | 'ini' | 'plain';
+
+const EXTENSIONS: Record<string, Language> = {
+  js: 'js', jsx: 'js', mjs: 'js', cjs: 'js', ts: 'js', tsx: 'js',
+  py: 'python',
+  sh: 'shell', bash: 'shell', zsh: 'shell', env: 'shell', bashrc: 'shell', profile: 'shell', zshrc: 'shell',
+  json: 'json',
+  yml: 'yaml', yaml: 'yaml',
+  ini: 'ini', conf: 'ini', cfg: 'ini', toml: 'ini', service: 'ini', properties: 'ini',
+};
+
+export const languageFor = (path: string): Language => {
+  const name = path.split('/').pop()?.toLowerCase() || '';
+  if (name === 'dockerfile' || name === 'makefile') return 'shell';
+  const ext = name.includes('.') ? name.split('.').pop()! : name.replace(/^\./, '');
+  return EXTENSIONS[ext] ?? 'plain';
+};
+
+const words = (list: string) => `\\b(?:${list.split(' ').join('|')})\\b`;
+
+const DOUBLE = String.raw`"(?:[^"\\\n]|\\.)*"`;
+const SINGLE = String.raw`'(?:[^'\\\n]|\\.)*'`;
+const NUMBER = String.raw`\b\d+(?:\.\d+)?\b`;
+const HASH_COMMENT = String.raw`(?<![^\s])#[^\n]*`;
+
+// Orden = prioridad: lo primero que encaja en una posición gana.
+const RULES: Record<Language, [TokenKind, string][]> = {
+  js: [
+    ['comment', String.raw`\/\/[^\n]*|\/\*[\s\S]*?\*\/`],
+    ['string', `${DOUBLE}|${SINGLE}|\`(?:[^\`\\\\]|\\\\.)*\``],
+    ['keyword', words('const let var function return if else for while do switch case break continue new class extends import export from default async await try catch finally throw typeof instanceof in of interface type enum true false null undefined this')],
+    ['number', NUMBER],
+  ],
+  python: [
+    ['comment', HASH_COMMENT],
+    ['string', `"""[\\s\\S]*?"""|'''[\\s\\S]*?'''|${DOUBLE}|${SINGLE}`],
+    ['keyword', words('def class return if elif else for while in not and or is import from as with try except finally raise pass break continue lambda yield async await None True False self')],
+    ['number', NUMBER],
+  ],
+  shell: [
+    ['comment', HASH_COMMENT],
+    ['string', `${DOUBLE}|${SINGLE}`],
+    ['keyword', words('if then else elif fi for in do done while until case esac function return export local readonly source echo exit set unset FROM RUN CMD COPY ADD ENV WORKDIR EXPOSE ENTRYPOINT ARG USER')],
+    ['key', String.raw`\$\{?[\w@#?$!*-]+\}?`],
+    ['number', NUMBER],
+  ],
+  json: [
+    ['key', `${DOUBLE}(?=\\s*:)`],
+    ['string', DOUBLE],
+    ['keyword', words('true false null')],
+    ['number', String.raw`-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b`],
+  ],
+  yaml: [
+    ['comment', HASH_COMMENT],
+    ['key', String.raw`^[ \t-]*[\w./-]+(?=\s*:(?:\s|$))`],
+    ['string', `${DOUBLE}|${SINGLE}`],
+    ['keyword', words('true false null yes no on off')],
+    ['number', NUMBER],
+  ],
+  ini: [
+    ['comment', String.raw`^[ \t]*[#;][^\n]*|${HASH_COMMENT}`],
+    ['keyword', String.raw`^[ \t]*\[[^\]\n]+\]`],
+    ['key', String.raw`^[ \t]*[\w./-]+(?=[ \t]*[=:])`],
+    ['string', `${DOUBLE}|${SINGLE}`],
+    ['number', NUMBER],
+  ],
+  plain: [],
+};
+
+const compiled = new Map<Language, RegExp | null>();
+
+function patternFor(language: Language): RegExp | null {
+  if (!compiled.has(language)) {
+    const rules = RULES[language];
+    compiled.set(
+      language,
+      rules.length ? new RegExp(rules.map(([kind, source]) => `(?<${kind}>${source})`).join('|'), 'gm') : null
+    );
+  }
+  return compiled.get(language)!;
+}
+
+export function highlight(source: string, language: Language): Token[] {
+  const pattern = patternFor(language);
+  if (!pattern) return [{ kind: 'plain', text: source }];
+  const tokens: Token[] = [];
+  let last = 0;
+  for (const match of source.matchAll(pattern)) {
+    if (!match[0]) continue;
+    const index = match.index ?? 0;
+    if (index > last) tokens.push({ kind: 'plain', text: source.slice(last, index) });
+    const kind = (Object.keys(match.groups ?? {}) as TokenKind[]).find((name) => match.groups![name] !== undefined) ?? 'plain';
+    tokens.push({ kind, text: match[0] });
+    last = index + match[0].length;
+  }
+  if (last < source.length) tokens.push({ kind: 'plain', text: source.slice(last) });
+  return tokens;
+}
@@ -0,0 +1,85 @@
+/** Diff por líneas para revisar un guardado antes de mandarlo al worker. */
+
+export type DiffLine =
+  | { kind: 'same' | 'add' | 'del'; text: string }
+  | { kind: 'skip'; count: number };
+
+// Por encima de esto la tabla LCS no compensa: se muestra como reemplazo.
+const MAX_LCS_CELLS = 4_000_000;
+
+export function diffLines(before: string, after: string, context = 3): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start += 1;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA -= 1;
+    endB -= 1;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const middle: DiffLine[] = [];
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    midA.forEach((text) => middle.push({ kind: 'del', text }));
+    midB.forEach((text) => middle.push({ kind: 'add', text }));
+  } else {
+    // lcs[i][j] = longitud de la LCS de midA[i..] y midB[j..]
+    const cols = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * cols);
+    for (let i = midA.length - 1; i >= 0; i -= 1) {
+      for (let j = midB.length - 1; j >= 0; j -= 1) {
+        lcs[i * cols + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        middle.push({ kind: 'same', text: midA[i] });
+        i += 1;
+        j += 1;
+      } else if (i < midA.length && (j === midB.length || lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1])) {
+        middle.push({ kind: 'del', text: midA[i] });
+        i += 1;
+      } else {
+        middle.push({ kind: 'add', text: midB[j] });
+        j += 1;
+      }
+    }
+  }
+
+  const all: DiffLine[] = [
+    ...a.slice(0, start).map((text) => ({ kind: 'same' as const, text })),
+    ...middle,
+    ...a.slice(endA).map((text) => ({ kind: 'same' as const, text })),
+  ];
+  return collapse(all, context);
+}
+
+/** Deja `context` líneas iguales alrededor de cada cambio y resume el resto. */
+function collapse(lines: DiffLine[], context: number): DiffLine[] {
+  const changed = lines.map((line) => line.kind === 'add' || line.kind === 'del');
+  if (!changed.includes(true)) return [];
+  const keep = lines.map((_, index) => {
+    for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k += 1) {
+      if (changed[k]) return true;
+    }
+    return false;
+  });
+  const result: DiffLine[] = [];
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      result.push(line);
+      return;
+    }
+    const prev = result[result.length - 1];
+    if (prev?.kind === 'skip') prev.count += 1;
+    else result.push({ kind: 'skip', count: 1 });
+  });
+  return result;
+}
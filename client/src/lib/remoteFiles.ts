@@ -0,0 +1,88 @@
+/** Explorador y editor de archivos del worker: rutas absolutas salvo la primera, que parte del cwd de la sesión. */
+
+export interface RemoteEntry {
+  name: string;
+  type: 'file' | 'dir' | 'other';
+  link: boolean;
+  size: number;
+  mode: number;
+  mtime: number;
+}
+
+export interface RemoteListing {
+  path: string;
+  parent: string | null;
+  entries: RemoteEntry[];
+}
+
+async function call<T>(nexusUrl: string, token: string, workerId: string, path: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(`${nexusUrl}/api/workers/${encodeURIComponent(workerId)}/files${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+    },
+  });
+  const data = await res.json().catch(() => ({})) as T & { error?: string };
+  if (!res.ok) throw new Error(data.error || `Error ${res.status}`);
+  return data;
+}
+
+export const listRemoteDir = (nexusUrl: string, token: string, workerId: string, sessionId: string, path: string | null) =>
+  call<RemoteListing>(nexusUrl, token, workerId, `?${new URLSearchParams({ sessionId, ...(path ? { path } : {}) })}`);
+
+export const renameRemotePath = (nexusUrl: string, token: string, workerId: string, path: string, name: string) =>
+  call<{ path: string }>(nexusUrl, token, workerId, '/rename', { method: 'POST', body: JSON.stringify({ path, name }) });
+
+export const deleteRemotePath = (nexusUrl: string, token: string, workerId: string, path: string) =>
+  call<{ success: boolean }>(nexusUrl, token, workerId, `?${new URLSearchParams({ path })}`, { method: 'DELETE' });
+
+export const makeRemoteDir = (nexusUrl: string, token: string, workerId: string, path: string, name: string) =>
+  call<{ path: string }>(nexusUrl, token, workerId, '/mkdir', { method: 'POST', body: JSON.stringify({ path, name }) });
+
+export interface RemoteFile {
+  path: string;
+  content: string;
+  hash: string;
+  mtime: number;
+  writable: boolean;
+}
+
+export const readRemoteFile = (nexusUrl: string, token: string, workerId: string, sessionId: string, path: string) =>
+  call<RemoteFile>(nexusUrl, token, workerId, `/content?${new URLSearchParams({ sessionId, path })}`);
+
+/**
+ * Guarda si el archivo sigue teniendo `hash`. Si alguien lo cambió entretanto
+ * devuelve `{ conflict }` con el hash actual en vez de pisarlo.
+ */
+export async function writeRemoteFile(
+  nexusUrl: string,
+  token: string,
+  workerId: string,
+  path: string,
+  content: string,
+  hash: string
+): Promise<{ hash: string; mtime: number; conflict?: undefined } | { conflict: { hash: string; mtime: number } }> {
+  const res = await fetch(
+    `${nexusUrl}/api/workers/${encodeURIComponent(workerId)}/files/content?${new URLSearchParams({ path })}`,
+    {
+      method: 'PUT',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'text/plain', 'If-Match': `"${hash}"` },
+      body: content,
+    }
+  );
+  const data = await res.json().catch(() => ({})) as { hash?: string; mtime?: number; error?: string };
+  if (res.status === 412 && data.hash) return { conflict: { hash: data.hash, mtime: data.mtime ?? 0 } };
+  if (!res.ok || !data.hash) throw new Error(data.error || `Error ${res.status}`);
+  return { hash: data.hash, mtime: data.mtime ?? 0 };
+}
+
+/** `rwxr-xr-x` a partir de los bits de permisos. */
+export const formatMode = (mode: number) =>
+  [6, 3, 0].map((shift) => {
+    const bits = (mode >> shift) & 7;
+    return `${bits & 4 ? 'r' : '-'}${bits & 2 ? 'w' : '-'}${bits & 1 ? 'x' : '-'}`;
+  }).join('');
+
+/** Ruta entre comillas simples para pegarla en el shell. */
+export const shellQuote = (path: string) => `'${path.replace(/'/g, `'\\''`)}'`;
@@ -0,0 +1,23 @@
+/** Query param que App canjea al abrir un enlace de sesión compartida. */
+export const SESSION_SHARE_PARAM = 'share';
+
+export const sessionShareUrl = (token: string) =>
+  `${window.location.origin}/?${SESSION_SHARE_PARAM}=${encodeURIComponent(token)}`;
+
+/** Respuesta de `POST /api/session-shares/redeem`. */
+export interface RedeemedSessionShare {
+  workerId: string;
+  workerName: string;
+  workerStatus: 'online' | 'offline';
+  sessionId: string;
+  displayName: string;
+  createdAt: number;
+  lastActiveAt: number;
+  permission: 'view' | 'control';
+}
+
+/** Ruta pública del visor de solo lectura; no pasa por el login. */
+export const SPECTATOR_PATH = '/watch';
+
+export const spectatorUrl = (token: string) =>
+  `${window.location.origin}${SPECTATOR_PATH}?token=${encodeURIComponent(token)}`;
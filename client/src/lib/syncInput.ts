@@ -0,0 +1,36 @@
+import type { StoredSession } from '../store/slices/sessionsSlice';
+
+/** Panel que recibe lo tecleado en otro con la entrada sincronizada. */
+export interface SyncInputTarget {
+  sessionId: string;
+  workerId: string;
+}
+
+/**
+ * Paneles sincronizados en los que este usuario puede escribir: control sobre
+ * el worker y nadie más con el asiento de conductor. Se calcula de antemano,
+ * no por tecla.
+ */
+export const syncInputTargets = (
+  syncSessionIds: string[],
+  sessions: Array<Pick<StoredSession, 'id' | 'workerId'>>,
+  readOnlyWorkerIds: ReadonlySet<string>,
+  lockedSessionIds: ReadonlySet<string>
+): SyncInputTarget[] => syncSessionIds.flatMap((sessionId) => {
+  const session = sessions.find((s) => s.id === sessionId);
+  if (!session || readOnlyWorkerIds.has(session.workerId) || lockedSessionIds.has(sessionId)) return [];
+  return [{ sessionId, workerId: session.workerId }];
+});
+
+/** Replica en el resto de destinos lo tecleado en `sourceId`, si este también está sincronizado. */
+export const fanOutSyncInput = (
+  sourceId: string,
+  data: string,
+  targets: SyncInputTarget[],
+  queueInput: (sessionId: string, workerId: string, chunk: string) => void
+): void => {
+  if (!targets.some((target) => target.sessionId === sourceId)) return;
+  targets.forEach((target) => {
+    if (target.sessionId !== sourceId) queueInput(target.sessionId, target.workerId, data);
+  });
+};
@@ -0,0 +1,53 @@
+/**
+ * Output de terminal como bytes. Nexus manda Uint8Array/ArrayBuffer a los
+ * clientes que negocian `encoding: 'binary'`, y texto a los antiguos (o si
+ * habla con un Nexus anterior): todo se normaliza aquí antes de llegar a xterm.
+ */
+
+export const OUTPUT_ENCODING = 'binary';
+
+const encoder = new TextEncoder();
+
+export const toTerminalBytes = (data: unknown): Uint8Array => {
+  if (data instanceof Uint8Array) return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (typeof data === 'string') return encoder.encode(data);
+  return new Uint8Array(0);
+};
+
+export const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  if (chunks.length === 1) return chunks[0];
+  const out = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+/**
+ * Decodificadores UTF-8 por sesión para la caché de texto (redux/localStorage).
+ * Un carácter partido entre dos chunks sale entero en el segundo.
+ */
+export class SessionTextDecoders {
+  private decoders = new Map<string, TextDecoder>();
+
+  decode(sessionId: string, bytes: Uint8Array): string {
+    let decoder = this.decoders.get(sessionId);
+    if (!decoder) {
+      decoder = new TextDecoder('utf-8');
+      this.decoders.set(sessionId, decoder);
+    }
+    return decoder.decode(bytes, { stream: true });
+  }
+
+  /** Empieza un stream nuevo, p.ej. tras redibujar la sesión desde un snapshot. */
+  reset(sessionId: string): void {
+    this.decoders.delete(sessionId);
+  }
+
+  clear(): void {
+    this.decoders.clear();
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Rutas en el output de la terminal que se pueden abrir en el editor:
+ * absolutas (`/etc/nginx/nginx.conf`), relativas explícitas (`./app.py`,
+ * `../x.yml`, `~/.bashrc`) y relativas con carpeta y extensión
+ * (`src/index.ts:42`, típicas de compiladores y linters). El `:línea` final se
+ * descarta.
+ */
+
+export interface PathMatch {
+  /** Índice en la línea donde empieza el texto enlazado. */
+  start: number;
+  text: string;
+  path: string;
+}
+
+const PATH_PATTERN = /(?:^|(?<=[\s"'`(=:[]))((?:~|\.{1,2})?\/[\w.@%+~-]+(?:\/[\w.@%+~-]+)*|[\w.-]+(?:\/[\w.@%+~-]+)+\.\w+)(?::\d+(?::\d+)?)?/g;
+
+export function findPathLinks(line: string): PathMatch[] {
+  const matches: PathMatch[] = [];
+  for (const match of line.matchAll(PATH_PATTERN)) {
+    const path = match[1];
+    // Una barra suelta o una URL (`http://…` deja `//…`) no son archivos.
+    if (path === '/' || path.startsWith('//') || (/^\/\w+$/.test(path) && !path.includes('.'))) continue;
+    matches.push({ start: match.index ?? 0, text: match[0], path });
+  }
+  return matches;
+}
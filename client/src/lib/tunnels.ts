@@ -0,0 +1,54 @@
+/** Túneles HTTP/WebSocket a puertos de localhost del worker, servidos por Nexus. */
+
+export interface TunnelPort {
+  port: number;
+  label: string;
+  tls: boolean;
+  createdAt: number;
+  /** Conexiones abiertas ahora mismo a través de Nexus. */
+  connections: number;
+}
+
+export interface TunnelList {
+  available: boolean;
+  canManage: boolean;
+  ports: TunnelPort[];
+}
+
+async function call<T>(nexusUrl: string, token: string, workerId: string, path: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(`${nexusUrl}/api/workers/${encodeURIComponent(workerId)}/tunnels${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+    },
+  });
+  const data = await res.json().catch(() => ({})) as T & { error?: string };
+  if (!res.ok) throw new Error(data.error || `Error ${res.status}`);
+  return data;
+}
+
+export const listTunnels = (nexusUrl: string, token: string, workerId: string) =>
+  call<TunnelList>(nexusUrl, token, workerId, '');
+
+export const detectTunnelPorts = (nexusUrl: string, token: string, workerId: string) =>
+  call<{ ports: number[] }>(nexusUrl, token, workerId, '/detect');
+
+export const allowTunnelPort = (
+  nexusUrl: string,
+  token: string,
+  workerId: string,
+  entry: { port: number; label: string; tls: boolean }
+) => call<TunnelPort>(nexusUrl, token, workerId, '', { method: 'POST', body: JSON.stringify(entry) });
+
+export const removeTunnelPort = (nexusUrl: string, token: string, workerId: string, port: number) =>
+  call<{ success: boolean }>(nexusUrl, token, workerId, `/${port}`, { method: 'DELETE' });
+
+/**
+ * URL absoluta del túnel; Nexus cambia su token por una cookie al abrirla.
+ * Con TUNNEL_BASE_URL ya llega absoluta (un subdominio por túnel).
+ */
+export async function openTunnelUrl(nexusUrl: string, token: string, workerId: string, port: number): Promise<string> {
+  const { url } = await call<{ url: string }>(nexusUrl, token, workerId, `/${port}/open`, { method: 'POST' });
+  return new URL(url, nexusUrl || window.location.origin).href;
+}
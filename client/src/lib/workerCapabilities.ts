@@ -0,0 +1,17 @@
+import type { Worker, WorkerFeature } from '../store/slices/workersSlice';
+
+/** Protocolo que habla este cliente; un worker por debajo funciona recortado. */
+export const CURRENT_WORKER_PROTOCOL = 2;
+
+// Nexus ya manda estas capacidades para los workers sin handshake versionado
+// (legacyCapabilities en worker-protocol.ts); esto cubre un Nexus que no las
+// manda. Tiene que coincidir con la lista de allí.
+const LEGACY_FEATURES: WorkerFeature[] = ['shell', 'tui'];
+
+export const workerSupports = (worker: Pick<Worker, 'capabilities'> | undefined, feature: WorkerFeature): boolean => {
+  if (!worker) return false;
+  return (worker.capabilities?.features ?? LEGACY_FEATURES).includes(feature);
+};
+
+export const workerIsOutdated = (worker: Pick<Worker, 'protocol_version'>): boolean =>
+  worker.protocol_version !== undefined && worker.protocol_version < CURRENT_WORKER_PROTOCOL;
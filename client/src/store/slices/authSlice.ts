@@ -7,6 +7,9 @@ interface PlanLimits {
   canSaveSnippets: boolean;
   canTagWorkers: boolean;
   canUseApi: boolean;
+  recordingRetentionDays: number;
+  maxRecordings: number;
+  maxTransferBytes: number;
 }
 
 interface User {
@@ -2,12 +2,53 @@ import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
 
 export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
 
+export interface SessionParticipant {
+  socketId: string;
+  username: string;
+}
+
+/** Estado del asiento de control de una sesión, visto desde este socket. */
+export interface SessionControl {
+  workerId: string;
+  sessionId: string;
+  driver: { userId: number; username: string } | null;
+  isDriver: boolean;
+  requested: boolean;
+  // Solo llegan al conductor, que es quien las responde.
+  requests: SessionParticipant[];
+  watchers: SessionParticipant[];
+}
+
+/** Muestra de salud que el worker envía en cada heartbeat. */
+export interface WorkerMetrics {
+  ts: number;
+  cpu: number;
+  load: [number, number, number];
+  cores: number;
+  memTotal: number;
+  memUsed: number;
+  diskTotal: number;
+  diskUsed: number;
+  uptime: number;
+  ptys: number;
+  version: string;
+}
+
+// Igual que WORKER_METRICS_HISTORY por defecto en Nexus.
+const METRICS_HISTORY = 60;
+
 interface ConnectionSliceState {
   connectionState: ConnectionState;
+  // El asiento es del socket: se descarta al perder la conexión.
+  sessionControl: Record<string, SessionControl>;
+  // Solo en memoria: Nexus reenvía el historial en cada reconexión.
+  workerMetrics: Record<string, WorkerMetrics[]>;
 }
 
 const initialState: ConnectionSliceState = {
   connectionState: 'connecting',
+  sessionControl: {},
+  workerMetrics: {},
 };
 
 const connectionSlice = createSlice({
@@ -16,9 +57,29 @@ const connectionSlice = createSlice({
   reducers: {
     setConnectionState: (state, action: PayloadAction<ConnectionState>) => {
       state.connectionState = action.payload;
+      if (action.payload !== 'connected') {
+        state.sessionControl = {};
+        state.workerMetrics = {};
+      }
+    },
+    setSessionControl: (state, action: PayloadAction<SessionControl>) => {
+      state.sessionControl[action.payload.sessionId] = action.payload;
+    },
+    setWorkerMetrics: (state, action: PayloadAction<Record<string, WorkerMetrics[]>>) => {
+      state.workerMetrics = action.payload;
+    },
+    pushWorkerMetrics: (state, action: PayloadAction<{ workerId: string; metrics: WorkerMetrics }>) => {
+      const history = state.workerMetrics[action.payload.workerId] || [];
+      history.push(action.payload.metrics);
+      state.workerMetrics[action.payload.workerId] = history.slice(-METRICS_HISTORY);
     },
   },
 });
 
-export const { setConnectionState } = connectionSlice.actions;
+export const {
+  setConnectionState,
+  setSessionControl,
+  setWorkerMetrics,
+  pushWorkerMetrics,
+} = connectionSlice.actions;
 export default connectionSlice.reducer;
@@ -10,6 +10,17 @@ export interface StoredSession {
   lastActiveAt: number;
 }
 
+/** Otro socket conectado a la sesión (presencia). */
+export interface SessionViewer {
+  socketId: string;
+  userId: number;
+  username: string;
+  device: 'desktop' | 'mobile';
+  permission: 'view' | 'control';
+  joinedAt: number;
+  idle: boolean;
+}
+
 export interface ServerSession {
   id: string;
   workerId: string;
@@ -19,6 +30,13 @@ export interface ServerSession {
   createdAt: number;
   lastActiveAt: number;
   creatorUserId?: number;
+  recording?: boolean;
+  /** Solo accesible por un enlace de sesión compartida. */
+  grant?: 'view' | 'control';
+  /** Espectadores anónimos conectados por enlace público. */
+  spectators?: number;
+  /** Quién más está mirando la sesión, sin contar este socket. */
+  viewers?: SessionViewer[];
 }
 
 const SESSION_STORE_KEY = 'ut-sessions-v1';
@@ -41,6 +59,8 @@ interface SessionsState {
   activeSessionId: string | null;
   offlineSessionIds: string[];
   gridSessionIds: string[];
+  /** Paneles del grid con entrada sincronizada: lo que se teclea en uno va a todos. */
+  syncInputSessionIds: string[];
   sessionOutput: Record<string, string>;
   lastWorkerKey: string | null;
   isRestored: boolean;
@@ -53,6 +73,7 @@ const initialState: SessionsState = {
   activeSessionId: localStorage.getItem(ACTIVE_SESSION_KEY),
   offlineSessionIds: [],
   gridSessionIds: parseStored<string[]>(localStorage.getItem(GRID_SLOTS_KEY), []).filter(Boolean),
+  syncInputSessionIds: [],
   sessionOutput: parseStored<Record<string, string>>(localStorage.getItem(SESSION_OUTPUT_KEY), {}),
   lastWorkerKey: localStorage.getItem(LAST_WORKER_KEY),
   isRestored: false,
@@ -65,6 +86,7 @@ const emptyState: SessionsState = {
   activeSessionId: null,
   offlineSessionIds: [],
   gridSessionIds: [],
+  syncInputSessionIds: [],
   sessionOutput: {},
   lastWorkerKey: null,
   isRestored: false,
@@ -72,6 +94,11 @@ const emptyState: SessionsState = {
   serverSessions: [],
 };
 
+// Solo se sincronizan paneles que siguen en el grid.
+const pruneSyncInput = (state: SessionsState) => {
+  state.syncInputSessionIds = state.syncInputSessionIds.filter((id) => state.gridSessionIds.includes(id));
+};
+
 const sessionsSlice = createSlice({
   name: 'sessions',
   initialState,
@@ -93,6 +120,7 @@ const sessionsSlice = createSlice({
       localStorage.setItem(SESSION_STORE_KEY, JSON.stringify(state.sessions));
       localStorage.setItem(SESSION_OUTPUT_KEY, JSON.stringify(state.sessionOutput));
       localStorage.setItem(GRID_SLOTS_KEY, JSON.stringify(state.gridSessionIds));
+      pruneSyncInput(state);
     },
     updateSession: (state, action: PayloadAction<Partial<StoredSession> & { id: string }>) => {
       const session = state.sessions.find(s => s.id === action.payload.id);
@@ -147,6 +175,15 @@ const sessionsSlice = createSlice({
     setGridSessionIds: (state, action: PayloadAction<string[]>) => {
       state.gridSessionIds = action.payload.filter(Boolean);
       localStorage.setItem(GRID_SLOTS_KEY, JSON.stringify(state.gridSessionIds));
+      pruneSyncInput(state);
+    },
+    toggleSyncInput: (state, action: PayloadAction<string>) => {
+      const sessionId = action.payload;
+      if (state.syncInputSessionIds.includes(sessionId)) {
+        state.syncInputSessionIds = state.syncInputSessionIds.filter((id) => id !== sessionId);
+      } else if (state.gridSessionIds.includes(sessionId)) {
+        state.syncInputSessionIds.push(sessionId);
+      }
     },
     assignGridSlot: (state, action: PayloadAction<{ slotIndex: number; sessionId: string }>) => {
       const { slotIndex, sessionId } = action.payload;
@@ -160,6 +197,7 @@ const sessionsSlice = createSlice({
       state.activeSessionId = sessionId;
       localStorage.setItem(GRID_SLOTS_KEY, JSON.stringify(state.gridSessionIds));
       localStorage.setItem(ACTIVE_SESSION_KEY, sessionId);
+      pruneSyncInput(state);
     },
     swapGridSlots: (state, action: PayloadAction<{ slotIndex: number; sessionId: string }>) => {
       const { slotIndex, sessionId } = action.payload;
@@ -181,6 +219,7 @@ const sessionsSlice = createSlice({
       state.activeSessionId = sessionId;
       localStorage.setItem(GRID_SLOTS_KEY, JSON.stringify(state.gridSessionIds));
       localStorage.setItem(ACTIVE_SESSION_KEY, sessionId);
+      pruneSyncInput(state);
     },
     updateSessionOutput: (state, action: PayloadAction<{ sessionId: string; output: string }>) => {
       const MAX_OUTPUT_CHARS = 20000;
@@ -231,6 +270,7 @@ export const {
   setActiveSession,
   setOfflineSessionIds,
   setGridSessionIds,
+  toggleSyncInput,
   assignGridSlot,
   swapGridSlots,
   updateSessionOutput,
@@ -17,6 +17,36 @@ export interface DialogState {
   actions?: DialogAction[];
 }
 
+export interface PlayingRecording {
+  workerId: string;
+  recordingId: string;
+  title: string;
+}
+
+export interface SharingSession {
+  workerId: string;
+  sessionId: string;
+  title: string;
+}
+
+/** Archivo abierto en el editor; `path` puede ser relativa al cwd de la sesión. */
+export interface EditingFile {
+  workerId: string;
+  sessionId: string;
+  path: string;
+}
+
+export interface FileTransfer {
+  id: string;
+  direction: 'upload' | 'download';
+  name: string;
+  loaded: number;
+  total: number;
+  status: 'active' | 'done' | 'error';
+  /** Ruta final en el worker, o el error si falló. */
+  detail?: string;
+}
+
 interface UIState {
   sidebarCollapsed: boolean;
   isFullscreen: boolean;
@@ -26,11 +56,18 @@ interface UIState {
   showWorkerModal: boolean;
   showChangePasswordModal: boolean;
   showSubscriptionModal: boolean;
+  showAccessTokensModal: boolean;
   showUserMenu: boolean;
   showMobileSidebar: boolean;
   dialog: DialogState | null;
   dialogLoading: boolean;
   shareModalWorker: Worker | null;
+  detailWorker: Worker | null;
+  playingRecording: PlayingRecording | null;
+  sharingSession: SharingSession | null;
+  downloadingSession: SharingSession | null;
+  transfers: FileTransfer[];
+  editingFile: EditingFile | null;
   editingWorker: Worker | null;
   renamingSessionId: string | null;
   installToken: string;
@@ -46,11 +83,18 @@ const initialState: UIState = {
   showWorkerModal: false,
   showChangePasswordModal: false,
   showSubscriptionModal: false,
+  showAccessTokensModal: false,
   showUserMenu: false,
   showMobileSidebar: false,
   dialog: null,
   dialogLoading: false,
   shareModalWorker: null,
+  detailWorker: null,
+  playingRecording: null,
+  sharingSession: null,
+  downloadingSession: null,
+  transfers: [],
+  editingFile: null,
   editingWorker: null,
   renamingSessionId: null,
   installToken: 'TU_WORKER_TOKEN',
@@ -88,6 +132,9 @@ const uiSlice = createSlice({
     setShowSubscriptionModal: (state, action: PayloadAction<boolean>) => {
       state.showSubscriptionModal = action.payload;
     },
+    setShowAccessTokensModal: (state, action: PayloadAction<boolean>) => {
+      state.showAccessTokensModal = action.payload;
+    },
     setShowMobileSidebar: (state, action: PayloadAction<boolean>) => {
       state.showMobileSidebar = action.payload;
     },
@@ -111,6 +158,29 @@ const uiSlice = createSlice({
     setShareModalWorker: (state, action: PayloadAction<Worker | null>) => {
       state.shareModalWorker = action.payload;
     },
+    setDetailWorker: (state, action: PayloadAction<Worker | null>) => {
+      state.detailWorker = action.payload;
+    },
+    setPlayingRecording: (state, action: PayloadAction<PlayingRecording | null>) => {
+      state.playingRecording = action.payload;
+    },
+    setSharingSession: (state, action: PayloadAction<SharingSession | null>) => {
+      state.sharingSession = action.payload;
+    },
+    setDownloadingSession: (state, action: PayloadAction<SharingSession | null>) => {
+      state.downloadingSession = action.payload;
+    },
+    upsertTransfer: (state, action: PayloadAction<FileTransfer>) => {
+      const index = state.transfers.findIndex((transfer) => transfer.id === action.payload.id);
+      if (index >= 0) state.transfers[index] = action.payload;
+      else state.transfers.push(action.payload);
+    },
+    removeTransfer: (state, action: PayloadAction<string>) => {
+      state.transfers = state.transfers.filter((transfer) => transfer.id !== action.payload);
+    },
+    setEditingFile: (state, action: PayloadAction<EditingFile | null>) => {
+      state.editingFile = action.payload;
+    },
     setEditingWorker: (state, action: PayloadAction<Worker | null>) => {
       state.editingWorker = action.payload;
     },
@@ -136,6 +206,7 @@ export const {
   setShowWorkerModal,
   setShowChangePasswordModal,
   setShowSubscriptionModal,
+  setShowAccessTokensModal,
   setShowMobileSidebar,
   toggleMobileSidebar,
   setShowUserMenu,
@@ -143,6 +214,13 @@ export const {
   closeDialog,
   setDialogLoading,
   setShareModalWorker,
+  setDetailWorker,
+  setPlayingRecording,
+  setSharingSession,
+  setDownloadingSession,
+  upsertTransfer,
+  removeTransfer,
+  setEditingFile,
   setEditingWorker,
   setRenamingSessionId,
   setInstallToken,
@@ -8,6 +8,17 @@ export interface Worker {
   lastSeen?: string;
   api_key?: string;
   permission?: 'view' | 'control' | 'admin';
+  // Último handshake visto por Nexus (ausente con un Nexus anterior).
+  protocol_version?: number;
+  worker_version?: string | null;
+  capabilities?: WorkerCapabilities;
+}
+
+export type WorkerFeature = 'shell' | 'tui' | 'announce' | 'spool' | 'metrics' | 'binary' | 'flow' | 'files' | 'tunnel' | 'exec';
+
+export interface WorkerCapabilities {
+  features: WorkerFeature[];
+  shells: string[];
 }
 
 const WORKER_TAGS_KEY = 'ut-worker-tags';
@@ -8,10 +8,19 @@ import workerRoutes from './routes/worker.routes';
 import paymentRoutes from './routes/payment.routes';
 import agentRoutes from './routes/agent.routes';
 import tenantRoutes from './routes/tenant.routes';
+import auditRoutes from './routes/audit.routes';
+import sessionShareRoutes from './routes/session-share.routes';
+import sessionRoutes from './routes/session.routes';
+import tunnelRoutes from './routes/tunnel.routes';
+import { handleTunnelHost } from './controllers/tunnel.controller';
 import { evictUserSubscriptions } from './socket';
+import { recordAudit } from './services/audit.service';
 
 const app = express();
 
+// Tunnel origins (TUNNEL_BASE_URL) are the local app's, not Nexus': no CORS, no API.
+app.use(handleTunnelHost);
+
 const clientOrigin = process.env.CLIENT_ORIGIN || 'http://localhost:5173';
 const allowedOrigins = clientOrigin.split(',').map((o) => o.trim());
 
@@ -27,6 +36,8 @@ app.use(cors({
   },
   credentials: true,
 }));
+// Before the body parsers: tunneled requests are streamed to the worker as-is.
+app.use('/tunnels', tunnelRoutes);
 app.use(express.json());
 
 app.use('/api/auth', authRoutes);
@@ -34,12 +45,16 @@ app.use('/api/workers', workerRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/agents', agentRoutes);
 app.use('/api/tenants', tenantRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/session-shares', sessionShareRoutes);
+app.use('/api/sessions', sessionRoutes);
 
 // --- Admin bootstrap endpoint (protected by ADMIN_PASSWORD) ---
 app.post('/api/admin/upgrade-plan', async (req, res) => {
   const { adminPassword, username, plan, makeAdmin, tenant } = req.body;
   const expected = process.env.ADMIN_PASSWORD;
   if (!expected || adminPassword !== expected) {
+    await recordAudit('admin.upgrade_plan_denied', { data: { username, ip: req.ip } });
     res.status(403).json({ error: 'Forbidden' }); return;
   }
   try {
@@ -55,6 +70,10 @@ app.post('/api/admin/upgrade-plan', async (req, res) => {
     const user = await dbMod.get<any>("SELECT id, username, is_admin, plan, tenant_id FROM users WHERE username = ?", [username]);
     if (user?.id) {
       evictUserSubscriptions(app.get('io'), Number(user.id));
+      await recordAudit('admin.upgrade_plan', {
+        userId: Number(user.id),
+        data: { username, plan: user.plan, makeAdmin: Boolean(makeAdmin), tenant: user.tenant_id ?? null, ip: req.ip },
+      });
     }
     res.json({ success: true, user });
   } catch (e: any) { res.status(500).json({ error: e.message }); }
@@ -4,7 +4,7 @@ import fs from 'fs';
 import { DBAdapter, BetterSqliteAdapter, PostgresAdapter } from './db-adapter';
 
 const customDataDir = (process.env.NEXUS_DATA_DIR || '').trim();
-const dataDir = customDataDir ? path.resolve(customDataDir) : path.resolve(process.cwd(), '.qodo');
+export const dataDir = customDataDir ? path.resolve(customDataDir) : path.resolve(process.cwd(), '.qodo');
 if (!fs.existsSync(dataDir)) fs.mkdirSync(dataDir, { recursive: true });
 
 const dbPath = path.join(dataDir, 'nexus.db');
@@ -103,6 +103,14 @@ export const initDatabase = async () => {
     );
   `);
 
+  // Migration: handshake del worker (protocolo, versión y capacidades)
+  try {
+    await db.exec(`ALTER TABLE workers ADD COLUMN protocol_version INTEGER NOT NULL DEFAULT 1`);
+    await db.exec(`ALTER TABLE workers ADD COLUMN worker_version TEXT`);
+    await db.exec(`ALTER TABLE workers ADD COLUMN capabilities TEXT`);
+    console.log('[Nexus] Added handshake columns to workers table');
+  } catch (_e) { /* already exist */ }
+
   // Worker Shares
   await db.exec(`
     CREATE TABLE IF NOT EXISTS worker_shares (
@@ -116,20 +124,153 @@ export const initDatabase = async () => {
     );
   `);
 
-  // Sessions
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS sessions (
-      id TEXT PRIMARY KEY,
+  // Sessions (PK compuesta: el mismo sessionId puede existir en varios workers)
+  const sessionsTableSql = (table: string) => `
+    CREATE TABLE IF NOT EXISTS ${table} (
+      id TEXT NOT NULL,
       worker_id TEXT NOT NULL,
       user_id INTEGER,
       display_name TEXT NOT NULL,
       created_at ${isPg ? 'BIGINT' : 'INTEGER'} NOT NULL,
       last_active_at ${isPg ? 'BIGINT' : 'INTEGER'} NOT NULL,
       output TEXT NOT NULL DEFAULT '',
+      PRIMARY KEY (worker_id, id),
       FOREIGN KEY(worker_id) REFERENCES workers(id) ON DELETE CASCADE,
       FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE SET NULL
     );
+  `;
+  await db.exec(sessionsTableSql('sessions'));
+
+  // Migration: the original table keyed sessions by `id` alone, so two workers
+  // using the same sessionId collided. Rebuild it keeping any existing rows.
+  const sessionPk = await db.get<{ count: number | string }>(isPg
+    ? `SELECT COUNT(*) AS count
+       FROM information_schema.table_constraints tc
+       JOIN information_schema.key_column_usage kcu
+         ON kcu.constraint_name = tc.constraint_name AND kcu.table_name = tc.table_name
+       WHERE tc.table_name = 'sessions' AND tc.constraint_type = 'PRIMARY KEY'`
+    : `SELECT COUNT(*) AS count FROM pragma_table_info('sessions') WHERE pk > 0`);
+  if (Number(sessionPk?.count ?? 0) === 1) {
+    await db.exec(sessionsTableSql('sessions_next'));
+    // Orphaned rows would violate the foreign keys of the new table.
+    await db.exec(`
+      INSERT INTO sessions_next (id, worker_id, user_id, display_name, created_at, last_active_at, output)
+      SELECT s.id, s.worker_id, u.id, s.display_name, s.created_at, s.last_active_at, s.output
+      FROM sessions s
+      JOIN workers w ON w.id = s.worker_id
+      LEFT JOIN users u ON u.id = s.user_id
+    `);
+    await db.exec('DROP TABLE sessions');
+    await db.exec('ALTER TABLE sessions_next RENAME TO sessions');
+    console.log('[Nexus] Migrated sessions table to composite primary key');
+  }
+
+  // Migration: seq of the last chunk in the persisted replay buffer
+  try {
+    await db.exec(`ALTER TABLE sessions ADD COLUMN output_seq ${isPg ? 'BIGINT' : 'INTEGER'} NOT NULL DEFAULT 0`);
+    console.log('[Nexus] Added output_seq column to sessions table');
+  } catch (_e) { /* already exists */ }
+
+  // Migration: the replay buffer is raw bytes now, stored as base64. Older
+  // rows keep 'utf8' and are read back as text.
+  try {
+    await db.exec(`ALTER TABLE sessions ADD COLUMN output_encoding TEXT NOT NULL DEFAULT 'utf8'`);
+    console.log('[Nexus] Added output_encoding column to sessions table');
+  } catch (_e) { /* already exists */ }
+
+  // Session recordings (asciicast v2 files under <dataDir>/recordings)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS recordings (
+      id TEXT PRIMARY KEY,
+      worker_id TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      user_id INTEGER,
+      title TEXT NOT NULL,
+      started_at ${isPg ? 'BIGINT' : 'INTEGER'} NOT NULL,
+      ended_at ${isPg ? 'BIGINT' : 'INTEGER'},
+      duration_ms ${isPg ? 'BIGINT' : 'INTEGER'} NOT NULL DEFAULT 0,
+      size_bytes ${isPg ? 'BIGINT' : 'INTEGER'} NOT NULL DEFAULT 0,
+      FOREIGN KEY(worker_id) REFERENCES workers(id) ON DELETE CASCADE,
+      FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE SET NULL
+    );
+  `);
+
+  // Session share links: a token grants one `workerId:sessionId`, not the worker
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS session_shares (
+      id TEXT PRIMARY KEY,
+      token TEXT UNIQUE NOT NULL,
+      worker_id TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      permission TEXT NOT NULL DEFAULT 'view',
+      created_by INTEGER,
+      created_at ${isPg ? 'BIGINT' : 'INTEGER'} NOT NULL,
+      expires_at ${isPg ? 'BIGINT' : 'INTEGER'},
+      max_uses INTEGER,
+      uses INTEGER NOT NULL DEFAULT 0,
+      revoked_at ${isPg ? 'BIGINT' : 'INTEGER'},
+      FOREIGN KEY(worker_id) REFERENCES workers(id) ON DELETE CASCADE,
+      FOREIGN KEY(created_by) REFERENCES users(id) ON DELETE SET NULL
+    );
+  `);
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS session_share_grants (
+      share_id TEXT NOT NULL,
+      user_id INTEGER NOT NULL,
+      redeemed_at ${isPg ? 'BIGINT' : 'INTEGER'} NOT NULL,
+      PRIMARY KEY (share_id, user_id),
+      FOREIGN KEY(share_id) REFERENCES session_shares(id) ON DELETE CASCADE,
+      FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
   `);
+  await db.exec('CREATE INDEX IF NOT EXISTS idx_session_shares_session ON session_shares (worker_id, session_id)');
+
+  // Public read-only spectator links (signed URL; the row allows instant revocation)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS spectator_links (
+      id TEXT PRIMARY KEY,
+      worker_id TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      created_by INTEGER,
+      created_at ${isPg ? 'BIGINT' : 'INTEGER'} NOT NULL,
+      expires_at ${isPg ? 'BIGINT' : 'INTEGER'} NOT NULL,
+      revoked_at ${isPg ? 'BIGINT' : 'INTEGER'},
+      FOREIGN KEY(worker_id) REFERENCES workers(id) ON DELETE CASCADE,
+      FOREIGN KEY(created_by) REFERENCES users(id) ON DELETE SET NULL
+    );
+  `);
+
+  // Ports of a worker's localhost that Nexus may tunnel to (allowlist per worker)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS worker_tunnel_ports (
+      worker_id TEXT NOT NULL,
+      port INTEGER NOT NULL,
+      label TEXT NOT NULL DEFAULT '',
+      tls INTEGER NOT NULL DEFAULT 0,
+      created_by INTEGER,
+      created_at ${isPg ? 'BIGINT' : 'INTEGER'} NOT NULL,
+      PRIMARY KEY (worker_id, port),
+      FOREIGN KEY(worker_id) REFERENCES workers(id) ON DELETE CASCADE,
+      FOREIGN KEY(created_by) REFERENCES users(id) ON DELETE SET NULL
+    );
+  `);
+
+  // Personal access tokens for scripts/CI; only the SHA-256 of the secret is stored
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS access_tokens (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      token_hint TEXT NOT NULL,
+      scopes TEXT NOT NULL,
+      created_at ${isPg ? 'BIGINT' : 'INTEGER'} NOT NULL,
+      last_used_at ${isPg ? 'BIGINT' : 'INTEGER'},
+      expires_at ${isPg ? 'BIGINT' : 'INTEGER'},
+      FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+  `);
+  await db.exec('CREATE INDEX IF NOT EXISTS idx_access_tokens_user ON access_tokens (user_id)');
 
   // Audit
   await db.exec(`
@@ -143,6 +284,13 @@ export const initDatabase = async () => {
     );
   `);
 
+  // Migration: tenant del actor para poder filtrar la auditoría por tenant
+  try {
+    await db.exec(`ALTER TABLE audit ADD COLUMN tenant_id TEXT`);
+    console.log('[Nexus] Added tenant_id column to audit table');
+  } catch (_e) { /* ya existe — ignorar */ }
+  await db.exec('CREATE INDEX IF NOT EXISTS idx_audit_tenant ON audit (tenant_id, id)');
+
   // Payments (Mercado Pago)
   await db.exec(`
     CREATE TABLE IF NOT EXISTS payments (
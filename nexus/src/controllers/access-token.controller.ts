@@ -0,0 +1,74 @@
+import { Request, Response } from 'express';
+import { AccessTokenModel, TOKEN_SCOPES, TokenScope } from '../models/access-token.model';
+import { canUseApi } from '../services/plan-limits';
+import { recordAudit } from '../services/audit.service';
+
+const MAX_TOKENS_PER_USER = 50;
+const MAX_TOKEN_NAME_LENGTH = 64;
+const MAX_EXPIRY_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class AccessTokenController {
+  static async list(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const tokens = await AccessTokenModel.listByUser(req.user.userId);
+    res.json({ scopes: TOKEN_SCOPES, tokens });
+  }
+
+  /** The secret is only in this response; Nexus keeps its hash. */
+  static async create(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const userId = req.user.userId;
+    const apiCheck = await canUseApi(userId);
+    if (!apiCheck.allowed) {
+      res.status(403).json({ error: apiCheck.reason, code: 'PLAN_LIMIT_API' });
+      return;
+    }
+
+    const { name, scopes, expiresInDays } = req.body || {};
+    const trimmedName = typeof name === 'string' ? name.trim() : '';
+    if (!trimmedName || trimmedName.length > MAX_TOKEN_NAME_LENGTH) {
+      res.status(400).json({ error: `El nombre es obligatorio (máximo ${MAX_TOKEN_NAME_LENGTH} caracteres)` });
+      return;
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0 || scopes.some((scope) => !TOKEN_SCOPES.includes(scope))) {
+      res.status(400).json({ error: 'Elige al menos un permiso válido' });
+      return;
+    }
+    let expiresAt: number | null = null;
+    if (expiresInDays !== undefined && expiresInDays !== null) {
+      const days = Number(expiresInDays);
+      if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+        res.status(400).json({ error: `La caducidad debe estar entre 1 y ${MAX_EXPIRY_DAYS} días` });
+        return;
+      }
+      expiresAt = Date.now() + days * DAY_MS;
+    }
+    if (await AccessTokenModel.countByUser(userId) >= MAX_TOKENS_PER_USER) {
+      res.status(409).json({ error: `Máximo ${MAX_TOKENS_PER_USER} tokens por usuario. Revoca alguno.` });
+      return;
+    }
+
+    const uniqueScopes = TOKEN_SCOPES.filter((scope) => scopes.includes(scope)) as TokenScope[];
+    const { token, secret } = await AccessTokenModel.create({
+      user_id: userId,
+      name: trimmedName,
+      scopes: uniqueScopes,
+      expires_at: expiresAt,
+    });
+    await recordAudit('token.create', {
+      userId,
+      data: { tokenId: token.id, name: token.name, scopes: token.scopes, expiresAt, ip: req.ip },
+    });
+    res.json({ token, secret });
+  }
+
+  static async revoke(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const tokenId = req.params.id as string;
+    const removed = await AccessTokenModel.delete(tokenId, req.user.userId);
+    if (!removed) { res.status(404).json({ error: 'Token no encontrado' }); return; }
+    await recordAudit('token.revoke', { userId: req.user.userId, data: { tokenId, ip: req.ip } });
+    res.json({ success: true });
+  }
+}
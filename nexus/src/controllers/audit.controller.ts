@@ -0,0 +1,60 @@
+import { Request, Response } from 'express';
+import { AuditModel, AuditFilter } from '../models/audit.model';
+import { UserModel } from '../models/user.model';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// Acepta ISO-8601 o epoch en ms; devuelve ISO para comparar contra `audit.ts`.
+const parseDate = (value: unknown): string | null | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const raw = String(value);
+  const date = /^\d+$/.test(raw) ? new Date(Number(raw)) : new Date(raw);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+export class AuditController {
+  static async list(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const user = await UserModel.findById(req.user.userId);
+    if (!user) { res.status(401).json({ error: 'Usuario no válido' }); return; }
+    const isGlobalAdmin = user.is_admin === 1 && (user.tenant_id ?? null) === null;
+
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+      res.status(400).json({ error: 'Fecha inválida' });
+      return;
+    }
+
+    const limit = Math.min(MAX_LIMIT, Math.max(1, Number(req.query.limit) || DEFAULT_LIMIT));
+    const offset = Math.max(0, Number(req.query.offset) || 0);
+    const filter: AuditFilter = { limit, offset, from, to };
+
+    if (req.query.event) {
+      filter.events = String(req.query.event).split(',').map((e) => e.trim()).filter(Boolean);
+    }
+    if (req.query.workerId) filter.workerId = String(req.query.workerId);
+    if (req.query.userId !== undefined) {
+      const userId = Number(req.query.userId);
+      if (!Number.isInteger(userId)) {
+        res.status(400).json({ error: 'ID de usuario inválido' });
+        return;
+      }
+      filter.userId = userId;
+    }
+
+    if (isGlobalAdmin) {
+      if (typeof req.query.tenant === 'string' && req.query.tenant) filter.tenantId = req.query.tenant;
+    } else if (user.tenant_id) {
+      filter.tenantId = user.tenant_id;
+    } else {
+      // Sin tenant: solo sus propios eventos.
+      filter.tenantId = null;
+      filter.userId = user.id;
+    }
+
+    const { entries, total } = await AuditModel.list(filter);
+    res.json({ entries, total, limit, offset });
+  }
+}
@@ -3,6 +3,7 @@ import { Request, Response } from 'express';
 import { AuthService } from '../services/auth.service';
 import { UserModel } from '../models/user.model';
 import { getUserPlan, getLimitsForPlan } from '../services/plan-limits';
+import { recordAudit } from '../services/audit.service';
 
 export class AuthController {
   static async login(req: Request, res: Response) {
@@ -13,8 +14,15 @@ export class AuthController {
         return;
       }
       const result = await AuthService.login(username, password);
+      await recordAudit('auth.login', { userId: result.user.userId, data: { ip: req.ip } });
       res.json(result);
     } catch (err: any) {
+      const username = typeof req.body?.username === 'string' ? req.body.username.trim() : '';
+      const target = username ? await UserModel.findByUsername(username) : undefined;
+      await recordAudit('auth.login_failed', {
+        userId: target?.id ?? null,
+        data: { username, ip: req.ip },
+      });
       res.status(401).json({ error: err.message });
     }
   }
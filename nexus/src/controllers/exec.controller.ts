@@ -0,0 +1,209 @@
+import { StringDecoder } from 'string_decoder';
+import path from 'path';
+import { Request, Response } from 'express';
+import type { Server } from 'socket.io';
+import { WorkerModel } from '../models/worker.model';
+import { workers as connectedWorkers, workerSupports } from '../socket';
+import { canUseApi } from '../services/plan-limits';
+import { startExec, killExec, ExecExit, ExecRequest } from '../services/exec';
+import { describeWorkerError } from '../services/worker-rpc';
+import { recordAudit } from '../services/audit.service';
+
+export const EXEC_DEFAULT_TIMEOUT_MS = 60_000;
+export const EXEC_MAX_TIMEOUT_MS = 10 * 60_000;
+/** Per stream, without SSE; the rest is dropped and `truncated` is set. */
+const EXEC_MAX_OUTPUT_BYTES = 1024 * 1024;
+const EXEC_MAX_COMMAND_BYTES = 64 * 1024;
+const MAX_ENV_VARS = 64;
+// Si el worker no avisa del final, Nexus deja de esperar este margen después del timeout.
+const EXEC_EXIT_GRACE_MS = 15_000;
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// El worker también las rechaza: alteran qué código cargan el loader o el shell.
+const BLOCKED_ENV = /^(LD_.*|BASH_ENV|ENV|IFS|PATH|SHELLOPTS|BASHOPTS|PS4)$/;
+
+function parseExecRequest(body: Record<string, unknown>): ExecRequest | { error: string } {
+  const { command, cwd, env, stdin, timeoutMs } = body;
+  if (typeof command !== 'string' || !command.trim()) return { error: 'Comando requerido' };
+  if (Buffer.byteLength(command) > EXEC_MAX_COMMAND_BYTES) return { error: 'El comando es demasiado largo' };
+  if (cwd !== undefined && (typeof cwd !== 'string' || !path.isAbsolute(cwd))) {
+    return { error: 'cwd debe ser una ruta absoluta' };
+  }
+  if (env !== undefined) {
+    if (!env || typeof env !== 'object' || Array.isArray(env)) return { error: 'env debe ser un objeto' };
+    const entries = Object.entries(env);
+    if (entries.length > MAX_ENV_VARS) return { error: `Máximo ${MAX_ENV_VARS} variables de entorno` };
+    if (entries.some(([name, value]) => !ENV_NAME.test(name) || typeof value !== 'string')) {
+      return { error: 'Las variables de entorno deben ser NOMBRE: "valor"' };
+    }
+    const blocked = entries.find(([name]) => BLOCKED_ENV.test(name));
+    if (blocked) return { error: `No se permite definir ${blocked[0]}` };
+  }
+  if (stdin !== undefined && typeof stdin !== 'string') return { error: 'stdin debe ser texto' };
+  const timeout = timeoutMs === undefined ? EXEC_DEFAULT_TIMEOUT_MS : Number(timeoutMs);
+  if (!Number.isInteger(timeout) || timeout <= 0 || timeout > EXEC_MAX_TIMEOUT_MS) {
+    return { error: `timeoutMs debe estar entre 1 y ${EXEC_MAX_TIMEOUT_MS}` };
+  }
+  return {
+    command,
+    cwd: cwd as string | undefined,
+    env: env as Record<string, string> | undefined,
+    stdin: stdin as string | undefined,
+    timeoutMs: timeout,
+  };
+}
+
+export class ExecController {
+  /**
+   * Runs one command on the worker without a PTY. Answers with the exit code
+   * and both outputs, or streams them as Server-Sent Events (`stdout`,
+   * `stderr`, `exit`, `error`) when asked with `stream: true` or
+   * `Accept: text/event-stream`.
+   */
+  static async exec(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const userId = req.user.userId;
+    const workerId = req.params.id as string;
+
+    const hasAccess = await WorkerModel.hasAccess(userId, workerId, 'control');
+    if (!hasAccess) { res.status(403).json({ error: 'Acceso denegado' }); return; }
+    const apiCheck = await canUseApi(userId);
+    if (!apiCheck.allowed) {
+      res.status(403).json({ error: apiCheck.reason, code: 'PLAN_LIMIT_API' });
+      return;
+    }
+
+    const request = parseExecRequest(req.body || {});
+    if ('error' in request) { res.status(400).json({ error: request.error }); return; }
+
+    const connected = connectedWorkers.get(workerId);
+    const worker = connected ? (req.app.get('io') as Server | undefined)?.sockets.sockets.get(connected.socketId) : undefined;
+    if (!worker) { res.status(409).json({ error: 'El worker no está conectado' }); return; }
+    if (!workerSupports(workerId, 'exec')) {
+      res.status(409).json({ error: 'Este worker no admite ejecutar comandos por API. Actualízalo.' });
+      return;
+    }
+
+    const stream = req.body?.stream === true || String(req.headers.accept || '').includes('text/event-stream');
+    const audit = (result: Partial<ExecExit> & { error?: string }) => recordAudit('worker.exec', {
+      userId,
+      workerId,
+      data: { command: request.command.slice(0, 500), cwd: request.cwd ?? null, stream, ...result },
+    });
+
+    const decoders = { stdout: new StringDecoder('utf8'), stderr: new StringDecoder('utf8') };
+    const output = { stdout: '', stderr: '' };
+    const sizes = { stdout: 0, stderr: 0 };
+    let truncated = false;
+    let done = false;
+    let guard: NodeJS.Timeout | null = null;
+    // Lo que llegue antes de tener el id se aplica al confirmar el arranque.
+    let ready = false;
+    const early: Array<() => void> = [];
+    const whenReady = (fn: () => void) => (ready ? fn() : early.push(fn));
+    const sendEvent = (event: string, payload: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+
+    const finish = (fn: () => void) => {
+      if (done) return;
+      done = true;
+      if (guard) clearTimeout(guard);
+      fn();
+    };
+
+    // Antes de arrancar: un cliente que corta mientras el worker confirma también cancela.
+    let execId: string | null = null;
+    let canceled = false;
+    res.on('close', () => {
+      if (done) return;
+      // El cliente cortó: no tiene sentido seguir ejecutando.
+      canceled = true;
+      finish(() => { if (execId) killExec(execId); });
+      void audit({ error: 'ECANCELED' });
+    });
+
+    const started = await startExec(worker, workerId, request, {
+      onOutput: (name, data) => whenReady(() => {
+        if (done) return;
+        if (stream) {
+          sendEvent(name, { data: decoders[name].write(data) });
+          return;
+        }
+        if (sizes[name] >= EXEC_MAX_OUTPUT_BYTES) { truncated = true; return; }
+        const slice = data.subarray(0, EXEC_MAX_OUTPUT_BYTES - sizes[name]);
+        if (slice.length < data.length) truncated = true;
+        sizes[name] += slice.length;
+        output[name] += decoders[name].write(slice);
+      }),
+      onExit: (exit) => whenReady(() => finish(() => {
+        void audit(exit);
+        if (stream) {
+          // Lo que quede a medias de un carácter UTF-8 sale antes del exit.
+          for (const name of ['stdout', 'stderr'] as const) {
+            const rest = decoders[name].end();
+            if (rest) sendEvent(name, { data: rest });
+          }
+          sendEvent('exit', exit);
+          res.end();
+          return;
+        }
+        res.json({
+          ...exit,
+          stdout: output.stdout + decoders.stdout.end(),
+          stderr: output.stderr + decoders.stderr.end(),
+          truncated,
+        });
+      })),
+      onError: (code) => whenReady(() => finish(() => {
+        void audit({ error: code });
+        const message = code === 'OFFLINE' ? 'El worker se desconectó durante el comando' : describeWorkerError(code).error;
+        if (stream) {
+          sendEvent('error', { error: message });
+          res.end();
+          return;
+        }
+        res.status(502).json({ error: message });
+      })),
+    });
+
+    if (started.error !== undefined) {
+      if (canceled) return;
+      done = true;
+      await audit({ error: started.error });
+      const { status, error } = started.error === 'EMFILE'
+        ? { status: 429, error: 'El worker ya está ejecutando demasiados comandos' }
+        : describeWorkerError(started.error);
+      res.status(status).json({ error });
+      return;
+    }
+    execId = started.id;
+    if (canceled) {
+      killExec(started.id);
+      return;
+    }
+
+    if (stream) {
+      res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.flushHeaders();
+      sendEvent('start', { pid: started.pid });
+    }
+    guard = setTimeout(() => {
+      killExec(started.id);
+      finish(() => {
+        void audit({ error: 'ETIMEDOUT' });
+        if (stream) {
+          sendEvent('error', { error: 'El worker no informó el final del comando' });
+          res.end();
+          return;
+        }
+        res.status(504).json({ error: 'El worker no informó el final del comando' });
+      });
+    }, request.timeoutMs + EXEC_EXIT_GRACE_MS);
+
+    ready = true;
+    early.splice(0).forEach((fn) => fn());
+  }
+}
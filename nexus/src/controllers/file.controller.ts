@@ -0,0 +1,334 @@
+import path from 'path';
+import crypto from 'crypto';
+import { once } from 'events';
+import { Request, Response } from 'express';
+import type { Server } from 'socket.io';
+import { WorkerModel } from '../models/worker.model';
+import { workers as connectedWorkers, workerSupports } from '../socket';
+import { canTransferFile } from '../services/plan-limits';
+import { callWorker, describeWorkerError, type WorkerError, type WorkerReply } from '../services/worker-rpc';
+import { recordAudit } from '../services/audit.service';
+import { addUpload, touchUpload, removeUpload, type PendingUpload } from '../services/uploads';
+
+/** Bytes per upload PUT and per worker read; under Socket.IO's 1 MB frame. */
+export const FILE_CHUNK_BYTES = 512 * 1024;
+/** Editor saves travel in one worker RPC too. */
+export const EDITOR_MAX_BYTES = 512 * 1024;
+
+/** Shared checks: control access, worker online and new enough to move files. */
+async function resolveFileWorker(req: Request, res: Response): Promise<string | null> {
+  if (!req.user) { res.status(401).send(); return null; }
+  const workerId = req.params.id as string;
+  const hasAccess = await WorkerModel.hasAccess(req.user.userId, workerId, 'control');
+  if (!hasAccess) { res.status(403).json({ error: 'Acceso denegado' }); return null; }
+  if (!connectedWorkers.has(workerId)) {
+    res.status(409).json({ error: 'El worker no está conectado' });
+    return null;
+  }
+  if (!workerSupports(workerId, 'files')) {
+    res.status(409).json({ error: 'Este worker no admite transferencia de archivos. Actualízalo.' });
+    return null;
+  }
+  return workerId;
+}
+
+function findUpload(req: Request, res: Response, workerId: string): [string, PendingUpload] | null {
+  const uploadId = req.params.uploadId as string;
+  const upload = touchUpload(uploadId);
+  if (!upload || upload.workerId !== workerId || upload.userId !== req.user!.userId) {
+    res.status(404).json({ error: 'Subida no encontrada' });
+    return null;
+  }
+  return [uploadId, upload];
+}
+
+/** Sends the worker's error as HTTP; true when there was one. */
+function sendWorkerError<T>(res: Response, reply: WorkerReply<T>): reply is WorkerError {
+  if (reply.error === undefined) return false;
+  const { status, error } = describeWorkerError(reply.error);
+  res.status(status).json({ error });
+  return true;
+}
+
+const contentDisposition = (name: string) =>
+  `attachment; filename="${name.replace(/[^\x20-\x7e]|["\\]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(name)}`;
+
+export class FileController {
+  /**
+   * Starts a chunked upload into `dir`, or into the session's current
+   * directory when only `sessionId` is given.
+   */
+  static async startUpload(req: Request, res: Response) {
+    const workerId = await resolveFileWorker(req, res);
+    if (!workerId) return;
+    const { name, size, sessionId, dir } = req.body || {};
+    const fileSize = Number(size);
+    if (typeof name !== 'string' || !name.trim() || !Number.isInteger(fileSize) || fileSize < 0) {
+      res.status(400).json({ error: 'Nombre y tamaño requeridos' });
+      return;
+    }
+    const limit = await canTransferFile(req.user!.userId, fileSize);
+    if (!limit.allowed) {
+      res.status(403).json({ error: limit.reason, code: 'PLAN_LIMIT_TRANSFER', max: limit.max });
+      return;
+    }
+
+    const reply = await callWorker<{ uploadId: string; dir: string; offset: number }>(
+      req.app.get('io') as Server | undefined,
+      workerId,
+      'file-upload-start',
+      { name: path.basename(name.trim()), size: fileSize, sessionId, dir }
+    );
+    if (sendWorkerError(res, reply)) return;
+
+    const uploadId = crypto.randomUUID();
+    addUpload(uploadId, {
+      userId: req.user!.userId,
+      workerId,
+      name: path.basename(name.trim()),
+      size: fileSize,
+      workerUploadId: reply.uploadId,
+      dir: reply.dir,
+    });
+    res.json({ uploadId, dir: reply.dir, offset: 0, size: fileSize, chunkSize: FILE_CHUNK_BYTES });
+  }
+
+  /** Where to resume: the byte offset the worker has written so far. */
+  static async uploadStatus(req: Request, res: Response) {
+    const workerId = await resolveFileWorker(req, res);
+    if (!workerId) return;
+    const found = findUpload(req, res, workerId);
+    if (!found) return;
+    const [, upload] = found;
+    const reply = await callWorker<{ offset: number; size: number }>(
+      req.app.get('io') as Server | undefined,
+      workerId,
+      'file-upload-status',
+      { uploadId: upload.workerUploadId }
+    );
+    if (sendWorkerError(res, reply)) return;
+    res.json({ offset: reply.offset, size: upload.size, dir: upload.dir });
+  }
+
+  /** Raw body appended at `?offset=`; a mismatch answers 409 with the right offset. */
+  static async uploadChunk(req: Request, res: Response) {
+    const workerId = await resolveFileWorker(req, res);
+    if (!workerId) return;
+    const found = findUpload(req, res, workerId);
+    if (!found) return;
+    const [uploadId, upload] = found;
+    const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    if (data.length > FILE_CHUNK_BYTES) {
+      res.status(413).json({ error: 'Fragmento demasiado grande' });
+      return;
+    }
+
+    const reply = await callWorker<{ offset: number; done: boolean; path?: string }>(
+      req.app.get('io') as Server | undefined,
+      workerId,
+      'file-upload-chunk',
+      { uploadId: upload.workerUploadId, offset: Number(req.query.offset), data }
+    );
+    if (reply.error !== undefined) {
+      const { status, error } = describeWorkerError(reply.error);
+      res.status(status).json({ error, ...(reply.offset !== undefined ? { offset: reply.offset } : {}) });
+      return;
+    }
+    if (reply.done) {
+      removeUpload(uploadId);
+      await recordAudit('file.upload', {
+        userId: req.user!.userId,
+        workerId,
+        data: { path: reply.path, size: upload.size },
+      });
+    }
+    res.json({ offset: reply.offset, done: reply.done, ...(reply.path ? { path: reply.path } : {}) });
+  }
+
+  static async abortUpload(req: Request, res: Response) {
+    const workerId = await resolveFileWorker(req, res);
+    if (!workerId) return;
+    const found = findUpload(req, res, workerId);
+    if (!found) return;
+    const [uploadId, upload] = found;
+    removeUpload(uploadId);
+    await callWorker(req.app.get('io') as Server | undefined, workerId, 'file-upload-abort', {
+      uploadId: upload.workerUploadId,
+    });
+    res.json({ success: true });
+  }
+
+  /**
+   * Streams a file from the worker. Relative paths resolve against the
+   * session's current directory; `Range: bytes=N-` resumes a download.
+   */
+  static async download(req: Request, res: Response) {
+    const workerId = await resolveFileWorker(req, res);
+    if (!workerId) return;
+    const io = req.app.get('io') as Server | undefined;
+    const filePath = String(req.query.path || '').trim();
+    if (!filePath) { res.status(400).json({ error: 'Ruta requerida' }); return; }
+
+    const stat = await callWorker<{ path: string; size: number; mtime: number; isFile: boolean }>(
+      io,
+      workerId,
+      'file-stat',
+      { path: filePath, sessionId: req.query.sessionId ? String(req.query.sessionId) : undefined }
+    );
+    if (sendWorkerError(res, stat)) return;
+    if (!stat.isFile) { res.status(400).json({ error: 'Solo se pueden descargar archivos' }); return; }
+    const limit = await canTransferFile(req.user!.userId, stat.size);
+    if (!limit.allowed) {
+      res.status(403).json({ error: limit.reason, code: 'PLAN_LIMIT_TRANSFER', max: limit.max });
+      return;
+    }
+
+    const range = /^bytes=(\d+)-$/.exec(String(req.headers.range || ''));
+    const start = range ? Number(range[1]) : 0;
+    if (start > stat.size) {
+      res.status(416).set('Content-Range', `bytes */${stat.size}`).end();
+      return;
+    }
+    res.status(range ? 206 : 200);
+    res.set({
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': String(stat.size - start),
+      'Content-Disposition': contentDisposition(path.basename(stat.path)),
+      'Accept-Ranges': 'bytes',
+      'Last-Modified': new Date(stat.mtime).toUTCString(),
+      ...(range ? { 'Content-Range': `bytes ${start}-${Math.max(start, stat.size - 1)}/${stat.size}` } : {}),
+    });
+    if (start === 0) {
+      await recordAudit('file.download', { userId: req.user!.userId, workerId, data: { path: stat.path, size: stat.size } });
+    }
+
+    const closed = new AbortController();
+    res.on('close', () => closed.abort());
+    let offset = start;
+    while (offset < stat.size && !closed.signal.aborted) {
+      const chunk = await callWorker<{ data: Buffer; eof: boolean }>(io, workerId, 'file-read', {
+        path: stat.path,
+        offset,
+        length: Math.min(FILE_CHUNK_BYTES, stat.size - offset),
+      });
+      // Headers are out: a failure mid-stream can only cut the response short.
+      if (chunk.error !== undefined || chunk.data.length === 0) break;
+      offset += chunk.data.length;
+      if (!res.write(chunk.data)) {
+        // The close aborts the wait and removes its listener; the loop then stops.
+        await once(res, 'drain', { signal: closed.signal }).catch(() => undefined);
+      }
+    }
+    if (offset < stat.size) res.destroy();
+    else res.end();
+  }
+
+  /** Directory listing for the file browser; relative paths start at the session's cwd. */
+  static async list(req: Request, res: Response) {
+    const workerId = await resolveFileWorker(req, res);
+    if (!workerId) return;
+    const reply = await callWorker<{ path: string; parent: string | null; entries: unknown[] }>(
+      req.app.get('io') as Server | undefined,
+      workerId,
+      'file-list',
+      {
+        path: req.query.path ? String(req.query.path) : undefined,
+        sessionId: req.query.sessionId ? String(req.query.sessionId) : undefined,
+      }
+    );
+    if (sendWorkerError(res, reply)) return;
+    res.json(reply);
+  }
+
+  static async rename(req: Request, res: Response) {
+    const workerId = await resolveFileWorker(req, res);
+    if (!workerId) return;
+    const { path: filePath, name } = req.body || {};
+    if (typeof filePath !== 'string' || typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({ error: 'Ruta y nombre requeridos' });
+      return;
+    }
+    const reply = await callWorker<{ path: string }>(req.app.get('io') as Server | undefined, workerId, 'file-rename', {
+      path: filePath,
+      name: name.trim(),
+    });
+    if (sendWorkerError(res, reply)) return;
+    await recordAudit('file.rename', { userId: req.user!.userId, workerId, data: { from: filePath, to: reply.path } });
+    res.json({ path: reply.path });
+  }
+
+  static async mkdir(req: Request, res: Response) {
+    const workerId = await resolveFileWorker(req, res);
+    if (!workerId) return;
+    const { path: parent, name } = req.body || {};
+    if (typeof parent !== 'string' || typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({ error: 'Ruta y nombre requeridos' });
+      return;
+    }
+    const reply = await callWorker<{ path: string }>(req.app.get('io') as Server | undefined, workerId, 'file-mkdir', {
+      path: parent,
+      name: name.trim(),
+    });
+    if (sendWorkerError(res, reply)) return;
+    res.json({ path: reply.path });
+  }
+
+  /** Deletes a file or a whole directory. */
+  static async remove(req: Request, res: Response) {
+    const workerId = await resolveFileWorker(req, res);
+    if (!workerId) return;
+    const filePath = String(req.query.path || '').trim();
+    if (!filePath) { res.status(400).json({ error: 'Ruta requerida' }); return; }
+    const reply = await callWorker(req.app.get('io') as Server | undefined, workerId, 'file-delete', { path: filePath });
+    if (sendWorkerError(res, reply)) return;
+    await recordAudit('file.delete', { userId: req.user!.userId, workerId, data: { path: filePath } });
+    res.json({ success: true });
+  }
+
+  /** Opens a text file for the editor; `hash` goes back as `If-Match` on save. */
+  static async readText(req: Request, res: Response) {
+    const workerId = await resolveFileWorker(req, res);
+    if (!workerId) return;
+    const filePath = String(req.query.path || '').trim();
+    if (!filePath) { res.status(400).json({ error: 'Ruta requerida' }); return; }
+    const reply = await callWorker<{ path: string; content: string; hash: string; mtime: number; writable: boolean }>(
+      req.app.get('io') as Server | undefined,
+      workerId,
+      'file-read-text',
+      { path: filePath, sessionId: req.query.sessionId ? String(req.query.sessionId) : undefined }
+    );
+    if (sendWorkerError(res, reply)) return;
+    res.set('ETag', `"${reply.hash}"`).json(reply);
+  }
+
+  /**
+   * Saves editor content (text/plain body). Without a matching `If-Match` the
+   * worker refuses and the browser gets 412 with the file's current hash.
+   */
+  static async writeText(req: Request, res: Response) {
+    const workerId = await resolveFileWorker(req, res);
+    if (!workerId) return;
+    const filePath = String(req.query.path || '').trim();
+    const expectedHash = String(req.headers['if-match'] || '').replace(/^"|"$/g, '');
+    if (!filePath || typeof req.body !== 'string') {
+      res.status(400).json({ error: 'Ruta y contenido requeridos' });
+      return;
+    }
+    if (!expectedHash) { res.status(428).json({ error: 'Falta If-Match con el hash que se editó' }); return; }
+
+    const reply = await callWorker<{ hash: string; mtime: number }>(
+      req.app.get('io') as Server | undefined,
+      workerId,
+      'file-write-text',
+      { path: filePath, content: req.body, expectedHash }
+    );
+    if (reply.error === 'ECONFLICT') {
+      const { status, error } = describeWorkerError(reply.error);
+      res.status(status).json({ error, hash: reply.hash, mtime: reply.mtime });
+      return;
+    }
+    if (sendWorkerError(res, reply)) return;
+    await recordAudit('file.edit', { userId: req.user!.userId, workerId, data: { path: filePath, size: Buffer.byteLength(req.body) } });
+    res.set('ETag', `"${reply.hash}"`).json({ hash: reply.hash, mtime: reply.mtime });
+  }
+}
@@ -0,0 +1,69 @@
+import fs from 'fs';
+import { Request, Response } from 'express';
+import { WorkerModel } from '../models/worker.model';
+import { RecordingModel } from '../models/recording.model';
+import { RecordingService } from '../services/recording.service';
+
+export class RecordingController {
+  /** Recordings of every worker the requester can see, newest first. */
+  static async listAccessible(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const workers = await WorkerModel.getAccessibleWorkers(req.user.userId);
+    const recordings = await RecordingModel.listByWorkers(workers.map((worker) => worker.id));
+    res.json(recordings);
+  }
+
+  static async list(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const workerId = req.params.id as string;
+
+    const hasAccess = await WorkerModel.hasAccess(req.user.userId, workerId, 'view');
+    if (!hasAccess) { res.status(403).json({ error: 'Acceso denegado' }); return; }
+
+    const recordings = await RecordingModel.listByWorker(workerId);
+    res.json(recordings);
+  }
+
+  static async download(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const workerId = req.params.id as string;
+
+    const hasAccess = await WorkerModel.hasAccess(req.user.userId, workerId, 'view');
+    if (!hasAccess) { res.status(403).json({ error: 'Acceso denegado' }); return; }
+
+    const recording = await RecordingModel.findById(req.params.recordingId as string);
+    if (!recording || recording.worker_id !== workerId) {
+      res.status(404).json({ error: 'Grabación no encontrada' });
+      return;
+    }
+
+    const filePath = RecordingService.filePath(recording);
+    if (!fs.existsSync(filePath)) {
+      res.status(410).json({ error: 'El archivo de la grabación ya no existe' });
+      return;
+    }
+    res.type('application/x-asciicast');
+    res.download(filePath, `${recording.id}.cast`);
+  }
+
+  static async delete(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const workerId = req.params.id as string;
+
+    const hasAccess = await WorkerModel.hasAccess(req.user.userId, workerId, 'control');
+    if (!hasAccess) { res.status(403).json({ error: 'Acceso denegado' }); return; }
+
+    const recording = await RecordingModel.findById(req.params.recordingId as string);
+    if (!recording || recording.worker_id !== workerId) {
+      res.status(404).json({ error: 'Grabación no encontrada' });
+      return;
+    }
+    if (recording.ended_at === null) {
+      res.status(409).json({ error: 'La grabación sigue en curso' });
+      return;
+    }
+
+    await RecordingService.remove(recording);
+    res.json({ success: true });
+  }
+}
@@ -0,0 +1,176 @@
+import { Request, Response } from 'express';
+import { WorkerModel } from '../models/worker.model';
+import { UserModel } from '../models/user.model';
+import { SessionModel } from '../models/session.model';
+import { SessionShareModel, SessionShare, SessionSharePermission } from '../models/session-share.model';
+import { invalidateWorkerAccessCache, workers as connectedWorkers } from '../socket';
+import { canShareWorker } from '../services/plan-limits';
+import { recordAudit } from '../services/audit.service';
+
+const PERMISSIONS: SessionSharePermission[] = ['view', 'control'];
+const DEFAULT_EXPIRES_MINUTES = 60;
+const MAX_EXPIRES_MINUTES = 7 * 24 * 60;
+const MAX_USES_LIMIT = 100;
+
+const publicShare = (share: SessionShare & { redeemed_by?: number }) => ({
+  id: share.id,
+  token: share.token,
+  workerId: share.worker_id,
+  sessionId: share.session_id,
+  permission: share.permission,
+  createdAt: share.created_at,
+  expiresAt: share.expires_at,
+  maxUses: share.max_uses,
+  uses: share.uses,
+  redeemedBy: share.redeemed_by ?? 0,
+  revoked: share.revoked_at !== null,
+});
+
+export class SessionShareController {
+  static async list(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const workerId = req.params.id as string;
+    const sessionId = req.params.sessionId as string;
+
+    const hasAccess = await WorkerModel.hasAccess(req.user.userId, workerId, 'control');
+    if (!hasAccess) { res.status(403).json({ error: 'Acceso denegado' }); return; }
+
+    const shares = await SessionShareModel.listBySession(workerId, sessionId);
+    res.json(shares.map(publicShare));
+  }
+
+  static async create(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const workerId = req.params.id as string;
+    const sessionId = req.params.sessionId as string;
+    const permission = req.body.permission ?? 'view';
+    const expiresInMinutes = Number(req.body.expiresInMinutes ?? DEFAULT_EXPIRES_MINUTES);
+    const maxUses = req.body.maxUses === undefined || req.body.maxUses === null ? null : Number(req.body.maxUses);
+
+    if (!PERMISSIONS.includes(permission)) {
+      res.status(400).json({ error: 'Permiso inválido' });
+      return;
+    }
+    if (!Number.isFinite(expiresInMinutes) || expiresInMinutes <= 0 || expiresInMinutes > MAX_EXPIRES_MINUTES) {
+      res.status(400).json({ error: 'La expiración debe estar entre 1 minuto y 7 días' });
+      return;
+    }
+    if (maxUses !== null && (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_USES_LIMIT)) {
+      res.status(400).json({ error: `El máximo de usos debe estar entre 1 y ${MAX_USES_LIMIT}` });
+      return;
+    }
+
+    // Solo quien controla la sesión puede repartirla.
+    const hasAccess = await WorkerModel.hasAccess(req.user.userId, workerId, 'control');
+    if (!hasAccess) { res.status(403).json({ error: 'Acceso denegado' }); return; }
+
+    const requester = await UserModel.findById(req.user.userId);
+    if (!requester) { res.status(401).json({ error: 'Usuario no válido' }); return; }
+    const isGlobalAdmin = requester.is_admin === 1 && (requester.tenant_id ?? null) === null;
+    if (!isGlobalAdmin) {
+      const shareCheck = await canShareWorker(req.user.userId);
+      if (!shareCheck.allowed) {
+        res.status(403).json({ error: shareCheck.reason, code: 'PLAN_LIMIT_SHARE' });
+        return;
+      }
+    }
+
+    const session = await SessionModel.find(workerId, sessionId);
+    if (!session) { res.status(404).json({ error: 'Sesión no encontrada' }); return; }
+
+    const share = await SessionShareModel.create({
+      worker_id: workerId,
+      session_id: sessionId,
+      permission,
+      created_by: req.user.userId,
+      expires_at: Date.now() + Math.round(expiresInMinutes * 60_000),
+      max_uses: maxUses,
+    });
+    await recordAudit('session.share', {
+      userId: req.user.userId,
+      workerId,
+      data: { sessionId, shareId: share.id, permission, expiresAt: share.expires_at, maxUses },
+    });
+    res.json(publicShare(share));
+  }
+
+  static async revoke(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const workerId = req.params.id as string;
+    const sessionId = req.params.sessionId as string;
+
+    const hasAccess = await WorkerModel.hasAccess(req.user.userId, workerId, 'control');
+    if (!hasAccess) { res.status(403).json({ error: 'Acceso denegado' }); return; }
+
+    const share = await SessionShareModel.findById(req.params.shareId as string);
+    if (!share || share.worker_id !== workerId || share.session_id !== sessionId) {
+      res.status(404).json({ error: 'Enlace no encontrado' });
+      return;
+    }
+
+    await SessionShareModel.revoke(share.id);
+    // Las suscripciones se revalidan con cada lote de output; basta con que
+    // el listado de sesiones deje de incluirla.
+    invalidateWorkerAccessCache();
+    await recordAudit('session.unshare', { userId: req.user.userId, workerId, data: { sessionId, shareId: share.id } });
+    res.json({ success: true });
+  }
+
+  static async redeem(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const token = String(req.body.token || '').trim();
+    if (!token) { res.status(400).json({ error: 'Token requerido' }); return; }
+
+    const share = await SessionShareModel.findByToken(token);
+    if (!share) { res.status(404).json({ error: 'Enlace inválido' }); return; }
+    if (share.revoked_at !== null || (share.expires_at !== null && share.expires_at <= Date.now())) {
+      res.status(410).json({ error: 'El enlace expiró o fue revocado' });
+      return;
+    }
+
+    const session = await SessionModel.find(share.worker_id, share.session_id);
+    const worker = await WorkerModel.findById(share.worker_id);
+    if (!session || !worker) { res.status(410).json({ error: 'La sesión ya no existe' }); return; }
+
+    // Same rule as joining a worker: a link never crosses tenants.
+    const requester = await UserModel.findById(req.user.userId);
+    if (!requester) { res.status(401).json({ error: 'Usuario no válido' }); return; }
+    const owner = await UserModel.findById(worker.owner_id);
+    const requesterTenant = requester.tenant_id ?? null;
+    const ownerTenant = owner?.tenant_id ?? null;
+    if (!requesterTenant || !ownerTenant || requesterTenant !== ownerTenant) {
+      res.status(403).json({ error: 'La sesión pertenece a otro tenant' });
+      return;
+    }
+
+    // Whoever already reaches the session through the worker keeps that access
+    // and does not burn a use; neither does redeeming the same link twice.
+    const alreadyAllowed = await WorkerModel.hasAccess(req.user.userId, worker.id, share.permission)
+      || await SessionShareModel.hasRedeemed(share.id, req.user.userId);
+    if (!alreadyAllowed) {
+      const consumed = await SessionShareModel.consume(share.id);
+      if (!consumed) {
+        res.status(410).json({ error: 'El enlace alcanzó su límite de usos' });
+        return;
+      }
+      await SessionShareModel.addGrant(share.id, req.user.userId);
+      invalidateWorkerAccessCache(req.user.userId);
+      await recordAudit('session.share_redeem', {
+        userId: req.user.userId,
+        workerId: worker.id,
+        data: { sessionId: share.session_id, shareId: share.id, permission: share.permission },
+      });
+    }
+
+    res.json({
+      workerId: worker.id,
+      workerName: worker.name,
+      workerStatus: connectedWorkers.has(worker.id) ? 'online' : 'offline',
+      sessionId: share.session_id,
+      displayName: session.display_name,
+      createdAt: Number(session.created_at),
+      lastActiveAt: Number(session.last_active_at),
+      permission: share.permission,
+    });
+  }
+}
@@ -0,0 +1,30 @@
+import { Request, Response } from 'express';
+import { Server } from 'socket.io';
+import { UserModel } from '../models/user.model';
+import { getSessionLimit } from '../services/plan-limits';
+import { listLaggingSubscribers, listUserSessions } from '../socket';
+
+export class SessionController {
+  /** Sesiones vivas que cuentan contra el plan del usuario, desde cualquier dispositivo. */
+  static async usage(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const { plan, max } = await getSessionLimit(req.user.userId);
+    const sessions = listUserSessions(req.user.userId)
+      .sort((a, b) => b.lastActiveAt - a.lastActiveAt);
+    res.json({ plan, current: sessions.length, max, sessions });
+  }
+
+  /**
+   * Suscriptores que van atrasados con el output (cola, drops, resync pendiente).
+   * El admin global ve todos; el resto, solo sus propios dispositivos.
+   */
+  static async lagging(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const user = await UserModel.findById(req.user.userId);
+    if (!user) { res.status(401).json({ error: 'Usuario no válido' }); return; }
+    const isGlobalAdmin = user.is_admin === 1 && (user.tenant_id ?? null) === null;
+    const subscribers = listLaggingSubscribers(req.app.get('io') as Server | undefined)
+      .filter((subscriber) => isGlobalAdmin || subscriber.userId === user.id);
+    res.json({ subscribers });
+  }
+}
@@ -0,0 +1,106 @@
+import { Request, Response } from 'express';
+import type { Server } from 'socket.io';
+import { WorkerModel } from '../models/worker.model';
+import { UserModel } from '../models/user.model';
+import { SessionModel } from '../models/session.model';
+import { SpectatorLinkModel, SpectatorLink } from '../models/spectator-link.model';
+import { countSpectators, disconnectSpectatorLink } from '../socket';
+import { canShareWorker } from '../services/plan-limits';
+import { recordAudit } from '../services/audit.service';
+import { signSpectatorToken } from '../utils/jwt';
+
+const DEFAULT_EXPIRES_MINUTES = 60;
+const MAX_EXPIRES_MINUTES = 7 * 24 * 60;
+
+// El token se vuelve a firmar con la misma expiración al listar, así el
+// cliente puede copiar el enlace otra vez sin guardarlo en la base.
+const publicLink = (link: SpectatorLink, io: Server | undefined) => {
+  const active = link.revoked_at === null && link.expires_at > Date.now();
+  return {
+    id: link.id,
+    createdAt: link.created_at,
+    expiresAt: link.expires_at,
+    revoked: link.revoked_at !== null,
+    viewers: active ? countSpectators(io, link.id) : 0,
+    token: active
+      ? signSpectatorToken({ linkId: link.id, workerId: link.worker_id, sessionId: link.session_id }, link.expires_at)
+      : null,
+  };
+};
+
+export class SpectatorController {
+  static async list(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const workerId = req.params.id as string;
+    const sessionId = req.params.sessionId as string;
+
+    const hasAccess = await WorkerModel.hasAccess(req.user.userId, workerId, 'control');
+    if (!hasAccess) { res.status(403).json({ error: 'Acceso denegado' }); return; }
+
+    const io = req.app.get('io') as Server | undefined;
+    const links = await SpectatorLinkModel.listBySession(workerId, sessionId);
+    res.json(links.map((link) => publicLink(link, io)));
+  }
+
+  static async create(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const workerId = req.params.id as string;
+    const sessionId = req.params.sessionId as string;
+    const expiresInMinutes = Number(req.body.expiresInMinutes ?? DEFAULT_EXPIRES_MINUTES);
+
+    if (!Number.isFinite(expiresInMinutes) || expiresInMinutes <= 0 || expiresInMinutes > MAX_EXPIRES_MINUTES) {
+      res.status(400).json({ error: 'La expiración debe estar entre 1 minuto y 7 días' });
+      return;
+    }
+
+    const hasAccess = await WorkerModel.hasAccess(req.user.userId, workerId, 'control');
+    if (!hasAccess) { res.status(403).json({ error: 'Acceso denegado' }); return; }
+
+    const requester = await UserModel.findById(req.user.userId);
+    if (!requester) { res.status(401).json({ error: 'Usuario no válido' }); return; }
+    const isGlobalAdmin = requester.is_admin === 1 && (requester.tenant_id ?? null) === null;
+    if (!isGlobalAdmin) {
+      const shareCheck = await canShareWorker(req.user.userId);
+      if (!shareCheck.allowed) {
+        res.status(403).json({ error: shareCheck.reason, code: 'PLAN_LIMIT_SHARE' });
+        return;
+      }
+    }
+
+    const session = await SessionModel.find(workerId, sessionId);
+    if (!session) { res.status(404).json({ error: 'Sesión no encontrada' }); return; }
+
+    const link = await SpectatorLinkModel.create({
+      worker_id: workerId,
+      session_id: sessionId,
+      created_by: req.user.userId,
+      expires_at: Date.now() + Math.round(expiresInMinutes * 60_000),
+    });
+    await recordAudit('session.spectator_link', {
+      userId: req.user.userId,
+      workerId,
+      data: { sessionId, linkId: link.id, expiresAt: link.expires_at },
+    });
+    res.json(publicLink(link, req.app.get('io')));
+  }
+
+  static async revoke(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const workerId = req.params.id as string;
+    const sessionId = req.params.sessionId as string;
+
+    const hasAccess = await WorkerModel.hasAccess(req.user.userId, workerId, 'control');
+    if (!hasAccess) { res.status(403).json({ error: 'Acceso denegado' }); return; }
+
+    const link = await SpectatorLinkModel.findById(req.params.linkId as string);
+    if (!link || link.worker_id !== workerId || link.session_id !== sessionId) {
+      res.status(404).json({ error: 'Enlace no encontrado' });
+      return;
+    }
+
+    await SpectatorLinkModel.revoke(link.id);
+    disconnectSpectatorLink(req.app.get('io'), link.id);
+    await recordAudit('session.spectator_revoke', { userId: req.user.userId, workerId, data: { sessionId, linkId: link.id } });
+    res.json({ success: true });
+  }
+}
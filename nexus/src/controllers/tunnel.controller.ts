@@ -0,0 +1,451 @@
+import { STATUS_CODES, type IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { Request, Response, NextFunction } from 'express';
+import type { Server, Socket } from 'socket.io';
+import { WorkerModel } from '../models/worker.model';
+import { TunnelPortModel, TunnelPort } from '../models/tunnel-port.model';
+import { workers as connectedWorkers, workerSupports } from '../socket';
+import {
+  openTunnelStream,
+  writeTunnelStream,
+  endTunnelStream,
+  closeTunnelStream,
+  closeTunnelStreams,
+  countTunnelStreams,
+  TunnelHeaders,
+} from '../services/tunnel';
+import { callWorker, describeWorkerError } from '../services/worker-rpc';
+import { recordAudit } from '../services/audit.service';
+import { signTunnelToken, verifyTunnelToken } from '../utils/jwt';
+
+/**
+ * HTTP and WebSocket tunnels to `localhost:<port>` on a worker. The browser
+ * gets there with a short-lived token from `open`, which is swapped for an
+ * HttpOnly cookie. Every request re-checks control access and the port
+ * allowlist, so an unshare or a removed port cuts the tunnel right away.
+ *
+ * With `TUNNEL_BASE_URL` (e.g. `https://tunnels.example.com`, with wildcard
+ * DNS and certificate pointing at Nexus) each tunnel gets its own origin,
+ * `<workerId>-<port>.tunnels.example.com`, so tunneled apps can't read each
+ * other nor Nexus. Without it they are served at `/tunnels/<workerId>/<port>/`
+ * on the Nexus origin, sandboxed (`Content-Security-Policy: sandbox`) and
+ * without upstream cookies: static pages and forms work, apps that fetch
+ * their own API need the separate origin.
+ */
+
+const TUNNEL_COOKIE = 'ut_tunnel';
+// Nombre poco común: el resto de la query es de la app.
+const TUNNEL_QUERY = 'ut_tunnel_token';
+const TUNNEL_TOKEN_TTL_SECONDS = Number(process.env.TUNNEL_TOKEN_TTL_SECONDS || 12 * 60 * 60);
+const TUNNEL_PATH = /^\/tunnels\/([^/?#]+)\/(\d+)(.*)$/;
+const TUNNEL_BASE_URL = (process.env.TUNNEL_BASE_URL || '').trim();
+const tunnelBase = TUNNEL_BASE_URL ? new URL(TUNNEL_BASE_URL) : null;
+const TUNNEL_HOST_LABEL = /^([a-z0-9-]+)-(\d{1,5})$/;
+// Sin allow-same-origin: el documento queda en un origen opaco y no alcanza otros túneles.
+const SANDBOX_CSP = 'sandbox allow-scripts allow-forms allow-popups allow-modals allow-downloads';
+
+// Hop-by-hop: valen para una conexión, no se reenvían.
+const HOP_HEADERS = new Set([
+  'connection', 'keep-alive', 'proxy-authenticate', 'proxy-authorization', 'te', 'trailer', 'transfer-encoding', 'upgrade',
+]);
+
+const parsePort = (value: unknown): number | null => {
+  const port = Number(value);
+  return Number.isInteger(port) && port > 0 && port < 65536 ? port : null;
+};
+
+const tunnelPrefix = (workerId: string, port: number) => `/tunnels/${encodeURIComponent(workerId)}/${port}`;
+
+/** Where one tunnel is served: its own origin, or a path of the Nexus origin. */
+interface TunnelTarget {
+  workerId: string;
+  port: number;
+  /** Mount path on the Nexus origin; empty on a tunnel origin. */
+  prefix: string;
+  /** Path and query as the local server sees them. */
+  path: string;
+}
+
+function tunnelHostLabel(workerId: string, port: number): string | null {
+  const label = `${workerId}-${port}`;
+  // Ids fijados a mano pueden no valer como nombre DNS: esos workers siguen por ruta.
+  return tunnelBase && /^[a-z0-9-]+$/.test(workerId) && label.length <= 63 ? label : null;
+}
+
+function tunnelFromHost(host: string | undefined): { workerId: string; port: number } | null {
+  if (!tunnelBase || !host) return null;
+  const suffix = `.${tunnelBase.host}`.toLowerCase();
+  const lower = host.toLowerCase();
+  if (!lower.endsWith(suffix)) return null;
+  const match = lower.slice(0, -suffix.length).match(TUNNEL_HOST_LABEL);
+  const port = match ? parsePort(match[2]) : null;
+  if (!match || port === null || tunnelHostLabel(match[1], port) === null) return null;
+  return { workerId: match[1], port };
+}
+
+const readCookie = (header: string | undefined, name: string): string | null => {
+  for (const part of (header || '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return null;
+};
+
+// La cookie del túnel es de Nexus; la app local no tiene por qué verla.
+const withoutTunnelCookie = (header: string | undefined) => {
+  const rest = (header || '').split(';').map((part) => part.trim()).filter((part) => part && !part.startsWith(`${TUNNEL_COOKIE}=`));
+  return rest.length > 0 ? rest.join('; ') : undefined;
+};
+
+function forwardHeaders(req: IncomingMessage, port: number, prefix: string): TunnelHeaders {
+  const headers: TunnelHeaders = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (HOP_HEADERS.has(name) || name === 'host' || name === 'cookie' || name.startsWith('x-forwarded-')) continue;
+    headers[name] = value;
+  }
+  const cookie = withoutTunnelCookie(req.headers.cookie);
+  if (cookie) headers.cookie = cookie;
+  headers.host = `localhost:${port}`;
+  headers['x-forwarded-for'] = req.socket.remoteAddress || '';
+  headers['x-forwarded-host'] = req.headers.host || '';
+  headers['x-forwarded-proto'] = (req.socket as { encrypted?: boolean }).encrypted ? 'https' : 'http';
+  if (prefix) headers['x-forwarded-prefix'] = prefix;
+  return headers;
+}
+
+/**
+ * Cookies of the local app. On the Nexus origin they would land on Nexus, so
+ * they are dropped; on a tunnel origin they stay host-only and can't replace
+ * the tunnel cookie.
+ */
+function filterSetCookie(value: string | string[] | undefined, prefix: string): string[] | undefined {
+  if (prefix || value === undefined) return undefined;
+  const kept = (Array.isArray(value) ? value : [value])
+    .filter((cookie) => !cookie.trim().startsWith(`${TUNNEL_COOKIE}=`))
+    .map((cookie) => cookie.split(';').filter((part) => !/^\s*domain\s*=/i.test(part)).join(';'));
+  return kept.length > 0 ? kept : undefined;
+}
+
+/** Redirects from the local server point at localhost; keep them inside the tunnel. */
+function rewriteLocation(location: string, port: number, prefix: string): string {
+  const local = location.match(/^https?:\/\/(?:localhost|127\.0\.0\.1|\[::1\]):(\d+)(\/.*)?$/);
+  if (local && Number(local[1]) === port) return `${prefix}${local[2] || '/'}`;
+  if (location.startsWith('/') && !location.startsWith('//')) return `${prefix}${location}`;
+  return location;
+}
+
+type TunnelAccess =
+  | { userId: number; entry: TunnelPort; worker: Socket; status?: undefined }
+  | { status: number; error: string };
+
+/** Token → user → control access → allowlisted port → worker online with tunnels. */
+async function authorizeTunnel(io: Server | undefined, token: string | null, workerId: string, port: number): Promise<TunnelAccess> {
+  if (!token) return { status: 401, error: 'Abre el túnel desde el panel del worker' };
+  let userId: number;
+  try {
+    const payload = verifyTunnelToken(token);
+    if (payload.workerId !== workerId || payload.port !== port) return { status: 403, error: 'Acceso denegado' };
+    userId = payload.userId;
+  } catch {
+    return { status: 401, error: 'El acceso al túnel expiró; ábrelo de nuevo desde el panel del worker' };
+  }
+  if (!await WorkerModel.hasAccess(userId, workerId, 'control')) return { status: 403, error: 'Acceso denegado' };
+  const entry = await TunnelPortModel.find(workerId, port);
+  if (!entry) return { status: 403, error: 'Ese puerto no está permitido en este worker' };
+  const connected = connectedWorkers.get(workerId);
+  const worker = connected ? io?.sockets.sockets.get(connected.socketId) : undefined;
+  if (!worker) return { status: 502, error: 'El worker no está conectado' };
+  if (!workerSupports(workerId, 'tunnel')) return { status: 502, error: 'Este worker no admite túneles. Actualízalo.' };
+  return { userId, entry, worker };
+}
+
+function tunnelErrorMessage(code: string): { status: number; error: string } {
+  if (code === 'ECONNREFUSED') return { status: 502, error: 'No hay nada escuchando en ese puerto del worker' };
+  if (code === 'EMFILE') return { status: 503, error: 'Demasiadas conexiones abiertas por este túnel' };
+  if (code === 'EPERM') return { status: 403, error: 'El worker tiene los túneles desactivados' };
+  return describeWorkerError(code);
+}
+
+export class TunnelController {
+  /** Allowlisted ports, with how many connections each one has open. */
+  static async list(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const workerId = req.params.id as string;
+    if (!await WorkerModel.hasAccess(req.user.userId, workerId, 'control')) {
+      res.status(403).json({ error: 'Acceso denegado' });
+      return;
+    }
+    const connections = countTunnelStreams(workerId);
+    const ports = await TunnelPortModel.list(workerId);
+    res.json({
+      available: workerSupports(workerId, 'tunnel'),
+      canManage: await WorkerModel.hasAccess(req.user.userId, workerId, 'admin'),
+      ports: ports.map((entry) => ({
+        port: entry.port,
+        label: entry.label,
+        tls: entry.tls,
+        createdAt: entry.created_at,
+        connections: connections[entry.port] || 0,
+      })),
+    });
+  }
+
+  /** Ports listening on the worker's loopback, to suggest them for the allowlist. */
+  static async detect(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const workerId = req.params.id as string;
+    if (!await WorkerModel.hasAccess(req.user.userId, workerId, 'control')) {
+      res.status(403).json({ error: 'Acceso denegado' });
+      return;
+    }
+    if (!workerSupports(workerId, 'tunnel')) {
+      res.status(409).json({ error: 'Este worker no admite túneles. Actualízalo.' });
+      return;
+    }
+    const reply = await callWorker<{ ports: number[] }>(req.app.get('io') as Server | undefined, workerId, 'tunnel-scan', {});
+    if (reply.error !== undefined) {
+      const { status, error } = tunnelErrorMessage(reply.error);
+      res.status(status).json({ error });
+      return;
+    }
+    res.json({ ports: Array.isArray(reply.ports) ? reply.ports.filter((port) => parsePort(port) !== null) : [] });
+  }
+
+  static async allow(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const workerId = req.params.id as string;
+    const port = parsePort(req.body?.port);
+    if (port === null) { res.status(400).json({ error: 'Puerto inválido' }); return; }
+    if (!await WorkerModel.hasAccess(req.user.userId, workerId, 'admin')) {
+      res.status(403).json({ error: 'Solo el dueño o un admin del worker puede permitir puertos' });
+      return;
+    }
+    const label = typeof req.body?.label === 'string' ? req.body.label.trim().slice(0, 64) : '';
+    const entry = await TunnelPortModel.allow({
+      worker_id: workerId,
+      port,
+      label,
+      tls: req.body?.tls === true,
+      created_by: req.user.userId,
+    });
+    await recordAudit('tunnel.allow', { userId: req.user.userId, workerId, data: { port, label, tls: entry.tls } });
+    res.json({ port: entry.port, label: entry.label, tls: entry.tls, createdAt: entry.created_at, connections: 0 });
+  }
+
+  static async remove(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const workerId = req.params.id as string;
+    const port = parsePort(req.params.port);
+    if (port === null) { res.status(400).json({ error: 'Puerto inválido' }); return; }
+    if (!await WorkerModel.hasAccess(req.user.userId, workerId, 'admin')) {
+      res.status(403).json({ error: 'Solo el dueño o un admin del worker puede quitar puertos' });
+      return;
+    }
+    if (await TunnelPortModel.remove(workerId, port) === 0) {
+      res.status(404).json({ error: 'Ese puerto no estaba permitido' });
+      return;
+    }
+    const closed = closeTunnelStreams({ workerId, port }, 'EACCES');
+    await recordAudit('tunnel.remove', { userId: req.user.userId, workerId, data: { port, closed } });
+    res.json({ success: true });
+  }
+
+  /** Issues the URL that logs the browser into one tunnel. */
+  static async open(req: Request, res: Response) {
+    if (!req.user) { res.status(401).send(); return; }
+    const workerId = req.params.id as string;
+    const port = parsePort(req.params.port);
+    if (port === null) { res.status(400).json({ error: 'Puerto inválido' }); return; }
+    if (!await WorkerModel.hasAccess(req.user.userId, workerId, 'control')) {
+      res.status(403).json({ error: 'Acceso denegado' });
+      return;
+    }
+    if (!await TunnelPortModel.find(workerId, port)) {
+      res.status(403).json({ error: 'Ese puerto no está permitido en este worker' });
+      return;
+    }
+    if (!connectedWorkers.has(workerId)) { res.status(409).json({ error: 'El worker no está conectado' }); return; }
+    if (!workerSupports(workerId, 'tunnel')) {
+      res.status(409).json({ error: 'Este worker no admite túneles. Actualízalo.' });
+      return;
+    }
+    const token = signTunnelToken({ userId: req.user.userId, workerId, port }, TUNNEL_TOKEN_TTL_SECONDS);
+    await recordAudit('tunnel.open', { userId: req.user.userId, workerId, data: { port } });
+    const query = `?${TUNNEL_QUERY}=${encodeURIComponent(token)}`;
+    const label = tunnelHostLabel(workerId, port);
+    res.json({
+      url: label && tunnelBase
+        ? `${tunnelBase.protocol}//${label}.${tunnelBase.host}/${query}`
+        : `${tunnelPrefix(workerId, port)}/${query}`,
+    });
+  }
+
+  /** Proxies one HTTP request under `/tunnels/<workerId>/<port>/`. */
+  static async proxy(req: Request, res: Response) {
+    const match = req.originalUrl.match(TUNNEL_PATH);
+    const workerId = req.params.workerId as string;
+    const port = parsePort(req.params.port);
+    if (!match || port === null) { res.status(404).type('text/plain').send('Túnel no encontrado'); return; }
+    // Con origen propio disponible, el túnel no se sirve desde el de Nexus.
+    if (tunnelHostLabel(workerId, port)) { res.status(404).type('text/plain').send('Túnel no encontrado'); return; }
+    const prefix = tunnelPrefix(workerId, port);
+    const rest = match[3] || '';
+
+    // Sin la barra final las rutas relativas de la app saldrían del túnel.
+    if (!rest.startsWith('/')) {
+      res.redirect(302, `${prefix}/${rest}`);
+      return;
+    }
+    await proxyTunnel(req, res, { workerId, port, prefix, path: rest });
+  }
+}
+
+/** Requests to a tunnel origin (`TUNNEL_BASE_URL`); everything else goes on to Nexus. */
+export function handleTunnelHost(req: Request, res: Response, next: NextFunction) {
+  const target = tunnelFromHost(req.headers.host);
+  if (!target) { next(); return; }
+  void proxyTunnel(req, res, { ...target, prefix: '', path: req.originalUrl });
+}
+
+async function proxyTunnel(req: Request, res: Response, target: TunnelTarget) {
+  const { workerId, port, prefix } = target;
+  try {
+    const queryToken = typeof req.query[TUNNEL_QUERY] === 'string' ? req.query[TUNNEL_QUERY] as string : null;
+    const access = await authorizeTunnel(
+      req.app.get('io') as Server | undefined,
+      queryToken || readCookie(req.headers.cookie, TUNNEL_COOKIE),
+      workerId,
+      port
+    );
+    if (access.status !== undefined) { res.status(access.status).type('text/plain').send(access.error); return; }
+
+    if (queryToken) {
+      const url = new URL(target.path, 'http://tunnel');
+      url.searchParams.delete(TUNNEL_QUERY);
+      res.cookie(TUNNEL_COOKIE, queryToken, {
+        path: `${prefix}/`,
+        httpOnly: true,
+        // Un documento sandbox es de origen opaco: con lax no mandaría la cookie en sus recursos.
+        sameSite: prefix && req.secure ? 'none' : 'lax',
+        secure: req.secure,
+        maxAge: TUNNEL_TOKEN_TTL_SECONDS * 1000,
+      });
+      res.redirect(302, `${prefix}${url.pathname}${url.search}`);
+      return;
+    }
+
+    let finished = false;
+    const opened = await openTunnelStream(access.worker, { workerId, userId: access.userId }, {
+      port,
+      tls: access.entry.tls,
+      mode: 'http',
+      method: req.method,
+      path: target.path,
+      headers: forwardHeaders(req, port, prefix),
+    }, {
+      onResponse: (status, headers) => {
+        const outgoing: TunnelHeaders = {};
+        for (const [name, value] of Object.entries(headers)) {
+          if (!HOP_HEADERS.has(name) && name !== 'set-cookie') outgoing[name] = value;
+        }
+        const cookies = filterSetCookie(headers['set-cookie'], prefix);
+        if (cookies) outgoing['set-cookie'] = cookies;
+        if (prefix) {
+          const csp = outgoing['content-security-policy'];
+          outgoing['content-security-policy'] = csp === undefined ? SANDBOX_CSP : [...(Array.isArray(csp) ? csp : [csp]), SANDBOX_CSP];
+        }
+        if (typeof outgoing.location === 'string') outgoing.location = rewriteLocation(outgoing.location, port, prefix);
+        res.writeHead(status, outgoing as Record<string, string | string[]>);
+      },
+      onData: (data) => { res.write(data); },
+      onEnd: () => { finished = true; res.end(); },
+      onError: (code) => {
+        finished = true;
+        if (res.headersSent) { res.destroy(); return; }
+        const { status, error } = tunnelErrorMessage(code);
+        res.status(status).type('text/plain').send(error);
+      },
+    });
+    if (opened.error !== undefined) {
+      const { status, error } = tunnelErrorMessage(opened.error);
+      res.status(status).type('text/plain').send(error);
+      return;
+    }
+    req.on('data', (chunk: Buffer) => writeTunnelStream(opened.id, chunk));
+    req.on('end', () => endTunnelStream(opened.id));
+    res.on('close', () => { if (!finished) closeTunnelStream(opened.id); });
+  } catch (err) {
+    console.error(`[Tunnel] ${workerId}:${port} failed:`, err);
+    if (res.headersSent) { res.destroy(); return; }
+    res.status(502).type('text/plain').send('No se pudo abrir el túnel');
+  }
+}
+
+/**
+ * `upgrade` listener for the HTTP server: WebSockets under `/tunnels/` become
+ * a raw pipe to the worker's port, which answers the handshake itself.
+ * Anything else that isn't Socket.IO is refused.
+ */
+export const handleTunnelUpgrade = (io: Server) => async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+  const url = req.url || '';
+  const byHost = tunnelFromHost(req.headers.host);
+  if (!byHost && url.startsWith('/socket.io/')) return;
+  let target: TunnelTarget;
+  if (byHost) {
+    target = { ...byHost, prefix: '', path: url };
+  } else {
+    const match = url.match(TUNNEL_PATH);
+    const port = match ? parsePort(match[2]) : null;
+    if (!match || port === null || !match[3].startsWith('/')) { socket.destroy(); return; }
+    const workerId = decodeURIComponent(match[1]);
+    if (tunnelHostLabel(workerId, port)) { socket.destroy(); return; }
+    target = { workerId, port, prefix: tunnelPrefix(workerId, port), path: match[3] };
+  }
+  const refuse = (status: number) => socket.end(`HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\nConnection: close\r\n\r\n`);
+  try {
+    await pipeTunnelUpgrade(io, req, socket, head, target, refuse);
+  } catch (err) {
+    console.error(`[Tunnel] upgrade ${target.workerId}:${target.port} failed:`, err);
+    refuse(502);
+  }
+};
+
+async function pipeTunnelUpgrade(
+  io: Server,
+  req: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  { workerId, port, prefix, path }: TunnelTarget,
+  refuse: (status: number) => void
+) {
+  const access = await authorizeTunnel(io, readCookie(req.headers.cookie, TUNNEL_COOKIE), workerId, port);
+  if (access.status !== undefined) { refuse(access.status); return; }
+
+  const headers = forwardHeaders(req, port, prefix);
+  // La petición de upgrade sí lleva Connection/Upgrade: es lo que la app tiene que ver.
+  headers.connection = 'Upgrade';
+  headers.upgrade = req.headers.upgrade;
+  const lines = [`${req.method} ${path} HTTP/1.1`];
+  for (const [name, value] of Object.entries(headers)) {
+    for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) lines.push(`${name}: ${item}`);
+  }
+  const requestHead = Buffer.concat([Buffer.from(`${lines.join('\r\n')}\r\n\r\n`), head]);
+
+  let finished = false;
+  const opened = await openTunnelStream(access.worker, { workerId, userId: access.userId }, {
+    port,
+    tls: access.entry.tls,
+    mode: 'raw',
+    head: requestHead,
+  }, {
+    onData: (data) => { socket.write(data); },
+    onEnd: () => { finished = true; socket.end(); },
+    onError: () => { finished = true; socket.destroy(); },
+  });
+  if (opened.error !== undefined) { refuse(tunnelErrorMessage(opened.error).status); return; }
+
+  socket.on('data', (chunk: Buffer) => writeTunnelStream(opened.id, chunk));
+  socket.on('end', () => endTunnelStream(opened.id));
+  socket.on('error', () => undefined);
+  socket.on('close', () => { if (!finished) closeTunnelStream(opened.id); });
+}
@@ -1,15 +1,21 @@
 
 import { Request, Response } from 'express';
-import { WorkerModel } from '../models/worker.model';
+import { WorkerModel, WorkerShare } from '../models/worker.model';
 import { UserModel } from '../models/user.model';
 import {
   evictUserSubscriptions,
+  forgetWorkerSessions,
   invalidateWorkerAccessCache,
   workers as connectedWorkers,
 } from '../socket';
 import { canCreateWorker, canShareWorker } from '../services/plan-limits';
+import { RecordingService } from '../services/recording.service';
+import { recordAudit } from '../services/audit.service';
 import type { Server } from 'socket.io';
 
+type SharePermission = Exclude<WorkerShare['permission'], 'admin'>;
+const SHARE_PERMISSIONS: SharePermission[] = ['view', 'control'];
+
 async function resolveRequester(userId: number) {
   const user = await UserModel.findById(userId);
   return {
@@ -56,8 +62,13 @@ export class WorkerController {
           res.status(403).json({ error: 'El worker pertenece a otro tenant' });
           return;
         }
-        await WorkerModel.share(worker.id, req.user.userId, 'control');
-        invalidateWorkerAccessCache(req.user.userId);
+        // Re-joining must not upgrade an existing view-only share.
+        const existing = await WorkerModel.getSharePermission(worker.id, req.user.userId);
+        if (!existing) {
+          await WorkerModel.share(worker.id, req.user.userId, 'control');
+          invalidateWorkerAccessCache(req.user.userId);
+          await recordAudit('worker.join', { userId: req.user.userId, workerId: worker.id });
+        }
       }
     }
 
@@ -82,14 +93,20 @@ export class WorkerController {
 
     const worker = await WorkerModel.create(req.user.userId, name);
     invalidateWorkerAccessCache();
+    await recordAudit('worker.create', { userId: req.user.userId, workerId: worker.id, data: { name } });
     res.json(worker);
   }
 
   static async share(req: Request, res: Response) {
     if (!req.user) { res.status(401).send(); return; }
     const { workerId, targetUsername } = req.body;
+    const permission = req.body.permission ?? 'control';
 
     if (!targetUsername) { res.status(400).json({ error: 'Nombre de usuario requerido' }); return; }
+    if (!SHARE_PERMISSIONS.includes(permission)) {
+      res.status(400).json({ error: 'Permiso inválido' });
+      return;
+    }
 
     const { user: requester, isGlobalAdmin } = await resolveRequester(req.user.userId);
     if (!requester) { res.status(401).json({ error: 'Usuario no válido' }); return; }
@@ -136,9 +153,15 @@ export class WorkerController {
       return;
     }
 
-    const enforcedPermission = 'control' as const;
+    // Re-sharing with an existing user just changes the level (upsert).
+    const enforcedPermission = permission as SharePermission;
     await WorkerModel.share(workerId, targetUser.id, enforcedPermission);
     invalidateWorkerAccessCache(targetUser.id);
+    await recordAudit('worker.share', {
+      userId: req.user.userId,
+      workerId,
+      data: { targetUserId: targetUser.id, targetUsername: targetUser.username, permission: enforcedPermission },
+    });
 
     // Notify target user via Socket.IO
     const io = req.app.get('io');
@@ -214,6 +237,7 @@ export class WorkerController {
     }
     const io = req.app.get('io') as Server | undefined;
     evictUserSubscriptions(io, normalizedUserId, workerId);
+    await recordAudit('worker.unshare', { userId: req.user.userId, workerId, data: { targetUserId: normalizedUserId } });
     const shares = await WorkerModel.getShares(workerId);
     res.json({ success: true, shares });
   }
@@ -242,7 +266,11 @@ export class WorkerController {
       connectedWorkers.delete(worker.id);
     }
 
+    // Antes de borrar: el tenant se resuelve desde el dueño del worker.
+    await recordAudit('worker.delete', { userId: req.user.userId, workerId: id, data: { name: worker.name } });
     await WorkerModel.delete(id);
+    forgetWorkerSessions(id, req.app.get('io'));
+    await RecordingService.removeWorkerFiles(id);
     invalidateWorkerAccessCache();
     res.json({ success: true, disconnected: Boolean(connected) });
   }
@@ -4,12 +4,14 @@ dotenv.config();
 
 import { createServer } from 'http';
 import app from './app';
-import { initSocket } from './socket';
+import { initSocket, restoreActiveSessions, flushPendingSessionWrites, holdWorkerOutput } from './socket';
 import { initDatabase } from './config/database';
 import { seedFleet } from './config/seed';
+import { handleTunnelUpgrade } from './controllers/tunnel.controller';
 import { UserModel } from './models/user.model';
 import { WorkerModel } from './models/worker.model';
 import { PaymentService } from './services/payment.service';
+import { RecordingService } from './services/recording.service';
 
 const PORT = process.env.PORT || 3002;
 const BILLING_INTERVAL_MS = 24 * 60 * 60 * 1000; // 24 hours
@@ -47,6 +49,14 @@ const startServer = async () => {
     await initDatabase();
     await seedFleet();
     await WorkerModel.markAllOffline();
+    const restoredSessions = await restoreActiveSessions();
+    if (restoredSessions > 0) {
+        console.log(`[Nexus] Restored ${restoredSessions} persisted session(s)`);
+    }
+    const danglingRecordings = await RecordingService.finishDangling();
+    if (danglingRecordings > 0) {
+        console.log(`[Nexus] Closed ${danglingRecordings} recording(s) interrupted by the last shutdown`);
+    }
 
     const adminPassword = process.env.ADMIN_PASSWORD;
     let adminId: number | undefined;
@@ -83,11 +93,25 @@ const startServer = async () => {
     // Initialize Socket.IO server
     const io = initSocket(httpServer);
     app.set('io', io);
+    httpServer.on('upgrade', handleTunnelUpgrade(io));
 
     httpServer.listen(PORT, () => {
         console.log(`[Nexus] Server running on port ${PORT}`);
     });
 
+    // Persist pending replay buffers before a redeploy stops the process.
+    const shutdown = (signal: NodeJS.Signals) => {
+        console.log(`[Nexus] ${signal} received, flushing sessions...`);
+        // Output from here on waits in the workers' spools for the next Nexus.
+        httpServer.close();
+        holdWorkerOutput(io)
+            .then(flushPendingSessionWrites)
+            .catch((err) => console.error('[Nexus] Failed to flush sessions:', err))
+            .finally(() => process.exit(0));
+    };
+    process.once('SIGTERM', shutdown);
+    process.once('SIGINT', shutdown);
+
     // --- Internal billing scheduler ---
     // Run once on startup (after a short delay to let DB settle)
     setTimeout(async () => {
@@ -98,6 +122,12 @@ const startServer = async () => {
         } catch (err: any) {
             console.error('[Billing] Startup check error:', err.message);
         }
+        try {
+            const pruned = await RecordingService.pruneExpired();
+            if (pruned > 0) console.log(`[Recordings] Pruned ${pruned} expired recording(s)`);
+        } catch (err: any) {
+            console.error('[Recordings] Retention error:', err.message);
+        }
     }, 10_000); // 10 seconds after boot
 
     // Run every 24 hours
@@ -109,6 +139,12 @@ const startServer = async () => {
         } catch (err: any) {
             console.error('[Billing] Scheduled check error:', err.message);
         }
+        try {
+            const pruned = await RecordingService.pruneExpired();
+            if (pruned > 0) console.log(`[Recordings] Pruned ${pruned} expired recording(s)`);
+        } catch (err: any) {
+            console.error('[Recordings] Retention error:', err.message);
+        }
     }, BILLING_INTERVAL_MS);
 
     console.log(`[Billing] Internal scheduler active (every ${BILLING_INTERVAL_MS / 3600000}h)`);
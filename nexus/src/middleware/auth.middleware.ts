@@ -1,15 +1,81 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken, JwtPayload } from '../utils/jwt';
+import { ACCESS_TOKEN_PREFIX } from '../utils/crypto';
 import { UserModel } from '../models/user.model';
+import { AccessTokenModel, AccessToken, TokenScope } from '../models/access-token.model';
+import { canUseApi } from '../services/plan-limits';
 
 declare global {
   namespace Express {
     interface Request {
-      user?: JwtPayload;
+      /** `accessTokenId` is set when the request came with a personal access token. */
+      user?: JwtPayload & { accessTokenId?: string };
     }
   }
 }
 
+// last_used_at is informative; no need to write it on every request.
+const TOKEN_TOUCH_INTERVAL_MS = 60_000;
+
+/**
+ * Scope a personal access token needs, first match wins: [path, read, write].
+ * `null` means any token will do. Paths not listed (token management, password,
+ * billing, tenants) are only reachable with a login session.
+ */
+const TOKEN_ROUTES: Array<[RegExp, TokenScope | null, TokenScope | null]> = [
+  [/^\/api\/auth\/me$/, null, null],
+  [/^\/api\/workers\/[^/]+\/exec$/, 'exec', 'exec'],
+  // Leer archivos expone claves y secretos; escribirlos equivale a ejecutar código.
+  [/^\/api\/workers\/[^/]+\/files(\/|$)/, 'files:read', 'files:write'],
+  [/^\/api\/workers\/[^/]+\/tunnels(\/|$)/, 'tunnels', 'tunnels'],
+  [/^\/api\/workers\/(recordings$|[^/]+\/(sessions|recordings)(\/|$))/, 'sessions:read', 'sessions:write'],
+  [/^\/api\/workers(\/|$)/, 'workers:read', 'workers:write'],
+  [/^\/api\/(sessions|session-shares)(\/|$)/, 'sessions:read', 'sessions:write'],
+  [/^\/api\/agents(\/|$)/, 'agents:admin', 'agents:admin'],
+  [/^\/api\/audit(\/|$)/, 'audit:read', 'audit:read'],
+];
+
+function requiredScope(req: Request): { scope: TokenScope | null } | undefined {
+  const path = req.baseUrl + req.path;
+  const route = TOKEN_ROUTES.find(([pattern]) => pattern.test(path));
+  if (!route) return undefined;
+  const read = req.method === 'GET' || req.method === 'HEAD';
+  return { scope: read ? route[1] : route[2] };
+}
+
+/** Answers the request itself when the token can't be used for it. */
+async function authenticateAccessToken(req: Request, res: Response, secret: string): Promise<AccessToken | undefined> {
+  const token = await AccessTokenModel.findBySecret(secret);
+  if (!token) {
+    res.status(401).json({ error: 'Invalid token' });
+    return undefined;
+  }
+  const now = Date.now();
+  if (token.expires_at !== null && token.expires_at <= now) {
+    res.status(401).json({ error: 'Token expired' });
+    return undefined;
+  }
+  const required = requiredScope(req);
+  if (!required) {
+    res.status(403).json({ error: 'Personal access tokens cannot be used here' });
+    return undefined;
+  }
+  if (required.scope && !token.scopes.includes(required.scope)) {
+    res.status(403).json({ error: `Token lacks the ${required.scope} scope` });
+    return undefined;
+  }
+  // Bajar de plan apaga también los tokens ya emitidos.
+  const apiCheck = await canUseApi(token.user_id);
+  if (!apiCheck.allowed) {
+    res.status(403).json({ error: apiCheck.reason, code: 'PLAN_LIMIT_API' });
+    return undefined;
+  }
+  if (token.last_used_at === null || now - token.last_used_at >= TOKEN_TOUCH_INTERVAL_MS) {
+    await AccessTokenModel.touch(token.id, now);
+  }
+  return token;
+}
+
 export async function authMiddleware(req: Request, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
 
@@ -25,8 +91,17 @@ export async function authMiddleware(req: Request, res: Response, next: NextFunc
   }
 
   try {
-    const payload = verifyToken(token);
-    const currentUser = await UserModel.findById(payload.userId);
+    let userId: number;
+    let accessTokenId: string | undefined;
+    if (token.startsWith(ACCESS_TOKEN_PREFIX)) {
+      const accessToken = await authenticateAccessToken(req, res, token);
+      if (!accessToken) return;
+      userId = accessToken.user_id;
+      accessTokenId = accessToken.id;
+    } else {
+      userId = verifyToken(token).userId;
+    }
+    const currentUser = await UserModel.findById(userId);
     if (!currentUser) {
       res.status(401).json({ error: 'User invalid or no longer exists' });
       return;
@@ -39,6 +114,7 @@ export async function authMiddleware(req: Request, res: Response, next: NextFunc
       username: currentUser.username,
       isAdmin: currentUser.is_admin === 1,
       tenantId: currentUser.tenant_id ?? null,
+      ...(accessTokenId ? { accessTokenId } : {}),
     };
     next();
   } catch (_err) {
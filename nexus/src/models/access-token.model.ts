@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import db from '../config/database';
+import { generateAccessToken, hashAccessToken } from '../utils/crypto';
+
+export const TOKEN_SCOPES = [
+  'workers:read',
+  'workers:write',
+  'sessions:read',
+  'sessions:write',
+  'files:read',
+  'files:write',
+  'tunnels',
+  'exec',
+  'agents:admin',
+  'audit:read',
+] as const;
+
+export type TokenScope = typeof TOKEN_SCOPES[number];
+
+/** Personal access token; the secret itself is only shown once, at creation. */
+export interface AccessToken {
+  id: string;
+  user_id: number;
+  name: string;
+  /** Last characters of the secret, to tell tokens apart in the UI. */
+  token_hint: string;
+  scopes: TokenScope[];
+  created_at: number;
+  last_used_at: number | null;
+  expires_at: number | null;
+}
+
+type AccessTokenRow = Omit<AccessToken, 'scopes'> & { scopes: string; token_hash: string };
+
+const normalize = ({ token_hash: _hash, ...row }: AccessTokenRow): AccessToken => ({
+  ...row,
+  user_id: Number(row.user_id),
+  scopes: row.scopes.split(' ').filter(Boolean) as TokenScope[],
+  created_at: Number(row.created_at),
+  last_used_at: row.last_used_at === null ? null : Number(row.last_used_at),
+  expires_at: row.expires_at === null ? null : Number(row.expires_at),
+});
+
+export class AccessTokenModel {
+  static async create(
+    token: Pick<AccessToken, 'user_id' | 'name' | 'scopes' | 'expires_at'>
+  ): Promise<{ token: AccessToken; secret: string }> {
+    const secret = generateAccessToken();
+    const row: AccessToken = {
+      ...token,
+      id: crypto.randomUUID(),
+      token_hint: secret.slice(-4),
+      created_at: Date.now(),
+      last_used_at: null,
+    };
+    await db.run(`
+      INSERT INTO access_tokens (id, user_id, name, token_hash, token_hint, scopes, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [row.id, row.user_id, row.name, hashAccessToken(secret), row.token_hint, row.scopes.join(' '), row.created_at, row.expires_at]);
+    return { token: row, secret };
+  }
+
+  static async findBySecret(secret: string): Promise<AccessToken | undefined> {
+    const row = await db.get<AccessTokenRow>('SELECT * FROM access_tokens WHERE token_hash = ?', [hashAccessToken(secret)]);
+    return row ? normalize(row) : undefined;
+  }
+
+  static async listByUser(userId: number): Promise<AccessToken[]> {
+    const result = await db.query<AccessTokenRow>(
+      'SELECT * FROM access_tokens WHERE user_id = ? ORDER BY created_at DESC',
+      [userId]
+    );
+    return result.rows.map(normalize);
+  }
+
+  static async countByUser(userId: number): Promise<number> {
+    const row = await db.get<{ count: number }>('SELECT COUNT(*) as count FROM access_tokens WHERE user_id = ?', [userId]);
+    return Number(row?.count || 0);
+  }
+
+  static async touch(id: string, at: number): Promise<void> {
+    await db.run('UPDATE access_tokens SET last_used_at = ? WHERE id = ?', [at, id]);
+  }
+
+  /** Only the owner revokes; returns whether a token was removed. */
+  static async delete(id: string, userId: number): Promise<boolean> {
+    const existing = await db.get<{ id: string }>('SELECT id FROM access_tokens WHERE id = ? AND user_id = ?', [id, userId]);
+    if (!existing) return false;
+    await db.run('DELETE FROM access_tokens WHERE id = ?', [id]);
+    return true;
+  }
+}
@@ -0,0 +1,126 @@
+import db from '../config/database';
+
+export interface AuditEntry {
+  id: number;
+  ts: string;
+  event: string;
+  data: Record<string, unknown>;
+  user_id: number | null;
+  username: string | null;
+  worker_id: string | null;
+  tenant_id: string | null;
+}
+
+export interface AuditRecord {
+  event: string;
+  userId?: number | null;
+  workerId?: string | null;
+  /**
+   * Explicit tenant. When omitted it is the worker owner's tenant (so a global
+   * admin acting on a tenant's worker shows up in that tenant), else the user's.
+   */
+  tenantId?: string | null;
+  data?: Record<string, unknown>;
+}
+
+export interface AuditFilter {
+  /** `undefined` = every tenant (global admin only). */
+  tenantId?: string | null;
+  userId?: number;
+  workerId?: string;
+  events?: string[];
+  from?: string;
+  to?: string;
+  limit: number;
+  offset: number;
+}
+
+export class AuditModel {
+  static async record(entry: AuditRecord): Promise<void> {
+    const userId = entry.userId ?? null;
+    const workerId = entry.workerId ?? null;
+    await db.run(`
+      INSERT INTO audit (ts, event, data, user_id, worker_id, tenant_id)
+      VALUES (?, ?, ?, ?, ?, COALESCE(
+        ?,
+        (SELECT owner.tenant_id FROM workers w JOIN users owner ON owner.id = w.owner_id WHERE w.id = ?),
+        (SELECT tenant_id FROM users WHERE id = ?)
+      ))
+    `, [
+      new Date().toISOString(),
+      entry.event,
+      JSON.stringify(entry.data || {}),
+      userId,
+      workerId,
+      entry.tenantId ?? null,
+      workerId,
+      userId,
+    ]);
+  }
+
+  static async list(filter: AuditFilter): Promise<{ entries: AuditEntry[]; total: number }> {
+    const where: string[] = [];
+    const params: unknown[] = [];
+    if (filter.tenantId !== undefined) {
+      if (filter.tenantId === null) {
+        where.push('a.tenant_id IS NULL');
+      } else {
+        where.push('a.tenant_id = ?');
+        params.push(filter.tenantId);
+      }
+    }
+    if (filter.userId !== undefined) {
+      where.push('a.user_id = ?');
+      params.push(filter.userId);
+    }
+    if (filter.workerId) {
+      where.push('a.worker_id = ?');
+      params.push(filter.workerId);
+    }
+    if (filter.events && filter.events.length > 0) {
+      where.push(`a.event IN (${filter.events.map(() => '?').join(', ')})`);
+      params.push(...filter.events);
+    }
+    // ISO-8601 timestamps sort lexicographically.
+    if (filter.from) {
+      where.push('a.ts >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      where.push('a.ts <= ?');
+      params.push(filter.to);
+    }
+    const whereSql = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+
+    const count = await db.get<{ count: number | string }>(
+      `SELECT COUNT(*) as count FROM audit a ${whereSql}`,
+      params
+    );
+    const result = await db.query<Omit<AuditEntry, 'data'> & { data: string }>(`
+      SELECT a.id, a.ts, a.event, a.data, a.user_id, u.username, a.worker_id, a.tenant_id
+      FROM audit a
+      LEFT JOIN users u ON u.id = a.user_id
+      ${whereSql}
+      ORDER BY a.id DESC
+      LIMIT ? OFFSET ?
+    `, [...params, filter.limit, filter.offset]);
+
+    return {
+      total: count ? Number(count.count) : 0,
+      entries: result.rows.map((row) => {
+        let data: Record<string, unknown> = {};
+        try {
+          data = JSON.parse(row.data);
+        } catch {
+          data = { raw: row.data };
+        }
+        return {
+          ...row,
+          id: Number(row.id),
+          user_id: row.user_id === null ? null : Number(row.user_id),
+          data,
+        };
+      }),
+    };
+  }
+}
@@ -0,0 +1,96 @@
+import db from '../config/database';
+
+export interface Recording {
+  id: string;
+  worker_id: string;
+  session_id: string;
+  user_id: number | null;
+  title: string;
+  started_at: number;
+  ended_at: number | null;
+  duration_ms: number;
+  size_bytes: number;
+}
+
+const normalize = (row: Recording): Recording => ({
+  ...row,
+  user_id: row.user_id === null ? null : Number(row.user_id),
+  started_at: Number(row.started_at),
+  ended_at: row.ended_at === null ? null : Number(row.ended_at),
+  duration_ms: Number(row.duration_ms),
+  size_bytes: Number(row.size_bytes),
+});
+
+export class RecordingModel {
+  static async create(recording: Pick<Recording, 'id' | 'worker_id' | 'session_id' | 'user_id' | 'title' | 'started_at'>): Promise<void> {
+    await db.run(`
+      INSERT INTO recordings (id, worker_id, session_id, user_id, title, started_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [
+      recording.id,
+      recording.worker_id,
+      recording.session_id,
+      recording.user_id,
+      recording.title,
+      recording.started_at,
+    ]);
+  }
+
+  static async finish(id: string, endedAt: number, durationMs: number, sizeBytes: number): Promise<void> {
+    await db.run(
+      'UPDATE recordings SET ended_at = ?, duration_ms = ?, size_bytes = ? WHERE id = ?',
+      [endedAt, durationMs, sizeBytes, id]
+    );
+  }
+
+  static async findById(id: string): Promise<Recording | undefined> {
+    const row = await db.get<Recording>('SELECT * FROM recordings WHERE id = ?', [id]);
+    return row ? normalize(row) : undefined;
+  }
+
+  static async listByWorker(workerId: string): Promise<Recording[]> {
+    const result = await db.query<Recording>(
+      'SELECT * FROM recordings WHERE worker_id = ? ORDER BY started_at DESC',
+      [workerId]
+    );
+    return result.rows.map(normalize);
+  }
+
+  static async listByWorkers(workerIds: string[]): Promise<Recording[]> {
+    if (workerIds.length === 0) return [];
+    const placeholders = workerIds.map(() => '?').join(', ');
+    const result = await db.query<Recording>(
+      `SELECT * FROM recordings WHERE worker_id IN (${placeholders}) ORDER BY started_at DESC`,
+      workerIds
+    );
+    return result.rows.map(normalize);
+  }
+
+  static async listByUser(userId: number): Promise<Recording[]> {
+    const result = await db.query<Recording>(
+      'SELECT * FROM recordings WHERE user_id = ? ORDER BY started_at ASC',
+      [userId]
+    );
+    return result.rows.map(normalize);
+  }
+
+  /** Recordings still marked as in progress (left behind by a crash/restart). */
+  static async listUnfinished(): Promise<Recording[]> {
+    const result = await db.query<Recording>('SELECT * FROM recordings WHERE ended_at IS NULL');
+    return result.rows.map(normalize);
+  }
+
+  static async listWithOwnerPlan(): Promise<Array<Recording & { plan: string | null }>> {
+    const result = await db.query<Recording & { plan: string | null }>(`
+      SELECT r.*, u.plan
+      FROM recordings r
+      LEFT JOIN users u ON u.id = r.user_id
+      WHERE r.ended_at IS NOT NULL
+    `);
+    return result.rows.map((row) => ({ ...normalize(row), plan: row.plan }));
+  }
+
+  static async delete(id: string): Promise<void> {
+    await db.run('DELETE FROM recordings WHERE id = ?', [id]);
+  }
+}
@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import db from '../config/database';
+import { generateApiKey } from '../utils/crypto';
+
+export type SessionSharePermission = 'view' | 'control';
+
+export interface SessionShare {
+  id: string;
+  token: string;
+  worker_id: string;
+  session_id: string;
+  permission: SessionSharePermission;
+  created_by: number | null;
+  created_at: number;
+  expires_at: number | null;
+  max_uses: number | null;
+  uses: number;
+  revoked_at: number | null;
+}
+
+/** Sesión a la que un usuario accede por enlace, sin share del worker. */
+export interface SessionGrant {
+  worker_id: string;
+  session_id: string;
+  permission: SessionSharePermission;
+}
+
+const levels: Record<SessionSharePermission, number> = { view: 1, control: 2 };
+
+const normalize = (row: SessionShare): SessionShare => ({
+  ...row,
+  created_by: row.created_by === null ? null : Number(row.created_by),
+  created_at: Number(row.created_at),
+  expires_at: row.expires_at === null ? null : Number(row.expires_at),
+  max_uses: row.max_uses === null ? null : Number(row.max_uses),
+  uses: Number(row.uses),
+  revoked_at: row.revoked_at === null ? null : Number(row.revoked_at),
+});
+
+// A link stops granting access once it expires or is revoked, not only once it
+// can no longer be redeemed.
+const LIVE_SHARE_SQL = 's.revoked_at IS NULL AND (s.expires_at IS NULL OR s.expires_at > ?)';
+
+export class SessionShareModel {
+  static async create(share: Pick<SessionShare, 'worker_id' | 'session_id' | 'permission' | 'created_by' | 'expires_at' | 'max_uses'>): Promise<SessionShare> {
+    const row: SessionShare = {
+      ...share,
+      id: crypto.randomUUID(),
+      token: generateApiKey(),
+      created_at: Date.now(),
+      uses: 0,
+      revoked_at: null,
+    };
+    await db.run(`
+      INSERT INTO session_shares (id, token, worker_id, session_id, permission, created_by, created_at, expires_at, max_uses)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      row.id,
+      row.token,
+      row.worker_id,
+      row.session_id,
+      row.permission,
+      row.created_by,
+      row.created_at,
+      row.expires_at,
+      row.max_uses,
+    ]);
+    return row;
+  }
+
+  static async findById(id: string): Promise<SessionShare | undefined> {
+    const row = await db.get<SessionShare>('SELECT * FROM session_shares WHERE id = ?', [id]);
+    return row ? normalize(row) : undefined;
+  }
+
+  static async findByToken(token: string): Promise<SessionShare | undefined> {
+    const row = await db.get<SessionShare>('SELECT * FROM session_shares WHERE token = ?', [token]);
+    return row ? normalize(row) : undefined;
+  }
+
+  static async listBySession(workerId: string, sessionId: string): Promise<Array<SessionShare & { redeemed_by: number }>> {
+    const result = await db.query<SessionShare & { redeemed_by: number | string }>(`
+      SELECT s.*, (SELECT COUNT(*) FROM session_share_grants g WHERE g.share_id = s.id) AS redeemed_by
+      FROM session_shares s
+      WHERE s.worker_id = ? AND s.session_id = ?
+      ORDER BY s.created_at DESC
+    `, [workerId, sessionId]);
+    return result.rows.map((row) => ({ ...normalize(row), redeemed_by: Number(row.redeemed_by) }));
+  }
+
+  static async revoke(id: string): Promise<void> {
+    await db.run('UPDATE session_shares SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL', [Date.now(), id]);
+  }
+
+  /**
+   * Consumes one use of the link. The conditional UPDATE keeps concurrent
+   * redemptions from going over `max_uses`.
+   */
+  static async consume(id: string): Promise<boolean> {
+    const result = await db.run(`
+      UPDATE session_shares SET uses = uses + 1
+      WHERE id = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)
+        AND (max_uses IS NULL OR uses < max_uses)
+    `, [id, Date.now()]);
+    return (result.changes || 0) > 0;
+  }
+
+  static async hasRedeemed(shareId: string, userId: number): Promise<boolean> {
+    const row = await db.get('SELECT 1 AS found FROM session_share_grants WHERE share_id = ? AND user_id = ?', [shareId, userId]);
+    return Boolean(row);
+  }
+
+  static async addGrant(shareId: string, userId: number): Promise<void> {
+    await db.run(`
+      INSERT INTO session_share_grants (share_id, user_id, redeemed_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(share_id, user_id) DO NOTHING
+    `, [shareId, userId, Date.now()]);
+  }
+
+  /**
+   * Live grants of a user, keeping the highest permission per session. Grants
+   * only count while the user is still in the worker owner's tenant.
+   */
+  static async listGrants(userId: number, workerId?: string, sessionId?: string): Promise<SessionGrant[]> {
+    const scope = workerId && sessionId ? 'AND s.worker_id = ? AND s.session_id = ?' : '';
+    const result = await db.query<SessionGrant>(`
+      SELECT s.worker_id, s.session_id, s.permission
+      FROM session_share_grants g
+      JOIN session_shares s ON s.id = g.share_id
+      JOIN users requester ON requester.id = g.user_id
+      JOIN workers w ON w.id = s.worker_id
+      JOIN users owner ON owner.id = w.owner_id
+      WHERE g.user_id = ? AND ${LIVE_SHARE_SQL} ${scope}
+        AND requester.tenant_id IS NOT NULL AND requester.tenant_id = owner.tenant_id
+    `, scope ? [userId, Date.now(), workerId, sessionId] : [userId, Date.now()]);
+
+    const grants = new Map<string, SessionGrant>();
+    for (const row of result.rows) {
+      const key = `${row.worker_id}:${row.session_id}`;
+      const current = grants.get(key);
+      if (!current || levels[row.permission] > levels[current.permission]) grants.set(key, row);
+    }
+    return Array.from(grants.values());
+  }
+
+  static async hasGrant(
+    userId: number,
+    workerId: string,
+    sessionId: string,
+    requiredPermission: SessionSharePermission = 'view'
+  ): Promise<boolean> {
+    const [grant] = await SessionShareModel.listGrants(userId, workerId, sessionId);
+    return Boolean(grant) && levels[grant.permission] >= levels[requiredPermission];
+  }
+
+  /** Links die with their session; grants cascade with the share rows. */
+  static async deleteBySession(workerId: string, sessionId: string): Promise<void> {
+    await db.run('DELETE FROM session_shares WHERE worker_id = ? AND session_id = ?', [workerId, sessionId]);
+  }
+}
@@ -0,0 +1,96 @@
+import db from '../config/database';
+
+export interface SessionRow {
+  id: string;
+  worker_id: string;
+  user_id: number | null;
+  display_name: string;
+  created_at: number;
+  last_active_at: number;
+  /** Replay buffer bytes, decoded from whatever `output_encoding` the row uses. */
+  output: Buffer;
+  output_seq: number;
+}
+
+type StoredSessionRow = Omit<SessionRow, 'output'> & { output: string | null; output_encoding?: string | null };
+
+const decodeOutput = (row: StoredSessionRow): Buffer =>
+  Buffer.from(row.output || '', row.output_encoding === 'base64' ? 'base64' : 'utf-8');
+
+export interface StoredSession {
+  id: string;
+  workerId: string;
+  userId?: number;
+  displayName: string;
+  createdAt: number;
+  lastActiveAt: number;
+}
+
+/**
+ * Persistent mirror of the in-memory active sessions kept by the socket layer.
+ * Rows live until the session is closed or its shell exits, so a Nexus restart
+ * can rebuild the session list (and replay buffer) from here.
+ */
+export class SessionModel {
+  static async upsert(session: StoredSession): Promise<void> {
+    await db.run(`
+      INSERT INTO sessions (id, worker_id, user_id, display_name, created_at, last_active_at, output)
+      VALUES (?, ?, ?, ?, ?, ?, '')
+      ON CONFLICT(worker_id, id) DO UPDATE SET
+        user_id = COALESCE(sessions.user_id, excluded.user_id),
+        display_name = excluded.display_name,
+        last_active_at = excluded.last_active_at
+    `, [
+      session.id,
+      session.workerId,
+      session.userId ?? null,
+      session.displayName,
+      session.createdAt,
+      session.lastActiveAt,
+    ]);
+  }
+
+  static async updateOutput(
+    workerId: string,
+    sessionId: string,
+    output: Buffer,
+    outputSeq: number,
+    lastActiveAt: number
+  ): Promise<void> {
+    await db.run(
+      `UPDATE sessions SET output = ?, output_encoding = 'base64', output_seq = ?, last_active_at = ?
+       WHERE worker_id = ? AND id = ?`,
+      [output.toString('base64'), outputSeq, lastActiveAt, workerId, sessionId]
+    );
+  }
+
+  static async rename(workerId: string, sessionId: string, displayName: string): Promise<void> {
+    await db.run('UPDATE sessions SET display_name = ? WHERE worker_id = ? AND id = ?', [displayName, workerId, sessionId]);
+  }
+
+  static async find(workerId: string, sessionId: string): Promise<SessionRow | undefined> {
+    const row = await db.get<StoredSessionRow>('SELECT * FROM sessions WHERE worker_id = ? AND id = ?', [workerId, sessionId]);
+    return row ? { ...row, output: decodeOutput(row) } : undefined;
+  }
+
+  static async delete(workerId: string, sessionId: string): Promise<void> {
+    await db.run('DELETE FROM sessions WHERE worker_id = ? AND id = ?', [workerId, sessionId]);
+  }
+
+  static async listAll(): Promise<Array<SessionRow & { worker_name: string | null }>> {
+    const result = await db.query<StoredSessionRow & { worker_name: string | null }>(`
+      SELECT s.*, w.name AS worker_name
+      FROM sessions s
+      LEFT JOIN workers w ON w.id = s.worker_id
+      ORDER BY s.created_at ASC
+    `);
+    return result.rows.map((row) => ({
+      ...row,
+      user_id: row.user_id === null ? null : Number(row.user_id),
+      created_at: Number(row.created_at),
+      last_active_at: Number(row.last_active_at),
+      output: decodeOutput(row),
+      output_seq: Number(row.output_seq || 0),
+    }));
+  }
+}
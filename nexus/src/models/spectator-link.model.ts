@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+import db from '../config/database';
+
+export interface SpectatorLink {
+  id: string;
+  worker_id: string;
+  session_id: string;
+  created_by: number | null;
+  created_at: number;
+  expires_at: number;
+  revoked_at: number | null;
+}
+
+const normalize = (row: SpectatorLink): SpectatorLink => ({
+  ...row,
+  created_by: row.created_by === null ? null : Number(row.created_by),
+  created_at: Number(row.created_at),
+  expires_at: Number(row.expires_at),
+  revoked_at: row.revoked_at === null ? null : Number(row.revoked_at),
+});
+
+export class SpectatorLinkModel {
+  static async create(link: Pick<SpectatorLink, 'worker_id' | 'session_id' | 'created_by' | 'expires_at'>): Promise<SpectatorLink> {
+    const row: SpectatorLink = {
+      ...link,
+      id: crypto.randomUUID(),
+      created_at: Date.now(),
+      revoked_at: null,
+    };
+    await db.run(`
+      INSERT INTO spectator_links (id, worker_id, session_id, created_by, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [row.id, row.worker_id, row.session_id, row.created_by, row.created_at, row.expires_at]);
+    return row;
+  }
+
+  static async findById(id: string): Promise<SpectatorLink | undefined> {
+    const row = await db.get<SpectatorLink>('SELECT * FROM spectator_links WHERE id = ?', [id]);
+    return row ? normalize(row) : undefined;
+  }
+
+  static async listBySession(workerId: string, sessionId: string): Promise<SpectatorLink[]> {
+    const result = await db.query<SpectatorLink>(
+      'SELECT * FROM spectator_links WHERE worker_id = ? AND session_id = ? ORDER BY created_at DESC',
+      [workerId, sessionId]
+    );
+    return result.rows.map(normalize);
+  }
+
+  static async revoke(id: string): Promise<void> {
+    await db.run('UPDATE spectator_links SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL', [Date.now(), id]);
+  }
+
+  static async deleteBySession(workerId: string, sessionId: string): Promise<void> {
+    await db.run('DELETE FROM spectator_links WHERE worker_id = ? AND session_id = ?', [workerId, sessionId]);
+  }
+}
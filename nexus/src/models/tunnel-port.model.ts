@@ -0,0 +1,55 @@
+import db from '../config/database';
+
+/** A port on the worker's localhost that may be reached through Nexus. */
+export interface TunnelPort {
+  worker_id: string;
+  port: number;
+  label: string;
+  /** The local server speaks TLS (self-signed certificates are accepted). */
+  tls: boolean;
+  created_by: number | null;
+  created_at: number;
+}
+
+type TunnelPortRow = Omit<TunnelPort, 'tls'> & { tls: number };
+
+const normalize = (row: TunnelPortRow): TunnelPort => ({
+  ...row,
+  port: Number(row.port),
+  tls: Number(row.tls) === 1,
+  created_by: row.created_by === null ? null : Number(row.created_by),
+  created_at: Number(row.created_at),
+});
+
+export class TunnelPortModel {
+  static async list(workerId: string): Promise<TunnelPort[]> {
+    const result = await db.query<TunnelPortRow>(
+      'SELECT * FROM worker_tunnel_ports WHERE worker_id = ? ORDER BY port',
+      [workerId]
+    );
+    return result.rows.map(normalize);
+  }
+
+  static async find(workerId: string, port: number): Promise<TunnelPort | undefined> {
+    const row = await db.get<TunnelPortRow>(
+      'SELECT * FROM worker_tunnel_ports WHERE worker_id = ? AND port = ?',
+      [workerId, port]
+    );
+    return row ? normalize(row) : undefined;
+  }
+
+  static async allow(entry: Pick<TunnelPort, 'worker_id' | 'port' | 'label' | 'tls' | 'created_by'>): Promise<TunnelPort> {
+    const row: TunnelPort = { ...entry, created_at: Date.now() };
+    await db.run(`
+      INSERT INTO worker_tunnel_ports (worker_id, port, label, tls, created_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(worker_id, port) DO UPDATE SET label = excluded.label, tls = excluded.tls
+    `, [row.worker_id, row.port, row.label, row.tls ? 1 : 0, row.created_by, row.created_at]);
+    return (await this.find(row.worker_id, row.port)) ?? row;
+  }
+
+  static async remove(workerId: string, port: number): Promise<number> {
+    const result = await db.run('DELETE FROM worker_tunnel_ports WHERE worker_id = ? AND port = ?', [workerId, port]);
+    return result.changes || 0;
+  }
+}
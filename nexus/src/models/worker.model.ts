@@ -2,6 +2,7 @@
 import crypto from 'crypto';
 import db from '../config/database';
 import { generateApiKey } from '../utils/crypto';
+import { WorkerCapabilities, WorkerHandshake, parseStoredCapabilities } from '../services/worker-protocol';
 
 export interface Worker {
   id: string;
@@ -10,6 +11,10 @@ export interface Worker {
   api_key: string;
   status: 'online' | 'offline';
   last_seen: number;
+  /** Last handshake seen; workers that never connected count as protocol 1. */
+  protocol_version: number;
+  worker_version: string | null;
+  capabilities: WorkerCapabilities;
 }
 
 export interface WorkerShare {
@@ -25,6 +30,18 @@ export interface WorkerShare {
  */
 export type WorkerListItem = Omit<Worker, 'api_key'> & { permission: WorkerShare['permission'] };
 
+// Capabilities are stored as JSON; NULL means the worker never sent a handshake.
+type WorkerRow<T> = Omit<T, 'capabilities'> & { capabilities: string | null };
+
+const normalize = <T extends Pick<Worker, 'last_seen' | 'protocol_version' | 'capabilities'>>(row: WorkerRow<T>): T => ({
+  ...row,
+  last_seen: Number(row.last_seen),
+  protocol_version: Number(row.protocol_version ?? 1),
+  capabilities: parseStoredCapabilities(row.capabilities),
+}) as T;
+
+const LIST_COLUMNS = 'w.id, w.owner_id, w.name, w.status, w.last_seen, w.protocol_version, w.worker_version, w.capabilities';
+
 export class WorkerModel {
   private static async getAccessPrincipal(userId: number): Promise<{
     tenantId: string | null;
@@ -62,50 +79,44 @@ export class WorkerModel {
       name,
       api_key: apiKey,
       status: 'offline',
-      last_seen: now
+      last_seen: now,
+      protocol_version: 1,
+      worker_version: null,
+      capabilities: parseStoredCapabilities(null),
     };
   }
 
   static async findByApiKey(apiKey: string): Promise<Worker | undefined> {
-    const worker = await db.get<Worker>('SELECT * FROM workers WHERE api_key = ?', [apiKey]);
-    if (worker) {
-      worker.last_seen = Number(worker.last_seen);
-    }
-    return worker;
+    const worker = await db.get<WorkerRow<Worker>>('SELECT * FROM workers WHERE api_key = ?', [apiKey]);
+    return worker ? normalize(worker) : undefined;
   }
 
   static async findById(id: string): Promise<Worker | undefined> {
-    const worker = await db.get<Worker>('SELECT * FROM workers WHERE id = ?', [id]);
-    if (worker) {
-      worker.last_seen = Number(worker.last_seen);
-    }
-    return worker;
+    const worker = await db.get<WorkerRow<Worker>>('SELECT * FROM workers WHERE id = ?', [id]);
+    return worker ? normalize(worker) : undefined;
   }
 
   static async getAccessibleWorkers(userId: number): Promise<WorkerListItem[]> {
     const principal = await this.getAccessPrincipal(userId);
     if (!principal) return [];
     if (principal.isGlobalAdmin) {
-      const result = await db.query<WorkerListItem>(`
-        SELECT w.id, w.owner_id, w.name, w.status, w.last_seen,
+      const result = await db.query<WorkerRow<WorkerListItem>>(`
+        SELECT ${LIST_COLUMNS},
                'admin' as permission
         FROM workers w
       `);
-      return result.rows.map(w => ({
-        ...w,
-        last_seen: Number(w.last_seen)
-      }));
+      return result.rows.map((w) => normalize<WorkerListItem>(w));
     }
 
-    const result = await db.query<WorkerListItem>(`
-      SELECT w.id, w.owner_id, w.name, w.status, w.last_seen,
+    const result = await db.query<WorkerRow<WorkerListItem>>(`
+      SELECT ${LIST_COLUMNS},
              'admin' as permission
       FROM workers w 
       WHERE w.owner_id = ?
       
       UNION
       
-      SELECT w.id, w.owner_id, w.name, w.status, w.last_seen,
+      SELECT ${LIST_COLUMNS},
              ws.permission
       FROM workers w
       JOIN worker_shares ws ON w.id = ws.worker_id
@@ -116,10 +127,7 @@ export class WorkerModel {
         AND requester.tenant_id = owner.tenant_id
     `, [userId, userId]);
 
-    return result.rows.map(w => ({
-      ...w,
-      last_seen: Number(w.last_seen)
-    }));
+    return result.rows.map((w) => normalize<WorkerListItem>(w));
   }
 
   static async share(workerId: string, userId: number, permission: 'view' | 'control' | 'admin'): Promise<void> {
@@ -130,6 +138,14 @@ export class WorkerModel {
     `, [workerId, userId, permission]);
   }
 
+  static async getSharePermission(workerId: string, userId: number): Promise<WorkerShare['permission'] | null> {
+    const row = await db.get<{ permission: WorkerShare['permission'] }>(
+      'SELECT permission FROM worker_shares WHERE worker_id = ? AND user_id = ?',
+      [workerId, userId]
+    );
+    return row?.permission ?? null;
+  }
+
   static async unshare(workerId: string, userId: number): Promise<number> {
     const result = await db.run('DELETE FROM worker_shares WHERE worker_id = ? AND user_id = ?', [workerId, userId]);
     return result.changes || 0;
@@ -139,12 +155,23 @@ export class WorkerModel {
     await db.run('UPDATE workers SET status = ?, last_seen = ? WHERE id = ?', [status, Date.now(), id]);
   }
 
+  static async updateHandshake(id: string, handshake: WorkerHandshake): Promise<void> {
+    await db.run('UPDATE workers SET protocol_version = ?, worker_version = ?, capabilities = ? WHERE id = ?', [
+      handshake.protocol,
+      handshake.version,
+      JSON.stringify(handshake.capabilities),
+      id,
+    ]);
+  }
+
   static async updateName(id: string, name: string): Promise<void> {
     await db.run('UPDATE workers SET name = ? WHERE id = ?', [name, id]);
   }
 
   static async delete(id: string): Promise<void> {
     await db.run('DELETE FROM worker_shares WHERE worker_id = ?', [id]);
+    await db.run('DELETE FROM worker_tunnel_ports WHERE worker_id = ?', [id]);
+    await db.run('DELETE FROM sessions WHERE worker_id = ?', [id]);
     await db.run('DELETE FROM workers WHERE id = ?', [id]);
   }
 
@@ -174,7 +201,7 @@ export class WorkerModel {
     if (!access.requester_tenant || !access.owner_tenant
       || access.requester_tenant !== access.owner_tenant || !access.permission) return false;
 
-    // Single share mode: treat view/control as the same permission level.
+    // 'view' solo observa; 'control' además escribe, redimensiona, renombra y cierra.
     const levels = { 'view': 1, 'control': 2, 'admin': 3 };
     return levels[access.permission as keyof typeof levels] >= levels[requiredPermission];
   }
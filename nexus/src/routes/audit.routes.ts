@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { AuditController } from '../controllers/audit.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+router.get('/', AuditController.list);
+
+export default router;
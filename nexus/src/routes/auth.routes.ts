@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/auth.controller';
+import { AccessTokenController } from '../controllers/access-token.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
 
 const router = Router();
@@ -10,5 +11,8 @@ router.get('/me', authMiddleware, AuthController.getMe);
 router.post('/setup', AuthController.setup);
 router.post('/password', authMiddleware, AuthController.changePassword);
 router.get('/status', AuthController.status);
+router.get('/tokens', authMiddleware, AccessTokenController.list);
+router.post('/tokens', authMiddleware, AccessTokenController.create);
+router.delete('/tokens/:id', authMiddleware, AccessTokenController.revoke);
 
 export default router;
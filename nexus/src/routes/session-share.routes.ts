@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { SessionShareController } from '../controllers/session-share.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+router.post('/redeem', SessionShareController.redeem);
+
+export default router;
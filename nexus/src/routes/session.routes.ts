@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { SessionController } from '../controllers/session.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+router.get('/usage', SessionController.usage);
+router.get('/lagging', SessionController.lagging);
+
+export default router;
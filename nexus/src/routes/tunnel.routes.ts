@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { TunnelController } from '../controllers/tunnel.controller';
+
+// Sin authMiddleware: el navegador llega por URL y se autentica con la cookie del túnel.
+const router = Router();
+
+router.all('/:workerId/:port', TunnelController.proxy);
+router.all('/:workerId/:port/*', TunnelController.proxy);
+
+export default router;
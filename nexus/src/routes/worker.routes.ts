@@ -1,5 +1,11 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { WorkerController } from '../controllers/worker.controller';
+import { FileController, FILE_CHUNK_BYTES, EDITOR_MAX_BYTES } from '../controllers/file.controller';
+import { RecordingController } from '../controllers/recording.controller';
+import { SessionShareController } from '../controllers/session-share.controller';
+import { SpectatorController } from '../controllers/spectator.controller';
+import { TunnelController } from '../controllers/tunnel.controller';
+import { ExecController } from '../controllers/exec.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
 
 const router = Router();
@@ -7,11 +13,46 @@ const router = Router();
 router.use(authMiddleware);
 
 router.get('/', WorkerController.list);
+router.get('/recordings', RecordingController.listAccessible);
 router.post('/', WorkerController.create);
 router.post('/join', WorkerController.join);
 router.post('/share', WorkerController.share);
 router.post('/unshare', WorkerController.unshare);
 router.get('/:id/shares', WorkerController.getShares);
+router.get('/:id/recordings', RecordingController.list);
+router.get('/:id/recordings/:recordingId/download', RecordingController.download);
+router.delete('/:id/recordings/:recordingId', RecordingController.delete);
+router.get('/:id/sessions/:sessionId/shares', SessionShareController.list);
+router.post('/:id/sessions/:sessionId/shares', SessionShareController.create);
+router.delete('/:id/sessions/:sessionId/shares/:shareId', SessionShareController.revoke);
+router.get('/:id/sessions/:sessionId/spectators', SpectatorController.list);
+router.post('/:id/sessions/:sessionId/spectators', SpectatorController.create);
+router.delete('/:id/sessions/:sessionId/spectators/:linkId', SpectatorController.revoke);
+router.post('/:id/files/uploads', FileController.startUpload);
+router.get('/:id/files/uploads/:uploadId', FileController.uploadStatus);
+router.put(
+  '/:id/files/uploads/:uploadId',
+  express.raw({ type: 'application/octet-stream', limit: FILE_CHUNK_BYTES }),
+  FileController.uploadChunk
+);
+router.delete('/:id/files/uploads/:uploadId', FileController.abortUpload);
+router.get('/:id/files/download', FileController.download);
+router.get('/:id/files', FileController.list);
+router.post('/:id/files/rename', FileController.rename);
+router.post('/:id/files/mkdir', FileController.mkdir);
+router.delete('/:id/files', FileController.remove);
+router.get('/:id/files/content', FileController.readText);
+router.put(
+  '/:id/files/content',
+  express.text({ type: 'text/plain', limit: EDITOR_MAX_BYTES }),
+  FileController.writeText
+);
+router.get('/:id/tunnels', TunnelController.list);
+router.get('/:id/tunnels/detect', TunnelController.detect);
+router.post('/:id/tunnels', TunnelController.allow);
+router.delete('/:id/tunnels/:port', TunnelController.remove);
+router.post('/:id/tunnels/:port/open', TunnelController.open);
+router.post('/:id/exec', ExecController.exec);
 router.delete('/:id', WorkerController.delete);
 
 export default router;
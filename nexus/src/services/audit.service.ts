@@ -0,0 +1,43 @@
+import { AuditModel, AuditRecord } from '../models/audit.model';
+
+export type AuditEvent =
+  | 'auth.login'
+  | 'auth.login_failed'
+  | 'token.create'
+  | 'token.revoke'
+  | 'worker.create'
+  | 'worker.delete'
+  | 'worker.join'
+  | 'worker.share'
+  | 'worker.unshare'
+  | 'worker.exec'
+  | 'session.create'
+  | 'session.close'
+  | 'session.share'
+  | 'session.unshare'
+  | 'session.share_redeem'
+  | 'session.spectator_link'
+  | 'session.spectator_revoke'
+  | 'file.upload'
+  | 'file.download'
+  | 'file.rename'
+  | 'file.edit'
+  | 'file.delete'
+  | 'tunnel.allow'
+  | 'tunnel.remove'
+  | 'tunnel.open'
+  | 'admin.upgrade_plan'
+  | 'admin.upgrade_plan_denied'
+  | 'plan.change';
+
+/**
+ * Appends a row to the audit log. Auditing must never break the action being
+ * audited, so failures are only logged.
+ */
+export async function recordAudit(event: AuditEvent, context: Omit<AuditRecord, 'event'> = {}): Promise<void> {
+  try {
+    await AuditModel.record({ event, ...context });
+  } catch (err) {
+    console.error(`[Audit] Failed to record ${event}:`, err);
+  }
+}
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import type { Socket } from 'socket.io';
+
+/**
+ * Commands running on workers for the exec API. The worker streams
+ * `exec-output` chunks and one `exec-exit`; this routes them to whoever
+ * started the command.
+ */
+
+export const EXEC_START_TIMEOUT_MS = Number(process.env.EXEC_START_TIMEOUT_MS || 10000);
+
+export interface ExecExit {
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  durationMs: number;
+}
+
+export interface ExecHandlers {
+  onOutput: (stream: 'stdout' | 'stderr', data: Buffer) => void;
+  onExit: (exit: ExecExit) => void;
+  /** The command's fate is unknown: the worker disconnected. */
+  onError: (code: string) => void;
+}
+
+export interface ExecRequest {
+  command: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  stdin?: string;
+  timeoutMs: number;
+}
+
+const running = new Map<string, { workerId: string; worker: Socket; handlers: ExecHandlers }>();
+
+/** Registers the command before asking the worker, so early output isn't dropped. */
+export async function startExec(
+  worker: Socket,
+  workerId: string,
+  request: ExecRequest,
+  handlers: ExecHandlers
+): Promise<{ id: string; pid: number; error?: undefined } | { error: string }> {
+  const id = crypto.randomUUID();
+  running.set(id, { workerId, worker, handlers });
+  let reply: { ok?: boolean; pid?: number; error?: string } | undefined;
+  try {
+    reply = await worker.timeout(EXEC_START_TIMEOUT_MS).emitWithAck('exec-start', { ...request, id });
+  } catch {
+    reply = { error: 'ETIMEDOUT' };
+  }
+  if (!reply?.ok) {
+    running.delete(id);
+    return { error: reply?.error || 'EPROTO' };
+  }
+  return { id, pid: Number(reply.pid) };
+}
+
+/** The caller went away; the worker kills the command's process group. */
+export function killExec(id: string): void {
+  const entry = running.get(id);
+  if (!entry) return;
+  running.delete(id);
+  entry.worker.emit('exec-kill', { id });
+}
+
+export function relayExecEvent(
+  workerId: string,
+  event: 'output' | 'exit',
+  msg: { id?: string; stream?: string; data?: Buffer } & Partial<ExecExit>
+): void {
+  const entry = msg?.id ? running.get(msg.id) : undefined;
+  if (!entry || entry.workerId !== workerId) return;
+  if (event === 'output') {
+    if (Buffer.isBuffer(msg.data)) entry.handlers.onOutput(msg.stream === 'stderr' ? 'stderr' : 'stdout', msg.data);
+    return;
+  }
+  running.delete(msg.id!);
+  entry.handlers.onExit({
+    exitCode: typeof msg.exitCode === 'number' ? msg.exitCode : null,
+    signal: typeof msg.signal === 'string' ? msg.signal : null,
+    timedOut: msg.timedOut === true,
+    durationMs: Number(msg.durationMs) || 0,
+  });
+}
+
+export function abortWorkerExecs(workerId: string, code: string): void {
+  for (const [id, entry] of Array.from(running.entries())) {
+    if (entry.workerId !== workerId) continue;
+    running.delete(id);
+    entry.handlers.onError(code);
+  }
+}
@@ -15,6 +15,7 @@ interface RelayState<T> {
  */
 export class OrderedRelayQueue<T> {
   private readonly states = new Map<string, RelayState<T>>();
+  private readonly inFlight = new Set<Promise<void>>();
 
   enqueue(key: string, value: T, consume: (batch: T[]) => Promise<void>): Promise<void> {
     let state = this.states.get(key);
@@ -27,6 +28,10 @@ export class OrderedRelayQueue<T> {
       state!.pending.push({ value, resolve, reject });
     });
 
+    const settled = completion.then(() => undefined, () => undefined);
+    this.inFlight.add(settled);
+    void settled.then(() => this.inFlight.delete(settled));
+
     if (!state.running) {
       state.running = true;
       queueMicrotask(() => { void this.drain(key, state!, consume); });
@@ -34,6 +39,13 @@ export class OrderedRelayQueue<T> {
     return completion;
   }
 
+  /** Resolves once every item enqueued so far, on every key, has been consumed. */
+  async idle(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all(this.inFlight);
+    }
+  }
+
   private async drain(
     key: string,
     state: RelayState<T>,
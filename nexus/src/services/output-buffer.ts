@@ -0,0 +1,134 @@
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Byte-bounded replay buffer for one terminal session. Every appended chunk
+ * gets the next sequence number, so a client that knows the last seq it wrote
+ * can ask for exactly what it missed.
+ *
+ * Chunks are the raw PTY bytes: a UTF-8 character or an escape sequence may
+ * straddle two chunks, and only whoever decodes the whole stream sees it whole.
+ */
+
+export interface OutputChunk {
+  seq: number;
+  data: Buffer;
+}
+
+export interface OutputSince<T = Buffer> {
+  data: T;
+  /** Seq of the last chunk included (the buffer head). */
+  seq: number;
+  /** True when the requested seq is no longer buffered: `data` is the full snapshot. */
+  reset: boolean;
+}
+
+/** How a client wants terminal output: raw bytes, or UTF-8 text for older clients. */
+export type OutputEncoding = 'binary' | 'utf8';
+
+/**
+ * Normalizes what a worker sends. Workers without the `binary` capability
+ * emit strings; Socket.IO hands binary attachments over as Buffer or, from
+ * some clients, as a bare ArrayBuffer.
+ */
+export const toOutputBytes = (output: unknown): Buffer => {
+  if (Buffer.isBuffer(output)) return output;
+  if (output instanceof Uint8Array) return Buffer.from(output.buffer, output.byteOffset, output.byteLength);
+  if (output instanceof ArrayBuffer) return Buffer.from(output);
+  if (typeof output === 'string') return Buffer.from(output, 'utf-8');
+  return Buffer.alloc(0);
+};
+
+/** Keeps the last `maxBytes` bytes of `data`, starting on a UTF-8 character boundary. */
+export const trimToBytes = (data: Buffer, maxBytes: number): Buffer => {
+  if (data.length <= maxBytes) return data;
+  let start = data.length - maxBytes;
+  // Skip UTF-8 continuation bytes (10xxxxxx) so the tail starts on a boundary.
+  while (start < data.length && (data[start] & 0xc0) === 0x80) start += 1;
+  return data.subarray(start);
+};
+
+/**
+ * Decodes a self-contained slice for text clients. A trailing partial
+ * character is left out: the live stream delivers it once it completes.
+ */
+export const decodeOutputText = (data: Buffer): string => new StringDecoder('utf8').write(data);
+
+export class SessionOutputBuffer {
+  private chunks: OutputChunk[] = [];
+  private totalBytes = 0;
+  private lastSeq: number;
+  // Oldest seq a client may resume from: everything after it is buffered.
+  private floorSeq: number;
+  private readonly maxBytes: number;
+  // Live text for utf8 clients: one decoder per stream so characters split
+  // across chunks come out whole, in the chunk that completes them.
+  private readonly textDecoder = new StringDecoder('utf8');
+
+  constructor(maxBytes: number, initial?: { data: Buffer; seq: number }) {
+    this.maxBytes = Math.max(1024, maxBytes);
+    this.lastSeq = Math.max(0, initial?.seq ?? 0);
+    this.floorSeq = this.lastSeq;
+    if (initial && initial.data.length > 0) {
+      // A restored snapshot stands for every seq up to the head, so only a
+      // client that already saw the head can skip the full redraw.
+      const data = trimToBytes(initial.data, this.maxBytes);
+      this.lastSeq = Math.max(1, this.lastSeq);
+      this.floorSeq = this.lastSeq;
+      this.chunks.push({ seq: this.lastSeq, data });
+      this.totalBytes = data.length;
+    }
+  }
+
+  /** Seq of the newest chunk, 0 when nothing was ever appended. */
+  get seq(): number {
+    return this.lastSeq;
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  /** Appends a chunk; returns its seq and its text for utf8 clients. */
+  append(data: Buffer): { seq: number; text: string } {
+    this.lastSeq += 1;
+    // Buffers from Socket.IO may view a larger frame; keep only our bytes.
+    this.chunks.push({ seq: this.lastSeq, data: Buffer.from(data) });
+    this.totalBytes += data.length;
+    this.evict();
+    return { seq: this.lastSeq, text: this.textDecoder.write(data) };
+  }
+
+  snapshot(): Buffer {
+    return Buffer.concat(this.chunks.map((chunk) => chunk.data), this.totalBytes);
+  }
+
+  since(seq: number): OutputSince {
+    if (seq === this.lastSeq) {
+      return { data: Buffer.alloc(0), seq: this.lastSeq, reset: false };
+    }
+    // A seq ahead of the head belongs to another buffer incarnation; one that
+    // fell out of the window can't be resumed. Both need a full redraw.
+    if (seq > this.lastSeq || seq < this.floorSeq) {
+      return { data: this.snapshot(), seq: this.lastSeq, reset: true };
+    }
+    return {
+      data: Buffer.concat(this.chunks.filter((chunk) => chunk.seq > seq).map((chunk) => chunk.data)),
+      seq: this.lastSeq,
+      reset: false,
+    };
+  }
+
+  private evict(): void {
+    while (this.totalBytes > this.maxBytes && this.chunks.length > 1) {
+      const dropped = this.chunks.shift()!;
+      this.totalBytes -= dropped.data.length;
+      this.floorSeq = dropped.seq;
+    }
+    if (this.totalBytes > this.maxBytes && this.chunks.length === 1) {
+      const [only] = this.chunks;
+      only.data = trimToBytes(only.data, this.maxBytes);
+      this.totalBytes = only.data.length;
+      this.floorSeq = only.seq;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Watermark flow control for terminal output. Clients that negotiate it ack
+ * the bytes xterm has processed; Nexus counts what each one still owes per
+ * session and asks the worker to pause the PTY when every acking subscriber
+ * is past the high watermark, resuming once any of them drains below the low
+ * one (or leaves).
+ */
+
+export type FlowTransition = 'pause' | 'resume' | null;
+
+export const OUTPUT_HIGH_WATERMARK = Math.max(1024, Number(process.env.OUTPUT_HIGH_WATERMARK || 512 * 1024));
+export const OUTPUT_LOW_WATERMARK = Math.min(
+  OUTPUT_HIGH_WATERMARK / 2,
+  Math.max(0, Number(process.env.OUTPUT_LOW_WATERMARK || 128 * 1024))
+);
+
+export class OutputFlowControl {
+  // session key -> socket id -> bytes sent and not acked yet
+  private readonly unacked = new Map<string, Map<string, number>>();
+  private readonly paused = new Set<string>();
+
+  constructor(
+    private readonly high = OUTPUT_HIGH_WATERMARK,
+    private readonly low = OUTPUT_LOW_WATERMARK
+  ) {}
+
+  sent(key: string, socketId: string, bytes: number): void {
+    let perSocket = this.unacked.get(key);
+    if (!perSocket) {
+      perSocket = new Map();
+      this.unacked.set(key, perSocket);
+    }
+    perSocket.set(socketId, (perSocket.get(socketId) ?? 0) + bytes);
+  }
+
+  acked(key: string, socketId: string, bytes: number): void {
+    const perSocket = this.unacked.get(key);
+    if (!perSocket?.has(socketId)) return;
+    perSocket.set(socketId, Math.max(0, perSocket.get(socketId)! - bytes));
+  }
+
+  pending(key: string, socketId: string): number {
+    return this.unacked.get(key)?.get(socketId) ?? 0;
+  }
+
+  isPaused(key: string): boolean {
+    return this.paused.has(key);
+  }
+
+  /** A subscriber left: what it owed no longer holds the PTY back. */
+  forgetSubscriber(key: string, socketId: string): void {
+    const perSocket = this.unacked.get(key);
+    if (!perSocket) return;
+    perSocket.delete(socketId);
+    if (perSocket.size === 0) this.unacked.delete(key);
+  }
+
+  /** Session gone or its worker reconnected (workers resume every PTY on disconnect). */
+  forgetSession(key: string): void {
+    this.unacked.delete(key);
+    this.paused.delete(key);
+  }
+
+  /**
+   * Re-evaluates one session against its current acking subscribers. Returns
+   * the transition the worker has to apply, if any.
+   */
+  update(key: string, subscriberIds: string[]): FlowTransition {
+    const perSocket = this.unacked.get(key);
+    if (perSocket) {
+      const current = new Set(subscriberIds);
+      for (const socketId of Array.from(perSocket.keys())) {
+        if (!current.has(socketId)) perSocket.delete(socketId);
+      }
+    }
+    const owed = subscriberIds.map((socketId) => perSocket?.get(socketId) ?? 0);
+
+    if (!this.paused.has(key)) {
+      if (owed.length === 0 || owed.some((bytes) => bytes < this.high)) return null;
+      this.paused.add(key);
+      return 'pause';
+    }
+    if (owed.length > 0 && owed.every((bytes) => bytes > this.low)) return null;
+    this.paused.delete(key);
+    return 'resume';
+  }
+}
@@ -48,6 +48,7 @@ export const PLANS: PlanConfig[] = [
       'Hasta 3 workers',
       'Hasta 3 sesiones simultáneas',
       'Historial de comandos',
+      'Grabación de sesiones (7 días)',
       'Soporte por email',
     ],
   },
@@ -62,6 +63,7 @@ export const PLANS: PlanConfig[] = [
       'Sesiones ilimitadas',
       'Compartir workers',
       'Snippets y comandos guardados',
+      'Grabación de sesiones (30 días)',
       'Soporte prioritario',
     ],
   },
@@ -77,6 +79,7 @@ export const PLANS: PlanConfig[] = [
       'Compartir workers',
       'Snippets y comandos guardados',
       'Tags y agrupación de workers',
+      'Grabaciones sin límite',
       'Soporte 24/7 dedicado',
       'API dedicada',
       'Auditoría avanzada',
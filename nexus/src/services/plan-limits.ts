@@ -8,6 +8,7 @@
 
 import { WorkerModel } from '../models/worker.model';
 import db from '../config/database';
+import { recordAudit } from './audit.service';
 
 export interface PlanLimits {
   maxWorkers: number;        // Max owned workers (not shared)
@@ -16,6 +17,9 @@ export interface PlanLimits {
   canSaveSnippets: boolean;  // Can save commands/snippets
   canTagWorkers: boolean;    // Can create tags / worker groups
   canUseApi: boolean;        // Dedicated API access
+  recordingRetentionDays: number; // Days recordings are kept (0 = no recording, -1 = forever)
+  maxRecordings: number;     // Stored recordings per user (-1 = unlimited)
+  maxTransferBytes: number;  // Largest file uploaded to / downloaded from a worker (-1 = unlimited)
 }
 
 export const PLAN_LIMITS: Record<string, PlanLimits> = {
@@ -26,6 +30,9 @@ export const PLAN_LIMITS: Record<string, PlanLimits> = {
     canSaveSnippets: false,
     canTagWorkers: false,
     canUseApi: false,
+    recordingRetentionDays: 0,
+    maxRecordings: 0,
+    maxTransferBytes: 10 * 1024 * 1024,
   },
   basico: {
     maxWorkers: 3,
@@ -34,6 +41,9 @@ export const PLAN_LIMITS: Record<string, PlanLimits> = {
     canSaveSnippets: false,
     canTagWorkers: false,
     canUseApi: false,
+    recordingRetentionDays: 7,
+    maxRecordings: 10,
+    maxTransferBytes: 100 * 1024 * 1024,
   },
   pro: {
     maxWorkers: 10,
@@ -42,6 +52,9 @@ export const PLAN_LIMITS: Record<string, PlanLimits> = {
     canSaveSnippets: true,
     canTagWorkers: false,
     canUseApi: false,
+    recordingRetentionDays: 30,
+    maxRecordings: 100,
+    maxTransferBytes: 1024 * 1024 * 1024,
   },
   enterprise: {
     maxWorkers: -1, // unlimited
@@ -50,6 +63,9 @@ export const PLAN_LIMITS: Record<string, PlanLimits> = {
     canSaveSnippets: true,
     canTagWorkers: true,
     canUseApi: true,
+    recordingRetentionDays: -1, // forever
+    maxRecordings: -1, // unlimited
+    maxTransferBytes: -1, // unlimited
   },
 };
 
@@ -73,7 +89,11 @@ export async function getUserPlan(userId: number): Promise<string> {
  * Updates the plan column for a user.
  */
 export async function setUserPlan(userId: number, planId: string): Promise<void> {
+  const previous = await getUserPlan(userId);
   await db.run('UPDATE users SET plan = ? WHERE id = ?', [planId, userId]);
+  if (previous !== planId) {
+    await recordAudit('plan.change', { userId, data: { from: previous, to: planId } });
+  }
 }
 
 /**
@@ -107,23 +127,32 @@ export async function canCreateWorker(userId: number): Promise<{ allowed: boolea
   return { allowed: true, current, max: limits.maxWorkers };
 }
 
+/** Concurrent-session cap for a user, from their plan. */
+export async function getSessionLimit(userId: number): Promise<{ plan: string; max: number }> {
+  const plan = await getUserPlan(userId);
+  return { plan, max: getLimitsForPlan(plan).maxSessions };
+}
+
 /**
  * Check whether a user can open a new session given their plan.
- * `currentSessions` should be the count of active sessions the user currently has.
+ * `currentSessions` is the count of live sessions the user created, from any
+ * socket, device or worker.
  */
-export function canOpenSession(planId: string, currentSessions: number): { allowed: boolean; reason?: string; current: number; max: number } {
-  const limits = getLimitsForPlan(planId);
-
-  if (limits.maxSessions !== -1 && currentSessions >= limits.maxSessions) {
+export function canOpenSession(
+  planId: string,
+  currentSessions: number,
+  maxSessions = getLimitsForPlan(planId).maxSessions
+): { allowed: boolean; reason?: string; current: number; max: number } {
+  if (maxSessions !== -1 && currentSessions >= maxSessions) {
     return {
       allowed: false,
-      reason: `Tu plan "${planId}" permite máximo ${limits.maxSessions} sesión(es) simultánea(s). Cierra una sesión o actualiza tu plan.`,
+      reason: `Tu plan "${planId}" permite máximo ${maxSessions} sesión(es) simultánea(s). Cierra una sesión o actualiza tu plan.`,
       current: currentSessions,
-      max: limits.maxSessions,
+      max: maxSessions,
     };
   }
 
-  return { allowed: true, current: currentSessions, max: limits.maxSessions };
+  return { allowed: true, current: currentSessions, max: maxSessions };
 }
 
 /**
@@ -142,3 +171,62 @@ export async function canShareWorker(userId: number): Promise<{ allowed: boolean
 
   return { allowed: true };
 }
+
+/**
+ * Check whether a user can start a session recording given their plan.
+ * Existing recordings never block a new one: the oldest ones are pruned
+ * to make room (see RecordingService.enforceQuota).
+ */
+export async function canRecordSession(userId: number): Promise<{ allowed: boolean; reason?: string }> {
+  const planId = await getUserPlan(userId);
+  const limits = getLimitsForPlan(planId);
+
+  if (limits.recordingRetentionDays === 0 || limits.maxRecordings === 0) {
+    return {
+      allowed: false,
+      reason: `Tu plan actual no incluye grabación de sesiones. Actualiza al plan Básico o superior.`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check whether a user can move a file of `size` bytes to or from a worker.
+ */
+export async function canTransferFile(userId: number, size: number): Promise<{ allowed: boolean; reason?: string; max: number }> {
+  const planId = await getUserPlan(userId);
+  const { maxTransferBytes } = getLimitsForPlan(planId);
+
+  if (maxTransferBytes !== -1 && size > maxTransferBytes) {
+    return {
+      allowed: false,
+      reason: `Tu plan "${planId}" permite archivos de hasta ${Math.round(maxTransferBytes / (1024 * 1024))} MB. Actualiza tu plan para transferir archivos más grandes.`,
+      max: maxTransferBytes,
+    };
+  }
+
+  return { allowed: true, max: maxTransferBytes };
+}
+
+/**
+ * Check whether a user can use the API (exec endpoint). The global admin is
+ * not bound by a plan, as with sessions.
+ */
+export async function canUseApi(userId: number): Promise<{ allowed: boolean; reason?: string }> {
+  const row = await db.get<{ plan: string; is_admin: number; tenant_id: string | null }>(
+    'SELECT plan, is_admin, tenant_id FROM users WHERE id = ?',
+    [userId]
+  );
+  const planId = row?.plan || 'free';
+  const isGlobalAdmin = Number(row?.is_admin) === 1 && (row?.tenant_id ?? null) === null;
+
+  if (!isGlobalAdmin && !getLimitsForPlan(planId).canUseApi) {
+    return {
+      allowed: false,
+      reason: `Tu plan actual no incluye acceso a la API. Actualiza al plan Enterprise.`,
+    };
+  }
+
+  return { allowed: true };
+}
@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { dataDir } from '../config/database';
+import { RecordingModel, Recording } from '../models/recording.model';
+import { getLimitsForPlan, getUserPlan } from './plan-limits';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const recordingsDir = path.join(dataDir, 'recordings');
+
+/**
+ * Writes one session to an asciicast v2 file: a JSON header line followed by
+ * `[seconds, code, data]` event lines ("o" output, "r" resize, "m" marker).
+ * See https://docs.asciinema.org/manual/asciicast/v2/
+ */
+export class SessionRecorder {
+  readonly id: string;
+  readonly startedAt: number;
+  private readonly stream: fs.WriteStream;
+  private bytesWritten = 0;
+  private closed = false;
+
+  constructor(
+    id: string,
+    filePath: string,
+    header: { cols: number; rows: number; title: string; startedAt: number }
+  ) {
+    this.id = id;
+    this.startedAt = header.startedAt;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.stream = fs.createWriteStream(filePath, { flags: 'w' });
+    this.stream.on('error', (err) => console.error(`[Recording] Write error on ${id}:`, err));
+    this.writeLine({
+      version: 2,
+      width: header.cols,
+      height: header.rows,
+      timestamp: Math.floor(header.startedAt / 1000),
+      title: header.title,
+      env: { TERM: 'xterm-256color' },
+    });
+  }
+
+  output(data: string, at = Date.now()): void {
+    if (data) this.event(at, 'o', data);
+  }
+
+  resize(cols: number, rows: number, at = Date.now()): void {
+    this.event(at, 'r', `${cols}x${rows}`);
+  }
+
+  marker(label: string, at = Date.now()): void {
+    this.event(at, 'm', label);
+  }
+
+  /** Flushes and closes the file. Resolves with the final duration and size. */
+  close(at = Date.now()): Promise<{ durationMs: number; sizeBytes: number }> {
+    const result = { durationMs: Math.max(0, at - this.startedAt), sizeBytes: this.bytesWritten };
+    if (this.closed) return Promise.resolve(result);
+    this.closed = true;
+    return new Promise((resolve) => {
+      this.stream.end(() => resolve(result));
+    });
+  }
+
+  private event(at: number, code: 'o' | 'r' | 'm', data: string): void {
+    const elapsed = Math.max(0, at - this.startedAt) / 1000;
+    this.writeLine([Number(elapsed.toFixed(6)), code, data]);
+  }
+
+  private writeLine(value: unknown): void {
+    if (this.closed) return;
+    const line = `${JSON.stringify(value)}\n`;
+    this.bytesWritten += Buffer.byteLength(line);
+    this.stream.write(line);
+  }
+}
+
+export class RecordingService {
+  static filePath(recording: Pick<Recording, 'id' | 'worker_id'>): string {
+    return path.join(recordingsDir, recording.worker_id, `${recording.id}.cast`);
+  }
+
+  static async start(params: {
+    workerId: string;
+    sessionId: string;
+    userId: number;
+    title: string;
+    cols: number;
+    rows: number;
+  }): Promise<SessionRecorder> {
+    await RecordingService.enforceQuota(params.userId, 1);
+    const id = crypto.randomUUID();
+    const startedAt = Date.now();
+    await RecordingModel.create({
+      id,
+      worker_id: params.workerId,
+      session_id: params.sessionId,
+      user_id: params.userId,
+      title: params.title,
+      started_at: startedAt,
+    });
+    return new SessionRecorder(id, RecordingService.filePath({ id, worker_id: params.workerId }), {
+      cols: params.cols,
+      rows: params.rows,
+      title: params.title,
+      startedAt,
+    });
+  }
+
+  static async finish(recorder: SessionRecorder): Promise<void> {
+    const endedAt = Date.now();
+    const { durationMs, sizeBytes } = await recorder.close(endedAt);
+    await RecordingModel.finish(recorder.id, endedAt, durationMs, sizeBytes);
+  }
+
+  static async remove(recording: Pick<Recording, 'id' | 'worker_id'>): Promise<void> {
+    await fs.promises.rm(RecordingService.filePath(recording), { force: true });
+    await RecordingModel.delete(recording.id);
+  }
+
+  /** Files of a deleted worker (its rows are removed by the FK cascade). */
+  static async removeWorkerFiles(workerId: string): Promise<void> {
+    await fs.promises.rm(path.join(recordingsDir, workerId), { recursive: true, force: true });
+  }
+
+  /**
+   * Deletes the oldest finished recordings of a user so that `reserve` new
+   * ones still fit in the plan's `maxRecordings`.
+   */
+  static async enforceQuota(userId: number, reserve = 0): Promise<number> {
+    const limits = getLimitsForPlan(await getUserPlan(userId));
+    if (limits.maxRecordings === -1) return 0;
+    const finished = (await RecordingModel.listByUser(userId)).filter((r) => r.ended_at !== null);
+    const excess = finished.length + reserve - limits.maxRecordings;
+    let removed = 0;
+    for (const recording of finished.slice(0, Math.max(0, excess))) {
+      await RecordingService.remove(recording);
+      removed++;
+    }
+    return removed;
+  }
+
+  /** Applies each owner's plan retention. Recordings without owner use the free plan. */
+  static async pruneExpired(now = Date.now()): Promise<number> {
+    let removed = 0;
+    for (const recording of await RecordingModel.listWithOwnerPlan()) {
+      const { recordingRetentionDays } = getLimitsForPlan(recording.plan || 'free');
+      if (recordingRetentionDays === -1) continue;
+      if ((recording.ended_at ?? now) + recordingRetentionDays * DAY_MS <= now) {
+        await RecordingService.remove(recording);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Closes rows left in progress by a previous process. The file holds
+   * whatever was written before the crash, so take its size and mtime.
+   */
+  static async finishDangling(): Promise<number> {
+    const dangling = await RecordingModel.listUnfinished();
+    for (const recording of dangling) {
+      let endedAt = recording.started_at;
+      let sizeBytes = 0;
+      try {
+        const stat = await fs.promises.stat(RecordingService.filePath(recording));
+        endedAt = Math.max(recording.started_at, stat.mtimeMs);
+        sizeBytes = stat.size;
+      } catch {
+        // Archivo perdido: queda como grabación vacía.
+      }
+      await RecordingModel.finish(recording.id, Math.round(endedAt), Math.round(endedAt - recording.started_at), sizeBytes);
+    }
+    return dangling.length;
+  }
+}
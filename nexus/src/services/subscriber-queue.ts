@@ -0,0 +1,159 @@
+/**
+ * Per-subscriber output queues. A subscriber whose terminal still owes a full
+ * flow-control window gets its output queued here instead of holding back the
+ * rest of the session; past `SUBSCRIBER_QUEUE_MAX_BYTES` the lag policy kicks in.
+ *
+ * - coalesce: queued chunks are merged into one frame; on overflow it falls
+ *   back to `snapshot`.
+ * - snapshot: the queue is dropped and the client is told to resync, which
+ *   redraws it from the replay buffer.
+ * - disconnect: same hint, then the socket is cut so it reconnects clean.
+ */
+
+export type LagPolicy = 'coalesce' | 'snapshot' | 'disconnect';
+
+const LAG_POLICIES: LagPolicy[] = ['coalesce', 'snapshot', 'disconnect'];
+
+export const SUBSCRIBER_LAG_POLICY: LagPolicy = LAG_POLICIES.includes(process.env.SUBSCRIBER_LAG_POLICY as LagPolicy)
+  ? process.env.SUBSCRIBER_LAG_POLICY as LagPolicy
+  : 'coalesce';
+export const SUBSCRIBER_QUEUE_MAX_BYTES = Math.max(
+  64 * 1024,
+  Number(process.env.SUBSCRIBER_QUEUE_MAX_BYTES || 2 * 1024 * 1024)
+);
+
+export interface QueuedOutput {
+  seq: number;
+  output: Buffer;
+  /** Same chunk for utf8 clients, already decoded by the session buffer. */
+  text: string;
+  spooled?: boolean;
+}
+
+interface SubscriberQueue {
+  items: QueuedOutput[];
+  bytes: number;
+  // Set on overflow; cleared when the client asks for the missed output.
+  resyncing: boolean;
+  drops: number;
+  laggingSince: number | null;
+}
+
+export interface SubscriberLag {
+  key: string;
+  socketId: string;
+  queuedBytes: number;
+  queuedChunks: number;
+  drops: number;
+  resyncing: boolean;
+  laggingSince: number | null;
+}
+
+export class SubscriberOutputQueues {
+  private readonly queues = new Map<string, Map<string, SubscriberQueue>>();
+
+  constructor(
+    readonly policy: LagPolicy = SUBSCRIBER_LAG_POLICY,
+    private readonly maxBytes = SUBSCRIBER_QUEUE_MAX_BYTES
+  ) {}
+
+  /** Whether output for this subscriber has to wait behind its queue. */
+  isBacklogged(key: string, socketId: string): boolean {
+    const queue = this.queues.get(key)?.get(socketId);
+    return Boolean(queue && (queue.items.length > 0 || queue.resyncing));
+  }
+
+  isResyncing(key: string, socketId: string): boolean {
+    return this.queues.get(key)?.get(socketId)?.resyncing ?? false;
+  }
+
+  /** Queues one chunk. Returns false when it overflowed and the lag policy applies. */
+  push(key: string, socketId: string, item: QueuedOutput): boolean {
+    const queue = this.queueFor(key, socketId);
+    if (queue.resyncing) return true;
+    queue.laggingSince ??= Date.now();
+    const last = queue.items[queue.items.length - 1];
+    if (this.policy === 'coalesce' && last) {
+      queue.items[queue.items.length - 1] = {
+        seq: item.seq,
+        output: Buffer.concat([last.output, item.output]),
+        text: last.text + item.text,
+        spooled: last.spooled && item.spooled,
+      };
+    } else {
+      queue.items.push(item);
+    }
+    queue.bytes += item.output.length;
+    if (queue.bytes <= this.maxBytes) return true;
+
+    queue.items = [];
+    queue.bytes = 0;
+    queue.resyncing = true;
+    queue.drops += 1;
+    return false;
+  }
+
+  /** Hands over everything queued for delivery. */
+  take(key: string, socketId: string): QueuedOutput[] {
+    const queue = this.queues.get(key)?.get(socketId);
+    if (!queue || queue.items.length === 0) return [];
+    const items = queue.items;
+    queue.items = [];
+    queue.bytes = 0;
+    if (!queue.resyncing) queue.laggingSince = null;
+    return items;
+  }
+
+  /** The client fetched what it missed: live output flows again. */
+  resynced(key: string, socketId: string): void {
+    const queue = this.queues.get(key)?.get(socketId);
+    if (!queue) return;
+    queue.resyncing = false;
+    queue.laggingSince = null;
+  }
+
+  forgetSubscriber(key: string, socketId: string): void {
+    const perSocket = this.queues.get(key);
+    if (!perSocket) return;
+    perSocket.delete(socketId);
+    if (perSocket.size === 0) this.queues.delete(key);
+  }
+
+  forgetSession(key: string): void {
+    this.queues.delete(key);
+  }
+
+  /** Subscribers with queued output, pending resync or past drops. */
+  lagging(): SubscriberLag[] {
+    const result: SubscriberLag[] = [];
+    for (const [key, perSocket] of this.queues.entries()) {
+      for (const [socketId, queue] of perSocket.entries()) {
+        if (queue.items.length === 0 && !queue.resyncing && queue.drops === 0) continue;
+        result.push({
+          key,
+          socketId,
+          queuedBytes: queue.bytes,
+          queuedChunks: queue.items.length,
+          drops: queue.drops,
+          resyncing: queue.resyncing,
+          laggingSince: queue.laggingSince,
+        });
+      }
+    }
+    return result;
+  }
+
+  private queueFor(key: string, socketId: string): SubscriberQueue {
+    let perSocket = this.queues.get(key);
+    if (!perSocket) {
+      perSocket = new Map();
+      this.queues.set(key, perSocket);
+    }
+    let queue = perSocket.get(socketId);
+    if (!queue) {
+      queue = { items: [], bytes: 0, resyncing: false, drops: 0, laggingSince: null };
+      perSocket.set(socketId, queue);
+    }
+    return queue;
+  }
+}
@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import type { Socket } from 'socket.io';
+
+/**
+ * Streams multiplexed over a worker's socket for HTTP/WebSocket tunnels. Each
+ * stream is one proxied request (or one upgraded connection); the worker
+ * answers with `tunnel-response`, `tunnel-data`, `tunnel-end` and
+ * `tunnel-error` tagged with the stream id Nexus chose.
+ */
+
+export const TUNNEL_OPEN_TIMEOUT_MS = Number(process.env.TUNNEL_OPEN_TIMEOUT_MS || 10000);
+export const MAX_TUNNEL_STREAMS_PER_WORKER = Math.max(1, Number(process.env.TUNNEL_MAX_STREAMS || 64));
+
+export type TunnelHeaders = Record<string, string | string[] | undefined>;
+
+export interface TunnelHandlers {
+  onResponse?: (status: number, headers: TunnelHeaders) => void;
+  onData: (data: Buffer) => void;
+  onEnd: () => void;
+  onError: (code: string) => void;
+}
+
+export interface TunnelOpen {
+  port: number;
+  tls: boolean;
+  mode: 'http' | 'raw';
+  method?: string;
+  path?: string;
+  headers?: TunnelHeaders;
+  head?: Buffer;
+}
+
+interface TunnelStream {
+  workerId: string;
+  userId: number;
+  port: number;
+  worker: Socket;
+  handlers: TunnelHandlers;
+}
+
+const streams = new Map<string, TunnelStream>();
+
+const countFor = (workerId: string) => {
+  let count = 0;
+  for (const stream of streams.values()) if (stream.workerId === workerId) count += 1;
+  return count;
+};
+
+/**
+ * Asks the worker to dial its localhost. The stream is registered before the
+ * request goes out, so a fast response can't arrive for an unknown id.
+ */
+export async function openTunnelStream(
+  worker: Socket,
+  owner: { workerId: string; userId: number },
+  open: TunnelOpen,
+  handlers: TunnelHandlers
+): Promise<{ id: string; error?: undefined } | { error: string }> {
+  if (countFor(owner.workerId) >= MAX_TUNNEL_STREAMS_PER_WORKER) return { error: 'EMFILE' };
+  const id = crypto.randomUUID();
+  streams.set(id, { ...owner, port: open.port, worker, handlers });
+  let reply: { ok?: boolean; error?: string } | undefined;
+  try {
+    reply = await worker.timeout(TUNNEL_OPEN_TIMEOUT_MS).emitWithAck('tunnel-open', { ...open, id });
+  } catch {
+    reply = { error: 'ETIMEDOUT' };
+  }
+  if (!reply?.ok) {
+    streams.delete(id);
+    return { error: reply?.error || 'EPROTO' };
+  }
+  return { id };
+}
+
+export function writeTunnelStream(id: string, data: Buffer): void {
+  streams.get(id)?.worker.emit('tunnel-data', { id, data });
+}
+
+export function endTunnelStream(id: string): void {
+  streams.get(id)?.worker.emit('tunnel-end', { id });
+}
+
+/** The browser side went away; the worker can drop its connection. */
+export function closeTunnelStream(id: string): void {
+  const stream = streams.get(id);
+  if (!stream) return;
+  streams.delete(id);
+  stream.worker.emit('tunnel-close', { id });
+}
+
+/** Routes a worker event to its stream; ids of other workers are ignored. */
+export function relayTunnelEvent(
+  workerId: string,
+  event: 'response' | 'data' | 'end' | 'error',
+  msg: { id?: string; status?: number; headers?: TunnelHeaders; data?: Buffer; error?: string }
+): void {
+  const stream = msg?.id ? streams.get(msg.id) : undefined;
+  if (!stream || stream.workerId !== workerId) return;
+  if (event === 'response') {
+    stream.handlers.onResponse?.(Number(msg.status) || 502, msg.headers || {});
+  } else if (event === 'data') {
+    if (Buffer.isBuffer(msg.data)) stream.handlers.onData(msg.data);
+  } else {
+    streams.delete(msg.id!);
+    if (event === 'end') stream.handlers.onEnd();
+    else stream.handlers.onError(msg.error || 'EIO');
+  }
+}
+
+/**
+ * Cuts matching streams: a worker that disconnected, a port taken off the
+ * allowlist or a user who lost access.
+ */
+export function closeTunnelStreams(filter: { workerId?: string; userId?: number; port?: number }, code: string): number {
+  let closed = 0;
+  for (const [id, stream] of Array.from(streams.entries())) {
+    if (filter.workerId !== undefined && stream.workerId !== filter.workerId) continue;
+    if (filter.userId !== undefined && stream.userId !== filter.userId) continue;
+    if (filter.port !== undefined && stream.port !== filter.port) continue;
+    streams.delete(id);
+    if (stream.worker.connected) stream.worker.emit('tunnel-close', { id });
+    stream.handlers.onError(code);
+    closed += 1;
+  }
+  return closed;
+}
+
+/** Open streams per port, for the tunnels panel. */
+export function countTunnelStreams(workerId: string): Record<number, number> {
+  const counts: Record<number, number> = {};
+  for (const stream of streams.values()) {
+    if (stream.workerId === workerId) counts[stream.port] = (counts[stream.port] || 0) + 1;
+  }
+  return counts;
+}
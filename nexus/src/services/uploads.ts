@@ -0,0 +1,52 @@
+/**
+ * Chunked uploads in progress. Nexus only maps its own upload id to the
+ * worker's part file; the bytes live on the worker, which sweeps its own
+ * abandoned parts after the same idle time.
+ */
+
+export const UPLOAD_IDLE_MS = 60 * 60 * 1000;
+
+export interface PendingUpload {
+  userId: number;
+  workerId: string;
+  name: string;
+  size: number;
+  // Id the worker gave the part file; the browser only sees ours.
+  workerUploadId: string;
+  dir: string;
+  touchedAt: number;
+}
+
+// Subidas en curso: solo quien la empezó puede continuarla.
+const uploads = new Map<string, PendingUpload>();
+
+function sweepUploads() {
+  const now = Date.now();
+  for (const [uploadId, upload] of uploads.entries()) {
+    if (now - upload.touchedAt >= UPLOAD_IDLE_MS) uploads.delete(uploadId);
+  }
+}
+
+export function addUpload(uploadId: string, upload: Omit<PendingUpload, 'touchedAt'>): void {
+  sweepUploads();
+  uploads.set(uploadId, { ...upload, touchedAt: Date.now() });
+}
+
+/** Looks the upload up and marks it active; idle ones are gone by now. */
+export function touchUpload(uploadId: string): PendingUpload | undefined {
+  sweepUploads();
+  const upload = uploads.get(uploadId);
+  if (upload) upload.touchedAt = Date.now();
+  return upload;
+}
+
+export function removeUpload(uploadId: string): void {
+  uploads.delete(uploadId);
+}
+
+/** After a worker disconnect the upload answers 404; the worker sweeps the orphaned part. */
+export function forgetWorkerUploads(workerId: string): void {
+  for (const [uploadId, upload] of uploads.entries()) {
+    if (upload.workerId === workerId) uploads.delete(uploadId);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Rolling health history reported by workers in their heartbeat. Runtime only:
+ * a worker that goes offline drops its history with it.
+ */
+
+export interface WorkerMetrics {
+  ts: number;
+  /** Percent of all cores, 0-100. */
+  cpu: number;
+  load: [number, number, number];
+  cores: number;
+  memTotal: number;
+  memUsed: number;
+  diskTotal: number;
+  diskUsed: number;
+  /** Host uptime in seconds. */
+  uptime: number;
+  ptys: number;
+  version: string;
+}
+
+const HISTORY_SIZE = Math.max(2, Number(process.env.WORKER_METRICS_HISTORY || 60));
+
+const history = new Map<string, WorkerMetrics[]>();
+
+const num = (value: unknown, max = Number.MAX_SAFE_INTEGER): number => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(max, Math.max(0, n)) : 0;
+};
+
+/**
+ * Validates a heartbeat payload. Old workers send no payload at all, which is
+ * not an error: they just never get a dashboard.
+ */
+export const parseWorkerMetrics = (raw: unknown): WorkerMetrics | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Record<string, unknown>;
+  if (typeof data.cpu !== 'number' && typeof data.memTotal !== 'number') return null;
+  const load = Array.isArray(data.load) ? data.load : [];
+  const memTotal = num(data.memTotal);
+  const diskTotal = num(data.diskTotal);
+  return {
+    ts: Date.now(),
+    cpu: num(data.cpu, 100),
+    load: [num(load[0]), num(load[1]), num(load[2])],
+    cores: Math.max(1, Math.round(num(data.cores, 4096))),
+    memTotal,
+    memUsed: num(data.memUsed, memTotal),
+    diskTotal,
+    diskUsed: num(data.diskUsed, diskTotal),
+    uptime: Math.round(num(data.uptime)),
+    ptys: Math.round(num(data.ptys, 100_000)),
+    version: String(data.version ?? 'unknown').slice(0, 64),
+  };
+};
+
+export const recordWorkerMetrics = (workerId: string, sample: WorkerMetrics): void => {
+  const samples = history.get(workerId) || [];
+  samples.push(sample);
+  if (samples.length > HISTORY_SIZE) samples.splice(0, samples.length - HISTORY_SIZE);
+  history.set(workerId, samples);
+};
+
+export const getWorkerMetrics = (workerId: string): WorkerMetrics[] => history.get(workerId) || [];
+
+export const forgetWorkerMetrics = (workerId: string): void => {
+  history.delete(workerId);
+};
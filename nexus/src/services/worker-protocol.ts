@@ -0,0 +1,79 @@
+/**
+ * Worker handshake versioning. Workers send `protocol`, `version` and
+ * `capabilities` in their Socket.IO auth; the ones built before this existed
+ * send none of it and are treated as protocol 1 with the baseline features.
+ */
+
+export type WorkerFeature =
+  | 'shell' | 'tui' | 'announce' | 'spool' | 'metrics' | 'binary' | 'flow' | 'files' | 'tunnel' | 'exec';
+
+export interface WorkerCapabilities {
+  features: WorkerFeature[];
+  /** Shells available on the host, as absolute paths. */
+  shells: string[];
+}
+
+export interface WorkerHandshake {
+  protocol: number;
+  version: string | null;
+  capabilities: WorkerCapabilities;
+}
+
+/** Oldest protocol Nexus still talks to. Raise it to cut off old `.deb` workers. */
+export const MIN_WORKER_PROTOCOL = Math.max(1, Number(process.env.NEXUS_MIN_WORKER_PROTOCOL || 1));
+
+const KNOWN_FEATURES: WorkerFeature[] = ['shell', 'tui', 'announce', 'spool', 'metrics', 'binary', 'flow', 'files', 'tunnel', 'exec'];
+// Workers sin handshake versionado (los .deb anteriores a él): solo shell y TUI.
+// El re-anuncio y el spool llegaron después, ya con handshake. El cliente
+// repite esta lista en lib/workerCapabilities.ts.
+const LEGACY_FEATURES: WorkerFeature[] = ['shell', 'tui'];
+const MAX_SHELLS = 16;
+
+export const legacyCapabilities = (): WorkerCapabilities => ({ features: [...LEGACY_FEATURES], shells: [] });
+
+/**
+ * Reads the handshake. Unknown features from newer workers are dropped rather
+ * than rejected: Nexus simply doesn't use what it doesn't know.
+ */
+export const parseWorkerHandshake = (auth: Record<string, unknown>): WorkerHandshake => {
+  if (auth.protocol === undefined || auth.protocol === null) {
+    return { protocol: 1, version: null, capabilities: legacyCapabilities() };
+  }
+  const protocol = Number(auth.protocol);
+
+  const raw = (auth.capabilities && typeof auth.capabilities === 'object' ? auth.capabilities : {}) as Record<string, unknown>;
+  const features = Array.isArray(raw.features)
+    ? KNOWN_FEATURES.filter((feature) => (raw.features as unknown[]).includes(feature))
+    : [];
+  const shells = Array.isArray(raw.shells)
+    ? raw.shells.filter((shell): shell is string => typeof shell === 'string' && shell.startsWith('/')).slice(0, MAX_SHELLS)
+    : [];
+
+  return {
+    protocol: Number.isInteger(protocol) ? protocol : 0,
+    version: typeof auth.version === 'string' && auth.version.trim() ? auth.version.trim().slice(0, 64) : null,
+    capabilities: { features, shells },
+  };
+};
+
+/** Newer workers are fine; only protocols Nexus dropped support for are refused. */
+export const checkWorkerProtocol = (handshake: WorkerHandshake): { allowed: boolean; reason?: string } => {
+  if (handshake.protocol >= MIN_WORKER_PROTOCOL) return { allowed: true };
+  return {
+    allowed: false,
+    reason: `Unsupported worker protocol ${handshake.protocol} (minimum ${MIN_WORKER_PROTOCOL}); update the worker`,
+  };
+};
+
+export const parseStoredCapabilities = (value: unknown): WorkerCapabilities => {
+  if (typeof value !== 'string' || !value) return legacyCapabilities();
+  try {
+    const parsed = JSON.parse(value) as Partial<WorkerCapabilities>;
+    return {
+      features: Array.isArray(parsed.features) ? parsed.features : [],
+      shells: Array.isArray(parsed.shells) ? parsed.shells : [],
+    };
+  } catch {
+    return legacyCapabilities();
+  }
+};
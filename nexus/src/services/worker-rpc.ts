@@ -0,0 +1,62 @@
+import type { Server } from 'socket.io';
+import { workers } from '../socket';
+
+/**
+ * Request/response calls to a connected worker over its socket (Socket.IO
+ * acks). Workers reply with the result or `{ error: <code> }`; errno codes
+ * come straight from the worker's filesystem calls.
+ */
+
+export const WORKER_RPC_TIMEOUT_MS = Number(process.env.WORKER_RPC_TIMEOUT_MS || 15000);
+
+/** Error reply; some codes carry where to resume (`offset`) or the file's current state. */
+export interface WorkerError {
+  error: string;
+  offset?: number;
+  hash?: string;
+  mtime?: number;
+}
+
+export type WorkerReply<T> = (T & { error?: undefined }) | WorkerError;
+
+export async function callWorker<T>(
+  io: Server | undefined,
+  workerId: string,
+  event: string,
+  payload: Record<string, unknown>,
+  timeoutMs = WORKER_RPC_TIMEOUT_MS
+): Promise<WorkerReply<T>> {
+  const worker = workers.get(workerId);
+  const socket = worker ? io?.sockets.sockets.get(worker.socketId) : undefined;
+  if (!socket) return { error: 'OFFLINE' };
+  try {
+    const reply = await socket.timeout(timeoutMs).emitWithAck(event, payload);
+    return reply && typeof reply === 'object' ? reply as WorkerReply<T> : { error: 'EPROTO' };
+  } catch {
+    return { error: 'ETIMEDOUT' };
+  }
+}
+
+const WORKER_ERRORS: Record<string, [number, string]> = {
+  OFFLINE: [409, 'El worker no está conectado'],
+  ETIMEDOUT: [504, 'El worker no respondió a tiempo'],
+  EPROTO: [502, 'Respuesta inválida del worker'],
+  ENOENT: [404, 'Archivo o directorio no encontrado'],
+  EACCES: [403, 'El usuario del worker no tiene permisos sobre esa ruta'],
+  EPERM: [403, 'El usuario del worker no tiene permisos sobre esa ruta'],
+  EISDIR: [400, 'La ruta es un directorio'],
+  ENOTDIR: [400, 'La ruta no es un directorio'],
+  EEXIST: [409, 'Ya existe un archivo con ese nombre'],
+  ENOSPC: [507, 'El worker se quedó sin espacio'],
+  EINVAL: [400, 'Nombre o ruta inválidos'],
+  EOFFSET: [409, 'El fragmento no corresponde al offset actual'],
+  EFBIG: [413, 'El archivo es demasiado grande para editarlo en el navegador'],
+  EBINARY: [415, 'El archivo parece binario; descárgalo en lugar de editarlo'],
+  ECONFLICT: [412, 'El archivo cambió en el worker desde que lo abriste'],
+};
+
+/** HTTP status and message for a worker error code. */
+export const describeWorkerError = (code: string): { status: number; error: string } => {
+  const [status, error] = WORKER_ERRORS[code] || [502, `Error del worker (${code})`];
+  return { status, error };
+};
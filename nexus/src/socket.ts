@@ -1,11 +1,35 @@
 
 import { Server, Socket } from 'socket.io';
-import { verifyToken, JwtPayload } from './utils/jwt';
+import { verifyToken, verifySpectatorToken, JwtPayload, SpectatorPayload } from './utils/jwt';
 import { WorkerModel, Worker } from './models/worker.model';
 import { UserModel } from './models/user.model';
-import { getUserPlan, canOpenSession } from './services/plan-limits';
+import { getSessionLimit, canOpenSession, canRecordSession } from './services/plan-limits';
 import { OrderedRelayQueue } from './services/ordered-relay';
-import db from './config/database';
+import { WorkerFeature, parseWorkerHandshake, checkWorkerProtocol } from './services/worker-protocol';
+import { OutputFlowControl, OUTPUT_HIGH_WATERMARK } from './services/output-flow';
+import { SubscriberOutputQueues, QueuedOutput } from './services/subscriber-queue';
+import {
+  WorkerMetrics,
+  parseWorkerMetrics,
+  recordWorkerMetrics,
+  getWorkerMetrics,
+  forgetWorkerMetrics,
+} from './services/worker-metrics';
+import { SessionModel } from './models/session.model';
+import { SessionShareModel, SessionGrant } from './models/session-share.model';
+import { SpectatorLinkModel } from './models/spectator-link.model';
+import {
+  SessionOutputBuffer,
+  OutputSince,
+  OutputEncoding,
+  toOutputBytes,
+  decodeOutputText,
+} from './services/output-buffer';
+import { RecordingService, SessionRecorder } from './services/recording.service';
+import { recordAudit } from './services/audit.service';
+import { relayTunnelEvent, closeTunnelStreams } from './services/tunnel';
+import { relayExecEvent, abortWorkerExecs } from './services/exec';
+import { forgetWorkerUploads } from './services/uploads';
 
 /**
  * Data attached to the socket instance.
@@ -14,10 +38,34 @@ interface SocketData {
   role: 'client' | 'worker';
   user?: JwtPayload;
   workerId?: string;
+  // Presence of client sockets: what they run on, whether the tab reported
+  // itself idle and when/how they attached to each session key.
+  device?: 'desktop' | 'mobile';
+  idle?: boolean;
+  joined?: Map<string, { joinedAt: number; permission: 'view' | 'control' }>;
+  // Clients that negotiated 'binary' get the raw PTY bytes; the rest, UTF-8 text.
+  encoding?: OutputEncoding;
+  // Acks processed output with `output-ack`, so it counts for flow control.
+  flowControl?: boolean;
+}
+
+/** One client socket attached to a session, as other participants see it. */
+interface SessionViewer {
+  socketId: string;
+  userId: number;
+  username: string;
+  device: 'desktop' | 'mobile';
+  permission: 'view' | 'control';
+  joinedAt: number;
+  idle: boolean;
 }
 
 export const workers: Map<string, Worker & { socketId: string }> = new Map();
 
+/** Whether a connected worker announced `feature`; offline workers support nothing. */
+export const workerSupports = (workerId: string, feature: WorkerFeature): boolean =>
+  workers.get(workerId)?.capabilities.features.includes(feature) ?? false;
+
 const applyRuntimeWorkerStatus = <T extends Pick<Worker, 'id' | 'status'>>(workerList: T[]): Array<T & { status: 'online' | 'offline' }> => {
   return workerList.map((worker) => ({
     ...worker,
@@ -31,40 +79,101 @@ const applyRuntimeWorkerStatus = <T extends Pick<Worker, 'id' | 'status'>>(worke
 interface ActiveSession {
   id: string;
   workerId: string;
-  output: string;
+  output: SessionOutputBuffer;
   displayName: string;
   workerName: string;
   workerKey: string;
   createdAt: number;
   lastActive: number;
   creatorUserId?: number;
+  // Runtime PTY details, known once the worker announces the session.
+  cols?: number;
+  rows?: number;
+  kind?: 'shell' | 'tui';
+  pid?: number;
+  // Asciicast writer while the session is being recorded.
+  recorder?: SessionRecorder;
+  // Driver seat: the only client socket whose input reaches the PTY, plus the
+  // sockets waiting for it. Runtime only, it never survives a restart.
+  driver?: SessionSeat;
+  controlRequests?: Map<string, SessionSeat>;
+}
+
+interface SessionSeat {
+  socketId: string;
+  userId: number;
+  username: string;
+}
+
+/** Live PTY as reported by a worker in `session-announce`. */
+interface AnnouncedSession {
+  sessionId?: string;
+  cols?: number;
+  rows?: number;
+  kind?: string;
+  pid?: number;
+  startedAt?: number;
 }
+
 interface PendingOutput {
   workerId: string;
   sessionId: string;
-  output: string;
+  output: Buffer;
+  // Produced while the worker was disconnected and replayed from its spool.
+  spooled?: boolean;
 }
 const activeSessions: Map<string, ActiveSession> = new Map();
+const pendingSessionCreations = new Map<string, Promise<ActiveSession>>();
 const sessionSubscribers: Map<string, Set<string>> = new Map();
 const outputRelay = new OrderedRelayQueue<PendingOutput>();
+const outputFlow = new OutputFlowControl();
+const subscriberQueues = new SubscriberOutputQueues();
 const SESSION_LIST_DEBOUNCE_MS = Number(process.env.SESSION_LIST_DEBOUNCE_MS || 500);
+const SESSION_PERSIST_DEBOUNCE_MS = Number(process.env.SESSION_PERSIST_DEBOUNCE_MS || 2000);
 const ACCESS_CACHE_TTL_MS = Number(process.env.ACCESS_CACHE_TTL_MS || 2000);
+const SESSION_OUTPUT_MAX_BYTES = Number(process.env.SESSION_OUTPUT_MAX_BYTES || 128 * 1024);
+// Workers that predate `nexus-stopping` never ack it; don't hold a shutdown for them.
+const WORKER_HOLD_TIMEOUT_MS = Number(process.env.WORKER_HOLD_TIMEOUT_MS || 2000);
 let sessionListDirty = false;
 let sessionListTimer: NodeJS.Timeout | null = null;
-const workerAccessCache = new Map<number, { ts: number; workerIds: Set<string> }>();
+const pendingSessionWrites = new Set<string>();
+let sessionPersistTimer: NodeJS.Timeout | null = null;
+const workerAccessCache = new Map<number, { ts: number; workerIds: Set<string>; grants: Map<string, SessionGrant> }>();
 
 const sessionKey = (workerId: string, sessionId: string) => `${workerId}:${sessionId}`;
 
+// Anonymous spectators live in their own namespace: they can only receive the
+// output of one session, never emit anything.
+const SPECTATE_NAMESPACE = '/spectate';
+const spectatorSessionRoom = (key: string) => `session:${key}`;
+const spectatorLinkRoom = (linkId: string) => `link:${linkId}`;
+// Spectators that negotiated raw bytes; the session room minus this one gets text.
+const spectatorBinaryRoom = (key: string) => `binary:${key}`;
+
 const normalizeSessionId = (sessionId?: string) => {
   const trimmed = sessionId?.trim();
   return trimmed && trimmed.length > 0 ? trimmed : 'default';
 };
 
+/** Worker access, or a redeemed share link for this one session. */
+const canAccessSession = async (
+  userId: number,
+  workerId: string,
+  sessionId: string,
+  requiredPermission: 'view' | 'control'
+): Promise<boolean> => {
+  if (await WorkerModel.hasAccess(userId, workerId, requiredPermission)) return true;
+  return SessionShareModel.hasGrant(userId, workerId, sessionId, requiredPermission);
+};
+
+/** Returns whether the socket was not subscribed yet. */
 const addSessionSubscriber = (workerId: string, sessionId: string, socketId: string) => {
   const key = sessionKey(workerId, sessionId);
   const set = sessionSubscribers.get(key) || new Set<string>();
+  const added = !set.has(socketId);
   set.add(socketId);
   sessionSubscribers.set(key, set);
+  return added;
 };
 
 const removeSessionSubscriber = (workerId: string, sessionId: string, socketId: string) => {
@@ -91,6 +200,202 @@ const removeSocketFromAllSessions = (socketId: string) => {
   return removedSessionKeys;
 };
 
+const persistSession = async (session: ActiveSession) => {
+  try {
+    await SessionModel.upsert({
+      id: session.id,
+      workerId: session.workerId,
+      userId: session.creatorUserId,
+      displayName: session.displayName,
+      createdAt: session.createdAt,
+      lastActiveAt: session.lastActive,
+    });
+  } catch (err) {
+    console.error('[Socket] Failed to persist session:', err);
+  }
+};
+
+const stopSessionRecording = async (session: ActiveSession) => {
+  const recorder = session.recorder;
+  if (!recorder) return;
+  session.recorder = undefined;
+  try {
+    await RecordingService.finish(recorder);
+  } catch (err) {
+    console.error('[Socket] Failed to finish recording:', err);
+  }
+};
+
+/**
+ * Pauses or resumes the session's PTY when its acking subscribers cross the
+ * watermarks. Workers without the 'flow' capability just keep streaming.
+ */
+const applyOutputFlow = (io: Server, key: string) => {
+  const session = activeSessions.get(key);
+  const worker = session ? workers.get(session.workerId) : undefined;
+  if (!session || !worker || !workerSupports(worker.id, 'flow')) return;
+  const acking = Array.from(sessionSubscribers.get(key) ?? []).filter(
+    (socketId) => (io.sockets.sockets.get(socketId)?.data as SocketData | undefined)?.flowControl === true
+  );
+  const transition = outputFlow.update(key, acking);
+  if (transition) {
+    io.to(worker.socketId).emit(transition === 'pause' ? 'pause-output' : 'resume-output', { sessionId: session.id });
+  }
+};
+
+const seatOf = (socket: Socket): SessionSeat | null => {
+  const socketData = socket.data as SocketData;
+  if (socketData.role !== 'client' || !socketData.user) return null;
+  return { socketId: socket.id, userId: socketData.user.userId, username: socketData.user.username };
+};
+
+// Every subscriber gets its own view of the seat: only the driver sees the
+// pending requests it has to answer.
+const emitControlState = (io: Server, key: string) => {
+  const session = activeSessions.get(key);
+  const subscribers = sessionSubscribers.get(key);
+  if (!session) return;
+  if (session.driver && !subscribers?.has(session.driver.socketId)) session.driver = undefined;
+  for (const socketId of Array.from(session.controlRequests?.keys() ?? [])) {
+    if (!subscribers?.has(socketId)) session.controlRequests?.delete(socketId);
+  }
+  if (!subscribers) return;
+
+  const watchers = Array.from(subscribers)
+    .filter((socketId) => socketId !== session.driver?.socketId)
+    .map((socketId) => io.sockets.sockets.get(socketId))
+    .map((client) => (client ? seatOf(client) : null))
+    .filter((seat): seat is SessionSeat => Boolean(seat))
+    .map(({ socketId, username }) => ({ socketId, username }));
+  const requests = Array.from(session.controlRequests?.values() ?? [])
+    .map(({ socketId, username }) => ({ socketId, username }));
+
+  for (const socketId of subscribers) {
+    const isDriver = session.driver?.socketId === socketId;
+    io.to(socketId).emit('control-state', {
+      workerId: session.workerId,
+      sessionId: session.id,
+      driver: session.driver ? { userId: session.driver.userId, username: session.driver.username } : null,
+      isDriver,
+      requested: session.controlRequests?.has(socketId) ?? false,
+      requests: isDriver ? requests : [],
+      watchers,
+    });
+  }
+};
+
+const forgetSession = async (workerId: string, sessionId: string) => {
+  const key = sessionKey(workerId, sessionId);
+  const session = activeSessions.get(key);
+  activeSessions.delete(key);
+  if (session) await stopSessionRecording(session);
+  pendingSessionWrites.delete(key);
+  outputFlow.forgetSession(key);
+  subscriberQueues.forgetSession(key);
+  try {
+    await SessionModel.delete(workerId, sessionId);
+    await SessionShareModel.deleteBySession(workerId, sessionId);
+    await SpectatorLinkModel.deleteBySession(workerId, sessionId);
+  } catch (err) {
+    console.error('[Socket] Failed to delete session:', err);
+  }
+};
+
+/**
+ * Writes the replay buffer of every session touched since the last flush.
+ * Output arrives in bursts, so rows are refreshed on a debounce instead of
+ * once per relayed batch.
+ */
+export const flushPendingSessionWrites = async (): Promise<void> => {
+  if (sessionPersistTimer) {
+    clearTimeout(sessionPersistTimer);
+    sessionPersistTimer = null;
+  }
+  const keys = Array.from(pendingSessionWrites);
+  pendingSessionWrites.clear();
+  for (const key of keys) {
+    const session = activeSessions.get(key);
+    if (!session) continue;
+    try {
+      await SessionModel.updateOutput(
+        session.workerId,
+        session.id,
+        session.output.snapshot(),
+        session.output.seq,
+        session.lastActive
+      );
+    } catch (err) {
+      console.error('[Socket] Failed to persist session output:', err);
+    }
+  }
+};
+
+/**
+ * Before a shutdown: asks workers to keep new output in their spools and waits
+ * until what they already sent is in the session buffers. Their ack travels
+ * behind that output, so once it arrives nothing is left on the wire.
+ */
+export const holdWorkerOutput = async (io: Server): Promise<void> => {
+  await Promise.all(Array.from(workers.entries())
+    .filter(([workerId]) => workerSupports(workerId, 'spool'))
+    .map(([, worker]) => io.sockets.sockets.get(worker.socketId)
+      ?.timeout(WORKER_HOLD_TIMEOUT_MS)
+      .emitWithAck('nexus-stopping', {})
+      .catch(() => undefined)));
+  await outputRelay.idle();
+};
+
+const scheduleSessionPersist = (key: string) => {
+  pendingSessionWrites.add(key);
+  if (sessionPersistTimer) return;
+  sessionPersistTimer = setTimeout(() => {
+    sessionPersistTimer = null;
+    flushPendingSessionWrites().catch(console.error);
+  }, SESSION_PERSIST_DEBOUNCE_MS);
+};
+
+/**
+ * Rebuilds the in-memory session map from the `sessions` table. Called once at
+ * boot, before the Socket.IO server accepts connections.
+ */
+export const restoreActiveSessions = async (): Promise<number> => {
+  const rows = await SessionModel.listAll();
+  for (const row of rows) {
+    if (!row.worker_name) {
+      // Worker borrado mientras Nexus estaba caído.
+      await SessionModel.delete(row.worker_id, row.id);
+      continue;
+    }
+    activeSessions.set(sessionKey(row.worker_id, row.id), {
+      id: row.id,
+      workerId: row.worker_id,
+      output: new SessionOutputBuffer(SESSION_OUTPUT_MAX_BYTES, { data: row.output, seq: row.output_seq }),
+      displayName: row.display_name,
+      workerName: row.worker_name,
+      workerKey: row.worker_name.toLowerCase(),
+      createdAt: row.created_at,
+      lastActive: row.last_active_at,
+      creatorUserId: row.user_id ?? undefined,
+    });
+  }
+  return activeSessions.size;
+};
+
+/** Drops the in-memory sessions of a deleted worker (rows go with WorkerModel.delete). */
+export const forgetWorkerSessions = (workerId: string, io?: Server): void => {
+  for (const [key, session] of activeSessions.entries()) {
+    if (session.workerId !== workerId) continue;
+    io?.of(SPECTATE_NAMESPACE).in(spectatorSessionRoom(key)).disconnectSockets();
+    // The recording rows cascade with the worker; just release the file.
+    void session.recorder?.close();
+    activeSessions.delete(key);
+    pendingSessionWrites.delete(key);
+    sessionSubscribers.delete(key);
+    outputFlow.forgetSession(key);
+    subscriberQueues.forgetSession(key);
+  }
+};
+
 export const invalidateWorkerAccessCache = (userId?: number): void => {
   if (userId === undefined) {
     workerAccessCache.clear();
@@ -99,24 +404,75 @@ export const invalidateWorkerAccessCache = (userId?: number): void => {
   workerAccessCache.delete(userId);
 };
 
+/** Live sessions a user created, across all of their sockets, devices and workers. */
+export const listUserSessions = (userId: number) => Array.from(activeSessions.values())
+  .filter((session) => session.creatorUserId === userId)
+  .map((session) => ({
+    workerId: session.workerId,
+    workerName: session.workerName,
+    sessionId: session.id,
+    displayName: session.displayName,
+    createdAt: session.createdAt,
+    lastActiveAt: session.lastActive,
+  }));
+
+/** Client sockets falling behind on a session's output, for the lag metrics. */
+export const listLaggingSubscribers = (io: Server | undefined) => subscriberQueues.lagging().flatMap((lag) => {
+  const session = activeSessions.get(lag.key);
+  if (!session) return [];
+  const socketData = io?.sockets.sockets.get(lag.socketId)?.data as SocketData | undefined;
+  return [{
+    workerId: session.workerId,
+    sessionId: session.id,
+    socketId: lag.socketId,
+    userId: socketData?.user?.userId ?? null,
+    device: socketData?.device ?? null,
+    unackedBytes: outputFlow.pending(lag.key, lag.socketId),
+    queuedBytes: lag.queuedBytes,
+    queuedChunks: lag.queuedChunks,
+    drops: lag.drops,
+    resyncing: lag.resyncing,
+    laggingSince: lag.laggingSince,
+  }];
+});
+
+/** Viewers currently connected through one spectator link. */
+export const countSpectators = (io: Server | undefined, linkId: string): number =>
+  io?.of(SPECTATE_NAMESPACE).adapter.rooms.get(spectatorLinkRoom(linkId))?.size ?? 0;
+
+/** Cuts every viewer of a revoked spectator link right away. */
+export const disconnectSpectatorLink = (io: Server | undefined, linkId: string): void => {
+  if (!io) return;
+  const spectators = io.of(SPECTATE_NAMESPACE);
+  spectators.to(spectatorLinkRoom(linkId)).emit('link-revoked');
+  spectators.in(spectatorLinkRoom(linkId)).disconnectSockets();
+};
+
 export const evictUserSubscriptions = (
   io: Server | undefined,
   userId: number,
   workerId?: string
 ): void => {
   invalidateWorkerAccessCache(userId);
+  closeTunnelStreams(workerId ? { userId, workerId } : { userId }, 'EACCES');
   if (!io) return;
   for (const [key, set] of sessionSubscribers.entries()) {
     const session = activeSessions.get(key);
     if (!session || (workerId && session.workerId !== workerId)) continue;
+    let evicted = false;
     for (const socketId of Array.from(set)) {
       const socket = io.sockets.sockets.get(socketId);
       const socketData = socket?.data as SocketData | undefined;
       if (socketData?.role === 'client' && socketData.user?.userId === userId) {
         set.delete(socketId);
+        evicted = true;
       }
     }
     if (set.size === 0) sessionSubscribers.delete(key);
+    // Un suscriptor expulsado no puede seguir frenando el PTY.
+    if (outputFlow.isPaused(key)) applyOutputFlow(io, key);
+    // Ni conservar el asiento del driver: queda libre para quien siga.
+    if (evicted) emitControlState(io, key);
   }
 };
 
@@ -131,6 +487,8 @@ export const initSocket = (httpServer: any) => {
       origin: '*',
       methods: ['GET', 'POST'],
     },
+    // Upgrades under /tunnels/ belong to the tunnel proxy (see index.ts).
+    destroyUpgrade: false,
     // Enforce compression for terminal streams
     perMessageDeflate: {
       threshold: 1024,
@@ -148,6 +506,14 @@ export const initSocket = (httpServer: any) => {
     if (socketData.role === 'client' && socketData.user) {
       const list = await WorkerModel.getAccessibleWorkers(socketData.user.userId);
       emitWorkerList(socket, applyRuntimeWorkerStatus(list));
+      // The history rides apart from the list so clients can keep it out of
+      // persisted state; live samples follow as `worker-metrics`.
+      const history: Record<string, WorkerMetrics[]> = {};
+      for (const worker of list) {
+        const samples = getWorkerMetrics(worker.id);
+        if (samples.length > 0) history[worker.id] = samples;
+      }
+      socket.emit('worker-metrics-history', history);
     }
   };
 
@@ -163,7 +529,8 @@ export const initSocket = (httpServer: any) => {
       const client = io.sockets.sockets.get(socketId);
       const socketData = client?.data as SocketData | undefined;
       if (!client || socketData?.role !== 'client' || !socketData.user) return null;
-      const hasAccess = await WorkerModel.hasAccess(socketData.user.userId, workerId, requiredPermission);
+      const sessionId = subscriberKey.slice(workerId.length + 1);
+      const hasAccess = await canAccessSession(socketData.user.userId, workerId, sessionId, requiredPermission);
       return hasAccess ? socketId : null;
     }));
 
@@ -176,6 +543,111 @@ export const initSocket = (httpServer: any) => {
     return allowedIds;
   };
 
+  // Only opening a new key, or claiming one nobody created, counts against the
+  // plan; joining an existing session, even someone else's, never does.
+  const checkSessionQuota = async (client: Socket, userId: number, key: string, claiming = false): Promise<boolean> => {
+    const existing = activeSessions.get(key);
+    if (existing ? !claiming || existing.creatorUserId : pendingSessionCreations.has(key)) return true;
+    const { plan, max } = await getSessionLimit(userId);
+    const sessionCheck = canOpenSession(plan, listUserSessions(userId).length, max);
+    if (sessionCheck.allowed) return true;
+    client.emit('plan-limit', {
+      code: 'PLAN_LIMIT_SESSIONS',
+      message: sessionCheck.reason,
+      current: sessionCheck.current,
+      max: sessionCheck.max,
+    });
+    return false;
+  };
+
+  const viewerOf = (client: Socket, key: string): SessionViewer | null => {
+    const socketData = client.data as SocketData;
+    if (socketData.role !== 'client' || !socketData.user) return null;
+    const joined = socketData.joined?.get(key);
+    return {
+      socketId: client.id,
+      userId: socketData.user.userId,
+      username: socketData.user.username,
+      device: socketData.device ?? 'desktop',
+      permission: joined?.permission ?? 'view',
+      joinedAt: joined?.joinedAt ?? Date.now(),
+      idle: socketData.idle === true,
+    };
+  };
+
+  const sessionViewers = (key: string): SessionViewer[] => Array.from(sessionSubscribers.get(key) ?? [])
+    .map((socketId) => io.sockets.sockets.get(socketId))
+    .map((client) => (client ? viewerOf(client, key) : null))
+    .filter((viewer): viewer is SessionViewer => Boolean(viewer));
+
+  // Join/leave notices go to the rest of the session; the list itself travels
+  // in `session-list`.
+  const announcePresence = (key: string, client: Socket, event: 'join' | 'leave') => {
+    const session = activeSessions.get(key);
+    const viewer = viewerOf(client, key);
+    const others = Array.from(sessionSubscribers.get(key) ?? []).filter((socketId) => socketId !== client.id);
+    if (!session || !viewer || others.length === 0) return;
+    io.to(others).emit('session-presence', { workerId: session.workerId, sessionId: session.id, event, viewer });
+  };
+
+  const clientDataOf = (socketId: string) => io.sockets.sockets.get(socketId)?.data as SocketData | undefined;
+
+  /** Sends output to client sockets in their negotiated encoding, charging flow control. */
+  const emitOutput = (key: string, workerId: string, sessionId: string, socketIds: string[], items: QueuedOutput[]) => {
+    if (socketIds.length === 0) return;
+    const binaryIds = socketIds.filter((socketId) => clientDataOf(socketId)?.encoding === 'binary');
+    const textIds = socketIds.filter((socketId) => !binaryIds.includes(socketId));
+    const ackingIds = socketIds.filter((socketId) => clientDataOf(socketId)?.flowControl === true);
+    for (const item of items) {
+      const payload = { workerId, sessionId, seq: item.seq, ...(item.spooled ? { spooled: true } : {}) };
+      if (binaryIds.length > 0) io.to(binaryIds).emit('output', { ...payload, data: item.output });
+      if (textIds.length > 0) io.to(textIds).emit('output', { ...payload, data: item.text });
+      for (const socketId of ackingIds) {
+        const binary = binaryIds.includes(socketId);
+        outputFlow.sent(key, socketId, binary ? item.output.length : Buffer.byteLength(item.text));
+      }
+    }
+  };
+
+  // Cola desbordada: el cliente se redibuja desde el buffer de replay.
+  const handleLaggingSubscriber = (socketId: string, workerId: string, sessionId: string) => {
+    const client = io.sockets.sockets.get(socketId);
+    if (!client) return;
+    const disconnect = subscriberQueues.policy === 'disconnect';
+    console.warn(`[Socket] Subscriber ${socketId} lagging on ${sessionKey(workerId, sessionId)}; ${disconnect ? 'disconnecting' : 'asking for resync'}`);
+    client.emit('output-resync', { workerId, sessionId, reason: 'lagging', ...(disconnect ? { disconnect: true } : {}) });
+    if (disconnect) client.disconnect(true);
+  };
+
+  /** Subscribes a client socket and tells the session. Returns whether it is new. */
+  const attachSubscriber = (client: Socket, workerId: string, sessionId: string, permission: 'view' | 'control') => {
+    const key = sessionKey(workerId, sessionId);
+    if (!addSessionSubscriber(workerId, sessionId, client.id)) return false;
+    const socketData = client.data as SocketData;
+    (socketData.joined ||= new Map()).set(key, { joinedAt: Date.now(), permission });
+    announcePresence(key, client, 'join');
+    scheduleSessionListBroadcast(true);
+    return true;
+  };
+
+  const detachSubscriber = (client: Socket, key: string) => {
+    outputFlow.forgetSubscriber(key, client.id);
+    subscriberQueues.forgetSubscriber(key, client.id);
+    applyOutputFlow(io, key);
+    announcePresence(key, client, 'leave');
+    (client.data as SocketData).joined?.delete(key);
+    emitControlState(io, key);
+    scheduleSessionListBroadcast(true);
+  };
+
+  const setDriver = (key: string, seat: SessionSeat | undefined) => {
+    const session = activeSessions.get(key);
+    if (!session) return;
+    session.driver = seat;
+    if (seat) session.controlRequests?.delete(seat.socketId);
+    emitControlState(io, key);
+  };
+
   const broadcastWorkerUpdates = () => {
     io.sockets.sockets.forEach((socket) => {
       sendWorkerListToSocket(socket).catch(console.error);
@@ -183,6 +655,32 @@ export const initSocket = (httpServer: any) => {
   };
 
 
+  const getWorkerAccess = async (userId: number) => {
+    const cached = workerAccessCache.get(userId);
+    if (cached && Date.now() - cached.ts < ACCESS_CACHE_TTL_MS) return cached;
+    const accessibleWorkers = await WorkerModel.getAccessibleWorkers(userId);
+    const grantList = await SessionShareModel.listGrants(userId);
+    const entry = {
+      ts: Date.now(),
+      workerIds: new Set(accessibleWorkers.map((w) => w.id)),
+      grants: new Map(grantList.map((grant) => [sessionKey(grant.worker_id, grant.session_id), grant])),
+    };
+    workerAccessCache.set(userId, entry);
+    return entry;
+  };
+
+  // Metrics go to whoever can see the worker; a session-only grant is not enough.
+  const broadcastWorkerMetrics = async (workerId: string, metrics: WorkerMetrics) => {
+    const recipients = await Promise.all(Array.from(io.sockets.sockets.values()).map(async (client) => {
+      const socketData = client.data as SocketData;
+      if (socketData.role !== 'client' || !socketData.user) return null;
+      const { workerIds } = await getWorkerAccess(socketData.user.userId);
+      return workerIds.has(workerId) ? client.id : null;
+    }));
+    const socketIds = recipients.filter((socketId): socketId is string => Boolean(socketId));
+    if (socketIds.length > 0) io.to(socketIds).emit('worker-metrics', { workerId, metrics });
+  };
+
   const broadcastSessionList = async () => {
     const sessionsByWorker = new Map<string, ActiveSession[]>();
     for (const session of activeSessions.values()) {
@@ -191,21 +689,15 @@ export const initSocket = (httpServer: any) => {
       sessionsByWorker.set(session.workerId, list);
     }
 
+    const viewersByKey = new Map<string, SessionViewer[]>();
+    for (const key of sessionSubscribers.keys()) viewersByKey.set(key, sessionViewers(key));
+
     const sockets = Array.from(io.sockets.sockets.values());
     await Promise.all(sockets.map(async (socket) => {
       const socketData = socket.data as SocketData;
       if (socketData.role !== 'client' || !socketData.user) return;
 
-      const userId = socketData.user.userId;
-      const cached = workerAccessCache.get(userId);
-      let allowedWorkerIds: Set<string>;
-      if (cached && Date.now() - cached.ts < ACCESS_CACHE_TTL_MS) {
-        allowedWorkerIds = cached.workerIds;
-      } else {
-        const accessibleWorkers = await WorkerModel.getAccessibleWorkers(userId);
-        allowedWorkerIds = new Set(accessibleWorkers.map((w) => w.id));
-        workerAccessCache.set(userId, { ts: Date.now(), workerIds: allowedWorkerIds });
-      }
+      const { workerIds: allowedWorkerIds, grants } = await getWorkerAccess(socketData.user.userId);
 
       const filtered: Array<{
         id: string;
@@ -216,11 +708,21 @@ export const initSocket = (httpServer: any) => {
         createdAt: number;
         lastActiveAt: number;
         creatorUserId?: number;
+        cols?: number;
+        rows?: number;
+        kind?: 'shell' | 'tui';
+        recording: boolean;
+        // Set when the session is only reachable through a share link.
+        grant?: 'view' | 'control';
+        spectators: number;
+        viewers: SessionViewer[];
       }> = [];
 
       for (const [workerId, sessions] of sessionsByWorker.entries()) {
-        if (!allowedWorkerIds.has(workerId)) continue;
+        const workerAllowed = allowedWorkerIds.has(workerId);
         sessions.forEach((s) => {
+          const grant = workerAllowed ? undefined : grants.get(sessionKey(workerId, s.id));
+          if (!workerAllowed && !grant) return;
           filtered.push({
             id: s.id,
             workerId,
@@ -230,6 +732,13 @@ export const initSocket = (httpServer: any) => {
             createdAt: s.createdAt,
             lastActiveAt: s.lastActive,
             creatorUserId: s.creatorUserId,
+            cols: s.cols,
+            rows: s.rows,
+            kind: s.kind,
+            recording: Boolean(s.recorder),
+            ...(grant ? { grant: grant.permission } : {}),
+            spectators: spectators.adapter.rooms.get(spectatorSessionRoom(sessionKey(workerId, s.id)))?.size ?? 0,
+            viewers: (viewersByKey.get(sessionKey(workerId, s.id)) ?? []).filter((viewer) => viewer.socketId !== socket.id),
           });
         });
       }
@@ -259,16 +768,70 @@ export const initSocket = (httpServer: any) => {
     }, SESSION_LIST_DEBOUNCE_MS);
   };
 
-  const ensureActiveSession = async (workerId: string, sessionIdRaw?: string, displayName?: string, userId?: number) => {
-    const sessionId = normalizeSessionId(sessionIdRaw);
-    const key = sessionKey(workerId, sessionId);
-    let existing = activeSessions.get(key);
-    if (existing) {
-      // Update creatorUserId if not set yet and we have it now
-      if (!existing.creatorUserId && userId) existing.creatorUserId = userId;
-      return existing;
+  const spectators = io.of(SPECTATE_NAMESPACE);
+
+  const endSpectators = (key: string) => {
+    spectators.to(spectatorSessionRoom(key)).emit('session-ended');
+    spectators.in(spectatorSessionRoom(key)).disconnectSockets();
+  };
+
+  spectators.use(async (socket, next) => {
+    const { token, encoding } = (socket.handshake.auth || {}) as { token?: string; encoding?: string };
+    if (!token) return next(new Error('Missing token'));
+    let payload: SpectatorPayload;
+    try {
+      payload = verifySpectatorToken(token);
+    } catch {
+      return next(new Error('Enlace inválido o expirado'));
+    }
+    // The signature proves the link existed; the row says whether it still does.
+    const link = await SpectatorLinkModel.findById(payload.linkId);
+    if (!link || link.revoked_at !== null || link.expires_at <= Date.now()
+      || link.worker_id !== payload.workerId || link.session_id !== payload.sessionId) {
+      return next(new Error('Enlace revocado o expirado'));
+    }
+    socket.data = { ...payload, expiresAt: link.expires_at, encoding: encoding === 'binary' ? 'binary' : 'utf8' };
+    return next();
+  });
+
+  spectators.on('connection', (socket) => {
+    const link = socket.data as SpectatorPayload & { expiresAt: number; encoding: OutputEncoding };
+    const key = sessionKey(link.workerId, link.sessionId);
+    const session = activeSessions.get(key);
+    if (!session) {
+      socket.emit('session-ended');
+      socket.disconnect();
+      return;
     }
+    const binary = link.encoding === 'binary';
+    socket.join([
+      spectatorSessionRoom(key),
+      spectatorLinkRoom(link.linkId),
+      ...(binary ? [spectatorBinaryRoom(key)] : []),
+    ]);
+    const snapshot = session.output.snapshot();
+    socket.emit('snapshot', {
+      title: session.displayName,
+      cols: session.cols,
+      rows: session.rows,
+      data: binary ? snapshot : decodeOutputText(snapshot),
+      seq: session.output.seq,
+    });
+    const expiry = setTimeout(() => socket.disconnect(), Math.max(0, link.expiresAt - Date.now()));
+    socket.on('disconnect', () => {
+      clearTimeout(expiry);
+      scheduleSessionListBroadcast(true);
+    });
+    scheduleSessionListBroadcast(true);
+  });
 
+  const createActiveSession = async (
+    workerId: string,
+    sessionId: string,
+    displayName: string | undefined,
+    userId: number | undefined,
+    createdAt: number
+  ): Promise<ActiveSession> => {
     // Try to get name from connected workers cache first (sync)
     let workerName = 'Worker';
     const connectedWorker = workers.get(workerId);
@@ -280,23 +843,60 @@ export const initSocket = (httpServer: any) => {
     }
 
     const workerKey = workerName.toLowerCase();
-    existing = {
+    const session: ActiveSession = {
       id: sessionId,
       workerId,
-      output: '',
+      output: new SessionOutputBuffer(SESSION_OUTPUT_MAX_BYTES),
       displayName: displayName || sessionId,
       workerName,
       workerKey,
-      createdAt: Date.now(),
+      createdAt,
       lastActive: Date.now(),
       creatorUserId: userId,
     };
-    activeSessions.set(key, existing);
+    activeSessions.set(sessionKey(workerId, sessionId), session);
+    await persistSession(session);
+    // Sessions rebuilt from worker announcements/output have no acting user.
+    if (userId) {
+      await recordAudit('session.create', { userId, workerId, data: { sessionId, displayName: session.displayName } });
+    }
+    return session;
+  };
+
+  const ensureActiveSession = async (
+    workerId: string,
+    sessionIdRaw?: string,
+    displayName?: string,
+    userId?: number,
+    createdAt = Date.now()
+  ) => {
+    const sessionId = normalizeSessionId(sessionIdRaw);
+    const key = sessionKey(workerId, sessionId);
+    let existing = activeSessions.get(key);
+    if (!existing) {
+      // Announcements, replayed output and client joins can race for the same
+      // key; share one creation so nobody appends to a discarded object.
+      let pending = pendingSessionCreations.get(key);
+      if (!pending) {
+        pending = createActiveSession(workerId, sessionId, displayName, userId, createdAt)
+          .finally(() => pendingSessionCreations.delete(key));
+        pendingSessionCreations.set(key, pending);
+      }
+      existing = await pending;
+    }
     return existing;
   };
 
+  // Announced or restored sessions have no creator until someone with control
+  // creates or types into them; joining never claims one.
+  const claimSession = async (session: ActiveSession, userId: number) => {
+    if (session.creatorUserId) return;
+    session.creatorUserId = userId;
+    await persistSession(session);
+  };
+
   io.use(async (socket, next) => {
-    const { token, type, apiKey, workerName } = (socket.handshake.auth || {}) as any;
+    const { token, type, apiKey, workerName, encoding, flowControl } = (socket.handshake.auth || {}) as any;
 
 
     try {
@@ -310,7 +910,14 @@ export const initSocket = (httpServer: any) => {
           return next(new Error('User invalid or no longer exists'));
         }
 
-        socket.data = { role: 'client', user: payload } as SocketData;
+        const userAgent = String(socket.handshake.headers['user-agent'] || '');
+        socket.data = {
+          role: 'client',
+          user: payload,
+          device: /Mobi|Android|iPhone|iPad/i.test(userAgent) ? 'mobile' : 'desktop',
+          encoding: encoding === 'binary' ? 'binary' : 'utf8',
+          flowControl: flowControl === true,
+        } as SocketData;
         console.log(`[Socket] Client connected: ${payload.username} (${payload.userId})`);
         return next();
       }
@@ -325,6 +932,17 @@ export const initSocket = (httpServer: any) => {
           return next(new Error('Invalid API Key'));
         }
 
+        const handshake = parseWorkerHandshake((socket.handshake.auth || {}) as Record<string, unknown>);
+        const protocolCheck = checkWorkerProtocol(handshake);
+        if (!protocolCheck.allowed) {
+          console.warn(`[Socket] Refused worker ${worker.name}: ${protocolCheck.reason}`);
+          return next(new Error(protocolCheck.reason));
+        }
+        await WorkerModel.updateHandshake(worker.id, handshake);
+        worker.protocol_version = handshake.protocol;
+        worker.worker_version = handshake.version;
+        worker.capabilities = handshake.capabilities;
+
         if (workerName && typeof workerName === 'string' && workerName.trim() && workerName.trim() !== worker.name) {
           await WorkerModel.updateName(worker.id, workerName.trim());
           worker.name = workerName.trim();
@@ -363,11 +981,21 @@ export const initSocket = (httpServer: any) => {
     socket.on('disconnect', async () => {
       if (data.role === 'worker' && data.workerId) {
         workers.delete(data.workerId);
+        forgetWorkerMetrics(data.workerId);
+        closeTunnelStreams({ workerId: data.workerId }, 'OFFLINE');
+        abortWorkerExecs(data.workerId, 'OFFLINE');
+        forgetWorkerUploads(data.workerId);
+        // The worker resumes every PTY when it loses Nexus; start over on reconnect.
+        for (const [key, session] of activeSessions.entries()) {
+          if (session.workerId === data.workerId) outputFlow.forgetSession(key);
+        }
         await WorkerModel.updateStatus(data.workerId, 'offline');
         scheduleSessionListBroadcast(true);
         broadcastWorkerUpdates();
       }
       const removedSessionKeys = removeSocketFromAllSessions(socket.id);
+      // A driver that goes away frees the seat for whoever types next.
+      removedSessionKeys.forEach((key) => detachSubscriber(socket, key));
       if (data.role === 'client' && removedSessionKeys.length > 0) {
         const workerIds = new Set<string>();
         for (const key of removedSessionKeys) {
@@ -383,8 +1011,13 @@ export const initSocket = (httpServer: any) => {
       }
     });
 
-    socket.on('heartbeat', async () => {
+    socket.on('heartbeat', async (payload?: unknown) => {
       if (data.role === 'worker' && data.workerId) {
+        const metrics = parseWorkerMetrics(payload);
+        if (metrics) {
+          recordWorkerMetrics(data.workerId, metrics);
+          broadcastWorkerMetrics(data.workerId, metrics).catch(console.error);
+        }
         await WorkerModel.updateStatus(data.workerId, 'online');
       }
     });
@@ -400,7 +1033,7 @@ export const initSocket = (httpServer: any) => {
       if (data.role !== 'client' || !data.user) return;
       const sessionId = normalizeSessionId(msg.sessionId || socket.id);
 
-      const hasAccess = await WorkerModel.hasAccess(data.user.userId, msg.workerId, 'control');
+      const hasAccess = await canAccessSession(data.user.userId, msg.workerId, sessionId, 'control');
       if (!hasAccess) {
         socket.emit('error', 'Acceso denegado al worker');
         return;
@@ -408,27 +1041,12 @@ export const initSocket = (httpServer: any) => {
 
       // Verificar límite de sesiones por plan
       const key = sessionKey(msg.workerId, sessionId);
-      if (!activeSessions.has(key)) {
-        // Es una sesión nueva — contar las del usuario
-        const userPlan = await getUserPlan(data.user.userId);
-        let userSessionCount = 0;
-        for (const [, sess] of activeSessions) {
-          const subs = sessionSubscribers.get(sessionKey(sess.workerId, sess.id));
-          if (subs && subs.has(socket.id)) {
-            userSessionCount++;
-          }
-        }
-        const sessionCheck = canOpenSession(userPlan, userSessionCount);
-        if (!sessionCheck.allowed) {
-          socket.emit('plan-limit', {
-            code: 'PLAN_LIMIT_SESSIONS',
-            message: sessionCheck.reason,
-            current: sessionCheck.current,
-            max: sessionCheck.max,
-          });
-          return;
-        }
+      const driver = activeSessions.get(key)?.driver;
+      if (driver && driver.socketId !== socket.id) {
+        socket.emit('error', `${driver.username} tiene el control de la sesión`);
+        return;
       }
+      if (!(await checkSessionQuota(socket, data.user.userId, key, true))) return;
 
       const worker = workers.get(msg.workerId);
       if (!worker) {
@@ -437,8 +1055,12 @@ export const initSocket = (httpServer: any) => {
       }
 
       const session = await ensureActiveSession(msg.workerId, sessionId, undefined, data.user.userId);
+      await claimSession(session, data.user.userId);
       session.lastActive = Date.now();
-      addSessionSubscriber(msg.workerId, sessionId, socket.id);
+      const attached = attachSubscriber(socket, msg.workerId, sessionId, 'control');
+      // Free seat: the first one to type takes it.
+      if (!session.driver) setDriver(key, seatOf(socket) ?? undefined);
+      else if (attached) emitControlState(io, key);
       io.to(worker.socketId).emit('execute', {
         clientId: socket.id,
         command: msg.command,
@@ -452,7 +1074,7 @@ export const initSocket = (httpServer: any) => {
       if (data.role !== 'client' || !data.user) return;
       const sessionId = normalizeSessionId(msg.sessionId || socket.id);
 
-      const hasAccess = await WorkerModel.hasAccess(data.user.userId, msg.workerId, 'control');
+      const hasAccess = await canAccessSession(data.user.userId, msg.workerId, sessionId, 'control');
       if (!hasAccess) {
         socket.emit('error', 'Acceso denegado al worker');
         return;
@@ -462,8 +1084,13 @@ export const initSocket = (httpServer: any) => {
         socket.emit('error', 'Worker no disponible (offline)');
         return;
       }
+      if (!(await checkSessionQuota(socket, data.user.userId, sessionKey(msg.workerId, sessionId)))) return;
       await ensureActiveSession(msg.workerId, sessionId, undefined, data.user.userId);
-      addSessionSubscriber(msg.workerId, sessionId, socket.id);
+      const key = sessionKey(msg.workerId, sessionId);
+      if (attachSubscriber(socket, msg.workerId, sessionId, 'control')) emitControlState(io, key);
+      // El PTY toma el tamaño del conductor; el resto se adapta a él.
+      const driver = activeSessions.get(key)?.driver;
+      if (driver && driver.socketId !== socket.id) return;
       io.to(worker.socketId).emit('resize', {
         clientId: socket.id,
         sessionId,
@@ -472,7 +1099,30 @@ export const initSocket = (httpServer: any) => {
       });
     });
 
-    socket.on('output', (msg: { sessionId?: string; output: string }) => {
+    // Tunnel streams: the worker answers requests Nexus opened with 'tunnel-open'.
+    socket.on('tunnel-response', (msg) => {
+      if (data.role === 'worker' && data.workerId) relayTunnelEvent(data.workerId, 'response', msg);
+    });
+    socket.on('tunnel-data', (msg) => {
+      if (data.role === 'worker' && data.workerId) relayTunnelEvent(data.workerId, 'data', msg);
+    });
+    socket.on('tunnel-end', (msg) => {
+      if (data.role === 'worker' && data.workerId) relayTunnelEvent(data.workerId, 'end', msg);
+    });
+    socket.on('tunnel-error', (msg) => {
+      if (data.role === 'worker' && data.workerId) relayTunnelEvent(data.workerId, 'error', msg);
+    });
+
+    // Exec API: output and exit of commands started with 'exec-start'.
+    socket.on('exec-output', (msg) => {
+      if (data.role === 'worker' && data.workerId) relayExecEvent(data.workerId, 'output', msg);
+    });
+    socket.on('exec-exit', (msg) => {
+      if (data.role === 'worker' && data.workerId) relayExecEvent(data.workerId, 'exit', msg);
+    });
+
+    // Workers with the 'binary' capability send Buffers; older ones, strings.
+    socket.on('output', (msg: { sessionId?: string; output: Buffer | string; spooled?: boolean }) => {
       if (data.role !== 'worker' || !data.workerId) return;
       const sessionId = normalizeSessionId(msg.sessionId);
       const workerId = data.workerId;
@@ -480,39 +1130,108 @@ export const initSocket = (httpServer: any) => {
       void outputRelay.enqueue(subscriberKey, {
         workerId,
         sessionId,
-        output: msg.output,
+        output: toOutputBytes(msg.output),
+        spooled: msg.spooled === true,
       }, async (batch) => {
         const session = await ensureActiveSession(workerId, sessionId);
-        for (const item of batch) {
-          session.output = `${session.output}${item.output}`.slice(-20000);
+        const sequenced = batch.map((item) => ({ ...item, ...session.output.append(item.output) }));
+        if (session.recorder) {
+          for (const item of sequenced) session.recorder.output(item.text);
         }
         session.lastActive = Date.now();
+        scheduleSessionPersist(subscriberKey);
 
         // One current-state authorization pass per ordered batch avoids a DB
         // query per chunk without introducing a revocation window.
         const authorizedSocketIds = await revalidateSubscribers(workerId, subscriberKey, 'view');
         const currentSubscribers = sessionSubscribers.get(subscriberKey);
         const liveAuthorizedIds = authorizedSocketIds.filter((socketId) => currentSubscribers?.has(socketId));
-        if (liveAuthorizedIds.length > 0) {
-          for (const item of batch) {
-            io.to(liveAuthorizedIds).emit('output', {
-              workerId,
-              sessionId,
-              data: item.output,
-            });
+        // A subscriber that still owes a full window waits behind its own
+        // queue; everyone else gets the batch right away.
+        const ready: string[] = [];
+        for (const socketId of liveAuthorizedIds) {
+          if (!subscriberQueues.isBacklogged(subscriberKey, socketId)
+            && outputFlow.pending(subscriberKey, socketId) < OUTPUT_HIGH_WATERMARK) {
+            ready.push(socketId);
+            continue;
+          }
+          for (const item of sequenced) {
+            if (!subscriberQueues.push(subscriberKey, socketId, item)) {
+              handleLaggingSubscriber(socketId, workerId, sessionId);
+              break;
+            }
           }
         }
+        emitOutput(subscriberKey, workerId, sessionId, ready, sequenced);
+        applyOutputFlow(io, subscriberKey);
+        for (const item of sequenced) {
+          spectators.to(spectatorBinaryRoom(subscriberKey)).emit('output', { data: item.output, seq: item.seq });
+          spectators.to(spectatorSessionRoom(subscriberKey)).except(spectatorBinaryRoom(subscriberKey))
+            .emit('output', { data: item.text, seq: item.seq });
+        }
         // Debounced session list updates to avoid heavy fan-out on every chunk.
         scheduleSessionListBroadcast();
       }).catch((error) => console.error('[Socket] Output relay error:', error));
     });
 
+    socket.on('session-announce', async (msg: { sessions?: AnnouncedSession[] }) => {
+      if (data.role !== 'worker' || !data.workerId) return;
+      const workerId = data.workerId;
+      const announced = Array.isArray(msg?.sessions) ? msg.sessions : [];
+      const restoredIds: string[] = [];
+
+      for (const entry of announced) {
+        const sessionId = normalizeSessionId(entry?.sessionId);
+        const startedAt = Number(entry?.startedAt);
+        const session = await ensureActiveSession(
+          workerId,
+          sessionId,
+          undefined,
+          undefined,
+          Number.isFinite(startedAt) && startedAt > 0 ? startedAt : Date.now()
+        );
+        if (Number.isFinite(entry?.cols)) session.cols = Number(entry.cols);
+        if (Number.isFinite(entry?.rows)) session.rows = Number(entry.rows);
+        if (Number.isFinite(entry?.pid)) session.pid = Number(entry.pid);
+        session.kind = entry?.kind === 'tui' ? 'tui' : 'shell';
+        restoredIds.push(sessionId);
+      }
+      if (restoredIds.length === 0) return;
+
+      console.log(`[Socket] Worker ${workerId} announced ${restoredIds.length} live session(s)`);
+      scheduleSessionListBroadcast(true);
+      for (const sessionId of restoredIds) {
+        const authorizedSocketIds = await revalidateSubscribers(workerId, sessionKey(workerId, sessionId), 'view');
+        if (authorizedSocketIds.length > 0) {
+          io.to(authorizedSocketIds).emit('session-restored', { workerId, sessionId });
+        }
+      }
+    });
+
+    // Dimensions the worker actually applied (the smallest attached viewport).
+    socket.on('session-resized', (msg: { sessionId?: string; cols?: number; rows?: number }) => {
+      if (data.role !== 'worker' || !data.workerId) return;
+      const session = activeSessions.get(sessionKey(data.workerId, normalizeSessionId(msg?.sessionId)));
+      const cols = Number(msg?.cols);
+      const rows = Number(msg?.rows);
+      if (!session || !(cols > 0) || !(rows > 0)) return;
+      if (session.cols === cols && session.rows === rows) return;
+      session.cols = cols;
+      session.rows = rows;
+      session.recorder?.resize(cols, rows);
+      spectators.to(spectatorSessionRoom(sessionKey(session.workerId, session.id))).emit('resize', { cols, rows });
+    });
+
     socket.on('session-shell-exited', async (msg: { sessionId?: string }) => {
       if (data.role !== 'worker' || !data.workerId) return;
       const sessionId = normalizeSessionId(msg.sessionId);
-      const key = sessionKey(data.workerId, sessionId);
-      activeSessions.delete(key);
+      const wasActive = activeSessions.has(sessionKey(data.workerId, sessionId));
+      await forgetSession(data.workerId, sessionId);
+      if (wasActive) {
+        await recordAudit('session.close', { workerId: data.workerId, data: { sessionId, reason: 'exit' } });
+      }
       const subscriberKey = sessionKey(data.workerId, sessionId);
+      endSpectators(subscriberKey);
       const authorizedSocketIds = await revalidateSubscribers(data.workerId, subscriberKey, 'view');
       if (authorizedSocketIds.length > 0) {
         io.to(authorizedSocketIds).emit('session-closed', { sessionId, workerId: data.workerId });
@@ -550,9 +1269,13 @@ export const initSocket = (httpServer: any) => {
       if (workerId) {
         const hasAccess = await WorkerModel.hasAccess(data.user.userId, workerId, 'control');
         if (!hasAccess) return;
+        if (!(await checkSessionQuota(socket, data.user.userId, sessionKey(workerId, sessionId), true))) return;
 
-        await ensureActiveSession(workerId, sessionId, msg.displayName, data.user.userId);
-        addSessionSubscriber(workerId, sessionId, socket.id);
+        const session = await ensureActiveSession(workerId, sessionId, msg.displayName, data.user.userId);
+        await claimSession(session, data.user.userId);
+        if (attachSubscriber(socket, workerId, sessionId, 'control')) {
+          emitControlState(io, sessionKey(workerId, sessionId));
+        }
         scheduleSessionListBroadcast(true);
       }
     });
@@ -566,16 +1289,25 @@ export const initSocket = (httpServer: any) => {
         return;
       }
 
-      const hasAccess = await WorkerModel.hasAccess(data.user.userId, workerId, 'view');
+      const hasAccess = await canAccessSession(data.user.userId, workerId, sessionId, 'view');
       if (!hasAccess) {
         socket.emit('error', 'Acceso denegado al worker');
         return;
       }
-      const session = await ensureActiveSession(workerId, sessionId, msg.displayName, data.user.userId);
+      // Joining an unknown key creates the session, which an observer may not do.
+      if (!activeSessions.has(sessionKey(workerId, sessionId))
+        && !(await WorkerModel.hasAccess(data.user.userId, workerId, 'control'))) {
+        socket.emit('error', 'Sesión no encontrada');
+        return;
+      }
+      if (!(await checkSessionQuota(socket, data.user.userId, sessionKey(workerId, sessionId)))) return;
+      const canControl = await canAccessSession(data.user.userId, workerId, sessionId, 'control');
+      const session = await ensureActiveSession(workerId, sessionId, msg.displayName);
       session.lastActive = Date.now();
       // Register only after authorization. Adding the socket before this
       // check let a caller receive future output from another tenant.
-      addSessionSubscriber(workerId, sessionId, socket.id);
+      attachSubscriber(socket, workerId, sessionId, canControl ? 'control' : 'view');
+      emitControlState(io, sessionKey(workerId, sessionId));
       scheduleSessionListBroadcast(true);
     });
 
@@ -587,7 +1319,98 @@ export const initSocket = (httpServer: any) => {
         return;
       }
       const sessionId = normalizeSessionId(msg.sessionId || socket.id);
+      const key = sessionKey(workerId, sessionId);
+      if (!sessionSubscribers.get(key)?.has(socket.id)) return;
       removeSessionSubscriber(workerId, sessionId, socket.id);
+      detachSubscriber(socket, key);
+    });
+
+    // Bytes the client's terminal finished processing (xterm write callbacks).
+    socket.on('output-ack', (msg: { workerId?: string; sessionId?: string; bytes?: number }) => {
+      if (data.role !== 'client' || !data.flowControl) return;
+      const bytes = Number(msg?.bytes);
+      const workerId = String(msg?.workerId || '').trim();
+      if (!workerId || !Number.isFinite(bytes) || bytes <= 0) return;
+      const key = sessionKey(workerId, normalizeSessionId(msg.sessionId));
+      if (!sessionSubscribers.get(key)?.has(socket.id)) return;
+      outputFlow.acked(key, socket.id, bytes);
+      if (!subscriberQueues.isResyncing(key, socket.id) && outputFlow.pending(key, socket.id) < OUTPUT_HIGH_WATERMARK) {
+        emitOutput(key, workerId, normalizeSessionId(msg.sessionId), [socket.id], subscriberQueues.take(key, socket.id));
+      }
+      applyOutputFlow(io, key);
+    });
+
+    socket.on('presence-idle', (msg: { idle?: boolean }) => {
+      if (data.role !== 'client' || !data.user) return;
+      const idle = msg?.idle === true;
+      if (data.idle === idle) return;
+      data.idle = idle;
+      if (data.joined?.size) scheduleSessionListBroadcast(true);
+    });
+
+    // Driver seat. Only subscribers with control may ask for it; only the
+    // current driver hands it off or turns requests down.
+    socket.on('request-control', async (msg: { workerId: string; sessionId: string }) => {
+      if (data.role !== 'client' || !data.user) return;
+      const workerId = String(msg?.workerId || '').trim();
+      const sessionId = normalizeSessionId(msg?.sessionId);
+      const key = sessionKey(workerId, sessionId);
+      const session = activeSessions.get(key);
+      if (!session || !sessionSubscribers.get(key)?.has(socket.id)) {
+        socket.emit('error', 'Sesión no encontrada');
+        return;
+      }
+      if (!(await canAccessSession(data.user.userId, workerId, sessionId, 'control'))) {
+        socket.emit('error', 'Acceso denegado al worker');
+        return;
+      }
+      const seat = seatOf(socket)!;
+      const driver = session.driver;
+      // A driver that lost control access can't keep everyone else out.
+      const driverValid = driver
+        && sessionSubscribers.get(key)?.has(driver.socketId)
+        && await canAccessSession(driver.userId, workerId, sessionId, 'control');
+      if (!driverValid) {
+        setDriver(key, seat);
+        return;
+      }
+      if (driver.socketId === socket.id) return;
+      (session.controlRequests ||= new Map()).set(socket.id, seat);
+      emitControlState(io, key);
+    });
+
+    socket.on('grant-control', async (msg: { workerId: string; sessionId: string; socketId: string }) => {
+      if (data.role !== 'client' || !data.user) return;
+      const key = sessionKey(String(msg?.workerId || '').trim(), normalizeSessionId(msg?.sessionId));
+      const session = activeSessions.get(key);
+      if (!session || session.driver?.socketId !== socket.id) return;
+      const target = io.sockets.sockets.get(String(msg.socketId || ''));
+      const seat = target ? seatOf(target) : null;
+      if (!seat || !sessionSubscribers.get(key)?.has(seat.socketId)
+        || !(await canAccessSession(seat.userId, session.workerId, session.id, 'control'))) {
+        socket.emit('error', 'Ese usuario no puede tomar el control');
+        return;
+      }
+      setDriver(key, seat);
+    });
+
+    socket.on('deny-control', (msg: { workerId: string; sessionId: string; socketId: string }) => {
+      if (data.role !== 'client' || !data.user) return;
+      const key = sessionKey(String(msg?.workerId || '').trim(), normalizeSessionId(msg?.sessionId));
+      const session = activeSessions.get(key);
+      if (!session || session.driver?.socketId !== socket.id) return;
+      const socketId = String(msg.socketId || '');
+      if (!session.controlRequests?.delete(socketId)) return;
+      io.to(socketId).emit('control-denied', { workerId: session.workerId, sessionId: session.id });
+      emitControlState(io, key);
+    });
+
+    socket.on('release-control', (msg: { workerId: string; sessionId: string }) => {
+      if (data.role !== 'client' || !data.user) return;
+      const key = sessionKey(String(msg?.workerId || '').trim(), normalizeSessionId(msg?.sessionId));
+      const session = activeSessions.get(key);
+      if (!session || session.driver?.socketId !== socket.id) return;
+      setDriver(key, undefined);
     });
 
     socket.on('rename-session', async (msg: { workerId: string; sessionId: string; newName: string }) => {
@@ -605,11 +1428,14 @@ export const initSocket = (httpServer: any) => {
       if (!session) return;
 
       const hasAccess = await WorkerModel.hasAccess(data.user.userId, workerId, 'control');
-      if (!hasAccess) return;
+      if (!hasAccess) {
+        socket.emit('error', 'Acceso denegado al worker');
+        return;
+      }
 
       session.displayName = newName;
       try {
-        await db.run('UPDATE sessions SET display_name = ? WHERE id = ? AND worker_id = ?', [newName, sessionId, workerId]);
+        await SessionModel.rename(workerId, sessionId, newName);
       } catch (err) {
         console.error('Failed to update session name in DB:', err);
       }
@@ -629,7 +1455,10 @@ export const initSocket = (httpServer: any) => {
       if (!session) return;
 
       const hasAccess = await WorkerModel.hasAccess(data.user.userId, workerId, 'control');
-      if (!hasAccess) return;
+      if (!hasAccess) {
+        socket.emit('error', 'Acceso denegado al worker');
+        return;
+      }
 
       const worker = workers.get(session.workerId);
       if (worker) {
@@ -639,11 +1468,16 @@ export const initSocket = (httpServer: any) => {
         }
       }
 
-      const key = sessionKey(session.workerId, sessionId);
-      activeSessions.delete(key);
+      await forgetSession(session.workerId, sessionId);
+      await recordAudit('session.close', {
+        userId: data.user.userId,
+        workerId: session.workerId,
+        data: { sessionId, reason: 'closed' },
+      });
 
       // Notify ALL subscribers that this session was closed (cross-device sync)
       const subscriberKey = sessionKey(session.workerId, sessionId);
+      endSpectators(subscriberKey);
       const authorizedSocketIds = await revalidateSubscribers(session.workerId, subscriberKey, 'view');
       if (authorizedSocketIds.length > 0) {
         io.to(authorizedSocketIds).emit('session-closed', { sessionId, workerId: session.workerId });
@@ -652,11 +1486,99 @@ export const initSocket = (httpServer: any) => {
       scheduleSessionListBroadcast(true);
     });
 
-    socket.on('get-session-output', async (msg: { workerId: string; sessionId: string }, cb?: (output: string) => void) => {
+    socket.on('start-recording', async (
+      msg: { workerId: string; sessionId: string },
+      cb?: (result: { recordingId?: string; error?: string }) => void
+    ) => {
+      if (data.role !== 'client' || !data.user) return;
+      const reply = cb || (() => {});
+      const workerId = String(msg?.workerId || '').trim();
+      const sessionId = normalizeSessionId(msg?.sessionId);
+      const session = activeSessions.get(sessionKey(workerId, sessionId));
+      if (!session) { reply({ error: 'Sesión no encontrada' }); return; }
+
+      const hasAccess = await WorkerModel.hasAccess(data.user.userId, workerId, 'control');
+      if (!hasAccess) { reply({ error: 'Acceso denegado al worker' }); return; }
+      if (session.recorder) { reply({ recordingId: session.recorder.id }); return; }
+
+      const check = await canRecordSession(data.user.userId);
+      if (!check.allowed) { reply({ error: check.reason }); return; }
+
+      try {
+        const recorder = await RecordingService.start({
+          workerId,
+          sessionId,
+          userId: data.user.userId,
+          title: `${session.workerName} — ${session.displayName}`,
+          cols: session.cols || 80,
+          rows: session.rows || 24,
+        });
+        // Another start or a close-session may have won while we awaited.
+        const current = activeSessions.get(sessionKey(workerId, sessionId));
+        if (current !== session || current.recorder) {
+          await recorder.close();
+          await RecordingService.remove({ id: recorder.id, worker_id: workerId });
+          reply(current?.recorder ? { recordingId: current.recorder.id } : { error: 'Sesión no encontrada' });
+          return;
+        }
+        // Seed with the replay buffer so playback starts from the current screen.
+        recorder.output(decodeOutputText(session.output.snapshot()), recorder.startedAt);
+        session.recorder = recorder;
+        reply({ recordingId: recorder.id });
+        scheduleSessionListBroadcast(true);
+      } catch (err) {
+        console.error('[Socket] Failed to start recording:', err);
+        reply({ error: 'No se pudo iniciar la grabación' });
+      }
+    });
+
+    socket.on('stop-recording', async (
+      msg: { workerId: string; sessionId: string },
+      cb?: (result: { recordingId?: string; error?: string }) => void
+    ) => {
+      if (data.role !== 'client' || !data.user) return;
+      const reply = cb || (() => {});
+      const workerId = String(msg?.workerId || '').trim();
+      const session = activeSessions.get(sessionKey(workerId, normalizeSessionId(msg?.sessionId)));
+      if (!session?.recorder) { reply({ error: 'La sesión no se está grabando' }); return; }
+
+      const hasAccess = await WorkerModel.hasAccess(data.user.userId, workerId, 'control');
+      if (!hasAccess) { reply({ error: 'Acceso denegado al worker' }); return; }
+
+      const recordingId = session.recorder.id;
+      await stopSessionRecording(session);
+      reply({ recordingId });
+      scheduleSessionListBroadcast(true);
+    });
+
+    socket.on('add-recording-marker', async (msg: { workerId: string; sessionId: string; label?: string }) => {
+      if (data.role !== 'client' || !data.user) return;
+      const workerId = String(msg?.workerId || '').trim();
+      const session = activeSessions.get(sessionKey(workerId, normalizeSessionId(msg?.sessionId)));
+      if (!session?.recorder) return;
+
+      const hasAccess = await WorkerModel.hasAccess(data.user.userId, workerId, 'control');
+      if (!hasAccess) return;
+
+      const label = String(msg?.label || '').trim().slice(0, 200);
+      session.recorder?.marker(label || new Date().toISOString());
+    });
+
+    // Without `sinceSeq` the callback gets the whole buffer (legacy clients).
+    // With it, only the chunks after that seq plus the new head. Bytes for
+    // 'binary' clients, text for the rest.
+    socket.on('get-session-output', async (
+      msg: { workerId: string; sessionId: string; sinceSeq?: number },
+      cb?: (output: string | Buffer | OutputSince<string | Buffer>) => void
+    ) => {
       if (data.role !== 'client' || !data.user) return;
+      const binary = data.encoding === 'binary';
+      const encode = (bytes: Buffer) => (binary ? bytes : decodeOutputText(bytes));
+      const resumable = typeof msg?.sinceSeq === 'number' && Number.isFinite(msg.sinceSeq);
+      const empty = resumable ? { data: encode(Buffer.alloc(0)), seq: 0, reset: false } : encode(Buffer.alloc(0));
       const workerId = String(msg.workerId || '').trim();
       if (!workerId) {
-        if (cb) cb('');
+        if (cb) cb(empty);
         socket.emit('error', 'workerId requerido');
         return;
       }
@@ -664,12 +1586,19 @@ export const initSocket = (httpServer: any) => {
 
       const session = activeSessions.get(sessionKey(workerId, sessionId));
       if (session) {
-        const hasAccess = await WorkerModel.hasAccess(data.user!.userId, workerId, 'view');
+        const hasAccess = await canAccessSession(data.user!.userId, workerId, sessionId, 'view');
+        // Whatever a lagging subscriber missed comes in this reply.
+        if (hasAccess) subscriberQueues.resynced(sessionKey(workerId, sessionId), socket.id);
         if (hasAccess && cb) {
-          cb(session.output || '');
+          if (resumable) {
+            const since = session.output.since(Number(msg.sinceSeq));
+            cb({ ...since, data: encode(since.data) });
+          } else {
+            cb(encode(session.output.snapshot()));
+          }
         }
       } else if (cb) {
-        cb('');
+        cb(empty);
       }
     });
   });
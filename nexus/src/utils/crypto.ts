@@ -19,3 +19,14 @@ export function verifyPassword(password: string, storedHash: string, salt: strin
 export function generateApiKey(): string {
   return crypto.randomBytes(32).toString('hex');
 }
+
+export const ACCESS_TOKEN_PREFIX = 'utp_';
+
+export function generateAccessToken(): string {
+  return ACCESS_TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+}
+
+/** Access tokens are random, so a plain digest is enough and keeps lookup by hash. */
+export function hashAccessToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
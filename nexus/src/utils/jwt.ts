@@ -25,5 +25,42 @@ export function signToken(payload: JwtPayload): string {
 }
 
 export function verifyToken(token: string): JwtPayload {
-  return jwt.verify(token, JWT_SECRET) as JwtPayload;
+  const payload = jwt.verify(token, JWT_SECRET) as JwtPayload & { aud?: string };
+  // Spectator links and tunnel cookies must never pass as a user session.
+  if (payload.aud !== undefined) throw new Error('Invalid token');
+  return payload;
+}
+
+const SPECTATOR_AUDIENCE = 'spectator';
+const TUNNEL_AUDIENCE = 'tunnel';
+
+/** Anonymous read-only view of one session (see `/spectate` namespace). */
+export interface SpectatorPayload {
+  linkId: string;
+  workerId: string;
+  sessionId: string;
+}
+
+/** `expiresAt` is epoch ms; the link row is re-checked on every connection. */
+export function signSpectatorToken(payload: SpectatorPayload, expiresAt: number): string {
+  return jwt.sign({ ...payload, exp: Math.floor(expiresAt / 1000) }, JWT_SECRET, { audience: SPECTATOR_AUDIENCE });
+}
+
+export function verifySpectatorToken(token: string): SpectatorPayload {
+  return jwt.verify(token, JWT_SECRET, { audience: SPECTATOR_AUDIENCE }) as SpectatorPayload;
+}
+
+/** Browser access to one tunneled port; access is re-checked on every request. */
+export interface TunnelPayload {
+  userId: number;
+  workerId: string;
+  port: number;
+}
+
+export function signTunnelToken(payload: TunnelPayload, expiresInSeconds: number): string {
+  return jwt.sign(payload, JWT_SECRET, { audience: TUNNEL_AUDIENCE, expiresIn: expiresInSeconds });
+}
+
+export function verifyTunnelToken(token: string): TunnelPayload {
+  return jwt.verify(token, JWT_SECRET, { audience: TUNNEL_AUDIENCE }) as TunnelPayload;
 }
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { useTenantNexus } from './nexus-harness';
+
+describe('auditoría', () => {
+  const nexus = useTenantNexus();
+  const { request, createWorker } = nexus;
+
+  it('registra eventos de auditoría y acota GET /api/audit por tenant', async () => {
+    const miguelWorker = await createWorker(nexus.miguelToken, 'audit-log-miguel-worker');
+    await createWorker(nexus.pabloToken, 'audit-log-pablo-worker');
+    const failedLogin = await request('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: 'miguel', password: 'wrong-password' }),
+    });
+    expect(failedLogin.status).toBe(401);
+
+    type AuditPage = {
+      entries: Array<{ event: string; worker_id: string | null; tenant_id: string | null; data: Record<string, unknown> }>;
+      total: number;
+      limit: number;
+    };
+    const fetchAudit = async (token: string, query: string): Promise<AuditPage> => {
+      const response = await request(`/api/audit?${query}`, { headers: { Authorization: `Bearer ${token}` } });
+      expect(response.status).toBe(200);
+      return response.json() as Promise<AuditPage>;
+    };
+
+    const miguelView = await fetchAudit(nexus.miguelToken, 'event=worker.create,auth.login_failed&limit=200');
+    expect(miguelView.entries).toContainEqual(expect.objectContaining({
+      event: 'worker.create',
+      worker_id: miguelWorker.id,
+      tenant_id: 'miguel',
+    }));
+    expect(miguelView.entries.some((entry) => entry.event === 'auth.login_failed')).toBe(true);
+    expect(miguelView.entries.every((entry) => entry.tenant_id === 'miguel')).toBe(true);
+
+    const pabloView = await fetchAudit(nexus.pabloToken, `workerId=${miguelWorker.id}`);
+    expect(pabloView.total).toBe(0);
+
+    const adminView = await fetchAudit(nexus.adminToken, 'event=worker.create&limit=1');
+    expect(adminView.entries).toHaveLength(1);
+    expect(adminView.total).toBeGreaterThan(1);
+    const adminTenants = await fetchAudit(nexus.adminToken, 'event=admin.upgrade_plan&limit=200');
+    const tenants = adminTenants.entries.map((entry) => entry.tenant_id);
+    expect(tenants).toContain('miguel');
+    expect(tenants).toContain('pablo');
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { io } from 'socket.io-client';
+import { connect, delay, useTenantNexus } from './nexus-harness';
+
+describe('asiento de conductor', () => {
+  const nexus = useTenantNexus();
+  const { request, createWorker, sockets } = nexus;
+
+  it('reserva la entrada al conductor de la sesión hasta que cede el control', async () => {
+    const worker = await createWorker(nexus.pabloToken, 'audit-driver-worker');
+    const share = await request('/api/workers/share', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workerId: worker.id, targetUsername: 'pablo-peer', permission: 'control' }),
+    });
+    expect(share.status).toBe(200);
+
+    const workerSocket = io(nexus.url, {
+      auth: { type: 'worker', apiKey: worker.api_key, workerName: 'audit-driver-worker' },
+    });
+    const ownerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloToken } });
+    const peerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloPeerToken } });
+    sockets.push(workerSocket, ownerSocket, peerSocket);
+    await Promise.all([connect(workerSocket), connect(ownerSocket), connect(peerSocket)]);
+
+    type ControlState = {
+      driver: { username: string } | null;
+      isDriver: boolean;
+      requests: Array<{ socketId: string; username: string }>;
+    };
+    const nextState = (socket: typeof ownerSocket, match: (state: ControlState) => boolean) =>
+      new Promise<ControlState>((resolve) => {
+        const listener = (state: ControlState) => {
+          if (!match(state)) return;
+          socket.off('control-state', listener);
+          resolve(state);
+        };
+        socket.on('control-state', listener);
+      });
+    const workerCommands: string[] = [];
+    workerSocket.on('execute', (message) => workerCommands.push(message?.command));
+    const peerErrors: string[] = [];
+    peerSocket.on('error', (message: string) => peerErrors.push(message));
+
+    const sessionId = 'audit-driver-session';
+    ownerSocket.emit('resize', { workerId: worker.id, sessionId, cols: 80, rows: 24 });
+    await delay(150);
+    peerSocket.emit('join-session', { workerId: worker.id, sessionId });
+    await delay(150);
+
+    // Quien escribe primero con el asiento libre lo toma.
+    const peerSeesOwner = nextState(peerSocket, (state) => state.driver?.username === 'pablo');
+    ownerSocket.emit('execute', { workerId: worker.id, sessionId, command: 'OWNER_FIRST' });
+    expect((await peerSeesOwner).isDriver).toBe(false);
+    peerSocket.emit('execute', { workerId: worker.id, sessionId, command: 'PEER_BLOCKED' });
+    await delay(150);
+    expect(peerErrors).toContain('pablo tiene el control de la sesión');
+    expect(workerCommands).toEqual(['OWNER_FIRST']);
+
+    const ownerSeesRequest = nextState(ownerSocket, (state) => state.requests.length === 1);
+    peerSocket.emit('request-control', { workerId: worker.id, sessionId });
+    const [pending] = (await ownerSeesRequest).requests;
+    expect(pending).toMatchObject({ socketId: peerSocket.id, username: 'pablo-peer' });
+
+    const denied = new Promise<void>((resolve) => peerSocket.once('control-denied', () => resolve()));
+    ownerSocket.emit('deny-control', { workerId: worker.id, sessionId, socketId: peerSocket.id });
+    await denied;
+
+    // Solo el conductor reparte el asiento.
+    peerSocket.emit('grant-control', { workerId: worker.id, sessionId, socketId: peerSocket.id });
+    await delay(100);
+    const peerDrives = nextState(peerSocket, (state) => state.isDriver);
+    ownerSocket.emit('grant-control', { workerId: worker.id, sessionId, socketId: peerSocket.id });
+    await peerDrives;
+    peerSocket.emit('execute', { workerId: worker.id, sessionId, command: 'PEER_DRIVING' });
+    ownerSocket.emit('execute', { workerId: worker.id, sessionId, command: 'OWNER_BLOCKED' });
+    // Tampoco redimensiona el PTY bajo el conductor.
+    const workerResizes: number[] = [];
+    workerSocket.on('resize', (message) => workerResizes.push(message?.cols));
+    ownerSocket.emit('resize', { workerId: worker.id, sessionId, cols: 40, rows: 10 });
+    peerSocket.emit('resize', { workerId: worker.id, sessionId, cols: 120, rows: 40 });
+    await delay(150);
+    expect(workerCommands).toEqual(['OWNER_FIRST', 'PEER_DRIVING']);
+    expect(workerResizes).toEqual([120]);
+
+    // Si el conductor se va, el asiento queda libre.
+    const seatFreed = nextState(ownerSocket, (state) => state.driver === null);
+    peerSocket.disconnect();
+    await seatFreed;
+    ownerSocket.emit('execute', { workerId: worker.id, sessionId, command: 'OWNER_AGAIN' });
+    await delay(150);
+    expect(workerCommands).toEqual(['OWNER_FIRST', 'PEER_DRIVING', 'OWNER_AGAIN']);
+  });
+
+  it('libera el asiento del conductor cuando se le retira el acceso', async () => {
+    const worker = await createWorker(nexus.pabloToken, 'audit-evicted-driver-worker');
+    const share = await request('/api/workers/share', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workerId: worker.id, targetUsername: 'pablo-peer', permission: 'control' }),
+    });
+    expect(share.status).toBe(200);
+    const sharesResponse = await request(`/api/workers/${worker.id}/shares`, {
+      headers: { Authorization: `Bearer ${nexus.pabloToken}` },
+    });
+    const shares = await sharesResponse.json() as Array<{ userId: number; username: string }>;
+    const peerUserId = shares.find((entry) => entry.username === 'pablo-peer')?.userId;
+    expect(peerUserId).toBeTypeOf('number');
+
+    const workerSocket = io(nexus.url, {
+      auth: { type: 'worker', apiKey: worker.api_key, workerName: 'audit-evicted-driver-worker' },
+    });
+    const ownerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloToken } });
+    const peerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloPeerToken } });
+    sockets.push(workerSocket, ownerSocket, peerSocket);
+    await Promise.all([connect(workerSocket), connect(ownerSocket), connect(peerSocket)]);
+
+    const nextDriver = (match: (driver: { username: string } | null) => boolean) =>
+      new Promise<void>((resolve) => {
+        const listener = (state: { driver: { username: string } | null }) => {
+          if (!match(state.driver)) return;
+          ownerSocket.off('control-state', listener);
+          resolve();
+        };
+        ownerSocket.on('control-state', listener);
+      });
+    const workerCommands: string[] = [];
+    workerSocket.on('execute', (message) => workerCommands.push(message?.command));
+
+    const sessionId = 'audit-evicted-driver-session';
+    ownerSocket.emit('resize', { workerId: worker.id, sessionId, cols: 80, rows: 24 });
+    await delay(150);
+    peerSocket.emit('join-session', { workerId: worker.id, sessionId });
+    await delay(150);
+
+    const peerDrives = nextDriver((driver) => driver?.username === 'pablo-peer');
+    peerSocket.emit('execute', { workerId: worker.id, sessionId, command: 'PEER_FIRST' });
+    await peerDrives;
+
+    // Sin el share, el asiento vuelve a quedar libre para el resto.
+    const seatFreed = nextDriver((driver) => driver === null);
+    const unshare = await request('/api/workers/unshare', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workerId: worker.id, targetUserId: peerUserId }),
+    });
+    expect(unshare.status).toBe(200);
+    await seatFreed;
+    ownerSocket.emit('execute', { workerId: worker.id, sessionId, command: 'OWNER_AFTER_UNSHARE' });
+    await delay(150);
+    expect(workerCommands).toEqual(['PEER_FIRST', 'OWNER_AFTER_UNSHARE']);
+  });
+});
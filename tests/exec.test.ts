@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { io } from 'socket.io-client';
+import { ADMIN_PASSWORD, connect, delay, useTenantNexus } from './nexus-harness';
+
+describe('ejecución de comandos por API', () => {
+  const nexus = useTenantNexus();
+  const { request, createWorker, sockets } = nexus;
+
+  it('ejecuta comandos por API con plan, control y respuesta JSON o SSE', async () => {
+    const worker = await createWorker(nexus.pabloToken, 'audit-exec-worker');
+    const workerSocket = io(nexus.url, {
+      auth: {
+        type: 'worker',
+        apiKey: worker.api_key,
+        workerName: 'audit-exec-worker',
+        protocol: 2,
+        capabilities: { features: ['shell', 'exec'], shells: [] },
+      },
+    });
+    sockets.push(workerSocket);
+    await connect(workerSocket);
+
+    const started: Array<{ id: string; command: string; cwd?: string; env?: Record<string, string>; timeoutMs: number }> = [];
+    workerSocket.on('exec-start', (msg: (typeof started)[number], ack: (reply: unknown) => void) => {
+      started.push(msg);
+      ack({ ok: true, pid: 4242 });
+      workerSocket.emit('exec-output', { id: msg.id, stream: 'stdout', data: Buffer.from('hola ') });
+      workerSocket.emit('exec-output', { id: msg.id, stream: 'stderr', data: Buffer.from('aviso') });
+      workerSocket.emit('exec-output', { id: msg.id, stream: 'stdout', data: Buffer.from('mundo') });
+      workerSocket.emit('exec-exit', { id: msg.id, exitCode: 3, signal: null, timedOut: false, durationMs: 12 });
+    });
+
+    const exec = `/api/workers/${worker.id}/exec`;
+    const body = JSON.stringify({ command: 'echo hola', cwd: '/tmp', env: { FOO: 'bar' } });
+    const auth = { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' };
+    expect((await request(exec, { method: 'POST', headers: { ...auth, Authorization: `Bearer ${nexus.miguelToken}` }, body })).status).toBe(403);
+    expect((await request(exec, { method: 'POST', headers: auth, body: JSON.stringify({ command: 'ls', cwd: 'tmp' }) })).status).toBe(400);
+    expect((await request(exec, { method: 'POST', headers: auth, body: JSON.stringify({ command: 'ls', env: { 'A-B': 'x' } }) })).status).toBe(400);
+    expect((await request(exec, { method: 'POST', headers: auth, body: JSON.stringify({ command: 'ls', env: { LD_PRELOAD: '/tmp/x.so' } }) })).status).toBe(400);
+
+    const buffered = await request(exec, { method: 'POST', headers: auth, body });
+    expect(buffered.status).toBe(200);
+    expect(await buffered.json()).toEqual({
+      exitCode: 3,
+      signal: null,
+      timedOut: false,
+      durationMs: 12,
+      stdout: 'hola mundo',
+      stderr: 'aviso',
+      truncated: false,
+    });
+    expect(started[0]).toMatchObject({ command: 'echo hola', cwd: '/tmp', env: { FOO: 'bar' }, timeoutMs: 60_000 });
+
+    const streamed = await request(exec, { method: 'POST', headers: { ...auth, Accept: 'text/event-stream' }, body });
+    expect(streamed.headers.get('content-type')).toContain('text/event-stream');
+    const events = (await streamed.text()).trim().split('\n\n').map((chunk) => {
+      const [event, data] = chunk.split('\n');
+      return { event: event.replace('event: ', ''), data: JSON.parse(data.replace('data: ', '')) };
+    });
+    expect(events.map((entry) => entry.event)).toEqual(['start', 'stdout', 'stderr', 'stdout', 'exit']);
+    expect(events[0].data).toEqual({ pid: 4242 });
+    expect(events[4].data).toMatchObject({ exitCode: 3 });
+
+    // Un plan sin API no ejecuta aunque tenga control sobre el worker.
+    const share = await request('/api/workers/share', {
+      method: 'POST',
+      headers: auth,
+      body: JSON.stringify({ workerId: worker.id, targetUsername: 'pablo-peer' }),
+    });
+    expect(share.status).toBe(200);
+    const setPeerPlan = (plan: string) => request('/api/admin/upgrade-plan', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ adminPassword: ADMIN_PASSWORD, username: 'pablo-peer', plan, tenant: 'pablo' }),
+    });
+    expect((await setPeerPlan('free')).status).toBe(200);
+    try {
+      const limited = await request(exec, { method: 'POST', headers: { ...auth, Authorization: `Bearer ${nexus.pabloPeerToken}` }, body });
+      expect(limited.status).toBe(403);
+      expect(await limited.json()).toMatchObject({ code: 'PLAN_LIMIT_API' });
+    } finally {
+      await setPeerPlan('enterprise');
+    }
+    expect(started).toHaveLength(2);
+
+    const audit = await request(`/api/audit?event=worker.exec&workerId=${worker.id}`, { headers: { Authorization: `Bearer ${nexus.pabloToken}` } });
+    const { entries } = await audit.json() as { entries: Array<{ data: Record<string, unknown> }> };
+    expect(entries.map((entry) => entry.data)).toContainEqual(
+      expect.objectContaining({ command: 'echo hola', cwd: '/tmp', exitCode: 3, stream: true })
+    );
+  });
+
+  it('cancela el comando si el cliente corta durante el arranque y cierra el UTF-8 del stream', async () => {
+    const worker = await createWorker(nexus.pabloToken, 'audit-exec-cancel-worker');
+    const workerSocket = io(nexus.url, {
+      auth: {
+        type: 'worker',
+        apiKey: worker.api_key,
+        workerName: 'audit-exec-cancel-worker',
+        protocol: 2,
+        capabilities: { features: ['shell', 'exec'], shells: [] },
+      },
+    });
+    sockets.push(workerSocket);
+    await connect(workerSocket);
+
+    const started: string[] = [];
+    const killed: string[] = [];
+    workerSocket.on('exec-kill', (msg: { id: string }) => killed.push(msg.id));
+    workerSocket.on('exec-start', (msg: { id: string; command: string }, ack: (reply: unknown) => void) => {
+      started.push(msg.id);
+      if (msg.command === 'slow-start') {
+        setTimeout(() => ack({ ok: true, pid: 4243 }), 300);
+        return;
+      }
+      ack({ ok: true, pid: 4244 });
+      // 'ñ' y después solo el primer byte de otra 'ñ'.
+      workerSocket.emit('exec-output', { id: msg.id, stream: 'stdout', data: Buffer.from([0x61, 0xc3, 0xb1, 0xc3]) });
+      workerSocket.emit('exec-exit', { id: msg.id, exitCode: 0, signal: null, timedOut: false, durationMs: 1 });
+    });
+
+    const exec = `/api/workers/${worker.id}/exec`;
+    const auth = { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' };
+
+    const aborter = new AbortController();
+    const canceled = request(exec, {
+      method: 'POST',
+      headers: auth,
+      body: JSON.stringify({ command: 'slow-start' }),
+      signal: aborter.signal,
+    }).catch(() => null);
+    await delay(100);
+    aborter.abort();
+    expect(await canceled).toBeNull();
+    await delay(500);
+    expect(started).toHaveLength(1);
+    expect(killed).toEqual(started);
+
+    const streamed = await request(exec, {
+      method: 'POST',
+      headers: { ...auth, Accept: 'text/event-stream' },
+      body: JSON.stringify({ command: 'utf8' }),
+    });
+    const events = (await streamed.text()).trim().split('\n\n').map((chunk) => {
+      const [event, data] = chunk.split('\n');
+      return { event: event.replace('event: ', ''), data: JSON.parse(data.replace('data: ', '')) };
+    });
+    expect(events.map((entry) => entry.event)).toEqual(['start', 'stdout', 'stdout', 'exit']);
+    expect(events.filter((entry) => entry.event === 'stdout').map((entry) => entry.data.data).join('')).toBe('añ\ufffd');
+  });
+});
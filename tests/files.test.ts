@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import { io } from 'socket.io-client';
+import { connect, useTenantNexus } from './nexus-harness';
+
+describe('archivos del worker', () => {
+  const nexus = useTenantNexus();
+  const { request, createWorker, sockets } = nexus;
+
+  it('sube y descarga archivos por el worker con permiso de control y límite de plan', async () => {
+    const worker = await createWorker(nexus.pabloToken, 'audit-files-worker');
+    const workerSocket = io(nexus.url, {
+      auth: {
+        type: 'worker',
+        apiKey: worker.api_key,
+        workerName: 'audit-files-worker',
+        protocol: 2,
+        capabilities: { features: ['shell', 'files'], shells: [] },
+      },
+    });
+    sockets.push(workerSocket);
+    await connect(workerSocket);
+
+    let stored = Buffer.alloc(0);
+    workerSocket.on('file-upload-start', (msg: { name: string; sessionId: string }, ack: (reply: unknown) => void) => {
+      expect(msg).toMatchObject({ name: 'notas.txt', sessionId: 'files-session' });
+      ack({ uploadId: 'part-1', dir: '/home/pablo', offset: 0 });
+    });
+    workerSocket.on('file-upload-chunk', (msg: { offset: number; data: Buffer }, ack: (reply: unknown) => void) => {
+      if (msg.offset !== stored.length) { ack({ error: 'EOFFSET', offset: stored.length }); return; }
+      stored = Buffer.concat([stored, msg.data]);
+      ack(stored.length < 10 ? { offset: stored.length, done: false } : { offset: stored.length, done: true, path: '/home/pablo/notas.txt' });
+    });
+    workerSocket.on('file-stat', (_msg: unknown, ack: (reply: unknown) => void) =>
+      ack({ path: '/home/pablo/notas.txt', size: stored.length, mtime: Date.now(), isFile: true }));
+    workerSocket.on('file-read', (msg: { offset: number; length: number }, ack: (reply: unknown) => void) =>
+      ack({ data: stored.subarray(msg.offset, msg.offset + msg.length), eof: true }));
+
+    const uploads = `/api/workers/${worker.id}/files/uploads`;
+    const start = (token: string, size: number) => request(uploads, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'notas.txt', size, sessionId: 'files-session' }),
+    });
+    expect((await start(nexus.miguelToken, 10)).status).toBe(403);
+    // El admin global entra al worker, pero su plan free no pasa de 10 MB.
+    const tooBig = await start(nexus.adminToken, 20 * 1024 * 1024);
+    expect(tooBig.status).toBe(403);
+    expect((await tooBig.json() as { code: string }).code).toBe('PLAN_LIMIT_TRANSFER');
+
+    const started = await start(nexus.pabloToken, 10);
+    expect(started.status).toBe(200);
+    const { uploadId } = await started.json() as { uploadId: string };
+    const put = (offset: number, data: string) => request(`${uploads}/${uploadId}?offset=${offset}`, {
+      method: 'PUT',
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/octet-stream' },
+      body: data,
+    });
+    expect(await (await put(0, 'hola ')).json()).toEqual({ offset: 5, done: false });
+    // Un reintento con el offset viejo devuelve dónde seguir.
+    const stale = await put(0, 'hola ');
+    expect(stale.status).toBe(409);
+    expect((await stale.json() as { offset: number }).offset).toBe(5);
+    expect(await (await put(5, 'mundo')).json()).toEqual({ offset: 10, done: true, path: '/home/pablo/notas.txt' });
+
+    const download = await request(`/api/workers/${worker.id}/files/download?path=notas.txt&sessionId=files-session`, {
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, Range: 'bytes=5-' },
+    });
+    expect(download.status).toBe(206);
+    expect(download.headers.get('content-range')).toBe('bytes 5-9/10');
+    expect(await download.text()).toBe('mundo');
+  });
+
+  it('lista, renombra y borra archivos del worker solo con permiso de control', async () => {
+    const worker = await createWorker(nexus.pabloToken, 'audit-browser-worker');
+    const workerSocket = io(nexus.url, {
+      auth: {
+        type: 'worker',
+        apiKey: worker.api_key,
+        workerName: 'audit-browser-worker',
+        protocol: 2,
+        capabilities: { features: ['shell', 'files'], shells: [] },
+      },
+    });
+    sockets.push(workerSocket);
+    await connect(workerSocket);
+
+    const calls: string[] = [];
+    workerSocket.on('file-list', (msg: { path?: string; sessionId?: string }, ack: (reply: unknown) => void) => {
+      calls.push(`list:${msg.path ?? ''}:${msg.sessionId}`);
+      ack({
+        path: '/home/pablo',
+        parent: '/home',
+        entries: [{ name: 'notas.txt', type: 'file', link: false, size: 10, mode: 0o644, mtime: 0 }],
+      });
+    });
+    workerSocket.on('file-rename', (msg: { path: string; name: string }, ack: (reply: unknown) => void) => {
+      calls.push(`rename:${msg.path}:${msg.name}`);
+      ack({ path: `/home/pablo/${msg.name}` });
+    });
+    workerSocket.on('file-delete', (msg: { path: string }, ack: (reply: unknown) => void) => {
+      calls.push(`delete:${msg.path}`);
+      ack({ error: 'EACCES' });
+    });
+
+    const files = `/api/workers/${worker.id}/files`;
+    const denied = await request(`${files}?sessionId=browser-session`, {
+      headers: { Authorization: `Bearer ${nexus.miguelToken}` },
+    });
+    expect(denied.status).toBe(403);
+
+    const listing = await request(`${files}?sessionId=browser-session`, {
+      headers: { Authorization: `Bearer ${nexus.pabloToken}` },
+    });
+    expect(listing.status).toBe(200);
+    expect(await listing.json()).toMatchObject({ path: '/home/pablo', entries: [{ name: 'notas.txt', mode: 0o644 }] });
+
+    const renamed = await request(`${files}/rename`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ path: '/home/pablo/notas.txt', name: 'ideas.txt' }),
+    });
+    expect(await renamed.json()).toEqual({ path: '/home/pablo/ideas.txt' });
+
+    // El worker decide con los permisos del usuario del PTY; Nexus solo traduce el errno.
+    const removed = await request(`${files}?path=${encodeURIComponent('/etc/passwd')}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${nexus.pabloToken}` },
+    });
+    expect(removed.status).toBe(403);
+    expect(calls).toEqual([
+      'list::browser-session',
+      'rename:/home/pablo/notas.txt:ideas.txt',
+      'delete:/etc/passwd',
+    ]);
+  });
+
+  it('edita archivos del worker con If-Match y avisa de conflictos', async () => {
+    const worker = await createWorker(nexus.pabloToken, 'audit-editor-worker');
+    const workerSocket = io(nexus.url, {
+      auth: {
+        type: 'worker',
+        apiKey: worker.api_key,
+        workerName: 'audit-editor-worker',
+        protocol: 2,
+        capabilities: { features: ['shell', 'files'], shells: [] },
+      },
+    });
+    sockets.push(workerSocket);
+    await connect(workerSocket);
+
+    let current = { content: 'PORT=80\n', hash: 'hash-1' };
+    workerSocket.on('file-read-text', (msg: { path: string; sessionId?: string }, ack: (reply: unknown) => void) => {
+      ack({ path: `/home/pablo/${msg.path}`, content: current.content, hash: current.hash, mtime: 1, writable: true });
+    });
+    workerSocket.on(
+      'file-write-text',
+      (msg: { path: string; content: string; expectedHash: string }, ack: (reply: unknown) => void) => {
+        if (msg.expectedHash !== current.hash) {
+          ack({ error: 'ECONFLICT', hash: current.hash, mtime: 2 });
+          return;
+        }
+        current = { content: msg.content, hash: `hash-${msg.content.length}` };
+        ack({ hash: current.hash, mtime: 3 });
+      }
+    );
+
+    const content = `/api/workers/${worker.id}/files/content`;
+    const denied = await request(`${content}?path=.env&sessionId=editor-session`, {
+      headers: { Authorization: `Bearer ${nexus.miguelToken}` },
+    });
+    expect(denied.status).toBe(403);
+
+    const opened = await request(`${content}?path=.env&sessionId=editor-session`, {
+      headers: { Authorization: `Bearer ${nexus.pabloToken}` },
+    });
+    expect(opened.status).toBe(200);
+    expect(opened.headers.get('etag')).toBe('"hash-1"');
+    expect(await opened.json()).toMatchObject({ path: '/home/pablo/.env', content: 'PORT=80\n' });
+
+    const save = (hash: string | null, body: string) => request(`${content}?path=${encodeURIComponent('/home/pablo/.env')}`, {
+      method: 'PUT',
+      headers: {
+        Authorization: `Bearer ${nexus.pabloToken}`,
+        'Content-Type': 'text/plain',
+        ...(hash ? { 'If-Match': `"${hash}"` } : {}),
+      },
+      body,
+    });
+    expect((await save(null, 'PORT=81\n')).status).toBe(428);
+
+    // Otro proceso cambió el archivo desde que se abrió.
+    current = { content: 'PORT=8080\n', hash: 'hash-2' };
+    const stale = await save('hash-1', 'PORT=81\n');
+    expect(stale.status).toBe(412);
+    expect(await stale.json()).toMatchObject({ hash: 'hash-2', mtime: 2 });
+    expect(current.content).toBe('PORT=8080\n');
+
+    const saved = await save('hash-2', 'PORT=81\n');
+    expect(saved.status).toBe(200);
+    expect(await saved.json()).toEqual({ hash: 'hash-8', mtime: 3 });
+    expect(current.content).toBe('PORT=81\n');
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { io } from 'socket.io-client';
+import { connect, delay, useTenantNexus } from './nexus-harness';
+
+describe('control de flujo del output', () => {
+  const nexus = useTenantNexus();
+  const { request, createWorker, sockets } = nexus;
+
+  it('pausa el PTY cuando el cliente no confirma output y lo reanuda con el ack', async () => {
+    const worker = await createWorker(nexus.pabloToken, 'audit-flow-worker');
+    const workerSocket = io(nexus.url, {
+      auth: {
+        type: 'worker',
+        apiKey: worker.api_key,
+        workerName: 'audit-flow-worker',
+        protocol: 2,
+        capabilities: { features: ['shell', 'binary', 'flow'], shells: [] },
+      },
+    });
+    const client = io(nexus.url, {
+      auth: { type: 'client', token: nexus.pabloToken, encoding: 'binary', flowControl: true },
+      forceNew: true,
+    });
+    sockets.push(workerSocket, client);
+    await Promise.all([connect(workerSocket), connect(client)]);
+
+    const sessionId = 'audit-flow-session';
+    client.emit('join-session', { workerId: worker.id, sessionId });
+    await delay(200);
+
+    const flow: string[] = [];
+    workerSocket.on('pause-output', (msg: { sessionId: string }) => flow.push(`pause:${msg.sessionId}`));
+    workerSocket.on('resume-output', (msg: { sessionId: string }) => flow.push(`resume:${msg.sessionId}`));
+    let received = 0;
+    client.on('output', (msg: { sessionId: string; data: Buffer }) => {
+      if (msg.sessionId === sessionId) received += msg.data.length;
+    });
+
+    const chunk = Buffer.alloc(256 * 1024, 'x');
+    for (let i = 0; i < 3; i += 1) workerSocket.emit('output', { sessionId, output: chunk });
+    await delay(800);
+    // Past the window the rest waits in the subscriber's queue.
+    expect(received).toBe(2 * chunk.length);
+    expect(flow).toEqual([`pause:${sessionId}`]);
+
+    client.emit('output-ack', { workerId: worker.id, sessionId, bytes: received });
+    await delay(300);
+    expect(received).toBe(3 * chunk.length);
+    client.emit('output-ack', { workerId: worker.id, sessionId, bytes: chunk.length });
+    await delay(300);
+    expect(flow).toEqual([`pause:${sessionId}`, `resume:${sessionId}`]);
+  });
+
+  it('encola el output del suscriptor lento sin frenar al resto y le pide resync', async () => {
+    const worker = await createWorker(nexus.pabloToken, 'audit-laggard-worker');
+    const workerSocket = io(nexus.url, {
+      auth: {
+        type: 'worker',
+        apiKey: worker.api_key,
+        workerName: 'audit-laggard-worker',
+        protocol: 2,
+        capabilities: { features: ['shell', 'binary', 'flow'], shells: [] },
+      },
+    });
+    const fast = io(nexus.url, {
+      auth: { type: 'client', token: nexus.pabloToken, encoding: 'binary', flowControl: true },
+      forceNew: true,
+    });
+    const slow = io(nexus.url, {
+      auth: { type: 'client', token: nexus.pabloToken, encoding: 'binary', flowControl: true },
+      forceNew: true,
+    });
+    sockets.push(workerSocket, fast, slow);
+    await Promise.all([connect(workerSocket), connect(fast), connect(slow)]);
+
+    const sessionId = 'audit-laggard-session';
+    fast.emit('join-session', { workerId: worker.id, sessionId });
+    slow.emit('join-session', { workerId: worker.id, sessionId });
+    await delay(200);
+
+    const paused: string[] = [];
+    workerSocket.on('pause-output', (msg: { sessionId: string }) => paused.push(msg.sessionId));
+    let fastBytes = 0;
+    let slowBytes = 0;
+    fast.on('output', (msg: { sessionId: string; data: Buffer; seq: number }) => {
+      if (msg.sessionId !== sessionId) return;
+      fastBytes += msg.data.length;
+      fast.emit('output-ack', { workerId: worker.id, sessionId, bytes: msg.data.length });
+    });
+    slow.on('output', (msg: { sessionId: string; data: Buffer }) => {
+      if (msg.sessionId === sessionId) slowBytes += msg.data.length;
+    });
+    const resync = new Promise<{ sessionId: string; reason: string }>((resolve) => slow.once('output-resync', resolve));
+
+    const chunk = Buffer.alloc(256 * 1024, 'y');
+    for (let i = 0; i < 12; i += 1) {
+      workerSocket.emit('output', { sessionId, output: chunk });
+      await delay(50);
+    }
+    await delay(800);
+
+    expect(fastBytes).toBe(12 * chunk.length);
+    expect(slowBytes).toBeLessThan(fastBytes);
+    expect(paused).toEqual([]);
+    expect(await resync).toMatchObject({ sessionId, reason: 'lagging' });
+
+    const lagResponse = await request('/api/sessions/lagging', { headers: { Authorization: `Bearer ${nexus.pabloToken}` } });
+    const { subscribers } = await lagResponse.json() as {
+      subscribers: Array<{ socketId: string; sessionId: string; drops: number; resyncing: boolean }>;
+    };
+    expect(subscribers.find((subscriber) => subscriber.socketId === slow.id)).toMatchObject({
+      sessionId,
+      drops: 1,
+      resyncing: true,
+    });
+    expect(subscribers.some((subscriber) => subscriber.socketId === fast.id)).toBe(false);
+    const miguelLag = await request('/api/sessions/lagging', { headers: { Authorization: `Bearer ${nexus.miguelToken}` } });
+    expect((await miguelLag.json() as { subscribers: unknown[] }).subscribers).toEqual([]);
+
+    await new Promise((resolve) => {
+      slow.emit('get-session-output', { workerId: worker.id, sessionId, sinceSeq: 0 }, resolve);
+    });
+    const after = await request('/api/sessions/lagging', { headers: { Authorization: `Bearer ${nexus.pabloToken}` } });
+    const cleared = (await after.json() as { subscribers: Array<{ socketId: string; resyncing: boolean }> }).subscribers;
+    expect(cleared.find((subscriber) => subscriber.socketId === slow.id)?.resyncing).toBe(false);
+  }, 20_000);
+});
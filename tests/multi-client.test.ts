@@ -76,6 +76,13 @@ describe('Multiple Clients - Independent Terminal Views', () => {
     });
     const data = await login.json();
     token = data.token;
+
+    // Each client opens its own session; the free plan allows only one per user.
+    await fetch(`${NEXUS_URL}/api/admin/upgrade-plan`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ adminPassword: ADMIN_PASSWORD, username: 'admin', plan: 'enterprise', makeAdmin: true })
+    });
   }, 20000);
 
   afterAll(async () => {
@@ -0,0 +1,285 @@
+import { afterAll, beforeAll, expect } from 'vitest';
+import { spawn, type ChildProcess } from 'child_process';
+import { createServer } from 'http';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { Socket } from 'socket.io-client';
+
+/**
+ * Setup shared by the suites that run a real Nexus as a child process. Each
+ * suite gets its own port, data directory and SQLite file, so files can run
+ * in any order.
+ */
+
+export const ADMIN_PASSWORD = 'audit-admin-dummy-only';
+export const TENANT_PASSWORD = 'audit-tenant-dummy-only';
+export const SETUP_TOKEN = 'audit-setup-dummy-only';
+
+const REPO_ROOT = path.resolve(__dirname, '..');
+
+export interface CreatedWorker {
+  id: string;
+  api_key: string;
+}
+
+export async function reservePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      if (!address || typeof address === 'string') {
+        server.close();
+        reject(new Error('No se pudo reservar un puerto'));
+        return;
+      }
+      const port = address.port;
+      server.close((error) => error ? reject(error) : resolve(port));
+    });
+  });
+}
+
+export async function waitForServer(url: string, process: ChildProcess, timeoutMs = 10_000): Promise<void> {
+  const started = Date.now();
+  while (Date.now() - started < timeoutMs) {
+    if (process.exitCode !== null) throw new Error(`Nexus terminó con ${process.exitCode}`);
+    try {
+      const response = await fetch(`${url}/api/auth/status`);
+      if (response.ok) return;
+    } catch {
+      // The listener is not ready yet.
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  throw new Error('Nexus no inició a tiempo');
+}
+
+export async function connect(socket: Socket): Promise<void> {
+  if (socket.connected) return;
+  await new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error('Socket no conectó a tiempo')), 4_000);
+    socket.once('connect', () => {
+      clearTimeout(timeout);
+      resolve();
+    });
+    socket.once('connect_error', (error) => {
+      clearTimeout(timeout);
+      reject(error);
+    });
+  });
+}
+
+export async function delay(ms: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function isolatedSqliteEnv(): NodeJS.ProcessEnv {
+  const env = { ...process.env };
+  delete env.API_KEY;
+  delete env.DATABASE_URL;
+  return env;
+}
+
+// npx spawns node as a child: each process gets its own group so stopping it
+// reaches node too instead of orphaning it.
+function spawnTsNode(script: string, env: NodeJS.ProcessEnv): ChildProcess {
+  return spawn('npx', ['ts-node', script], { cwd: REPO_ROOT, env, stdio: 'ignore', detached: true });
+}
+
+export async function stopProcess(child: ChildProcess | undefined): Promise<void> {
+  if (!child?.pid || child.exitCode !== null || child.signalCode !== null) return;
+  const exited = new Promise<void>((resolve) => child.once('exit', () => resolve()));
+  process.kill(-child.pid, 'SIGTERM');
+  await exited;
+}
+
+export async function startNexus(options: { dataDir: string; port?: number; env?: Record<string, string> }) {
+  const port = options.port ?? await reservePort();
+  const url = `http://127.0.0.1:${port}`;
+  const child = spawnTsNode('nexus/src/index.ts', {
+    ...isolatedSqliteEnv(),
+    PORT: String(port),
+    NODE_ENV: 'test',
+    NEXUS_DATA_DIR: options.dataDir,
+    NEXUS_JWT_SECRET: 'audit-jwt-dummy-only',
+    ADMIN_PASSWORD,
+    ...options.env,
+  });
+  await waitForServer(url, child);
+  return { url, port, child };
+}
+
+/** A real worker process, connected with the key of a worker created through the API. */
+export function startWorker(nexusUrl: string, worker: CreatedWorker, name: string): ChildProcess {
+  return spawnTsNode('worker/src/index.ts', {
+    ...isolatedSqliteEnv(),
+    NEXUS_URL: nexusUrl,
+    API_KEY: worker.api_key,
+    WORKER_NAME: name,
+  });
+}
+
+async function loginAt(url: string, username: string, password: string): Promise<string> {
+  const response = await fetch(`${url}/api/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  expect(response.status).toBe(200);
+  const body = await response.json() as { token: string };
+  return body.token;
+}
+
+async function createWorkerAt(url: string, token: string, name: string): Promise<CreatedWorker> {
+  const response = await fetch(`${url}/api/workers`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name }),
+  });
+  expect(response.status).toBe(200);
+  return response.json() as Promise<CreatedWorker>;
+}
+
+async function upgradePlan(url: string, body: Record<string, unknown>): Promise<void> {
+  const response = await fetch(`${url}/api/admin/upgrade-plan`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ adminPassword: ADMIN_PASSWORD, plan: 'enterprise', ...body }),
+  });
+  expect(response.status).toBe(200);
+}
+
+async function registerUser(url: string, username: string): Promise<void> {
+  const response = await fetch(`${url}/api/auth/register`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password: TENANT_PASSWORD, setupToken: SETUP_TOKEN }),
+  });
+  expect(response.status).toBe(200);
+}
+
+export interface TenantNexus {
+  url: string;
+  dataDir: string;
+  adminToken: string;
+  miguelToken: string;
+  pabloToken: string;
+  /** Another user of pablo's tenant. */
+  pabloPeerToken: string;
+  /** Also in pablo's tenant; tests take access away from this one. */
+  pabloRevokedToken: string;
+  /** Client sockets the suite opened; disconnected after it. */
+  sockets: Socket[];
+  request: (pathname: string, init?: RequestInit) => Promise<Response>;
+  login: (username: string, password: string) => Promise<string>;
+  createWorker: (token: string, name: string) => Promise<CreatedWorker>;
+}
+
+/**
+ * Registers the suite's hooks and returns its Nexus, filled in by `beforeAll`:
+ * the seeded miguel and pablo tenants on the enterprise plan, plus pablo-peer
+ * and pablo-revoked inside pablo's tenant.
+ */
+export function useTenantNexus(): TenantNexus {
+  let child: ChildProcess | undefined;
+  const nexus: TenantNexus = {
+    url: '',
+    dataDir: '',
+    adminToken: '',
+    miguelToken: '',
+    pabloToken: '',
+    pabloPeerToken: '',
+    pabloRevokedToken: '',
+    sockets: [],
+    request: (pathname, init = {}) => fetch(`${nexus.url}${pathname}`, init),
+    login: (username, password) => loginAt(nexus.url, username, password),
+    createWorker: (token, name) => createWorkerAt(nexus.url, token, name),
+  };
+
+  beforeAll(async () => {
+    nexus.dataDir = await mkdtemp(path.join(tmpdir(), 'ultimate-terminal-tenant-'));
+    ({ url: nexus.url, child } = await startNexus({
+      dataDir: nexus.dataDir,
+      env: {
+        NEXUS_SETUP_TOKEN: SETUP_TOKEN,
+        SEED_TENANT_USERS: 'true',
+        TENANT_DEFAULT_PASSWORD: TENANT_PASSWORD,
+      },
+    }));
+    nexus.adminToken = await nexus.login('admin', ADMIN_PASSWORD);
+    nexus.miguelToken = await nexus.login('miguel', TENANT_PASSWORD);
+    nexus.pabloToken = await nexus.login('pablo', TENANT_PASSWORD);
+    for (const username of ['miguel', 'pablo']) {
+      await upgradePlan(nexus.url, { username });
+    }
+
+    await registerUser(nexus.url, 'pablo-peer');
+    await upgradePlan(nexus.url, { username: 'pablo-peer', tenant: 'pablo' });
+    nexus.pabloPeerToken = await nexus.login('pablo-peer', TENANT_PASSWORD);
+
+    await registerUser(nexus.url, 'pablo-revoked');
+    await upgradePlan(nexus.url, { username: 'pablo-revoked', tenant: 'pablo' });
+    nexus.pabloRevokedToken = await nexus.login('pablo-revoked', TENANT_PASSWORD);
+  }, 15_000);
+
+  afterAll(async () => {
+    nexus.sockets.forEach((socket) => socket.disconnect());
+    await stopProcess(child);
+    if (nexus.dataDir) await rm(nexus.dataDir, { recursive: true, force: true });
+  });
+
+  return nexus;
+}
+
+export interface AdminNexus {
+  url: string;
+  dataDir: string;
+  sockets: Socket[];
+  /** Token of the legacy admin, on the enterprise plan. */
+  login: () => Promise<string>;
+  createWorker: (token: string, name: string) => Promise<CreatedWorker>;
+  /** Stops Nexus (it flushes on SIGTERM) and starts it again on the same port and data. */
+  restart: () => Promise<void>;
+  /** Real worker process for this Nexus; stopped after the suite. */
+  startWorker: (worker: CreatedWorker, name: string) => ChildProcess;
+}
+
+/** Registers the suite's hooks for a Nexus with just the admin user. */
+export function useAdminNexus(env: Record<string, string> = {}): AdminNexus {
+  let child: ChildProcess | undefined;
+  let port: number | undefined;
+  const workers: ChildProcess[] = [];
+  const nexus: AdminNexus = {
+    url: '',
+    dataDir: '',
+    sockets: [],
+    login: () => loginAt(nexus.url, 'admin', ADMIN_PASSWORD),
+    createWorker: (token, name) => createWorkerAt(nexus.url, token, name),
+    restart: async () => {
+      await stopProcess(child);
+      child = undefined;
+      ({ child } = await startNexus({ dataDir: nexus.dataDir, port, env }));
+    },
+    startWorker: (worker, name) => {
+      const workerProcess = startWorker(nexus.url, worker, name);
+      workers.push(workerProcess);
+      return workerProcess;
+    },
+  };
+
+  beforeAll(async () => {
+    nexus.dataDir = await mkdtemp(path.join(tmpdir(), 'ultimate-terminal-sessions-'));
+    ({ url: nexus.url, port, child } = await startNexus({ dataDir: nexus.dataDir, env }));
+    await upgradePlan(nexus.url, { username: 'admin', makeAdmin: true });
+  }, 15_000);
+
+  afterAll(async () => {
+    nexus.sockets.forEach((socket) => socket.disconnect());
+    await Promise.all(workers.map((workerProcess) => stopProcess(workerProcess)));
+    await stopProcess(child);
+    if (nexus.dataDir) await rm(nexus.dataDir, { recursive: true, force: true });
+  });
+
+  return nexus;
+}
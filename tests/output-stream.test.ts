@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { io } from 'socket.io-client';
+import { SessionOutputBuffer } from '../nexus/src/services/output-buffer';
+import { connect, delay, useAdminNexus } from './nexus-harness';
+
+describe('stream de output', () => {
+  const nexus = useAdminNexus();
+  const { login, createWorker, sockets } = nexus;
+
+  it('acota el buffer por bytes y pide redibujar si el seq ya salió de la ventana', () => {
+    const buffer = new SessionOutputBuffer(1024);
+    const first = buffer.append(Buffer.from('a'.repeat(600))).seq;
+    const second = buffer.append(Buffer.from('b'.repeat(600))).seq;
+    expect(second).toBe(first + 1);
+    expect(buffer.bytes).toBeLessThanOrEqual(1024);
+    expect(buffer.since(second)).toEqual({ data: Buffer.alloc(0), seq: second, reset: false });
+    expect(buffer.since(first)).toEqual({ data: Buffer.from('b'.repeat(600)), seq: second, reset: false });
+    expect(buffer.since(0)).toEqual({ data: Buffer.from('b'.repeat(600)), seq: second, reset: true });
+
+    const restored = new SessionOutputBuffer(1024, { data: Buffer.from('previo'), seq: 7 });
+    expect(restored.since(7)).toEqual({ data: Buffer.alloc(0), seq: 7, reset: false });
+    expect(restored.since(3)).toEqual({ data: Buffer.from('previo'), seq: 7, reset: true });
+
+    // Un carácter partido entre chunks: los bytes se guardan tal cual y el
+    // texto para clientes utf8 sale entero en el chunk que lo completa.
+    const euro = Buffer.from('€');
+    const split = new SessionOutputBuffer(1024);
+    expect(split.append(euro.subarray(0, 1)).text).toBe('');
+    expect(split.append(euro.subarray(1)).text).toBe('€');
+    expect(split.snapshot()).toEqual(euro);
+  });
+
+  it('numera el output y reanuda get-session-output desde un seq', async () => {
+    const token = await login();
+    const worker = await createWorker(token, 'seq-worker');
+
+    const workerSocket = io(nexus.url, {
+      reconnection: false,
+      auth: { type: 'worker', apiKey: worker.api_key, workerName: 'seq-worker' },
+    });
+    const client = io(nexus.url, { reconnection: false, auth: { type: 'client', token } });
+    sockets.push(workerSocket, client);
+    await Promise.all([connect(workerSocket), connect(client)]);
+
+    const sessionId = 'seq-session';
+    client.emit('join-session', { workerId: worker.id, sessionId });
+    await delay(150);
+
+    const received: Array<{ data: string; seq: number }> = [];
+    client.on('output', (message: { sessionId: string; data: string; seq: number }) => {
+      if (message.sessionId === sessionId) received.push({ data: message.data, seq: message.seq });
+    });
+    for (const chunk of ['uno|', 'dos|', 'tres|']) {
+      workerSocket.emit('output', { sessionId, output: chunk });
+    }
+    await delay(300);
+    expect(received.map((item) => item.data)).toEqual(['uno|', 'dos|', 'tres|']);
+    const seqs = received.map((item) => item.seq);
+    expect(seqs[1]).toBe(seqs[0] + 1);
+    expect(seqs[2]).toBe(seqs[1] + 1);
+
+    const resumed = await new Promise<{ data: string; seq: number; reset: boolean }>((resolve) => {
+      client.emit('get-session-output', { workerId: worker.id, sessionId, sinceSeq: seqs[0] }, resolve);
+    });
+    expect(resumed).toEqual({ data: 'dos|tres|', seq: seqs[2], reset: false });
+
+    const legacy = await new Promise<string>((resolve) => {
+      client.emit('get-session-output', { workerId: worker.id, sessionId }, resolve);
+    });
+    expect(legacy).toBe('uno|dos|tres|');
+  }, 15_000);
+
+  it('negocia output binario y entrega los bytes exactos del PTY', async () => {
+    const token = await login();
+    const worker = await createWorker(token, 'binary-worker');
+
+    const workerSocket = io(nexus.url, {
+      reconnection: false,
+      auth: { type: 'worker', apiKey: worker.api_key, workerName: 'binary-worker' },
+    });
+    const binaryClient = io(nexus.url, { reconnection: false, auth: { type: 'client', token, encoding: 'binary' } });
+    const textClient = io(nexus.url, { reconnection: false, forceNew: true, auth: { type: 'client', token } });
+    sockets.push(workerSocket, binaryClient, textClient);
+    await Promise.all([connect(workerSocket), connect(binaryClient), connect(textClient)]);
+
+    const sessionId = 'binary-session';
+    binaryClient.emit('join-session', { workerId: worker.id, sessionId });
+    textClient.emit('join-session', { workerId: worker.id, sessionId });
+    await delay(150);
+
+    const bytes: Buffer[] = [];
+    const text: string[] = [];
+    binaryClient.on('output', (message: { sessionId: string; data: Buffer }) => {
+      if (message.sessionId === sessionId) bytes.push(Buffer.from(message.data));
+    });
+    textClient.on('output', (message: { sessionId: string; data: string }) => {
+      if (message.sessionId === sessionId) text.push(message.data);
+    });
+
+    // "ñ" partida entre dos chunks y un byte que no es UTF-8 válido.
+    const produced = Buffer.concat([Buffer.from('a'), Buffer.from('ñ'), Buffer.from([0xff]), Buffer.from('z')]);
+    workerSocket.emit('output', { sessionId, output: produced.subarray(0, 2) });
+    workerSocket.emit('output', { sessionId, output: produced.subarray(2) });
+    await delay(300);
+
+    expect(Buffer.concat(bytes)).toEqual(produced);
+    expect(text.join('')).toBe('añ\uFFFDz');
+
+    const resumed = await new Promise<{ data: Buffer; reset: boolean }>((resolve) => {
+      binaryClient.emit('get-session-output', { workerId: worker.id, sessionId, sinceSeq: 0 }, resolve);
+    });
+    expect(Buffer.from(resumed.data)).toEqual(produced);
+  }, 15_000);
+});
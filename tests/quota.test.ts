@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { io } from 'socket.io-client';
+import { TENANT_PASSWORD, SETUP_TOKEN, connect, delay, useTenantNexus } from './nexus-harness';
+
+describe('cuota de sesiones', () => {
+  const nexus = useTenantNexus();
+  const { request, login, createWorker, sockets } = nexus;
+
+  it('cuenta la cuota de sesiones por usuario en todos sus dispositivos', async () => {
+    const register = await request('/api/auth/register', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: 'quota-free', password: TENANT_PASSWORD, setupToken: SETUP_TOKEN }),
+    });
+    expect(register.status).toBe(200);
+    const quotaToken = await login('quota-free', TENANT_PASSWORD);
+    const worker = await createWorker(quotaToken, 'audit-quota-worker');
+
+    const workerSocket = io(nexus.url, {
+      auth: { type: 'worker', apiKey: worker.api_key, workerName: 'audit-quota-worker' },
+    });
+    const desktopSocket = io(nexus.url, { auth: { type: 'client', token: quotaToken } });
+    const mobileSocket = io(nexus.url, {
+      auth: { type: 'client', token: quotaToken },
+      extraHeaders: { 'User-Agent': 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile' },
+    });
+    sockets.push(workerSocket, desktopSocket, mobileSocket);
+    await Promise.all([connect(workerSocket), connect(desktopSocket), connect(mobileSocket)]);
+
+    const usage = async () => {
+      const response = await request('/api/sessions/usage', { headers: { Authorization: `Bearer ${quotaToken}` } });
+      expect(response.status).toBe(200);
+      return response.json() as Promise<{ plan: string; current: number; max: number; sessions: Array<{ sessionId: string; workerName: string }> }>;
+    };
+    expect(await usage()).toMatchObject({ plan: 'free', current: 0, max: 1, sessions: [] });
+
+    desktopSocket.emit('resize', { workerId: worker.id, sessionId: 'audit-quota-first', cols: 80, rows: 24 });
+    await delay(150);
+    expect(await usage()).toMatchObject({
+      current: 1,
+      sessions: [{ sessionId: 'audit-quota-first', workerName: 'audit-quota-worker' }],
+    });
+
+    // Otro dispositivo del mismo usuario no esquiva el límite del plan.
+    const limited = new Promise<{ code: string; current: number; max: number }>((resolve) => mobileSocket.once('plan-limit', resolve));
+    let secondCreated = false;
+    workerSocket.on('resize', (message) => {
+      if (message?.sessionId === 'audit-quota-second') secondCreated = true;
+    });
+    mobileSocket.emit('resize', { workerId: worker.id, sessionId: 'audit-quota-second', cols: 80, rows: 24 });
+    expect(await limited).toMatchObject({ code: 'PLAN_LIMIT_SESSIONS', current: 1, max: 1 });
+    await delay(100);
+    expect(secondCreated).toBe(false);
+
+    // Retomar la sesión existente desde el móvil no consume cuota.
+    const resumed = new Promise<void>((resolve) => {
+      workerSocket.on('resize', (message) => {
+        if (message?.sessionId === 'audit-quota-first' && message?.cols === 50) resolve();
+      });
+    });
+    mobileSocket.emit('resize', { workerId: worker.id, sessionId: 'audit-quota-first', cols: 50, rows: 20 });
+    await resumed;
+
+    desktopSocket.emit('close-session', { workerId: worker.id, sessionId: 'audit-quota-first' });
+    await delay(150);
+    expect((await usage()).current).toBe(0);
+
+    mobileSocket.emit('resize', { workerId: worker.id, sessionId: 'audit-quota-second', cols: 80, rows: 24 });
+    await delay(150);
+    expect(secondCreated).toBe(true);
+    expect((await usage()).sessions.map((session) => session.sessionId)).toEqual(['audit-quota-second']);
+  });
+
+  it('no cuenta en la cuota de quien solo se une a una sesión anunciada', async () => {
+    const worker = await createWorker(nexus.pabloToken, 'audit-quota-join-worker');
+    const share = await request('/api/workers/share', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workerId: worker.id, targetUsername: 'pablo-peer', permission: 'view' }),
+    });
+    expect(share.status).toBe(200);
+
+    const workerSocket = io(nexus.url, {
+      auth: { type: 'worker', apiKey: worker.api_key, workerName: 'audit-quota-join-worker' },
+    });
+    const ownerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloToken } });
+    const peerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloPeerToken } });
+    sockets.push(workerSocket, ownerSocket, peerSocket);
+    await Promise.all([connect(workerSocket), connect(ownerSocket), connect(peerSocket)]);
+
+    const sessionsOf = async (token: string) => {
+      const response = await request('/api/sessions/usage', { headers: { Authorization: `Bearer ${token}` } });
+      expect(response.status).toBe(200);
+      const usage = await response.json() as { sessions: Array<{ sessionId: string }> };
+      return usage.sessions.map((session) => session.sessionId);
+    };
+    const sessionId = 'audit-quota-join-session';
+    const peerBefore = await sessionsOf(nexus.pabloPeerToken);
+
+    // Un PTY que sobrevivió al reinicio vuelve sin creador.
+    workerSocket.emit('session-announce', {
+      sessions: [{ sessionId, startedAt: Date.now(), cols: 80, rows: 24, pid: 4242, kind: 'shell' }],
+    });
+    await delay(150);
+    peerSocket.emit('join-session', { workerId: worker.id, sessionId });
+    await delay(150);
+    expect(await sessionsOf(nexus.pabloPeerToken)).toEqual(peerBefore);
+    expect(await sessionsOf(nexus.pabloToken)).not.toContain(sessionId);
+
+    // Escribir en ella con control sí la reclama.
+    ownerSocket.emit('execute', { workerId: worker.id, sessionId, command: 'CLAIM' });
+    await delay(150);
+    expect(await sessionsOf(nexus.pabloToken)).toContain(sessionId);
+    expect(await sessionsOf(nexus.pabloPeerToken)).toEqual(peerBefore);
+  });
+});
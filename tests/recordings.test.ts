@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { io } from 'socket.io-client';
+import { connect, delay, useAdminNexus } from './nexus-harness';
+
+describe('grabación de sesiones', () => {
+  const nexus = useAdminNexus();
+  const { login, createWorker, sockets } = nexus;
+
+  it('graba la sesión en asciicast v2 y expone la grabación por REST', async () => {
+    const token = await login();
+    const headers = { Authorization: `Bearer ${token}` };
+    const worker = await createWorker(token, 'record-worker');
+
+    const workerSocket = io(nexus.url, {
+      reconnection: false,
+      auth: { type: 'worker', apiKey: worker.api_key, workerName: 'record-worker' },
+    });
+    const client = io(nexus.url, { reconnection: false, auth: { type: 'client', token } });
+    sockets.push(workerSocket, client);
+    await Promise.all([connect(workerSocket), connect(client)]);
+
+    const sessionId = 'recorded-session';
+    client.emit('join-session', { workerId: worker.id, sessionId });
+    workerSocket.emit('output', { sessionId, output: 'antes|' });
+    await delay(200);
+
+    const started = await new Promise<{ recordingId?: string; error?: string }>((resolve) => {
+      client.emit('start-recording', { workerId: worker.id, sessionId }, resolve);
+    });
+    expect(started.error).toBeUndefined();
+    workerSocket.emit('session-resized', { sessionId, cols: 100, rows: 30 });
+    workerSocket.emit('output', { sessionId, output: 'grabado|' });
+    await delay(200);
+    client.emit('add-recording-marker', { workerId: worker.id, sessionId, label: 'revisar' });
+    await delay(100);
+    const stopped = await new Promise<{ recordingId?: string }>((resolve) => {
+      client.emit('stop-recording', { workerId: worker.id, sessionId }, resolve);
+    });
+    expect(stopped.recordingId).toBe(started.recordingId);
+
+    const listResponse = await fetch(`${nexus.url}/api/workers/${worker.id}/recordings`, { headers });
+    const recordings = await listResponse.json() as Array<{ id: string; session_id: string; ended_at: number | null }>;
+    expect(recordings).toEqual([expect.objectContaining({ id: started.recordingId, session_id: sessionId })]);
+    expect(recordings[0].ended_at).not.toBeNull();
+
+    const download = await fetch(
+      `${nexus.url}/api/workers/${worker.id}/recordings/${started.recordingId}/download`,
+      { headers }
+    );
+    expect(download.status).toBe(200);
+    const [header, ...events] = (await download.text()).trim().split('\n').map((line) => JSON.parse(line));
+    expect(header).toEqual(expect.objectContaining({ version: 2, width: 80, height: 24 }));
+    expect(events.map((event: [number, string, string]) => [event[1], event[2]])).toEqual([
+      ['o', 'antes|'],
+      ['r', '100x30'],
+      ['o', 'grabado|'],
+      ['m', 'revisar'],
+    ]);
+
+    const accessible = await fetch(`${nexus.url}/api/workers/recordings`, { headers });
+    expect((await accessible.json() as Array<{ id: string }>).map((item) => item.id)).toContain(started.recordingId);
+
+    const deleteResponse = await fetch(
+      `${nexus.url}/api/workers/${worker.id}/recordings/${started.recordingId}`,
+      { method: 'DELETE', headers }
+    );
+    expect(deleteResponse.status).toBe(200);
+    const afterDelete = await fetch(`${nexus.url}/api/workers/${worker.id}/recordings`, { headers });
+    expect(await afterDelete.json()).toEqual([]);
+  }, 15_000);
+});
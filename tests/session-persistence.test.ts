@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'vitest';
+import path from 'path';
+import { io, type Socket } from 'socket.io-client';
+import Database from 'better-sqlite3';
+import { connect, delay, stopProcess, useAdminNexus } from './nexus-harness';
+
+interface ListedSession {
+  id: string;
+  workerId: string;
+  displayName: string;
+  kind?: string;
+  cols?: number;
+}
+
+describe('persistencia de sesiones', () => {
+  // Only the shutdown flush can persist the output within these tests.
+  const nexus = useAdminNexus({ SESSION_PERSIST_DEBOUNCE_MS: '60000' });
+  const { login, createWorker, restart, sockets } = nexus;
+
+  function nextSessionList(socket: Socket): Promise<ListedSession[]> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('No llegó session-list')), 3_000);
+      socket.once('session-list', (list: ListedSession[]) => {
+        clearTimeout(timeout);
+        resolve(list);
+      });
+    });
+  }
+
+  it('restaura sesiones, nombre y buffer de replay tras reiniciar Nexus', async () => {
+    let token = await login();
+    const worker = await createWorker(token, 'persist-worker');
+
+    const workerSocket = io(nexus.url, {
+      reconnection: false,
+      auth: { type: 'worker', apiKey: worker.api_key, workerName: 'persist-worker' },
+    });
+    const client = io(nexus.url, { reconnection: false, auth: { type: 'client', token } });
+    sockets.push(workerSocket, client);
+    await Promise.all([connect(workerSocket), connect(client)]);
+
+    const sessionId = 'persist-session';
+    client.emit('create-session', { id: sessionId, workerName: 'persist-worker', displayName: 'Original' });
+    await delay(150);
+    workerSocket.emit('output', { sessionId, output: 'PERSISTED_REPLAY_MARKER' });
+    client.emit('rename-session', { workerId: worker.id, sessionId, newName: 'Renombrada' });
+    await delay(200);
+
+    workerSocket.disconnect();
+    client.disconnect();
+    await restart();
+
+    token = await login();
+    const restoredClient = io(nexus.url, { reconnection: false, auth: { type: 'client', token } });
+    sockets.push(restoredClient);
+    const listPromise = nextSessionList(restoredClient);
+    await connect(restoredClient);
+    const restored = await listPromise;
+    expect(restored).toContainEqual(expect.objectContaining({
+      id: sessionId,
+      workerId: worker.id,
+      displayName: 'Renombrada',
+    }));
+
+    const output = await new Promise<string>((resolve) => {
+      restoredClient.emit('get-session-output', { workerId: worker.id, sessionId }, resolve);
+    });
+    expect(output).toContain('PERSISTED_REPLAY_MARKER');
+
+    restoredClient.emit('close-session', { workerId: worker.id, sessionId });
+    await delay(200);
+    const sqlite = new Database(path.join(nexus.dataDir, 'nexus.db'), { readonly: true });
+    try {
+      const row = sqlite.prepare('SELECT id FROM sessions WHERE worker_id = ? AND id = ?').get(worker.id, sessionId);
+      expect(row).toBeUndefined();
+    } finally {
+      sqlite.close();
+    }
+  }, 30_000);
+
+  it('reconstruye sesiones anunciadas por el worker al reconectar', async () => {
+    const token = await login();
+    const worker = await createWorker(token, 'announce-worker');
+
+    const client = io(nexus.url, { reconnection: false, auth: { type: 'client', token } });
+    sockets.push(client);
+    await connect(client);
+    const sessionId = 'announced-tui-session';
+    client.emit('join-session', { workerId: worker.id, sessionId });
+    await delay(150);
+
+    const restored = new Promise<{ workerId: string; sessionId: string }>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('No llegó session-restored')), 3_000);
+      client.once('session-restored', (message) => {
+        clearTimeout(timeout);
+        resolve(message);
+      });
+    });
+    const listed = new Promise<ListedSession | undefined>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('La sesión anunciada no apareció')), 3_000);
+      const onList = (sessions: ListedSession[]) => {
+        const match = sessions.find((session) => session.id === sessionId && session.kind === 'tui');
+        if (!match) return;
+        clearTimeout(timeout);
+        client.off('session-list', onList);
+        resolve(match);
+      };
+      client.on('session-list', onList);
+    });
+
+    const workerSocket = io(nexus.url, {
+      reconnection: false,
+      auth: { type: 'worker', apiKey: worker.api_key, workerName: 'announce-worker' },
+    });
+    sockets.push(workerSocket);
+    await connect(workerSocket);
+    workerSocket.emit('session-announce', {
+      sessions: [{ sessionId, cols: 120, rows: 40, kind: 'tui', pid: 4242, startedAt: Date.now() - 60_000 }],
+    });
+
+    await expect(restored).resolves.toEqual({ workerId: worker.id, sessionId });
+    await expect(listed).resolves.toEqual(expect.objectContaining({ workerId: worker.id, cols: 120 }));
+  }, 15_000);
+
+  it('reenvía el output del spool tras caer Nexus sin huecos, duplicados ni desorden', async () => {
+    const token = await login();
+    const worker = await createWorker(token, 'spool-worker');
+
+    // A real worker: the spool lives in its process, not in Nexus.
+    const workerProcess = nexus.startWorker(worker, 'spool-worker');
+    const client = io(nexus.url, { reconnection: false, auth: { type: 'client', token } });
+    sockets.push(client);
+    await connect(client);
+    const online = async () => {
+      const response = await fetch(`${nexus.url}/api/workers`, { headers: { Authorization: `Bearer ${token}` } });
+      const list = await response.json() as Array<{ id: string; status: string }>;
+      return list.some((entry) => entry.id === worker.id && entry.status === 'online');
+    };
+    for (let i = 0; i < 100 && !(await online()); i += 1) await delay(200);
+    expect(await online()).toBe(true);
+
+    const sessionId = 'spool-session';
+    const lines = 300;
+    let before = '';
+    client.on('output', (message: { sessionId: string; data: string }) => {
+      if (message.sessionId === sessionId) before += message.data;
+    });
+    client.emit('execute', {
+      workerId: worker.id,
+      sessionId,
+      command: `for i in $(seq 1 ${lines}); do printf 'L%03d\\n' $i; sleep 0.05; done\n`,
+    });
+    for (let i = 0; i < 100 && !before.includes('L010'); i += 1) await delay(100);
+    expect(before).toContain('L010');
+
+    // Nexus cae a mitad del bucle; el worker sigue y guarda el output.
+    client.disconnect();
+    await restart();
+    const freshToken = await login();
+    const restoredClient = io(nexus.url, { reconnection: false, auth: { type: 'client', token: freshToken } });
+    sockets.push(restoredClient);
+    const received: Array<{ data: string; seq: number; spooled: boolean }> = [];
+    restoredClient.on('output', (message: { sessionId: string; data: string; seq: number; spooled?: boolean }) => {
+      if (message.sessionId === sessionId) received.push({ data: message.data, seq: message.seq, spooled: message.spooled === true });
+    });
+    await connect(restoredClient);
+    restoredClient.emit('join-session', { workerId: worker.id, sessionId });
+
+    const last = `L${String(lines).padStart(3, '0')}`;
+    for (let i = 0; i < 300 && !received.some((item) => item.data.includes(last)); i += 1) await delay(100);
+    // El prompt que sigue al bucle también tiene que llegar antes de comparar.
+    for (let count = -1; count !== received.length; await delay(500)) count = received.length;
+    expect(received.some((item) => item.spooled)).toBe(true);
+
+    // El buffer de la sesión tiene cada línea una vez y en orden.
+    const full = await new Promise<string>((resolve) => {
+      restoredClient.emit('get-session-output', { workerId: worker.id, sessionId }, resolve);
+    });
+    const numbers = Array.from(full.matchAll(/L(\d{3})\r?$/gm), (match) => Number(match[1]));
+    expect(numbers).toEqual(Array.from({ length: lines }, (_, index) => index + 1));
+
+    // Lo recibido en vivo: seqs consecutivos, el spool antes que lo nuevo, y
+    // lo mismo que guarda el buffer desde el primero.
+    const seqs = received.map((item) => item.seq);
+    expect(seqs).toEqual(seqs.map((_, index) => seqs[0] + index));
+    const firstLive = received.findIndex((item) => !item.spooled);
+    expect(received.slice(firstLive === -1 ? received.length : firstLive).every((item) => !item.spooled)).toBe(true);
+    const resumed = await new Promise<{ data: string; seq: number }>((resolve) => {
+      restoredClient.emit('get-session-output', { workerId: worker.id, sessionId, sinceSeq: seqs[0] - 1 }, resolve);
+    });
+    expect(resumed).toEqual(expect.objectContaining({ data: received.map((item) => item.data).join(''), seq: seqs[seqs.length - 1] }));
+
+    await stopProcess(workerProcess);
+  }, 90_000);
+});
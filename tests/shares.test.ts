@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import { io } from 'socket.io-client';
+import { connect, delay, useTenantNexus } from './nexus-harness';
+
+describe('compartir workers y sesiones', () => {
+  const nexus = useTenantNexus();
+  const { request, createWorker, sockets } = nexus;
+
+  it('permite observar con share view pero rechaza execute, resize, rename y close', async () => {
+    const worker = await createWorker(nexus.pabloToken, 'audit-view-only-worker');
+    const shareAs = async (permission: string) => request('/api/workers/share', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workerId: worker.id, targetUsername: 'pablo-peer', permission }),
+    });
+    expect((await shareAs('root')).status).toBe(400);
+    const share = await shareAs('view');
+    expect(share.status).toBe(200);
+    expect((await share.json() as { user: { permission: string } }).user.permission).toBe('view');
+
+    // Unirse por código no sube un share view existente a control.
+    const rejoin = await request('/api/workers/join', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${nexus.pabloPeerToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workerId: worker.id }),
+    });
+    expect(rejoin.status).toBe(200);
+    const listResponse = await request('/api/workers', { headers: { Authorization: `Bearer ${nexus.pabloPeerToken}` } });
+    const list = await listResponse.json() as Array<{ id: string; permission: string }>;
+    expect(list.find((item) => item.id === worker.id)?.permission).toBe('view');
+
+    const workerSocket = io(nexus.url, {
+      auth: { type: 'worker', apiKey: worker.api_key, workerName: 'audit-view-only-worker' },
+    });
+    const ownerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloToken } });
+    const viewerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloPeerToken } });
+    sockets.push(workerSocket, ownerSocket, viewerSocket);
+    await Promise.all([connect(workerSocket), connect(ownerSocket), connect(viewerSocket)]);
+
+    const errors: string[] = [];
+    viewerSocket.on('error', (message: string) => errors.push(message));
+    const workerCommands: string[] = [];
+    workerSocket.on('execute', (message) => workerCommands.push(message?.command));
+    const workerResizes: number[] = [];
+    workerSocket.on('resize', (message) => workerResizes.push(message?.cols));
+
+    const sessionId = 'audit-view-only-session';
+    viewerSocket.emit('join-session', { workerId: worker.id, sessionId });
+    await delay(150);
+    expect(errors).toContain('Sesión no encontrada');
+
+    ownerSocket.emit('resize', { workerId: worker.id, sessionId, cols: 80, rows: 24 });
+    await delay(100);
+    viewerSocket.emit('join-session', { workerId: worker.id, sessionId });
+    await delay(100);
+
+    const received = new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('El observador no recibió output')), 2_000);
+      viewerSocket.on('output', (message) => {
+        if (message?.data !== 'AUDIT_VIEW_ONLY_MARKER') return;
+        clearTimeout(timeout);
+        resolve();
+      });
+    });
+    workerSocket.emit('output', { sessionId, output: 'AUDIT_VIEW_ONLY_MARKER' });
+    await received;
+
+    let ownerClosed = false;
+    ownerSocket.on('session-closed', () => { ownerClosed = true; });
+    errors.length = 0;
+    viewerSocket.emit('execute', { workerId: worker.id, sessionId, command: 'VIEWER_INPUT' });
+    viewerSocket.emit('resize', { workerId: worker.id, sessionId, cols: 123, rows: 40 });
+    viewerSocket.emit('rename-session', { workerId: worker.id, sessionId, newName: 'renombrada' });
+    viewerSocket.emit('close-session', { workerId: worker.id, sessionId });
+    await delay(250);
+    expect(errors.filter((message) => message === 'Acceso denegado al worker')).toHaveLength(4);
+    expect(workerCommands).not.toContain('VIEWER_INPUT');
+    expect(workerResizes).not.toContain(123);
+
+    expect(ownerClosed).toBe(false);
+
+    // Cambiar el permiso reutiliza el mismo endpoint.
+    expect((await shareAs('control')).status).toBe(200);
+    viewerSocket.emit('execute', { workerId: worker.id, sessionId, command: 'VIEWER_CONTROL' });
+    await delay(200);
+    expect(workerCommands).toContain('VIEWER_CONTROL');
+  });
+
+  it('comparte una sola sesión por enlace con usos, tenant y revocación', async () => {
+    const worker = await createWorker(nexus.pabloToken, 'audit-session-link-worker');
+    const workerSocket = io(nexus.url, {
+      auth: { type: 'worker', apiKey: worker.api_key, workerName: 'audit-session-link-worker' },
+    });
+    const ownerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloToken } });
+    sockets.push(workerSocket, ownerSocket);
+    await Promise.all([connect(workerSocket), connect(ownerSocket)]);
+
+    const sessionId = 'audit-session-link';
+    const otherSessionId = 'audit-session-link-other';
+    ownerSocket.emit('resize', { workerId: worker.id, sessionId, cols: 80, rows: 24 });
+    ownerSocket.emit('resize', { workerId: worker.id, sessionId: otherSessionId, cols: 80, rows: 24 });
+    await delay(150);
+
+    const sharesUrl = `/api/workers/${worker.id}/sessions/${sessionId}/shares`;
+    const createLink = (body: Record<string, unknown>, token = nexus.pabloToken) => request(sharesUrl, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    expect((await createLink({ permission: 'admin' })).status).toBe(400);
+    expect((await createLink({ permission: 'view' }, nexus.pabloPeerToken)).status).toBe(403);
+    const created = await createLink({ permission: 'view', expiresInMinutes: 10, maxUses: 1 });
+    expect(created.status).toBe(200);
+    const link = await created.json() as { id: string; token: string; expiresAt: number };
+    expect(link.expiresAt).toBeGreaterThan(Date.now());
+
+    const redeem = (token: string) => request('/api/session-shares/redeem', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: link.token }),
+    });
+    expect((await redeem(nexus.miguelToken)).status).toBe(403);
+    const redeemed = await redeem(nexus.pabloPeerToken);
+    expect(redeemed.status).toBe(200);
+    expect(await redeemed.json()).toMatchObject({ workerId: worker.id, sessionId, permission: 'view' });
+    // Canjear otra vez no gasta usos; otro usuario ya no cabe.
+    expect((await redeem(nexus.pabloPeerToken)).status).toBe(200);
+    expect((await redeem(nexus.pabloRevokedToken)).status).toBe(410);
+
+    // El enlace no da acceso al worker.
+    const workerList = await request('/api/workers', { headers: { Authorization: `Bearer ${nexus.pabloPeerToken}` } });
+    expect((await workerList.json() as Array<{ id: string }>).some((item) => item.id === worker.id)).toBe(false);
+
+    const guestSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloPeerToken } });
+    sockets.push(guestSocket);
+    const sessionList = new Promise<Array<{ id: string; workerId: string; grant?: string }>>((resolve) => {
+      guestSocket.on('session-list', (list) => {
+        if (list.some((item: { workerId: string }) => item.workerId === worker.id)) resolve(list);
+      });
+    });
+    await connect(guestSocket);
+    const listed = (await sessionList).filter((item) => item.workerId === worker.id);
+    expect(listed).toEqual([expect.objectContaining({ id: sessionId, grant: 'view' })]);
+
+    const errors: string[] = [];
+    guestSocket.on('error', (message: string) => errors.push(message));
+    const workerCommands: string[] = [];
+    workerSocket.on('execute', (message) => workerCommands.push(message?.command));
+    guestSocket.emit('join-session', { workerId: worker.id, sessionId });
+    guestSocket.emit('join-session', { workerId: worker.id, sessionId: otherSessionId });
+    guestSocket.emit('execute', { workerId: worker.id, sessionId, command: 'GUEST_INPUT' });
+    await delay(150);
+    expect(errors).toEqual(['Acceso denegado al worker', 'Acceso denegado al worker']);
+    expect(workerCommands).not.toContain('GUEST_INPUT');
+
+    const outputs: string[] = [];
+    guestSocket.on('output', (message) => outputs.push(message?.data));
+    workerSocket.emit('output', { sessionId, output: 'LINK_BEFORE_REVOKE' });
+    workerSocket.emit('output', { sessionId: otherSessionId, output: 'LINK_OTHER_SESSION' });
+    await delay(200);
+    expect(outputs).toEqual(['LINK_BEFORE_REVOKE']);
+
+    const revoke = await request(`${sharesUrl}/${link.id}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${nexus.pabloToken}` },
+    });
+    expect(revoke.status).toBe(200);
+    workerSocket.emit('output', { sessionId, output: 'LINK_AFTER_REVOKE' });
+    await delay(200);
+    expect(outputs).not.toContain('LINK_AFTER_REVOKE');
+    expect((await redeem(nexus.pabloPeerToken)).status).toBe(410);
+  });
+});
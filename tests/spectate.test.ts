@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { io } from 'socket.io-client';
+import { connect, delay, useTenantNexus } from './nexus-harness';
+
+describe('espectadores y presencia', () => {
+  const nexus = useTenantNexus();
+  const { request, createWorker, sockets } = nexus;
+
+  it('transmite solo el output a espectadores anónimos y los corta al revocar', async () => {
+    const worker = await createWorker(nexus.pabloToken, 'audit-spectator-worker');
+    const workerSocket = io(nexus.url, {
+      auth: { type: 'worker', apiKey: worker.api_key, workerName: 'audit-spectator-worker' },
+    });
+    const ownerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloToken } });
+    sockets.push(workerSocket, ownerSocket);
+    await Promise.all([connect(workerSocket), connect(ownerSocket)]);
+
+    const sessionId = 'audit-spectator-session';
+    ownerSocket.emit('resize', { workerId: worker.id, sessionId, cols: 80, rows: 24 });
+    await delay(150);
+    workerSocket.emit('output', { sessionId, output: 'SPECTATOR_BEFORE_JOIN' });
+    await delay(150);
+
+    const spectatorsUrl = `/api/workers/${worker.id}/sessions/${sessionId}/spectators`;
+    const forbidden = await request(spectatorsUrl, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${nexus.pabloPeerToken}`, 'Content-Type': 'application/json' },
+      body: '{}',
+    });
+    expect(forbidden.status).toBe(403);
+    const created = await request(spectatorsUrl, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ expiresInMinutes: 10 }),
+    });
+    expect(created.status).toBe(200);
+    const link = await created.json() as { id: string; token: string };
+
+    // Un token de espectador no sirve como sesión de usuario.
+    const asUser = await request('/api/workers', { headers: { Authorization: `Bearer ${link.token}` } });
+    expect(asUser.status).toBe(401);
+
+    const rejected = io(`${nexus.url}/spectate`, { auth: { token: 'no-es-un-token' }, reconnection: false, forceNew: true });
+    sockets.push(rejected);
+    const rejection = await new Promise<string>((resolve) => rejected.on('connect_error', (err) => resolve(err.message)));
+    expect(rejection).toBe('Enlace inválido o expirado');
+
+    const ownerList = new Promise<Array<{ id: string; spectators?: number }>>((resolve) => {
+      ownerSocket.on('session-list', (list: Array<{ id: string; spectators?: number }>) => {
+        if (list.some((item) => item.id === sessionId && item.spectators === 1)) resolve(list);
+      });
+    });
+    const spectator = io(`${nexus.url}/spectate`, { auth: { token: link.token }, reconnection: false, forceNew: true });
+    sockets.push(spectator);
+    const received: string[] = [];
+    const foreignEvents: string[] = [];
+    spectator.onAny((event) => foreignEvents.push(event));
+    spectator.on('output', (message) => received.push(message?.data));
+    const snapshot = new Promise<{ data: string }>((resolve) => spectator.on('snapshot', resolve));
+    await connect(spectator);
+    expect((await snapshot).data).toContain('SPECTATOR_BEFORE_JOIN');
+
+    await ownerList;
+    const listed = await request(spectatorsUrl, { headers: { Authorization: `Bearer ${nexus.pabloToken}` } });
+    expect(await listed.json()).toEqual([expect.objectContaining({ id: link.id, viewers: 1, revoked: false })]);
+
+    // El namespace ignora cualquier intento de escribir en la sesión.
+    const workerCommands: string[] = [];
+    workerSocket.on('execute', (message) => workerCommands.push(message?.command));
+    spectator.emit('execute', { workerId: worker.id, sessionId, command: 'SPECTATOR_INPUT' });
+    workerSocket.emit('output', { sessionId, output: 'SPECTATOR_LIVE' });
+    await delay(200);
+    expect(received).toEqual(['SPECTATOR_LIVE']);
+    expect(workerCommands).not.toContain('SPECTATOR_INPUT');
+    expect(foreignEvents.every((event) => ['snapshot', 'output'].includes(event))).toBe(true);
+
+    const revokedEvent = new Promise<void>((resolve) => spectator.on('link-revoked', () => resolve()));
+    const disconnected = new Promise<void>((resolve) => spectator.on('disconnect', () => resolve()));
+    const revoke = await request(`${spectatorsUrl}/${link.id}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${nexus.pabloToken}` },
+    });
+    expect(revoke.status).toBe(200);
+    await Promise.all([revokedEvent, disconnected]);
+
+    const again = io(`${nexus.url}/spectate`, { auth: { token: link.token }, reconnection: false, forceNew: true });
+    sockets.push(again);
+    const refused = await new Promise<string>((resolve) => again.on('connect_error', (err) => resolve(err.message)));
+    expect(refused).toBe('Enlace revocado o expirado');
+  });
+
+  it('anuncia presencia por sesión con permiso, dispositivo e inactividad', async () => {
+    const worker = await createWorker(nexus.pabloToken, 'audit-presence-worker');
+    const share = await request('/api/workers/share', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workerId: worker.id, targetUsername: 'pablo-peer', permission: 'view' }),
+    });
+    expect(share.status).toBe(200);
+
+    const workerSocket = io(nexus.url, {
+      auth: { type: 'worker', apiKey: worker.api_key, workerName: 'audit-presence-worker' },
+    });
+    const ownerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloToken } });
+    const peerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloPeerToken } });
+    sockets.push(workerSocket, ownerSocket, peerSocket);
+    await Promise.all([connect(workerSocket), connect(ownerSocket), connect(peerSocket)]);
+
+    type Viewer = { socketId: string; username: string; device: string; permission: string; joinedAt: number; idle: boolean };
+    const sessionId = 'audit-presence-session';
+    const ownerViewers = (match: (viewers: Viewer[]) => boolean) => new Promise<Viewer[]>((resolve) => {
+      const listener = (list: Array<{ id: string; workerId: string; viewers?: Viewer[] }>) => {
+        const session = list.find((item) => item.workerId === worker.id && item.id === sessionId);
+        if (!session?.viewers || !match(session.viewers)) return;
+        ownerSocket.off('session-list', listener);
+        resolve(session.viewers);
+      };
+      ownerSocket.on('session-list', listener);
+    });
+
+    ownerSocket.emit('resize', { workerId: worker.id, sessionId, cols: 80, rows: 24 });
+    await delay(150);
+
+    const joined = new Promise<{ event: string; viewer: Viewer }>((resolve) => ownerSocket.once('session-presence', resolve));
+    const listedPeer = ownerViewers((viewers) => viewers.length === 1);
+    peerSocket.emit('join-session', { workerId: worker.id, sessionId });
+    const notice = await joined;
+    expect(notice).toMatchObject({ event: 'join', viewer: { username: 'pablo-peer', permission: 'view', idle: false } });
+    const [viewer] = await listedPeer;
+    expect(viewer).toMatchObject({ socketId: peerSocket.id, username: 'pablo-peer', device: 'desktop', permission: 'view' });
+    expect(viewer.joinedAt).toBeGreaterThan(Date.now() - 10_000);
+
+    const idleListed = ownerViewers((viewers) => viewers[0]?.idle === true);
+    peerSocket.emit('presence-idle', { idle: true });
+    await idleListed;
+
+    const left = new Promise<{ event: string; viewer: Viewer }>((resolve) => ownerSocket.once('session-presence', resolve));
+    const emptied = ownerViewers((viewers) => viewers.length === 0);
+    peerSocket.emit('leave-session', { workerId: worker.id, sessionId });
+    expect(await left).toMatchObject({ event: 'leave', viewer: { username: 'pablo-peer' } });
+    await emptied;
+  });
+});
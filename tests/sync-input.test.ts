@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { fanOutSyncInput, syncInputTargets } from '../client/src/lib/syncInput';
+
+describe('entrada sincronizada del grid', () => {
+  const sessions = [
+    { id: 'own-a', workerId: 'own' },
+    { id: 'own-b', workerId: 'own' },
+    { id: 'viewed', workerId: 'shared-view' },
+    { id: 'driven', workerId: 'own' },
+    { id: 'not-synced', workerId: 'own' },
+  ];
+  const readOnlyWorkerIds = new Set(['shared-view']);
+  // Otro socket tiene el asiento de conductor en `driven`.
+  const lockedSessionIds = new Set(['driven']);
+
+  const fanOut = (sourceId: string, syncSessionIds: string[]) => {
+    const targets = syncInputTargets(syncSessionIds, sessions, readOnlyWorkerIds, lockedSessionIds);
+    const queued: Array<[string, string, string]> = [];
+    fanOutSyncInput(sourceId, 'ls\r', targets, (sessionId, workerId, chunk) => {
+      queued.push([sessionId, workerId, chunk]);
+    });
+    return queued;
+  };
+
+  it('descarta de antemano los paneles sin control o sin el asiento de conductor', () => {
+    expect(syncInputTargets(['own-a', 'viewed', 'driven', 'gone', 'own-b'], sessions, readOnlyWorkerIds, lockedSessionIds))
+      .toEqual([
+        { sessionId: 'own-a', workerId: 'own' },
+        { sessionId: 'own-b', workerId: 'own' },
+      ]);
+  });
+
+  it('replica por queueInput solo en los destinos en los que se puede escribir', () => {
+    expect(fanOut('own-a', ['own-a', 'viewed', 'driven', 'own-b'])).toEqual([['own-b', 'own', 'ls\r']]);
+  });
+
+  it('no replica desde un panel que no está sincronizado', () => {
+    expect(fanOut('not-synced', ['own-a', 'own-b'])).toEqual([]);
+  });
+});
@@ -1,205 +1,13 @@
-import { afterAll, beforeAll, describe, expect, it } from 'vitest';
-import { spawn, type ChildProcess } from 'child_process';
-import { createServer } from 'http';
-import { mkdtemp, rm } from 'fs/promises';
-import { tmpdir } from 'os';
+import { describe, expect, it } from 'vitest';
 import path from 'path';
 import { io, type Socket } from 'socket.io-client';
 import Database from 'better-sqlite3';
 import { OrderedRelayQueue } from '../nexus/src/services/ordered-relay';
-
-const ADMIN_PASSWORD = 'audit-admin-dummy-only';
-const TENANT_PASSWORD = 'audit-tenant-dummy-only';
-const SETUP_TOKEN = 'audit-setup-dummy-only';
-
-interface CreatedWorker {
-  id: string;
-  api_key: string;
-}
-
-async function reservePort(): Promise<number> {
-  return new Promise((resolve, reject) => {
-    const server = createServer();
-    server.once('error', reject);
-    server.listen(0, '127.0.0.1', () => {
-      const address = server.address();
-      if (!address || typeof address === 'string') {
-        server.close();
-        reject(new Error('No se pudo reservar un puerto'));
-        return;
-      }
-      const port = address.port;
-      server.close((error) => error ? reject(error) : resolve(port));
-    });
-  });
-}
-
-async function waitForServer(url: string, process: ChildProcess, timeoutMs = 10_000): Promise<void> {
-  const started = Date.now();
-  while (Date.now() - started < timeoutMs) {
-    if (process.exitCode !== null) throw new Error(`Nexus terminó con ${process.exitCode}`);
-    try {
-      const response = await fetch(`${url}/api/auth/status`);
-      if (response.ok) return;
-    } catch {
-      // The listener is not ready yet.
-    }
-    await new Promise((resolve) => setTimeout(resolve, 100));
-  }
-  throw new Error('Nexus no inició a tiempo');
-}
-
-async function connect(socket: Socket): Promise<void> {
-  if (socket.connected) return;
-  await new Promise<void>((resolve, reject) => {
-    const timeout = setTimeout(() => reject(new Error('Socket no conectó a tiempo')), 4_000);
-    socket.once('connect', () => {
-      clearTimeout(timeout);
-      resolve();
-    });
-    socket.once('connect_error', (error) => {
-      clearTimeout(timeout);
-      reject(error);
-    });
-  });
-}
-
-async function delay(ms: number): Promise<void> {
-  await new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-function isolatedSqliteEnv(): NodeJS.ProcessEnv {
-  const env = { ...process.env };
-  delete env.API_KEY;
-  delete env.DATABASE_URL;
-  return env;
-}
+import { ADMIN_PASSWORD, TENANT_PASSWORD, SETUP_TOKEN, connect, delay, useTenantNexus } from './nexus-harness';
 
 describe('aislamiento multitenant', () => {
-  let nexusProcess: ChildProcess;
-  let dataDir: string;
-  let nexusUrl: string;
-  let adminToken: string;
-  let miguelToken: string;
-  let pabloToken: string;
-  let pabloPeerToken: string;
-  let pabloRevokedToken: string;
-
-  const sockets: Socket[] = [];
-
-  async function request(pathname: string, init: RequestInit = {}) {
-    return fetch(`${nexusUrl}${pathname}`, init);
-  }
-
-  async function login(username: string, password: string): Promise<string> {
-    const response = await request('/api/auth/login', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ username, password }),
-    });
-    expect(response.status).toBe(200);
-    const body = await response.json() as { token: string };
-    return body.token;
-  }
-
-  async function createWorker(token: string, name: string): Promise<CreatedWorker> {
-    const response = await request('/api/workers', {
-      method: 'POST',
-      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
-      body: JSON.stringify({ name }),
-    });
-    expect(response.status).toBe(200);
-    return response.json() as Promise<CreatedWorker>;
-  }
-
-  beforeAll(async () => {
-    dataDir = await mkdtemp(path.join(tmpdir(), 'ultimate-terminal-tenant-'));
-    const port = await reservePort();
-    nexusUrl = `http://127.0.0.1:${port}`;
-
-    nexusProcess = spawn('npx', ['ts-node', 'nexus/src/index.ts'], {
-      cwd: path.resolve(__dirname, '..'),
-      env: {
-        ...isolatedSqliteEnv(),
-        PORT: String(port),
-        NODE_ENV: 'test',
-        NEXUS_DATA_DIR: dataDir,
-        NEXUS_JWT_SECRET: 'audit-jwt-dummy-only',
-        NEXUS_SETUP_TOKEN: SETUP_TOKEN,
-        ADMIN_PASSWORD,
-        SEED_TENANT_USERS: 'true',
-        TENANT_DEFAULT_PASSWORD: TENANT_PASSWORD,
-      },
-      stdio: 'ignore',
-    });
-
-    await waitForServer(nexusUrl, nexusProcess);
-    adminToken = await login('admin', ADMIN_PASSWORD);
-    miguelToken = await login('miguel', TENANT_PASSWORD);
-    pabloToken = await login('pablo', TENANT_PASSWORD);
-
-    for (const username of ['miguel', 'pablo']) {
-      const upgrade = await request('/api/admin/upgrade-plan', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ adminPassword: ADMIN_PASSWORD, username, plan: 'enterprise' }),
-      });
-      expect(upgrade.status).toBe(200);
-    }
-
-    const register = await request('/api/auth/register', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        username: 'pablo-peer',
-        password: TENANT_PASSWORD,
-        setupToken: SETUP_TOKEN,
-      }),
-    });
-    expect(register.status).toBe(200);
-
-    const assignTenant = await request('/api/admin/upgrade-plan', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        adminPassword: ADMIN_PASSWORD,
-        username: 'pablo-peer',
-        plan: 'enterprise',
-        tenant: 'pablo',
-      }),
-    });
-    expect(assignTenant.status).toBe(200);
-    pabloPeerToken = await login('pablo-peer', TENANT_PASSWORD);
-
-    const registerRevoked = await request('/api/auth/register', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        username: 'pablo-revoked',
-        password: TENANT_PASSWORD,
-        setupToken: SETUP_TOKEN,
-      }),
-    });
-    expect(registerRevoked.status).toBe(200);
-    const assignRevokedTenant = await request('/api/admin/upgrade-plan', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        adminPassword: ADMIN_PASSWORD,
-        username: 'pablo-revoked',
-        plan: 'enterprise',
-        tenant: 'pablo',
-      }),
-    });
-    expect(assignRevokedTenant.status).toBe(200);
-    pabloRevokedToken = await login('pablo-revoked', TENANT_PASSWORD);
-  }, 15_000);
-
-  afterAll(async () => {
-    sockets.forEach((socket) => socket.disconnect());
-    nexusProcess?.kill('SIGTERM');
-    await rm(dataDir, { recursive: true, force: true });
-  });
+  const nexus = useTenantNexus();
+  const { request, login, createWorker, sockets } = nexus;
 
   it('serializa bursts con latencias invertidas y agrupa chequeos de acceso', async () => {
     const relay = new OrderedRelayQueue<number>();
@@ -223,7 +31,7 @@ describe('aislamiento multitenant', () => {
 
   it('mantiene el roster canónico de 12 agentes e incluye Argos con workers estables', async () => {
     const response = await request('/api/agents', {
-      headers: { Authorization: `Bearer ${adminToken}` },
+      headers: { Authorization: `Bearer ${nexus.adminToken}` },
     });
     expect(response.status).toBe(200);
     const agents = await response.json() as Array<Record<string, unknown>>;
@@ -242,24 +50,24 @@ describe('aislamiento multitenant', () => {
   });
 
   it('rechaza join de worker entre tenants y permite join dentro del mismo tenant', async () => {
-    const miguelWorker = await createWorker(miguelToken, 'audit-miguel-worker');
+    const miguelWorker = await createWorker(nexus.miguelToken, 'audit-miguel-worker');
     const denied = await request('/api/workers/join', {
       method: 'POST',
-      headers: { Authorization: `Bearer ${pabloToken}`, 'Content-Type': 'application/json' },
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' },
       body: JSON.stringify({ workerId: miguelWorker.id }),
     });
     expect(denied.status).toBe(403);
 
-    const pabloWorker = await createWorker(pabloToken, 'audit-pablo-worker');
+    const pabloWorker = await createWorker(nexus.pabloToken, 'audit-pablo-worker');
     const allowed = await request('/api/workers/join', {
       method: 'POST',
-      headers: { Authorization: `Bearer ${pabloPeerToken}`, 'Content-Type': 'application/json' },
+      headers: { Authorization: `Bearer ${nexus.pabloPeerToken}`, 'Content-Type': 'application/json' },
       body: JSON.stringify({ workerId: pabloWorker.id }),
     });
     expect(allowed.status).toBe(200);
 
     const peerWorkers = await request('/api/workers', {
-      headers: { Authorization: `Bearer ${pabloPeerToken}` },
+      headers: { Authorization: `Bearer ${nexus.pabloPeerToken}` },
     });
     expect(peerWorkers.status).toBe(200);
     const workers = await peerWorkers.json() as Array<{ id: string; permission: string }>;
@@ -268,31 +76,31 @@ describe('aislamiento multitenant', () => {
   });
 
   it('rechaza share entre tenants incluso para admin global y permite el mismo tenant', async () => {
-    const pabloWorker = await createWorker(pabloToken, 'audit-pablo-share-worker');
+    const pabloWorker = await createWorker(nexus.pabloToken, 'audit-pablo-share-worker');
     const crossTenant = await request('/api/workers/share', {
       method: 'POST',
-      headers: { Authorization: `Bearer ${pabloToken}`, 'Content-Type': 'application/json' },
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' },
       body: JSON.stringify({ workerId: pabloWorker.id, targetUsername: 'miguel' }),
     });
     expect(crossTenant.status).toBe(403);
 
     const sameTenant = await request('/api/workers/share', {
       method: 'POST',
-      headers: { Authorization: `Bearer ${pabloToken}`, 'Content-Type': 'application/json' },
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' },
       body: JSON.stringify({ workerId: pabloWorker.id, targetUsername: 'pablo-peer' }),
     });
     expect(sameTenant.status).toBe(200);
 
-    const miguelWorker = await createWorker(miguelToken, 'audit-admin-share-worker');
+    const miguelWorker = await createWorker(nexus.miguelToken, 'audit-admin-share-worker');
     const globalAdmin = await request('/api/workers/share', {
       method: 'POST',
-      headers: { Authorization: `Bearer ${adminToken}`, 'Content-Type': 'application/json' },
+      headers: { Authorization: `Bearer ${nexus.adminToken}`, 'Content-Type': 'application/json' },
       body: JSON.stringify({ workerId: miguelWorker.id, targetUsername: 'pablo' }),
     });
     expect(globalAdmin.status).toBe(403);
 
     const sharesAfterReject = await request(`/api/workers/${miguelWorker.id}/shares`, {
-      headers: { Authorization: `Bearer ${miguelToken}` },
+      headers: { Authorization: `Bearer ${nexus.miguelToken}` },
     });
     expect(sharesAfterReject.status).toBe(200);
     const rejectedShares = await sharesAfterReject.json() as Array<{ username: string }>;
@@ -300,18 +108,18 @@ describe('aislamiento multitenant', () => {
   });
 
   it('mantiene api_key fuera de listados REST/Socket y no deja una credencial reutilizable al compartido', async () => {
-    const worker = await createWorker(pabloToken, 'audit-public-worker-shape');
+    const worker = await createWorker(nexus.pabloToken, 'audit-public-worker-shape');
     expect(worker.api_key).toBeTypeOf('string');
 
     const share = await request('/api/workers/share', {
       method: 'POST',
-      headers: { Authorization: `Bearer ${pabloToken}`, 'Content-Type': 'application/json' },
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' },
       body: JSON.stringify({ workerId: worker.id, targetUsername: 'pablo-peer' }),
     });
     expect(share.status).toBe(200);
 
     const peerListResponse = await request('/api/workers', {
-      headers: { Authorization: `Bearer ${pabloPeerToken}` },
+      headers: { Authorization: `Bearer ${nexus.pabloPeerToken}` },
     });
     expect(peerListResponse.status).toBe(200);
     const peerList = await peerListResponse.json() as Array<Record<string, unknown>>;
@@ -320,15 +128,15 @@ describe('aislamiento multitenant', () => {
     expect(peerWorker).not.toHaveProperty('api_key');
 
     const adminListResponse = await request('/api/workers', {
-      headers: { Authorization: `Bearer ${adminToken}` },
+      headers: { Authorization: `Bearer ${nexus.adminToken}` },
     });
     expect(adminListResponse.status).toBe(200);
     const adminList = await adminListResponse.json() as Array<Record<string, unknown>>;
     expect(adminList.every((item) => !Object.hasOwn(item, 'api_key'))).toBe(true);
 
-    const peerSocket = io(nexusUrl, {
+    const peerSocket = io(nexus.url, {
       autoConnect: false,
-      auth: { type: 'client', token: pabloPeerToken },
+      auth: { type: 'client', token: nexus.pabloPeerToken },
     });
     sockets.push(peerSocket);
     const socketListPromise = new Promise<Array<Record<string, unknown>>>((resolve, reject) => {
@@ -349,7 +157,7 @@ describe('aislamiento multitenant', () => {
     // shapes. Reusing the absent field as a worker credential must fail closed.
     const unavailableKey = socketWorker?.api_key;
     expect(unavailableKey).toBeUndefined();
-    const impersonationSocket = io(nexusUrl, {
+    const impersonationSocket = io(nexus.url, {
       autoConnect: false,
       reconnection: false,
       auth: {
@@ -375,9 +183,9 @@ describe('aislamiento multitenant', () => {
   });
 
   it('da al admin global listado y control socket de todos los workers', async () => {
-    const miguelWorker = await createWorker(miguelToken, 'audit-admin-control-worker');
+    const miguelWorker = await createWorker(nexus.miguelToken, 'audit-admin-control-worker');
     const listResponse = await request('/api/workers', {
-      headers: { Authorization: `Bearer ${adminToken}` },
+      headers: { Authorization: `Bearer ${nexus.adminToken}` },
     });
     expect(listResponse.status).toBe(200);
     const listedWorkers = await listResponse.json() as Array<{ id: string; permission: string }>;
@@ -386,10 +194,10 @@ describe('aislamiento multitenant', () => {
       permission: 'admin',
     }));
 
-    const workerSocket = io(nexusUrl, {
+    const workerSocket = io(nexus.url, {
       auth: { type: 'worker', apiKey: miguelWorker.api_key, workerName: 'audit-admin-control-worker' },
     });
-    const adminSocket = io(nexusUrl, { auth: { type: 'client', token: adminToken } });
+    const adminSocket = io(nexus.url, { auth: { type: 'client', token: nexus.adminToken } });
     sockets.push(workerSocket, adminSocket);
     await Promise.all([connect(workerSocket), connect(adminSocket)]);
 
@@ -410,12 +218,12 @@ describe('aislamiento multitenant', () => {
   });
 
   it('valida join-session antes de suscribir y no filtra output a otro tenant', async () => {
-    const miguelWorker = await createWorker(miguelToken, 'audit-miguel-session-worker');
-    const workerSocket = io(nexusUrl, {
+    const miguelWorker = await createWorker(nexus.miguelToken, 'audit-miguel-session-worker');
+    const workerSocket = io(nexus.url, {
       auth: { type: 'worker', apiKey: miguelWorker.api_key, workerName: 'audit-miguel-session-worker' },
     });
-    const ownerSocket = io(nexusUrl, { auth: { type: 'client', token: miguelToken } });
-    const intruderSocket = io(nexusUrl, { auth: { type: 'client', token: pabloToken } });
+    const ownerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.miguelToken } });
+    const intruderSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloToken } });
     sockets.push(workerSocket, ownerSocket, intruderSocket);
     await Promise.all([connect(workerSocket), connect(ownerSocket), connect(intruderSocket)]);
 
@@ -439,19 +247,19 @@ describe('aislamiento multitenant', () => {
   });
 
   it('mantiene join-session funcional para usuarios del mismo tenant', async () => {
-    const pabloWorker = await createWorker(pabloToken, 'audit-pablo-session-worker');
+    const pabloWorker = await createWorker(nexus.pabloToken, 'audit-pablo-session-worker');
     const share = await request('/api/workers/join', {
       method: 'POST',
-      headers: { Authorization: `Bearer ${pabloPeerToken}`, 'Content-Type': 'application/json' },
+      headers: { Authorization: `Bearer ${nexus.pabloPeerToken}`, 'Content-Type': 'application/json' },
       body: JSON.stringify({ workerId: pabloWorker.id }),
     });
     expect(share.status).toBe(200);
 
-    const workerSocket = io(nexusUrl, {
+    const workerSocket = io(nexus.url, {
       auth: { type: 'worker', apiKey: pabloWorker.api_key, workerName: 'audit-pablo-session-worker' },
     });
-    const ownerSocket = io(nexusUrl, { auth: { type: 'client', token: pabloToken } });
-    const peerSocket = io(nexusUrl, { auth: { type: 'client', token: pabloPeerToken } });
+    const ownerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloToken } });
+    const peerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloPeerToken } });
     sockets.push(workerSocket, ownerSocket, peerSocket);
     await Promise.all([connect(workerSocket), connect(ownerSocket), connect(peerSocket)]);
 
@@ -474,16 +282,16 @@ describe('aislamiento multitenant', () => {
   });
 
   it('acota rename, close, get-output y leave por workerId con sessionId repetido', async () => {
-    const miguelWorker = await createWorker(miguelToken, 'audit-miguel-ops-worker');
-    const pabloWorker = await createWorker(pabloToken, 'audit-pablo-ops-worker');
-    const miguelWorkerSocket = io(nexusUrl, {
+    const miguelWorker = await createWorker(nexus.miguelToken, 'audit-miguel-ops-worker');
+    const pabloWorker = await createWorker(nexus.pabloToken, 'audit-pablo-ops-worker');
+    const miguelWorkerSocket = io(nexus.url, {
       auth: { type: 'worker', apiKey: miguelWorker.api_key, workerName: 'audit-miguel-ops-worker' },
     });
-    const pabloWorkerSocket = io(nexusUrl, {
+    const pabloWorkerSocket = io(nexus.url, {
       auth: { type: 'worker', apiKey: pabloWorker.api_key, workerName: 'audit-pablo-ops-worker' },
     });
-    const miguelClient = io(nexusUrl, { auth: { type: 'client', token: miguelToken } });
-    const pabloClient = io(nexusUrl, { auth: { type: 'client', token: pabloToken } });
+    const miguelClient = io(nexus.url, { auth: { type: 'client', token: nexus.miguelToken } });
+    const pabloClient = io(nexus.url, { auth: { type: 'client', token: nexus.pabloToken } });
     sockets.push(miguelWorkerSocket, pabloWorkerSocket, miguelClient, pabloClient);
     await Promise.all([
       connect(miguelWorkerSocket), connect(pabloWorkerSocket), connect(miguelClient), connect(pabloClient),
@@ -558,26 +366,26 @@ describe('aislamiento multitenant', () => {
   });
 
   it('revoca en caliente output y control tras unshare y cambio de tenant', async () => {
-    const worker = await createWorker(pabloToken, 'audit-hot-revoke-worker');
+    const worker = await createWorker(nexus.pabloToken, 'audit-hot-revoke-worker');
     const initialShare = await request('/api/workers/share', {
       method: 'POST',
-      headers: { Authorization: `Bearer ${pabloToken}`, 'Content-Type': 'application/json' },
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' },
       body: JSON.stringify({ workerId: worker.id, targetUsername: 'pablo-revoked' }),
     });
     expect(initialShare.status).toBe(200);
 
     const sharesResponse = await request(`/api/workers/${worker.id}/shares`, {
-      headers: { Authorization: `Bearer ${pabloToken}` },
+      headers: { Authorization: `Bearer ${nexus.pabloToken}` },
     });
     const shares = await sharesResponse.json() as Array<{ userId: number; username: string }>;
     const revokedUserId = shares.find((share) => share.username === 'pablo-revoked')?.userId;
     expect(revokedUserId).toBeTypeOf('number');
 
-    const workerSocket = io(nexusUrl, {
+    const workerSocket = io(nexus.url, {
       auth: { type: 'worker', apiKey: worker.api_key, workerName: 'audit-hot-revoke-worker' },
     });
-    const ownerSocket = io(nexusUrl, { auth: { type: 'client', token: pabloToken } });
-    const revokedSocket = io(nexusUrl, { auth: { type: 'client', token: pabloRevokedToken } });
+    const ownerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloToken } });
+    const revokedSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloRevokedToken } });
     sockets.push(workerSocket, ownerSocket, revokedSocket);
     await Promise.all([connect(workerSocket), connect(ownerSocket), connect(revokedSocket)]);
 
@@ -599,7 +407,7 @@ describe('aislamiento multitenant', () => {
 
     const unshare = await request('/api/workers/unshare', {
       method: 'POST',
-      headers: { Authorization: `Bearer ${pabloToken}`, 'Content-Type': 'application/json' },
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' },
       body: JSON.stringify({ workerId: worker.id, targetUserId: revokedUserId }),
     });
     expect(unshare.status).toBe(200);
@@ -625,7 +433,7 @@ describe('aislamiento multitenant', () => {
 
     const reshare = await request('/api/workers/share', {
       method: 'POST',
-      headers: { Authorization: `Bearer ${pabloToken}`, 'Content-Type': 'application/json' },
+      headers: { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' },
       body: JSON.stringify({ workerId: worker.id, targetUsername: 'pablo-revoked' }),
     });
     expect(reshare.status).toBe(200);
@@ -709,7 +517,7 @@ describe('aislamiento multitenant', () => {
     expect(agents.length).toBeGreaterThan(0);
     expect(agents.every((agent) => agent.tenantId === 'pablo')).toBe(true);
 
-    const miguelWorker = await createWorker(miguelToken, 'audit-stale-admin-worker');
+    const miguelWorker = await createWorker(nexus.miguelToken, 'audit-stale-admin-worker');
     const workersResponse = await request('/api/workers', {
       headers: { Authorization: `Bearer ${staleAdminToken}` },
     });
@@ -742,13 +550,13 @@ describe('aislamiento multitenant', () => {
     const deletedToken = await login('audit-deleted-user', TENANT_PASSWORD);
 
     const agentsBeforeDelete = await request('/api/agents', {
-      headers: { Authorization: `Bearer ${adminToken}` },
+      headers: { Authorization: `Bearer ${nexus.adminToken}` },
     });
     const existingAgentId = ((await agentsBeforeDelete.json()) as Array<{ id: number; tenantId: string }>)
       .find((agent) => agent.tenantId === 'pablo')?.id;
     expect(existingAgentId).toBeTypeOf('number');
 
-    const sqlite = new Database(path.join(dataDir, 'nexus.db'));
+    const sqlite = new Database(path.join(nexus.dataDir, 'nexus.db'));
     sqlite.pragma('busy_timeout = 2000');
     const deletedUser = sqlite.prepare('SELECT id FROM users WHERE username = ?')
       .get('audit-deleted-user') as { id: number } | undefined;
@@ -786,7 +594,7 @@ describe('aislamiento multitenant', () => {
       401, 401, 401, 401, 401, 401, 401,
     ]);
 
-    const verify = new Database(path.join(dataDir, 'nexus.db'), { readonly: true });
+    const verify = new Database(path.join(nexus.dataDir, 'nexus.db'), { readonly: true });
     const orphanWorkers = verify.prepare('SELECT COUNT(*) AS count FROM workers WHERE owner_id = ?')
       .get(deletedUser!.id) as { count: number };
     const orphanAgents = verify.prepare("SELECT COUNT(*) AS count FROM agents WHERE key = 'orphan'")
@@ -797,16 +605,16 @@ describe('aislamiento multitenant', () => {
   });
 
   it('aísla suscriptores aunque dos tenants usen el mismo sessionId', async () => {
-    const miguelWorker = await createWorker(miguelToken, 'audit-miguel-collision-worker');
-    const pabloWorker = await createWorker(pabloToken, 'audit-pablo-collision-worker');
-    const miguelWorkerSocket = io(nexusUrl, {
+    const miguelWorker = await createWorker(nexus.miguelToken, 'audit-miguel-collision-worker');
+    const pabloWorker = await createWorker(nexus.pabloToken, 'audit-pablo-collision-worker');
+    const miguelWorkerSocket = io(nexus.url, {
       auth: { type: 'worker', apiKey: miguelWorker.api_key, workerName: 'audit-miguel-collision-worker' },
     });
-    const pabloWorkerSocket = io(nexusUrl, {
+    const pabloWorkerSocket = io(nexus.url, {
       auth: { type: 'worker', apiKey: pabloWorker.api_key, workerName: 'audit-pablo-collision-worker' },
     });
-    const miguelClient = io(nexusUrl, { auth: { type: 'client', token: miguelToken } });
-    const pabloClient = io(nexusUrl, { auth: { type: 'client', token: pabloToken } });
+    const miguelClient = io(nexus.url, { auth: { type: 'client', token: nexus.miguelToken } });
+    const pabloClient = io(nexus.url, { auth: { type: 'client', token: nexus.pabloToken } });
     sockets.push(miguelWorkerSocket, pabloWorkerSocket, miguelClient, pabloClient);
     await Promise.all([
       connect(miguelWorkerSocket),
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { ADMIN_PASSWORD, useTenantNexus } from './nexus-harness';
+
+describe('tokens personales', () => {
+  const nexus = useTenantNexus();
+  const { request, createWorker } = nexus;
+
+  it('acepta tokens personales con scopes, caducidad y revocación', async () => {
+    const auth = { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' };
+    const create = (body: Record<string, unknown>, headers: Record<string, string> = auth) =>
+      request('/api/auth/tokens', { method: 'POST', headers, body: JSON.stringify(body) });
+
+    expect((await create({ name: 'ci', scopes: ['workers:delete'] })).status).toBe(400);
+    expect((await create({ name: 'ci', scopes: ['workers:read'], expiresInDays: 0 })).status).toBe(400);
+    const created = await create({ name: 'ci', scopes: ['workers:read', 'workers:read'], expiresInDays: 30 });
+    expect(created.status).toBe(200);
+    const { token, secret } = await created.json() as { token: { id: string; scopes: string[] }; secret: string };
+    expect(secret).toMatch(/^utp_/);
+    expect(token.scopes).toEqual(['workers:read']);
+
+    const pat = { Authorization: `Bearer ${secret}`, 'Content-Type': 'application/json' };
+    const me = await request('/api/auth/me', { headers: pat });
+    expect(await me.json()).toMatchObject({ user: { username: 'pablo', accessTokenId: token.id } });
+    expect((await request('/api/workers', { headers: pat })).status).toBe(200);
+    // Escribir, ejecutar o gestionar tokens pide otros scopes o una sesión.
+    expect((await request('/api/workers', { method: 'POST', headers: pat, body: JSON.stringify({ name: 'x' }) })).status).toBe(403);
+    expect((await request('/api/workers/any/exec', { method: 'POST', headers: pat, body: '{}' })).status).toBe(403);
+    // Archivos y túneles tienen sus propios scopes: workers:read no lee ni escribe archivos.
+    const patWorker = await createWorker(nexus.pabloToken, 'audit-pat-worker');
+    const files = `/api/workers/${patWorker.id}/files`;
+    expect((await request(`${files}/download?path=/etc/passwd`, { headers: pat })).status).toBe(403);
+    expect((await request(`${files}/content?path=/etc/passwd`, { headers: pat })).status).toBe(403);
+    expect((await request(`${files}/content?path=/tmp/x`, {
+      method: 'PUT',
+      headers: { ...pat, 'Content-Type': 'text/plain' },
+      body: 'x',
+    })).status).toBe(403);
+    expect((await request(`${files}/uploads`, { method: 'POST', headers: pat, body: '{}' })).status).toBe(403);
+    expect((await request(`/api/workers/${patWorker.id}/tunnels/5173/open`, { method: 'POST', headers: pat })).status).toBe(403);
+    expect((await request('/api/audit', { headers: pat })).status).toBe(403);
+    expect((await create({ name: 'otro', scopes: ['exec'] }, pat)).status).toBe(403);
+    expect((await request('/api/auth/tokens', { headers: pat })).status).toBe(403);
+
+    const list = await request('/api/auth/tokens', { headers: auth });
+    const { tokens } = await list.json() as { tokens: Array<{ id: string; last_used_at: number | null; expires_at: number | null }> };
+    const listed = tokens.find((entry) => entry.id === token.id)!;
+    expect(listed.last_used_at).toBeGreaterThan(0);
+    expect(listed.expires_at).toBeGreaterThan(Date.now());
+    expect(JSON.stringify(tokens)).not.toContain(secret);
+
+    // Bajar a un plan sin API apaga los tokens existentes y no deja crear más.
+    const peerAuth = { Authorization: `Bearer ${nexus.pabloPeerToken}`, 'Content-Type': 'application/json' };
+    const peerCreated = await create({ name: 'peer', scopes: ['workers:read'] }, peerAuth);
+    const peerPat = { Authorization: `Bearer ${(await peerCreated.json() as { secret: string }).secret}` };
+    const setPeerPlan = (plan: string) => request('/api/admin/upgrade-plan', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ adminPassword: ADMIN_PASSWORD, username: 'pablo-peer', plan, tenant: 'pablo' }),
+    });
+    expect((await setPeerPlan('free')).status).toBe(200);
+    try {
+      expect((await create({ name: 'peer-2', scopes: ['workers:read'] }, peerAuth)).status).toBe(403);
+      const limited = await request('/api/workers', { headers: peerPat });
+      expect(limited.status).toBe(403);
+      expect(await limited.json()).toMatchObject({ code: 'PLAN_LIMIT_API' });
+    } finally {
+      await setPeerPlan('enterprise');
+    }
+    expect((await request('/api/workers', { headers: peerPat })).status).toBe(200);
+
+    expect((await request(`/api/auth/tokens/${token.id}`, { method: 'DELETE', headers: { Authorization: `Bearer ${nexus.miguelToken}` } })).status).toBe(404);
+    expect((await request(`/api/auth/tokens/${token.id}`, { method: 'DELETE', headers: auth })).status).toBe(200);
+    expect((await request('/api/workers', { headers: pat })).status).toBe(401);
+    expect((await request('/api/workers', { headers: { Authorization: 'Bearer utp_invented' } })).status).toBe(401);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { io } from 'socket.io-client';
+import { connect, useTenantNexus } from './nexus-harness';
+
+describe('túneles HTTP', () => {
+  const nexus = useTenantNexus();
+  const { request, createWorker, sockets } = nexus;
+
+  it('tuneliza HTTP a puertos permitidos del worker con cookie y acceso de control', async () => {
+    const worker = await createWorker(nexus.pabloToken, 'audit-tunnel-worker');
+    const workerSocket = io(nexus.url, {
+      auth: {
+        type: 'worker',
+        apiKey: worker.api_key,
+        workerName: 'audit-tunnel-worker',
+        protocol: 2,
+        capabilities: { features: ['shell', 'tunnel'], shells: [] },
+      },
+    });
+    sockets.push(workerSocket);
+    await connect(workerSocket);
+
+    const opened: Array<{ port: number; path: string; headers: Record<string, string> }> = [];
+    workerSocket.on(
+      'tunnel-open',
+      (msg: { id: string; port: number; path: string; headers: Record<string, string> }, ack: (reply: unknown) => void) => {
+        opened.push(msg);
+        ack({ ok: true });
+        workerSocket.emit('tunnel-response', {
+          id: msg.id,
+          status: 200,
+          headers: { 'content-type': 'text/plain', 'set-cookie': ['session=app; Path=/'] },
+        });
+        workerSocket.emit('tunnel-data', { id: msg.id, data: Buffer.from(`hola ${msg.path}`) });
+        workerSocket.emit('tunnel-end', { id: msg.id });
+      }
+    );
+
+    const tunnels = `/api/workers/${worker.id}/tunnels`;
+    const auth = { Authorization: `Bearer ${nexus.pabloToken}`, 'Content-Type': 'application/json' };
+    expect((await request(tunnels, { headers: { Authorization: `Bearer ${nexus.miguelToken}` } })).status).toBe(403);
+    expect((await request(`${tunnels}/5173/open`, { method: 'POST', headers: auth })).status).toBe(403);
+
+    const allowed = await request(tunnels, { method: 'POST', headers: auth, body: JSON.stringify({ port: 5173, label: 'vite' }) });
+    expect(allowed.status).toBe(200);
+    const open = await request(`${tunnels}/5173/open`, { method: 'POST', headers: auth });
+    const { url } = await open.json() as { url: string };
+
+    // El token de la URL se cambia por una cookie limitada a la ruta del túnel.
+    const login = await request(url, { redirect: 'manual' });
+    expect(login.status).toBe(302);
+    expect(login.headers.get('location')).toBe(`/tunnels/${worker.id}/5173/`);
+    const cookie = login.headers.get('set-cookie')!.split(';')[0];
+    expect(login.headers.get('set-cookie')).toContain(`Path=/tunnels/${worker.id}/5173/`);
+
+    const page = await request(`/tunnels/${worker.id}/5173/api/items?x=1`, { headers: { Cookie: `${cookie}; theme=dark` } });
+    expect(page.status).toBe(200);
+    expect(await page.text()).toBe('hola /api/items?x=1');
+    // En el origen de Nexus la app queda aislada y sin poder fijar cookies.
+    expect(page.headers.get('set-cookie')).toBeNull();
+    expect(page.headers.get('content-security-policy')).toMatch(/^sandbox /);
+    expect(opened[0]).toMatchObject({
+      port: 5173,
+      headers: { host: 'localhost:5173', cookie: 'theme=dark', 'x-forwarded-prefix': `/tunnels/${worker.id}/5173` },
+    });
+    // Un token de túnel no sirve como sesión de usuario.
+    const tunnelToken = decodeURIComponent(url.split('=')[1]);
+    expect((await request('/api/workers', { headers: { Authorization: `Bearer ${tunnelToken}` } })).status).toBe(401);
+
+    const removed = await request(`${tunnels}/5173`, { method: 'DELETE', headers: auth });
+    expect(removed.status).toBe(200);
+    const afterRemove = await request(`/tunnels/${worker.id}/5173/`, { headers: { Cookie: cookie } });
+    expect(afterRemove.status).toBe(403);
+    expect(opened).toHaveLength(1);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { io } from 'socket.io-client';
+import { connect, delay, useTenantNexus } from './nexus-harness';
+
+describe('métricas y protocolo del worker', () => {
+  const nexus = useTenantNexus();
+  const { request, createWorker, sockets } = nexus;
+
+  it('reenvía métricas del heartbeat solo a quien ve el worker y guarda el historial', async () => {
+    const worker = await createWorker(nexus.pabloToken, 'audit-metrics-worker');
+    const workerSocket = io(nexus.url, {
+      auth: { type: 'worker', apiKey: worker.api_key, workerName: 'audit-metrics-worker' },
+    });
+    const ownerSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloToken } });
+    const outsiderSocket = io(nexus.url, { auth: { type: 'client', token: nexus.miguelToken } });
+    sockets.push(workerSocket, ownerSocket, outsiderSocket);
+    await Promise.all([connect(workerSocket), connect(ownerSocket), connect(outsiderSocket)]);
+
+    let outsiderSaw = false;
+    outsiderSocket.on('worker-metrics', (message) => {
+      if (message?.workerId === worker.id) outsiderSaw = true;
+    });
+    const sample = {
+      cpu: 250,
+      load: [1.5, 1, 0.5],
+      cores: 4,
+      memTotal: 8e9,
+      memUsed: 2e9,
+      diskTotal: 1e11,
+      diskUsed: 4e10,
+      uptime: 3600,
+      ptys: 2,
+      version: '1.2.3',
+    };
+    const received = new Promise<{ workerId: string; metrics: Record<string, unknown> }>((resolve) => {
+      ownerSocket.on('worker-metrics', (message) => {
+        if (message?.workerId === worker.id) resolve(message);
+      });
+    });
+    workerSocket.emit('heartbeat');
+    workerSocket.emit('heartbeat', sample);
+    const live = await received;
+    expect(live.metrics).toMatchObject({ cpu: 100, memUsed: 2e9, ptys: 2, version: '1.2.3' });
+    expect(live.metrics.ts).toBeTypeOf('number');
+    await delay(150);
+    expect(outsiderSaw).toBe(false);
+
+    const lateSocket = io(nexus.url, { auth: { type: 'client', token: nexus.pabloToken }, forceNew: true });
+    sockets.push(lateSocket);
+    const history = new Promise<Record<string, Array<{ version: string }>>>((resolve) => {
+      lateSocket.once('worker-metrics-history', resolve);
+    });
+    await connect(lateSocket);
+    const samples = (await history)[worker.id];
+    expect(samples).toHaveLength(1);
+    expect(samples[0].version).toBe('1.2.3');
+
+    const cleared = new Promise<Record<string, unknown>>((resolve) => {
+      lateSocket.on('worker-metrics-history', (next: Record<string, unknown>) => {
+        if (!next[worker.id]) resolve(next);
+      });
+    });
+    workerSocket.disconnect();
+    await cleared;
+  });
+
+  it('guarda protocolo y capacidades del worker y rechaza protocolos retirados', async () => {
+    const modern = await createWorker(nexus.pabloToken, 'audit-protocol-worker');
+    const legacy = await createWorker(nexus.pabloToken, 'audit-legacy-worker');
+
+    const modernSocket = io(nexus.url, {
+      auth: {
+        type: 'worker',
+        apiKey: modern.api_key,
+        workerName: 'audit-protocol-worker',
+        protocol: 2,
+        version: '2.0.0',
+        capabilities: { features: ['shell', 'metrics', 'teleport'], shells: ['/bin/bash', 'zsh'] },
+      },
+    });
+    const legacySocket = io(nexus.url, {
+      auth: { type: 'worker', apiKey: legacy.api_key, workerName: 'audit-legacy-worker' },
+    });
+    sockets.push(modernSocket, legacySocket);
+    await Promise.all([connect(modernSocket), connect(legacySocket)]);
+
+    const response = await request('/api/workers', { headers: { Authorization: `Bearer ${nexus.pabloToken}` } });
+    const list = await response.json() as Array<{
+      id: string;
+      protocol_version: number;
+      worker_version: string | null;
+      capabilities: { features: string[]; shells: string[] };
+    }>;
+    expect(list.find((worker) => worker.id === modern.id)).toMatchObject({
+      protocol_version: 2,
+      worker_version: '2.0.0',
+      capabilities: { features: ['shell', 'metrics'], shells: ['/bin/bash'] },
+    });
+    const legacyItem = list.find((worker) => worker.id === legacy.id);
+    expect(legacyItem).toMatchObject({ protocol_version: 1, worker_version: null });
+    expect(legacyItem?.capabilities.features).not.toContain('metrics');
+
+    const retired = io(nexus.url, {
+      auth: { type: 'worker', apiKey: modern.api_key, workerName: 'audit-protocol-worker', protocol: 0 },
+      forceNew: true,
+      reconnection: false,
+    });
+    sockets.push(retired);
+    const refused = await new Promise<Error>((resolve) => retired.once('connect_error', resolve));
+    expect(refused.message).toMatch(/Unsupported worker protocol 0/);
+  });
+});
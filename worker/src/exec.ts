@@ -0,0 +1,146 @@
+import { spawn, ChildProcess } from 'child_process';
+import path from 'path';
+
+/**
+ * Non-interactive commands for the exec API: no PTY, stdout and stderr apart,
+ * exit code at the end. Like the PTY, commands run as the target user (via
+ * `su` when the worker is root, which keeps that user's groups).
+ *
+ * Output and the exit travel as `exec-output` / `exec-exit` events tagged
+ * with the id Nexus chose.
+ */
+
+export type ExecEmit = (event: string, payload: Record<string, unknown>) => void;
+
+export interface ExecUser {
+  username: string;
+  home: string;
+  shell: string;
+}
+
+export interface ExecStart {
+  id?: string;
+  command?: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  stdin?: string;
+  timeoutMs?: number;
+}
+
+const MAX_RUNNING = Math.max(1, Number(process.env.WORKER_EXEC_MAX_RUNNING || 16));
+// Tras SIGTERM, lo que no salga en este margen se mata con SIGKILL.
+const KILL_GRACE_MS = 2000;
+
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// Variables que cambian qué código carga el loader o el shell.
+const BLOCKED_ENV = /^(LD_.*|BASH_ENV|ENV|IFS|PATH|SHELLOPTS|BASHOPTS|PS4)$/;
+
+const running = new Map<string, { child: ChildProcess; kill: () => void }>();
+
+export const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+const errorCode = (err: unknown) => (err as NodeJS.ErrnoException)?.code || 'EIO';
+
+export function startExec(msg: ExecStart, user: ExecUser | null, emit: ExecEmit): { ok: true; pid: number } | { error: string } {
+  const id = msg.id;
+  if (!id || typeof id !== 'string' || running.has(id) || typeof msg.command !== 'string' || !msg.command.trim()) {
+    return { error: 'EINVAL' };
+  }
+  if (msg.cwd !== undefined && (typeof msg.cwd !== 'string' || !path.isAbsolute(msg.cwd))) return { error: 'EINVAL' };
+  if (running.size >= MAX_RUNNING) return { error: 'EMFILE' };
+
+  const extraEnv = Object.entries(msg.env || {});
+  if (extraEnv.some(([name, value]) => !ENV_NAME.test(name) || BLOCKED_ENV.test(name) || typeof value !== 'string')) {
+    return { error: 'EINVAL' };
+  }
+
+  const asRoot = typeof process.getuid === 'function' && process.getuid() === 0;
+  const shell = user?.shell || '/bin/sh';
+  const baseEnv: Record<string, string | undefined> = {
+    PATH: process.env.PATH,
+    LANG: process.env.LANG || 'en_US.UTF-8',
+    HOME: user?.home || process.env.HOME,
+  };
+  const cwd = msg.cwd || user?.home || process.cwd();
+
+  let file: string;
+  let args: string[];
+  let env: Record<string, string | undefined>;
+  let spawnCwd: string;
+  if (user && asRoot) {
+    // su corre como root: ni el env ni el cwd del llamante lo tocan. Se aplican
+    // dentro de `su -c`, ya como el usuario destino.
+    const assignments = extraEnv.map(([name, value]) => shellQuote(`${name}=${value}`)).join(' ');
+    const script = `cd -- ${shellQuote(cwd)} || exit 1; exec env ${assignments} ${shellQuote(shell)} -c ${shellQuote(msg.command)}`;
+    file = '/bin/su';
+    args = [user.username, '-s', '/bin/sh', '-c', script];
+    env = baseEnv;
+    spawnCwd = '/';
+  } else {
+    file = shell;
+    args = ['-c', msg.command];
+    env = { ...baseEnv, ...Object.fromEntries(extraEnv) };
+    spawnCwd = cwd;
+  }
+
+  let child: ChildProcess;
+  try {
+    // detached: el comando queda en su propio grupo y el timeout mata también a sus hijos.
+    child = spawn(file, args, {
+      cwd: spawnCwd,
+      env,
+      detached: true,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+  } catch (err) {
+    return { error: errorCode(err) };
+  }
+  if (child.pid === undefined) {
+    // Sin pid el spawn falló (cwd inexistente, por ejemplo); el error llega aparte.
+    child.on('error', () => undefined);
+    return { error: 'ENOENT' };
+  }
+
+  const startedAt = Date.now();
+  let timedOut = false;
+  let killTimer: NodeJS.Timeout | null = null;
+  const signalGroup = (signal: NodeJS.Signals) => {
+    try {
+      process.kill(-child.pid!, signal);
+    } catch {
+      // El grupo ya terminó.
+    }
+  };
+  const kill = () => {
+    signalGroup('SIGTERM');
+    killTimer ??= setTimeout(() => signalGroup('SIGKILL'), KILL_GRACE_MS);
+  };
+  const timeout = msg.timeoutMs && msg.timeoutMs > 0
+    ? setTimeout(() => { timedOut = true; kill(); }, msg.timeoutMs)
+    : null;
+
+  child.stdout!.on('data', (data: Buffer) => emit('exec-output', { id, stream: 'stdout', data }));
+  child.stderr!.on('data', (data: Buffer) => emit('exec-output', { id, stream: 'stderr', data }));
+  child.stdin!.on('error', () => undefined);
+  child.stdin!.end(typeof msg.stdin === 'string' ? msg.stdin : undefined);
+  child.on('error', () => undefined);
+  child.on('close', (exitCode, signal) => {
+    if (timeout) clearTimeout(timeout);
+    if (killTimer) clearTimeout(killTimer);
+    running.delete(id);
+    emit('exec-exit', { id, exitCode, signal, timedOut, durationMs: Date.now() - startedAt });
+  });
+
+  running.set(id, { child, kill });
+  return { ok: true, pid: child.pid };
+}
+
+/** Nexus gave up on the command (client went away). */
+export function killExec(msg: { id?: string }) {
+  if (msg?.id) running.get(msg.id)?.kill();
+}
+
+/** Without Nexus nobody gets the result; don't leave commands behind. */
+export function killAllExecs() {
+  for (const entry of running.values()) entry.kill();
+}
@@ -0,0 +1,266 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import readline from 'readline';
+import { spawn, ChildProcess } from 'child_process';
+import { shellQuote } from './exec';
+
+/**
+ * Filesystem work for the file RPCs, done as the PTY's target user. When the
+ * worker is root it never switches its own uid: a long-lived agent process
+ * started through `su` (which keeps the user's groups, as exec does) runs each
+ * operation and answers over stdin/stdout, one JSON line per request. Spools,
+ * recordings and everything else in the worker keep running as root.
+ *
+ * Operations are synchronous and throw errno errors; callers get the same
+ * error codes in either mode.
+ */
+
+export interface AgentUser {
+  username: string;
+  uid: number;
+  home: string;
+}
+
+export interface FileEntry {
+  name: string;
+  type: 'file' | 'dir' | 'other';
+  /** Symlink; `type` is what it points to. */
+  link: boolean;
+  size: number;
+  mode: number;
+  mtime: number;
+}
+
+export const contentHash = (data: Buffer | string) => crypto.createHash('sha256').update(data).digest('hex');
+
+const errnoError = (code: string) => Object.assign(new Error(code), { code });
+
+const errorCode = (err: unknown) => (err as NodeJS.ErrnoException)?.code || 'EIO';
+
+/** `name`, then `name (1).ext`, `name (2).ext`... whichever is free. */
+function freePath(dir: string, name: string): string {
+  const ext = path.extname(name);
+  const base = ext ? name.slice(0, -ext.length) : name;
+  for (let i = 0; ; i += 1) {
+    const candidate = path.join(dir, i === 0 ? name : `${base} (${i})${ext}`);
+    if (!fs.existsSync(candidate)) return candidate;
+  }
+}
+
+export const fileOps = {
+  // Creating the part file is the permission check: it fails as the shell would.
+  createPart: ({ path: target }: { path: string }) => {
+    fs.closeSync(fs.openSync(target, 'wx', 0o600));
+    return true;
+  },
+
+  append: ({ path: target, data }: { path: string; data: Buffer }) => {
+    fs.appendFileSync(target, data);
+    return true;
+  },
+
+  // link + unlink never clobbers a file that appeared meanwhile.
+  finishPart: ({ tempPath, dir, name }: { tempPath: string; dir: string; name: string }) => {
+    const target = freePath(dir, name);
+    fs.linkSync(tempPath, target);
+    fs.unlinkSync(tempPath);
+    fs.chmodSync(target, 0o644);
+    return target;
+  },
+
+  stat: ({ path: target }: { path: string }) => {
+    const stats = fs.statSync(target);
+    return { size: stats.size, mtime: stats.mtimeMs, isFile: stats.isFile() };
+  },
+
+  read: ({ path: target, offset, length }: { path: string; offset: number; length: number }) => {
+    const fd = fs.openSync(target, 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      const read = fs.readSync(fd, buffer, 0, length, offset);
+      return { data: buffer.subarray(0, read), eof: read < length };
+    } finally {
+      fs.closeSync(fd);
+    }
+  },
+
+  list: ({ path: target }: { path: string }) => fs.readdirSync(target).map((name): FileEntry => {
+    const full = path.join(target, name);
+    const lstat = fs.lstatSync(full);
+    let stats = lstat;
+    if (lstat.isSymbolicLink()) {
+      try {
+        stats = fs.statSync(full);
+      } catch {
+        // Enlace roto: se lista tal cual.
+      }
+    }
+    return {
+      name,
+      type: stats.isDirectory() ? 'dir' : stats.isFile() ? 'file' : 'other',
+      link: lstat.isSymbolicLink(),
+      size: stats.size,
+      mode: stats.mode & 0o7777,
+      mtime: stats.mtimeMs,
+    };
+  }),
+
+  rename: ({ from, to }: { from: string; to: string }) => {
+    if (fs.existsSync(to)) throw errnoError('EEXIST');
+    fs.renameSync(from, to);
+    return true;
+  },
+
+  remove: ({ path: target }: { path: string }) => {
+    fs.rmSync(target, { recursive: true });
+    return true;
+  },
+
+  mkdir: ({ path: target }: { path: string }) => {
+    fs.mkdirSync(target);
+    return true;
+  },
+
+  readText: ({ path: target, maxBytes }: { path: string; maxBytes: number }) => {
+    const stats = fs.statSync(target);
+    if (stats.isDirectory()) return { error: 'EISDIR' };
+    if (stats.size > maxBytes) return { error: 'EFBIG' };
+    const data = fs.readFileSync(target);
+    if (data.includes(0)) return { error: 'EBINARY' };
+    let writable = true;
+    try {
+      fs.accessSync(target, fs.constants.W_OK);
+    } catch {
+      writable = false;
+    }
+    return { content: data.toString('utf-8'), hash: contentHash(data), mtime: stats.mtimeMs, writable };
+  },
+
+  // Saves in place (keeps owner and mode, like `nano`) unless the file changed since it was read.
+  writeText: ({ path: target, data, expectedHash }: { path: string; data: Buffer; expectedHash: string }) => {
+    const current = fs.readFileSync(target);
+    if (contentHash(current) !== expectedHash) {
+      return { error: 'ECONFLICT' as const, hash: contentHash(current), mtime: fs.statSync(target).mtimeMs };
+    }
+    fs.writeFileSync(target, data);
+    return { hash: contentHash(data), mtime: fs.statSync(target).mtimeMs };
+  },
+};
+
+export type FileOp = keyof typeof fileOps;
+type OpArgs<K extends FileOp> = Parameters<typeof fileOps[K]>[0];
+type OpResult<K extends FileOp> = ReturnType<typeof fileOps[K]>;
+
+// Buffers cross the pipe as base64; only top-level fields carry them.
+const encode = (value: unknown): unknown => {
+  if (Buffer.isBuffer(value)) return { $base64: value.toString('base64') };
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    Buffer.isBuffer(item) ? { $base64: item.toString('base64') } : item,
+  ]));
+};
+
+const decode = (value: unknown): unknown => {
+  const fromBase64 = (item: unknown) => (item && typeof (item as { $base64?: unknown }).$base64 === 'string'
+    ? Buffer.from((item as { $base64: string }).$base64, 'base64')
+    : item);
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+  if ('$base64' in value) return fromBase64(value);
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fromBase64(item)]));
+};
+
+interface Agent {
+  child: ChildProcess;
+  pending: Map<number, { resolve: (result: unknown) => void; reject: (err: Error) => void }>;
+}
+
+const agents = new Map<string, Agent>();
+let nextRequestId = 0;
+
+/** How to run this file again: compiled, under ts-node, or inside a pkg binary. */
+function agentCommand(): { args: string[]; env: Record<string, string> } {
+  if ((process as { pkg?: unknown }).pkg) {
+    return { args: [path.join(__dirname, 'file-agent.js')], env: { PKG_EXECPATH: process.execPath } };
+  }
+  if (path.extname(__filename) === '.ts') {
+    return { args: ['-r', require.resolve('ts-node/register/transpile-only'), __filename], env: {} };
+  }
+  return { args: [__filename], env: {} };
+}
+
+function startAgent(user: AgentUser): Agent {
+  const { args, env } = agentCommand();
+  const script = `exec ${[process.execPath, ...args].map(shellQuote).join(' ')}`;
+  const child = spawn('/bin/su', [user.username, '-s', '/bin/sh', '-c', script], {
+    cwd: '/',
+    env: { PATH: process.env.PATH || '/usr/bin:/bin', LANG: process.env.LANG || 'en_US.UTF-8', HOME: user.home, ...env },
+    stdio: ['pipe', 'pipe', 'inherit'],
+  });
+  const agent: Agent = { child, pending: new Map() };
+
+  readline.createInterface({ input: child.stdout! }).on('line', (line) => {
+    let reply: { id?: number; result?: unknown; error?: string };
+    try {
+      reply = JSON.parse(line);
+    } catch {
+      return;
+    }
+    const request = reply.id === undefined ? undefined : agent.pending.get(reply.id);
+    if (!request) return;
+    agent.pending.delete(reply.id!);
+    if (reply.error !== undefined) request.reject(errnoError(reply.error));
+    else request.resolve(decode(reply.result));
+  });
+
+  // Si el agente muere, lo pendiente falla y la próxima operación arranca otro.
+  const stop = () => {
+    if (agents.get(user.username) === agent) agents.delete(user.username);
+    for (const request of agent.pending.values()) request.reject(errnoError('EIO'));
+    agent.pending.clear();
+  };
+  child.on('error', stop);
+  child.on('exit', stop);
+  child.stdin!.on('error', () => undefined);
+  return agent;
+}
+
+/** Runs one operation as `user`: in this process when no switch is needed. */
+export async function runFileOp<K extends FileOp>(user: AgentUser | null, op: K, args: OpArgs<K>): Promise<OpResult<K>> {
+  const isRoot = typeof process.geteuid === 'function' && process.geteuid() === 0;
+  if (!user || !isRoot || user.uid === 0) {
+    return (fileOps[op] as (args: OpArgs<K>) => OpResult<K>)(args);
+  }
+  let agent = agents.get(user.username);
+  if (!agent) {
+    agent = startAgent(user);
+    agents.set(user.username, agent);
+  }
+  const id = (nextRequestId += 1);
+  const { child, pending } = agent;
+  return new Promise<OpResult<K>>((resolve, reject) => {
+    pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+    child.stdin!.write(`${JSON.stringify({ id, op, args: encode(args) })}\n`);
+  });
+}
+
+/** Agent side: one request per line on stdin, one reply per line on stdout. */
+function serve() {
+  const lines = readline.createInterface({ input: process.stdin });
+  lines.on('line', (line) => {
+    let id: unknown;
+    try {
+      const request = JSON.parse(line) as { id: number; op: FileOp; args: unknown };
+      id = request.id;
+      if (!Object.prototype.hasOwnProperty.call(fileOps, request.op)) throw errnoError('EINVAL');
+      const result = (fileOps[request.op] as (args: unknown) => unknown)(decode(request.args));
+      process.stdout.write(`${JSON.stringify({ id, result: encode(result) })}\n`);
+    } catch (err) {
+      process.stdout.write(`${JSON.stringify({ id, error: errorCode(err) })}\n`);
+    }
+  });
+  lines.on('close', () => process.exit(0));
+}
+
+if (require.main === module) serve();
@@ -0,0 +1,265 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { runFileOp, type FileEntry } from './file-agent';
+
+export type { FileEntry } from './file-agent';
+
+/**
+ * File handlers for Nexus RPCs: transfers, the file browser and the editor.
+ * Everything touching the filesystem runs with the PTY's target user
+ * credentials (see file-agent.ts), so an upload, rename, delete or save only
+ * succeeds where that user could have done it from the shell.
+ *
+ * Replies are plain objects: the result, or `{ error: <errno code> }` that
+ * Nexus turns into a message for the browser.
+ */
+
+export interface FileUser {
+  username: string;
+  uid: number;
+  gid: number;
+  home: string;
+}
+
+export type FileReply<T> = T | { error: string; offset?: number };
+
+/** Largest slice moved per RPC; stays under Socket.IO's default 1 MB frame. */
+export const FILE_CHUNK_BYTES = 512 * 1024;
+const UPLOAD_IDLE_MS = 60 * 60 * 1000;
+
+interface Upload {
+  tempPath: string;
+  dir: string;
+  name: string;
+  size: number;
+  received: number;
+  touchedAt: number;
+}
+
+const uploads = new Map<string, Upload>();
+
+const errorCode = (err: unknown) => (err as NodeJS.ErrnoException)?.code || 'EIO';
+
+/**
+ * Current directory of a session's shell. When the worker is root the PTY runs
+ * `su`, so the shell is its child.
+ */
+export function processCwd(pid: number | undefined): string | null {
+  if (!pid) return null;
+  try {
+    let target = pid;
+    if (fs.readFileSync(`/proc/${pid}/comm`, 'utf-8').trim() === 'su') {
+      const [child] = fs.readFileSync(`/proc/${pid}/task/${pid}/children`, 'utf-8').trim().split(/\s+/);
+      if (child) target = Number(child);
+    }
+    return fs.readlinkSync(`/proc/${target}/cwd`);
+  } catch {
+    return null;
+  }
+}
+
+/** Resolves against `cwd` (or home), expanding a leading `~` like the shell. */
+function resolvePath(target: string, cwd: string | null | undefined, user: FileUser | null): string {
+  const home = user?.home || process.env.HOME || '/';
+  if (target === '~' || target.startsWith('~/')) return path.resolve(home, target.slice(2));
+  return path.resolve(cwd || home, target);
+}
+
+const validName = (name: unknown): name is string =>
+  typeof name === 'string' && name.length > 0 && name.length <= 255
+  && !name.includes('/') && !name.includes('\0') && name !== '.' && name !== '..';
+
+function sweepUploads() {
+  const now = Date.now();
+  for (const [uploadId, upload] of uploads.entries()) {
+    if (now - upload.touchedAt < UPLOAD_IDLE_MS) continue;
+    uploads.delete(uploadId);
+    fs.rmSync(upload.tempPath, { force: true });
+  }
+}
+
+export async function startUpload(
+  msg: { dir?: string; name?: string; size?: number },
+  user: FileUser | null
+): Promise<FileReply<{ uploadId: string; dir: string; offset: number }>> {
+  sweepUploads();
+  const size = Number(msg.size);
+  if (!msg.dir || !path.isAbsolute(msg.dir) || !validName(msg.name) || !Number.isInteger(size) || size < 0) {
+    return { error: 'EINVAL' };
+  }
+  const uploadId = crypto.randomUUID();
+  const dir = path.resolve(msg.dir);
+  const tempPath = path.join(dir, `.${msg.name}.${uploadId.slice(0, 8)}.part`);
+  try {
+    await runFileOp(user, 'createPart', { path: tempPath });
+  } catch (err) {
+    return { error: errorCode(err) };
+  }
+  uploads.set(uploadId, { tempPath, dir, name: msg.name, size, received: 0, touchedAt: Date.now() });
+  return { uploadId, dir, offset: 0 };
+}
+
+export function uploadStatus(msg: { uploadId?: string }): FileReply<{ offset: number; size: number }> {
+  const upload = msg.uploadId ? uploads.get(msg.uploadId) : undefined;
+  if (!upload) return { error: 'ENOENT' };
+  return { offset: upload.received, size: upload.size };
+}
+
+/**
+ * Appends one chunk at `offset`. A chunk for any other offset is refused with
+ * the current one, so a client that lost a reply knows where to resume.
+ */
+export async function uploadChunk(
+  msg: { uploadId?: string; offset?: number; data?: Buffer },
+  user: FileUser | null
+): Promise<FileReply<{ offset: number; done: boolean; path?: string }>> {
+  const upload = msg.uploadId ? uploads.get(msg.uploadId) : undefined;
+  if (!upload) return { error: 'ENOENT' };
+  const data = Buffer.isBuffer(msg.data) ? msg.data : Buffer.alloc(0);
+  if (msg.offset !== upload.received) return { error: 'EOFFSET', offset: upload.received };
+  if (upload.received + data.length > upload.size) return { error: 'EINVAL' };
+  // Reserved until the write lands: a retry of this chunk meanwhile gets EOFFSET.
+  upload.received += data.length;
+  try {
+    if (data.length > 0) await runFileOp(user, 'append', { path: upload.tempPath, data });
+  } catch (err) {
+    upload.received -= data.length;
+    return { error: errorCode(err) };
+  }
+  upload.touchedAt = Date.now();
+  if (upload.received < upload.size) return { offset: upload.received, done: false };
+  try {
+    const finalPath = await runFileOp(user, 'finishPart', { tempPath: upload.tempPath, dir: upload.dir, name: upload.name });
+    uploads.delete(msg.uploadId!);
+    return { offset: upload.received, done: true, path: finalPath };
+  } catch (err) {
+    return { error: errorCode(err) };
+  }
+}
+
+export function abortUpload(msg: { uploadId?: string }): FileReply<{ ok: true }> {
+  const upload = msg.uploadId ? uploads.get(msg.uploadId) : undefined;
+  if (!upload) return { error: 'ENOENT' };
+  uploads.delete(msg.uploadId!);
+  fs.rmSync(upload.tempPath, { force: true });
+  return { ok: true };
+}
+
+export async function statFile(
+  msg: { path?: string; cwd?: string | null },
+  user: FileUser | null
+): Promise<FileReply<{ path: string; size: number; mtime: number; isFile: boolean }>> {
+  if (!msg.path || typeof msg.path !== 'string') return { error: 'EINVAL' };
+  const target = resolvePath(msg.path, msg.cwd, user);
+  try {
+    return { path: target, ...(await runFileOp(user, 'stat', { path: target })) };
+  } catch (err) {
+    return { error: errorCode(err) };
+  }
+}
+
+export async function readChunk(
+  msg: { path?: string; offset?: number; length?: number },
+  user: FileUser | null
+): Promise<FileReply<{ data: Buffer; eof: boolean }>> {
+  const offset = Number(msg.offset);
+  const length = Math.min(FILE_CHUNK_BYTES, Number(msg.length) || FILE_CHUNK_BYTES);
+  if (!msg.path || !path.isAbsolute(msg.path) || !Number.isInteger(offset) || offset < 0) return { error: 'EINVAL' };
+  try {
+    return await runFileOp(user, 'read', { path: msg.path, offset, length });
+  } catch (err) {
+    return { error: errorCode(err) };
+  }
+}
+
+/** Directory listing, directories first. Relative paths start at `cwd`. */
+export async function listDir(
+  msg: { path?: string; cwd?: string | null },
+  user: FileUser | null
+): Promise<FileReply<{ path: string; parent: string | null; entries: FileEntry[] }>> {
+  const target = resolvePath(msg.path || '.', msg.cwd, user);
+  try {
+    const entries = await runFileOp(user, 'list', { path: target });
+    entries.sort((a, b) => Number(b.type === 'dir') - Number(a.type === 'dir') || a.name.localeCompare(b.name));
+    return { path: target, parent: target === '/' ? null : path.dirname(target), entries };
+  } catch (err) {
+    return { error: errorCode(err) };
+  }
+}
+
+/** Renames in place; never overwrites an existing entry. */
+export async function renamePath(
+  msg: { path?: string; name?: string },
+  user: FileUser | null
+): Promise<FileReply<{ path: string }>> {
+  if (!msg.path || !path.isAbsolute(msg.path) || msg.path === '/' || !validName(msg.name)) return { error: 'EINVAL' };
+  const target = path.join(path.dirname(msg.path), msg.name);
+  try {
+    await runFileOp(user, 'rename', { from: msg.path, to: target });
+    return { path: target };
+  } catch (err) {
+    return { error: errorCode(err) };
+  }
+}
+
+/** Deletes a file, link or whole directory (links are removed, not followed). */
+export async function removePath(msg: { path?: string }, user: FileUser | null): Promise<FileReply<{ ok: true }>> {
+  if (!msg.path || !path.isAbsolute(msg.path) || path.resolve(msg.path) === '/') return { error: 'EINVAL' };
+  try {
+    await runFileOp(user, 'remove', { path: path.resolve(msg.path) });
+    return { ok: true };
+  } catch (err) {
+    return { error: errorCode(err) };
+  }
+}
+
+export async function makeDir(msg: { path?: string; name?: string }, user: FileUser | null): Promise<FileReply<{ path: string }>> {
+  if (!msg.path || !path.isAbsolute(msg.path) || !validName(msg.name)) return { error: 'EINVAL' };
+  const target = path.join(msg.path, msg.name);
+  try {
+    await runFileOp(user, 'mkdir', { path: target });
+    return { path: target };
+  } catch (err) {
+    return { error: errorCode(err) };
+  }
+}
+
+/** Largest file the editor opens; its reply has to fit one Socket.IO frame. */
+export const EDITOR_MAX_BYTES = 512 * 1024;
+
+/** A UTF-8 file for the editor, with the hash a later save has to match. */
+export async function readText(
+  msg: { path?: string; cwd?: string | null },
+  user: FileUser | null
+): Promise<FileReply<{ path: string; content: string; hash: string; mtime: number; writable: boolean }>> {
+  if (!msg.path || typeof msg.path !== 'string') return { error: 'EINVAL' };
+  const target = resolvePath(msg.path, msg.cwd, user);
+  try {
+    const text = await runFileOp(user, 'readText', { path: target, maxBytes: EDITOR_MAX_BYTES });
+    if (text.error !== undefined) return { error: text.error };
+    return { path: target, ...text };
+  } catch (err) {
+    return { error: errorCode(err) };
+  }
+}
+
+/**
+ * Saves editor content in place (keeps owner and mode, like `nano`). Refused
+ * with ECONFLICT and the current hash when the file changed since it was read.
+ */
+export async function writeText(
+  msg: { path?: string; content?: string; expectedHash?: string },
+  user: FileUser | null
+): Promise<FileReply<{ hash: string; mtime: number }> | { error: 'ECONFLICT'; hash: string; mtime: number }> {
+  if (!msg.path || !path.isAbsolute(msg.path) || typeof msg.content !== 'string' || !msg.expectedHash) {
+    return { error: 'EINVAL' };
+  }
+  const data = Buffer.from(msg.content, 'utf-8');
+  if (data.length > EDITOR_MAX_BYTES) return { error: 'EFBIG' };
+  try {
+    return await runFileOp(user, 'writeText', { path: msg.path, data, expectedHash: msg.expectedHash });
+  } catch (err) {
+    return { error: errorCode(err) };
+  }
+}
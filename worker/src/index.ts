@@ -31,6 +31,12 @@ const setupNativeModulePaths = () => {
 setupNativeModulePaths();
 
 import * as pty from 'node-pty';
+import { OutputSpool, clearStaleSpools } from './output-spool';
+import { MetricsSampler } from './metrics';
+import * as files from './files';
+import * as tunnels from './tunnels';
+import * as exec from './exec';
+import { PROTOCOL_VERSION, WORKER_VERSION, workerCapabilities } from './protocol';
 
 const NEXUS_URL = process.env.NEXUS_URL || 'http://localhost:3002';
 const API_KEY = process.env.API_KEY || process.env.WORKER_TOKEN || '';
@@ -50,6 +56,11 @@ const isTuiSession = (sessionId: string) =>
 const LOG_EXECUTE = process.env.UT_LOG_EXECUTE === 'true';
 const OUTPUT_FLUSH_MS = Math.max(1, Number(process.env.UT_OUTPUT_FLUSH_MS || 16));
 const OUTPUT_MAX_BUFFER = Math.max(512, Number(process.env.UT_OUTPUT_MAX_BUFFER || 8192));
+// Output producido mientras Nexus no está disponible: memoria por sesión y, si
+// UT_SPOOL_DIR está definido, desborde a disco hasta UT_SPOOL_MAX_DISK_BYTES.
+const SPOOL_MAX_BYTES = Math.max(OUTPUT_MAX_BUFFER, Number(process.env.UT_SPOOL_MAX_BYTES || 256 * 1024));
+const SPOOL_DIR = process.env.UT_SPOOL_DIR?.trim() || undefined;
+const SPOOL_MAX_DISK_BYTES = Math.max(0, Number(process.env.UT_SPOOL_MAX_DISK_BYTES || 16 * 1024 * 1024));
 
 if (!API_KEY) {
   console.warn('[Worker] No API_KEY provided. Registration will likely be rejected by Nexus.');
@@ -61,7 +72,65 @@ let socket: Socket;
 const sessionShells = new Map<string, pty.IPty>();
 const sessionDimensions = new Map<string, { cols: number; rows: number }>();
 const sessionClientViewports = new Map<string, Map<string, { cols: number; rows: number }>>();
+const sessionStartedAt = new Map<string, number>();
+const sessionSpools = new Map<string, OutputSpool>();
 const killedSessions = new Set<string>();
+// PTYs Nexus asked to hold back because every viewer is behind on output.
+const pausedSessions = new Set<string>();
+// Nexus is shutting down: output goes to the spool until the next connect.
+let holdingOutput = false;
+
+clearStaleSpools(SPOOL_DIR);
+const metrics = new MetricsSampler();
+
+function spoolOutput(sessionId: string, output: Buffer) {
+  let spool = sessionSpools.get(sessionId);
+  if (!spool) {
+    spool = new OutputSpool(sessionId, {
+      maxMemoryBytes: SPOOL_MAX_BYTES,
+      diskDir: SPOOL_DIR,
+      maxDiskBytes: SPOOL_MAX_DISK_BYTES,
+    });
+    sessionSpools.set(sessionId, spool);
+  }
+  spool.push(output);
+}
+
+/**
+ * Replays spooled output in order. Runs synchronously right after connect, so
+ * nothing live can be emitted in between; `spooled` lets Nexus tell it apart.
+ */
+function drainSpools() {
+  for (const [sessionId, spool] of sessionSpools.entries()) {
+    const chunks = spool.drain();
+    for (const output of chunks) {
+      socket.emit('output', { sessionId, output, spooled: true });
+    }
+    if (chunks.length > 0) {
+      console.log(`[Worker] Replayed ${chunks.length} spooled chunk(s) for session ${sessionId.slice(-8)}.`);
+    }
+  }
+  sessionSpools.clear();
+}
+
+function setSessionPaused(sessionId: string, paused: boolean) {
+  const shell = sessionShells.get(sessionId);
+  if (!shell || pausedSessions.has(sessionId) === paused) return;
+  try {
+    if (paused) shell.pause();
+    else shell.resume();
+  } catch (e) {
+    console.warn(`[Worker] Error ${paused ? 'pausing' : 'resuming'} PTY for session ${sessionId}:`, e);
+    return;
+  }
+  if (paused) pausedSessions.add(sessionId);
+  else pausedSessions.delete(sessionId);
+}
+
+/** Nexus forgets its flow state when the link drops, so nothing stays paused. */
+function resumeAllSessions() {
+  for (const sessionId of Array.from(pausedSessions)) setSessionPaused(sessionId, false);
+}
 
 const normalizeSessionId = (sessionId?: string) => {
   const trimmed = sessionId?.trim();
@@ -87,6 +156,25 @@ function calculateSessionDimensions(sessionId: string): { cols: number; rows: nu
   return { cols: minCols, rows: minRows };
 }
 
+/**
+ * Tells Nexus which PTYs are still alive. Sent right after every connect so a
+ * Nexus restart or network blip doesn't hide sessions until someone types.
+ */
+function announceSessions() {
+  const sessions = Array.from(sessionShells.entries()).map(([sessionId, shell]) => ({
+    sessionId,
+    cols: shell.cols,
+    rows: shell.rows,
+    kind: isTuiSession(sessionId) ? 'tui' : 'shell',
+    pid: shell.pid,
+    startedAt: sessionStartedAt.get(sessionId) ?? Date.now(),
+  }));
+  socket.emit('session-announce', { sessions });
+  if (sessions.length > 0) {
+    console.log(`[Worker] Announced ${sessions.length} live session(s) to Nexus.`);
+  }
+}
+
 let retryDelay = 1000;
 const MAX_RETRY_DELAY = 30000;
 let heartbeatInterval: NodeJS.Timeout | null = null;
@@ -95,23 +183,36 @@ function connect() {
   socket = io(NEXUS_URL, {
     reconnection: false,
     transports: ['websocket'],
-    auth: { type: 'worker', apiKey: API_KEY, workerName: WORKER_NAME }
+    auth: {
+      type: 'worker',
+      apiKey: API_KEY,
+      workerName: WORKER_NAME,
+      protocol: PROTOCOL_VERSION,
+      version: WORKER_VERSION,
+      capabilities: workerCapabilities({ tui: Boolean(TUI_CMD), tunnels: tunnels.tunnelsEnabled() }),
+    }
   });
 
   socket.on('connect', () => {
     console.log('[Worker] Connected to Nexus.');
     retryDelay = 1000;
+    holdingOutput = false;
+    announceSessions();
+    drainSpools();
 
     if (heartbeatInterval) clearInterval(heartbeatInterval);
     heartbeatInterval = setInterval(() => {
       if (socket.connected) {
-        socket.emit('heartbeat');
+        socket.emit('heartbeat', metrics.sample(sessionShells.size));
       }
     }, HEARTBEAT_MS);
   });
 
   socket.on('disconnect', (reason) => {
     console.log(`[Worker] Disconnected: ${reason}`);
+    resumeAllSessions();
+    tunnels.closeAllTunnels();
+    exec.killAllExecs();
     if (heartbeatInterval) {
       clearInterval(heartbeatInterval);
       heartbeatInterval = null;
@@ -121,6 +222,11 @@ function connect() {
 
   socket.on('connect_error', (err) => {
     console.log(`[Worker] Connection error: ${err.message}`);
+    if (err.message.startsWith('Unsupported worker protocol')) {
+      // Nexus could be rolled back, so keep retrying at the slowest pace.
+      console.error(`[Worker] Nexus refused protocol ${PROTOCOL_VERSION} (worker ${WORKER_VERSION}). Update this worker.`);
+      retryDelay = MAX_RETRY_DELAY;
+    }
     scheduleReconnect();
   });
 
@@ -196,14 +302,112 @@ function connect() {
       shell = createShellForSession(sessionId, finalCols, finalRows);
       sessionShells.set(sessionId, shell);
     }
+    socket.emit('session-resized', { sessionId, cols: finalCols, rows: finalRows });
+  });
+
+  // Nexus va a apagarse: el ack le confirma que ya recibió todo el output
+  // anterior, y lo que venga espera en el spool.
+  socket.on('nexus-stopping', (_msg: unknown, reply) => {
+    holdingOutput = true;
+    reply?.(true);
+  });
+
+  socket.on('pause-output', (data: { sessionId?: string }) => {
+    const sessionId = normalizeSessionId(data?.sessionId);
+    if (sessionId) setSessionPaused(sessionId, true);
+  });
+
+  socket.on('resume-output', (data: { sessionId?: string }) => {
+    const sessionId = normalizeSessionId(data?.sessionId);
+    if (sessionId) setSessionPaused(sessionId, false);
+  });
+
+  // File RPCs from Nexus. Relative paths and uploads without a
+  // directory resolve against the session's current directory.
+  const sessionCwd = (sessionId?: string) => {
+    const id = normalizeSessionId(sessionId);
+    return files.processCwd(id ? sessionShells.get(id)?.pid : undefined) || targetUser?.home || process.cwd();
+  };
+
+  socket.on('file-upload-start', async (msg: { sessionId?: string; dir?: string; name?: string; size?: number }, reply) => {
+    reply?.(await files.startUpload({ ...msg, dir: msg.dir || sessionCwd(msg.sessionId) }, targetUser));
+  });
+
+  socket.on('file-upload-status', (msg: { uploadId?: string }, reply) => {
+    reply?.(files.uploadStatus(msg));
+  });
+
+  socket.on('file-upload-chunk', async (msg: { uploadId?: string; offset?: number; data?: Buffer }, reply) => {
+    reply?.(await files.uploadChunk(msg, targetUser));
+  });
+
+  socket.on('file-upload-abort', (msg: { uploadId?: string }, reply) => {
+    reply?.(files.abortUpload(msg));
+  });
+
+  socket.on('file-stat', async (msg: { sessionId?: string; path?: string }, reply) => {
+    reply?.(await files.statFile({ path: msg.path, cwd: sessionCwd(msg.sessionId) }, targetUser));
+  });
+
+  socket.on('file-read', async (msg: { path?: string; offset?: number; length?: number }, reply) => {
+    reply?.(await files.readChunk(msg, targetUser));
+  });
+
+  socket.on('file-list', async (msg: { sessionId?: string; path?: string }, reply) => {
+    reply?.(await files.listDir({ path: msg.path, cwd: sessionCwd(msg.sessionId) }, targetUser));
+  });
+
+  socket.on('file-rename', async (msg: { path?: string; name?: string }, reply) => {
+    reply?.(await files.renamePath(msg, targetUser));
+  });
+
+  socket.on('file-delete', async (msg: { path?: string }, reply) => {
+    reply?.(await files.removePath(msg, targetUser));
   });
 
+  socket.on('file-mkdir', async (msg: { path?: string; name?: string }, reply) => {
+    reply?.(await files.makeDir(msg, targetUser));
+  });
+
+  socket.on('file-read-text', async (msg: { sessionId?: string; path?: string }, reply) => {
+    reply?.(await files.readText({ path: msg.path, cwd: sessionCwd(msg.sessionId) }, targetUser));
+  });
+
+  socket.on('file-write-text', async (msg: { path?: string; content?: string; expectedHash?: string }, reply) => {
+    reply?.(await files.writeText(msg, targetUser));
+  });
+
+  // Tunnels: Nexus already checked the port allowlist and the user's access.
+  const emitTunnel: tunnels.TunnelEmit = (event, payload) => socket.emit(event, payload);
+
+  socket.on('tunnel-open', (msg: tunnels.TunnelOpen, reply) => {
+    reply?.(tunnels.openTunnel(msg, emitTunnel));
+  });
+
+  socket.on('tunnel-data', (msg: { id?: string; data?: Buffer }) => tunnels.writeTunnel(msg));
+  socket.on('tunnel-end', (msg: { id?: string }) => tunnels.endTunnel(msg));
+  socket.on('tunnel-close', (msg: { id?: string }) => tunnels.closeTunnel(msg));
+
+  socket.on('tunnel-scan', (_msg: unknown, reply) => {
+    reply?.(tunnels.tunnelsEnabled() ? { ports: tunnels.listeningPorts() } : { error: 'EPERM' });
+  });
+
+  // Exec API: one command without a PTY, as the same user the PTY runs as.
+  socket.on('exec-start', (msg: exec.ExecStart, reply) => {
+    reply?.(exec.startExec(msg, targetUser, (event, payload) => socket.emit(event, payload)));
+  });
+
+  socket.on('exec-kill', (msg: { id?: string }) => exec.killExec(msg));
+
   socket.on('kill-session', (data: { sessionId: string }) => {
     const sessionId = normalizeSessionId(data.sessionId);
     if (!sessionId) return;
     killedSessions.add(sessionId);
     sessionDimensions.delete(sessionId);
     sessionClientViewports.delete(sessionId);
+    sessionStartedAt.delete(sessionId);
+    sessionSpools.get(sessionId)?.discard();
+    sessionSpools.delete(sessionId);
     const shell = sessionShells.get(sessionId);
     if (shell) {
       console.log(`[Worker] Killing PTY for session ${sessionId} (explicit close)`);
@@ -360,8 +564,12 @@ function createShellForSession(
     cols,
     rows,
     cwd: shellCwd,
-    env: shellEnv as any
+    env: shellEnv as any,
+    // Raw bytes: decoding here would mangle UTF-8 split across reads and
+    // anything that isn't text (sz, image protocols).
+    encoding: null,
   });
+  sessionStartedAt.set(sessionId, Date.now());
 
   // Buffer output to prevent packet storms
   const FLUSH_DELAY_MS = OUTPUT_FLUSH_MS;
@@ -370,25 +578,33 @@ function createShellForSession(
   // Using global/outer scope maps for buffers if they don't exist yet, 
   // but here we can attach them to the shell or keep local since this function is closure-heavy.
   // However, to avoid complexity with closures, we'll keep simple local variables for this shell instance.
-  let outputBuffer = '';
+  let outputChunks: Buffer[] = [];
+  let outputBytes = 0;
   let flushTimer: NodeJS.Timeout | null = null;
 
   const flush = () => {
-    if (!outputBuffer) return;
-    if (socket && socket.connected) {
-      socket.emit('output', { sessionId, output: outputBuffer });
+    if (outputBytes === 0) return;
+    const output = Buffer.concat(outputChunks, outputBytes);
+    if (socket && socket.connected && !holdingOutput) {
+      socket.emit('output', { sessionId, output });
+    } else if (!killedSessions.has(sessionId)) {
+      spoolOutput(sessionId, output);
     }
-    outputBuffer = '';
+    outputChunks = [];
+    outputBytes = 0;
     if (flushTimer) {
       clearTimeout(flushTimer);
       flushTimer = null;
     }
   };
 
-  shell.onData((data) => {
-    outputBuffer += data;
+  // With `encoding: null` node-pty hands out Buffers despite its typings.
+  shell.onData((data: string | Buffer) => {
+    const chunk = typeof data === 'string' ? Buffer.from(data, 'utf-8') : data;
+    outputChunks.push(chunk);
+    outputBytes += chunk.length;
 
-    if (outputBuffer.length > MAX_BUFFER_SIZE) {
+    if (outputBytes > MAX_BUFFER_SIZE) {
       flush();
     } else if (!flushTimer) {
       flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
@@ -398,9 +614,11 @@ function createShellForSession(
   shell.onExit(({ exitCode, signal }) => {
     console.log(`[Worker] Shell for session ${sessionId} exited (Code: ${exitCode}, Signal: ${signal}).`);
     sessionShells.delete(sessionId);
+    pausedSessions.delete(sessionId);
     if (killedSessions.has(sessionId)) {
       killedSessions.delete(sessionId);
       sessionDimensions.delete(sessionId);
+      sessionStartedAt.delete(sessionId);
       if (socket && socket.connected) {
         socket.emit('session-shell-exited', { sessionId, exitCode, signal });
       }
@@ -415,12 +633,13 @@ function createShellForSession(
           sessionShells.set(sessionId, newShell);
           socket.emit('output', {
             sessionId,
-            output: `\r\n\x1b[33m[Shell exited with code ${exitCode}. New shell started.]\x1b[0m\r\n\r\n`,
+            output: Buffer.from(`\r\n\x1b[33m[Shell exited with code ${exitCode}. New shell started.]\x1b[0m\r\n\r\n`),
           });
         }
       }, 500);
     } else {
       sessionDimensions.delete(sessionId);
+      sessionStartedAt.delete(sessionId);
       if (socket && socket.connected) {
         socket.emit('session-shell-exited', { sessionId, exitCode, signal });
       }
@@ -0,0 +1,76 @@
+import os from 'os';
+import fs from 'fs';
+import { WORKER_VERSION } from './protocol';
+
+/** Health snapshot sent with every heartbeat. Byte counts, seconds and percentages. */
+export interface WorkerMetrics {
+  cpu: number;
+  load: [number, number, number];
+  cores: number;
+  memTotal: number;
+  memUsed: number;
+  diskTotal: number;
+  diskUsed: number;
+  uptime: number;
+  ptys: number;
+  version: string;
+}
+
+const cpuTimes = () => os.cpus().reduce((acc, cpu) => {
+  const { user, nice, sys, idle, irq } = cpu.times;
+  acc.busy += user + nice + sys + irq;
+  acc.total += user + nice + sys + idle + irq;
+  return acc;
+}, { busy: 0, total: 0 });
+
+/**
+ * Samples host health. CPU usage is measured between two calls, so the first
+ * sample after start falls back to the 1-minute load average.
+ */
+export class MetricsSampler {
+  private readonly version = WORKER_VERSION;
+  private readonly diskPath: string;
+  private lastCpu = cpuTimes();
+  private primed = false;
+
+  constructor(diskPath = process.env.UT_METRICS_DISK_PATH || '/') {
+    this.diskPath = diskPath;
+  }
+
+  sample(ptys: number): WorkerMetrics {
+    const cores = os.cpus().length || 1;
+    const load = os.loadavg().map((value) => Math.round(value * 100) / 100) as [number, number, number];
+    const now = cpuTimes();
+    const busy = now.busy - this.lastCpu.busy;
+    const total = now.total - this.lastCpu.total;
+    this.lastCpu = now;
+    const cpu = this.primed && total > 0
+      ? (busy / total) * 100
+      : Math.min(100, (load[0] / cores) * 100);
+    this.primed = true;
+
+    let diskTotal = 0;
+    let diskUsed = 0;
+    try {
+      const stats = fs.statfsSync(this.diskPath);
+      diskTotal = stats.blocks * stats.bsize;
+      diskUsed = (stats.blocks - stats.bfree) * stats.bsize;
+    } catch {
+      // Sin statfs (p.ej. path inexistente) se reporta 0 y Nexus no pinta el disco.
+    }
+
+    const memTotal = os.totalmem();
+    return {
+      cpu: Math.round(cpu * 10) / 10,
+      load,
+      cores,
+      memTotal,
+      memUsed: memTotal - os.freemem(),
+      diskTotal,
+      diskUsed,
+      uptime: Math.round(os.uptime()),
+      ptys,
+      version: this.version,
+    };
+  }
+}
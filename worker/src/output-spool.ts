@@ -0,0 +1,128 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface SpoolOptions {
+  /** Bytes kept in memory before spilling to disk (or dropping the oldest output). */
+  maxMemoryBytes: number;
+  /** Directory for on-disk overflow. Without it the spool is memory-only. */
+  diskDir?: string;
+  maxDiskBytes: number;
+}
+
+const SPOOL_SUFFIX = '.spool';
+// Keeps each replayed message far below Socket.IO's default 1MB payload limit.
+const DRAIN_CHUNK_BYTES = 64 * 1024;
+
+// Output is raw PTY bytes, so pieces can split anywhere: the receiving end
+// decodes the stream, not each message.
+const splitChunk = (data: Buffer): Buffer[] => {
+  const pieces: Buffer[] = [];
+  for (let start = 0; start < data.length; start += DRAIN_CHUNK_BYTES) {
+    pieces.push(data.subarray(start, start + DRAIN_CHUNK_BYTES));
+  }
+  return pieces;
+};
+
+/**
+ * Removes overflow files left by a previous worker process. Their PTYs died
+ * with it, so there is nothing to replay them into.
+ */
+export function clearStaleSpools(diskDir?: string): void {
+  if (!diskDir || !fs.existsSync(diskDir)) return;
+  for (const name of fs.readdirSync(diskDir)) {
+    if (!name.endsWith(SPOOL_SUFFIX)) continue;
+    try {
+      fs.unlinkSync(path.join(diskDir, name));
+    } catch (err) {
+      console.warn(`[Worker] Could not remove stale spool ${name}:`, err);
+    }
+  }
+}
+
+/**
+ * Bounded, ordered buffer for PTY output produced while Nexus is unreachable.
+ * Older output lives on disk (when enabled) and newer output in memory, so
+ * draining disk first and memory second preserves the original order.
+ */
+export class OutputSpool {
+  private readonly options: SpoolOptions;
+  private readonly diskPath?: string;
+  private memory: Buffer[] = [];
+  private memoryBytes = 0;
+  private diskBytes = 0;
+  private droppedBytes = 0;
+
+  constructor(sessionId: string, options: SpoolOptions) {
+    this.options = options;
+    if (options.diskDir) {
+      const safeId = sessionId.replace(/[^a-zA-Z0-9._-]/g, '_');
+      this.diskPath = path.join(options.diskDir, `${process.pid}-${safeId}${SPOOL_SUFFIX}`);
+    }
+  }
+
+  get isEmpty(): boolean {
+    return this.memoryBytes === 0 && this.diskBytes === 0 && this.droppedBytes === 0;
+  }
+
+  push(data: Buffer): void {
+    if (data.length === 0) return;
+    this.memory.push(data);
+    this.memoryBytes += data.length;
+    if (this.memoryBytes > this.options.maxMemoryBytes) {
+      this.spill();
+    }
+  }
+
+  /** Returns the spooled output in order and resets the spool. */
+  drain(): Buffer[] {
+    const chunks: Buffer[] = [];
+    if (this.diskPath && this.diskBytes > 0) {
+      try {
+        chunks.push(...splitChunk(fs.readFileSync(this.diskPath)));
+      } catch (err) {
+        console.warn('[Worker] Could not read output spool:', err);
+      }
+    }
+    if (this.droppedBytes > 0) {
+      chunks.push(Buffer.from(`\r\n\x1b[33m[${this.droppedBytes} bytes of output were dropped while disconnected]\x1b[0m\r\n`));
+    }
+    chunks.push(...this.memory);
+    this.discard();
+    return chunks;
+  }
+
+  discard(): void {
+    this.memory = [];
+    this.memoryBytes = 0;
+    this.droppedBytes = 0;
+    if (this.diskPath && this.diskBytes > 0) {
+      fs.rmSync(this.diskPath, { force: true });
+    }
+    this.diskBytes = 0;
+  }
+
+  private spill(): void {
+    const { diskDir, maxDiskBytes } = this.options;
+    // Once output has been dropped, later spills would land after the gap
+    // marker's position; keep the remaining tail in memory instead.
+    if (this.diskPath && diskDir && this.droppedBytes === 0
+      && this.diskBytes + this.memoryBytes <= maxDiskBytes) {
+      try {
+        fs.mkdirSync(diskDir, { recursive: true });
+        fs.appendFileSync(this.diskPath, Buffer.concat(this.memory));
+        this.diskBytes += this.memoryBytes;
+        this.memory = [];
+        this.memoryBytes = 0;
+        return;
+      } catch (err) {
+        console.warn('[Worker] Could not write output spool to disk:', err);
+      }
+    }
+
+    while (this.memoryBytes > this.options.maxMemoryBytes && this.memory.length > 0) {
+      const dropped = this.memory.shift()!;
+      this.memoryBytes -= dropped.length;
+      this.droppedBytes += dropped.length;
+    }
+  }
+}
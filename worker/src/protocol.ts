@@ -0,0 +1,41 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Handshake sent to Nexus on every connect. Bump the protocol when a change
+ * needs Nexus to know about it; new optional features only add a capability.
+ */
+export const PROTOCOL_VERSION = 2;
+
+export const WORKER_VERSION = (() => {
+  if (process.env.WORKER_VERSION) return process.env.WORKER_VERSION;
+  try {
+    const pkg = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../package.json'), 'utf-8'));
+    return String(pkg.version || 'unknown');
+  } catch {
+    return 'unknown';
+  }
+})();
+
+const CANDIDATE_SHELLS = ['/usr/bin/zsh', '/bin/zsh', '/usr/bin/bash', '/bin/bash', '/usr/bin/fish', '/bin/sh'];
+
+/** Shells listed in /etc/shells, or the usual suspects when it is missing. */
+export function detectShells(): string[] {
+  let listed: string[] = [];
+  try {
+    listed = fs.readFileSync('/etc/shells', 'utf-8')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.startsWith('/'));
+  } catch {
+    listed = CANDIDATE_SHELLS;
+  }
+  return Array.from(new Set(listed)).filter((shell) => fs.existsSync(shell));
+}
+
+export function workerCapabilities(options: { tui: boolean; tunnels: boolean }) {
+  const features = ['shell', 'announce', 'spool', 'metrics', 'binary', 'flow', 'files', 'exec'];
+  if (options.tui) features.push('tui');
+  if (options.tunnels) features.push('tunnel');
+  return { features, shells: detectShells() };
+}
@@ -0,0 +1,145 @@
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import tls from 'tls';
+
+/**
+ * Port forwarding for Nexus tunnels. Nexus decides who may reach which port;
+ * the worker only ever dials `localhost` and streams bytes back over its
+ * socket, tagged with the stream id Nexus picked.
+ *
+ * - `http`: one request/response, proxied with `http.request`.
+ * - `raw`: a TCP pipe that starts with the request head Nexus forwards. Used
+ *   for WebSocket upgrades, so the local server answers the handshake itself.
+ */
+
+export type TunnelEmit = (event: string, payload: Record<string, unknown>) => void;
+
+export interface TunnelOpen {
+  id?: string;
+  port?: number;
+  tls?: boolean;
+  mode?: 'http' | 'raw';
+  method?: string;
+  path?: string;
+  headers?: Record<string, string | string[]>;
+  head?: Buffer;
+}
+
+const MAX_STREAMS = Math.max(1, Number(process.env.WORKER_TUNNEL_MAX_STREAMS || 128));
+
+interface Stream {
+  write: (data: Buffer) => void;
+  end: () => void;
+  destroy: () => void;
+}
+
+const streams = new Map<string, Stream>();
+
+const errorCode = (err: unknown) => (err as NodeJS.ErrnoException)?.code || 'EIO';
+const validPort = (port: unknown): port is number => Number.isInteger(port) && Number(port) > 0 && Number(port) < 65536;
+
+export const tunnelsEnabled = () => process.env.WORKER_TUNNELS !== 'false';
+
+export function openTunnel(msg: TunnelOpen, emit: TunnelEmit): { ok: true } | { error: string } {
+  if (!tunnelsEnabled()) return { error: 'EPERM' };
+  const id = msg.id;
+  if (!id || typeof id !== 'string' || streams.has(id) || !validPort(msg.port)) return { error: 'EINVAL' };
+  if (streams.size >= MAX_STREAMS) return { error: 'EMFILE' };
+
+  let finished = false;
+  const finish = (event: 'tunnel-end' | 'tunnel-error', error?: unknown) => {
+    if (finished) return;
+    finished = true;
+    streams.delete(id);
+    emit(event, error === undefined ? { id } : { id, error: errorCode(error) });
+  };
+
+  if (msg.mode === 'raw') {
+    const options = { host: 'localhost', port: msg.port, autoSelectFamily: true };
+    const upstream = msg.tls
+      ? tls.connect({ ...options, rejectUnauthorized: false, servername: 'localhost' })
+      : net.connect(options);
+    if (Buffer.isBuffer(msg.head)) upstream.write(msg.head);
+    upstream.on('data', (data: Buffer) => emit('tunnel-data', { id, data }));
+    upstream.on('end', () => finish('tunnel-end'));
+    upstream.on('close', () => finish('tunnel-end'));
+    upstream.on('error', (err) => finish('tunnel-error', err));
+    streams.set(id, {
+      write: (data) => upstream.write(data),
+      end: () => upstream.end(),
+      destroy: () => upstream.destroy(),
+    });
+    return { ok: true };
+  }
+
+  // Los servidores locales de desarrollo suelen tener certificados autofirmados.
+  const request = (msg.tls ? https : http).request({
+    host: 'localhost',
+    port: msg.port,
+    method: msg.method || 'GET',
+    path: msg.path || '/',
+    headers: msg.headers || {},
+    rejectUnauthorized: false,
+    autoSelectFamily: true,
+  } as https.RequestOptions);
+  request.on('response', (response) => {
+    emit('tunnel-response', { id, status: response.statusCode || 502, headers: response.headers });
+    response.on('data', (data: Buffer) => emit('tunnel-data', { id, data }));
+    response.on('end', () => finish('tunnel-end'));
+    response.on('error', (err) => finish('tunnel-error', err));
+  });
+  request.on('error', (err) => finish('tunnel-error', err));
+  streams.set(id, {
+    write: (data) => request.write(data),
+    end: () => request.end(),
+    destroy: () => request.destroy(),
+  });
+  return { ok: true };
+}
+
+export function writeTunnel(msg: { id?: string; data?: Buffer }) {
+  if (msg?.id && Buffer.isBuffer(msg.data)) streams.get(msg.id)?.write(msg.data);
+}
+
+export function endTunnel(msg: { id?: string }) {
+  if (msg?.id) streams.get(msg.id)?.end();
+}
+
+export function closeTunnel(msg: { id?: string }) {
+  const stream = msg?.id ? streams.get(msg.id) : undefined;
+  if (!stream) return;
+  streams.delete(msg.id!);
+  stream.destroy();
+}
+
+/** Nexus went away: nobody is left to read these streams. */
+export function closeAllTunnels() {
+  for (const stream of streams.values()) stream.destroy();
+  streams.clear();
+}
+
+const LISTEN_STATE = '0A';
+// 0.0.0.0, 127.x, :: y ::1 (también 127.0.0.1 mapeado a IPv6).
+const REACHABLE_ADDRESS = /^(?:00000000|[0-9A-F]{6}7F|0{32}|0{24}01000000|0{16}FFFF0000[0-9A-F]{6}7F)$/;
+
+/** TCP ports listening on loopback or every interface, from /proc/net. */
+export function listeningPorts(): number[] {
+  const ports = new Set<number>();
+  for (const file of ['/proc/net/tcp', '/proc/net/tcp6']) {
+    let table = '';
+    try {
+      table = fs.readFileSync(file, 'utf-8');
+    } catch {
+      continue;
+    }
+    for (const line of table.split('\n').slice(1)) {
+      const [, local, , state] = line.trim().split(/\s+/);
+      if (state !== LISTEN_STATE || !local) continue;
+      const [address, port] = local.split(':');
+      if (REACHABLE_ADDRESS.test(address)) ports.add(parseInt(port, 16));
+    }
+  }
+  return Array.from(ports).sort((a, b) => a - b);
+}